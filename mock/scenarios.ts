@@ -0,0 +1,139 @@
+// mock/scenarios.ts
+// Scenario files (mock/scenarios/*.json) script one assistant run each.
+//
+//   {
+//     "name": "greeting",
+//     "match": ["hello", "hi"],          // keywords (case-insensitive) in the user's text
+//     "transcript": "Hello there",       // what the mock "heard" for an audio_query
+//     "steps": [
+//       { "emit": "response_start" },
+//       { "emotion": "joy", "intensity": 2 },
+//       { "say": "Hi! Nice to meet you.", "ms_per_token": 35 },
+//       { "speak": true },                 // synthesize audio for everything said so far
+//       { "slides": { "title": "…", "summary": "…", "editorjs": { "blocks": [] } } },
+//       { "wait": 300 },
+//       { "emit": "response_done", "data": { "timings": {} } }   // any raw event
+//     ]
+//   }
+
+import { readdirSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+import { synthSpeech } from './synth.ts'
+
+export type Step =
+  | { wait: number }
+  | { emit: string; data?: Record<string, unknown> }
+  | { emotion: string; intensity?: number }
+  | { say: string; ms_per_token?: number }
+  | { speak: true | string }
+  | { slides: { title?: string; summary?: string; editorjs?: unknown }; stream_chunks?: number }
+  | { error: string }
+
+export type Scenario = {
+  name: string
+  description?: string
+  match?: string[]
+  transcript?: string
+  steps: Step[]
+}
+
+export function loadScenarios(dir: string): Scenario[] {
+  const out: Scenario[] = []
+  for (const f of readdirSync(dir).filter(f => f.endsWith('.json')).sort()) {
+    try {
+      const sc = JSON.parse(readFileSync(path.join(dir, f), 'utf8')) as Scenario
+      if (!Array.isArray(sc.steps)) throw new Error('missing "steps"')
+      sc.name ||= path.basename(f, '.json')
+      out.push(sc)
+    } catch (e) {
+      console.warn(`[mock] skipping scenario ${f}:`, e instanceof Error ? e.message : e)
+    }
+  }
+  return out
+}
+
+export function pickScenario(all: Scenario[], text: string, forced?: string): Scenario | undefined {
+  if (forced) return all.find(s => s.name === forced)
+  const q = text.toLowerCase()
+  return all.find(s => s.match?.some(k => q.includes(k.toLowerCase())))
+    ?? all.find(s => s.name === 'default')
+    ?? all[0]
+}
+
+export type RunContext = {
+  send: (ev: Record<string, unknown>) => void
+  muted: () => boolean
+  cancelled: () => boolean
+  /** Latest slides version for the thread, so streamed decks always move forward */
+  nextSlidesVersion: () => number
+  onSlides: (deck: { title: string; summary: string; editorjs: unknown; version: number }) => void
+}
+
+export type RunResult = { reply: string; emotion: { name: string; intensity: number } | null }
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
+
+export async function runScenario(sc: Scenario, ctx: RunContext): Promise<RunResult> {
+  let said = ''
+  let spokenUpTo = 0
+  let chunkIndex = 0
+  let offsetMs = 0
+  let emotion: RunResult['emotion'] = null
+
+  for (const step of sc.steps) {
+    if (ctx.cancelled()) break
+
+    if ('wait' in step) {
+      await sleep(step.wait)
+    } else if ('emit' in step) {
+      ctx.send({ ...step.data, type: step.emit })
+    } else if ('emotion' in step) {
+      emotion = { name: step.emotion, intensity: step.intensity ?? 1 }
+      ctx.send({ type: 'emotion', emotion })
+    } else if ('say' in step) {
+      // word-ish tokens, keeping the whitespace like an LLM stream would
+      const tokens: string[] = step.say.match(/\s*\S+/g) ?? []
+      if (said && !/\s$/.test(said) && tokens.length) tokens[0] = tokens[0].startsWith(' ') ? tokens[0] : ` ${tokens[0]}`
+      for (const token of tokens) {
+        if (ctx.cancelled()) break
+        ctx.send({ type: 'text_token', token })
+        said += token
+        await sleep(step.ms_per_token ?? 40)
+      }
+    } else if ('speak' in step) {
+      const text = step.speak === true ? said.slice(spokenUpTo) : step.speak
+      if (step.speak === true) spokenUpTo = said.length
+      if (ctx.muted()) continue
+      for (const chunk of synthSpeech(text, chunkIndex, offsetMs)) {
+        if (ctx.cancelled() || ctx.muted()) break
+        chunkIndex = chunk.chunk_index + 1
+        offsetMs = chunk.offset_ms + chunk.duration_ms
+        ctx.send({ type: 'audio_response', ...chunk })
+        await sleep(60) // servers stream chunks as TTS finishes each sentence
+      }
+    } else if ('slides' in step) {
+      const deck = {
+        title: step.slides.title ?? '',
+        summary: step.slides.summary ?? '',
+        editorjs: step.slides.editorjs ?? { blocks: [] },
+        version: 0,
+      }
+      // Optionally stream the deck block-by-block, like the real agent does.
+      // Every partial gets its own version: SlidesPane drops anything not newer.
+      const blocks = (deck.editorjs as { blocks?: unknown[] }).blocks ?? []
+      const n = Math.max(1, Math.min(step.stream_chunks ?? 1, blocks.length || 1))
+      for (let i = 1; i <= n; i++) {
+        if (ctx.cancelled()) break
+        deck.version = ctx.nextSlidesVersion()
+        const partial = { ...deck, editorjs: { ...(deck.editorjs as object), blocks: blocks.slice(0, Math.ceil(blocks.length * i / n)) } }
+        ctx.send({ type: 'slides_response', slides: partial })
+        if (i < n) await sleep(250)
+      }
+      if (deck.version) ctx.onSlides(deck)
+      ctx.send({ type: 'slides_done' })
+    } else if ('error' in step) {
+      ctx.send({ type: 'error', message: step.error })
+    }
+  }
+  return { reply: said.trim(), emotion }
+}
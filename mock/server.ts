@@ -0,0 +1,366 @@
+// mock/server.ts
+// Offline stand-in for the Django backend: REST under /api/*, chat socket at /ws/chat/.
+//
+//   npm run mock                      # listens on MOCK_PORT (default 8000)
+//   MOCK_SCENARIO=slides npm run mock # force one scenario for every query
+//   MOCK_JSON_AUDIO=1 npm run mock    # refuse binary audio frames (old-server behaviour)
+//
+// Point Vite at it with VITE_API_BASE / VITE_WS_TARGET (see .env.example).
+// State lives in memory and is gone on restart.
+
+import http from 'node:http'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { WebSocketServer } from 'ws'
+import type { WebSocket } from 'ws'
+import { createStore, orderBy, paginate, searchFilter } from './store.ts'
+import { loadScenarios, pickScenario, runScenario } from './scenarios.ts'
+import { synthSpeech } from './synth.ts'
+
+const PORT = Number(process.env.MOCK_PORT || 8000)
+const HOST = process.env.MOCK_HOST || '127.0.0.1'
+const FORCED = process.env.MOCK_SCENARIO || undefined
+const JSON_AUDIO = !!process.env.MOCK_JSON_AUDIO
+const DIR = path.dirname(fileURLToPath(import.meta.url))
+
+const store = createStore()
+const scenarios = loadScenarios(path.join(DIR, 'scenarios'))
+
+/* ---------------- REST ---------------- */
+
+function send(res: http.ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = []
+  for await (const c of req) chunks.push(c as Buffer)
+  const text = Buffer.concat(chunks).toString('utf8')
+  try { return text ? JSON.parse(text) : {} } catch { return {} }
+}
+
+function cors(req: http.IncomingMessage, res: http.ServerResponse) {
+  // The SPA calls us cross-origin with credentials when VITE_API_BASE is absolute
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*')
+  res.setHeader('Access-Control-Allow-Credentials', 'true')
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Accept')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, PUT, DELETE, OPTIONS')
+}
+
+async function handleApi(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+  const method = req.method || 'GET'
+  const p = url.pathname.replace(/\/+$/, '') + '/'
+  const q = url.searchParams
+
+  // /api/sessions/
+  if (p === '/api/sessions/') {
+    if (method === 'POST') {
+      const body = await readJson(req)
+      return send(res, 201, store.createSession(String(body.bot_id || '')))
+    }
+    if (method === 'GET') {
+      let rows = [...store.sessions.values()]
+      if (q.get('bot_id')) rows = rows.filter(s => s.bot_id === q.get('bot_id'))
+      return send(res, 200, paginate(orderBy(rows, q.get('ordering') || '-updated_at'), url))
+    }
+  }
+
+  // /api/sessions/:thread_id/
+  const sessionMatch = p.match(/^\/api\/sessions\/([^/]+)\/$/)
+  if (sessionMatch) {
+    const thread_id = decodeURIComponent(sessionMatch[1])
+    const s = store.sessions.get(thread_id)
+    if (!s) return send(res, 404, { detail: 'Not found.' })
+    if (method === 'GET') return send(res, 200, s)
+    if (method === 'PATCH' || method === 'PUT') {
+      const body = await readJson(req)
+      if (typeof body.title === 'string') s.title = body.title.slice(0, 200)
+      return send(res, 200, s)
+    }
+    if (method === 'DELETE') {
+      store.deleteSession(thread_id)
+      return send(res, 204)
+    }
+  }
+
+  // /api/sessions/:thread_id/branch/
+  const branchMatch = p.match(/^\/api\/sessions\/([^/]+)\/branch\/$/)
+  if (branchMatch && method === 'POST') {
+    const body = await readJson(req)
+    const before_id = Number(body.before_id)
+    if (body.before_id == null || !Number.isInteger(before_id)) return send(res, 400, { before_id: ['A valid integer is required.'] })
+    const s = store.branchSession(decodeURIComponent(branchMatch[1]), before_id)
+    return s ? send(res, 201, s) : send(res, 404, { detail: 'Not found.' })
+  }
+
+  // /api/agents/:bot_id/
+  const agentMatch = p.match(/^\/api\/agents\/([^/]+)\/$/)
+  if (agentMatch) {
+    const a = store.agent(decodeURIComponent(agentMatch[1]))
+    if (method === 'GET') return send(res, 200, a)
+    if (method === 'PATCH' || method === 'PUT') {
+      const body = await readJson(req)
+      if ('glb_url' in body) a.glb_url = body.glb_url == null ? null : String(body.glb_url)
+      if ('morph_profile' in body) a.morph_profile = body.morph_profile ?? null
+      if ('viseme_tuning' in body) a.viseme_tuning = body.viseme_tuning ?? null
+      if (typeof body.name === 'string') a.name = body.name
+      return send(res, 200, a)
+    }
+  }
+
+  // /api/chats/
+  if (p === '/api/chats/' && method === 'GET') {
+    let rows = store.chats
+    if (q.get('thread_id')) rows = rows.filter(r => r.thread_id === q.get('thread_id'))
+    if (q.get('bot_id')) rows = rows.filter(r => store.sessions.get(r.thread_id)?.bot_id === q.get('bot_id'))
+    rows = searchFilter(rows, q.get('search'), r => [r.query, r.response])
+    return send(res, 200, paginate(orderBy(rows, q.get('ordering') || 'created_at,id'), url))
+  }
+
+  // /api/slides/
+  if (p === '/api/slides/') {
+    if (method === 'GET') {
+      let rows = store.slides
+      if (q.get('thread_id')) rows = rows.filter(r => r.thread_id === q.get('thread_id'))
+      if (q.get('bot_id')) rows = rows.filter(r => store.sessions.get(r.thread_id)?.bot_id === q.get('bot_id'))
+      if (q.get('version')) rows = rows.filter(r => r.version === Number(q.get('version')))
+      rows = searchFilter(rows, q.get('search'), r => [r.title, r.summary, r.editorjs])
+      return send(res, 200, paginate(orderBy(rows, q.get('ordering') || '-updated_at'), url))
+    }
+    if (method === 'POST') {
+      const body = await readJson(req)
+      const thread_id = String(body.thread_id || '')
+      if (!thread_id) return send(res, 400, { thread_id: ['This field is required.'] })
+      return send(res, 201, store.addSlides(thread_id, body))
+    }
+  }
+
+  send(res, 404, { detail: 'Not found.' })
+}
+
+const server = http.createServer((req, res) => {
+  cors(req, res)
+  if (req.method === 'OPTIONS') { res.writeHead(204); res.end(); return }
+  const url = new URL(req.url || '/', `http://${req.headers.host || `${HOST}:${PORT}`}`)
+  if (!url.pathname.startsWith('/api/')) return send(res, 404, { detail: 'Not found.' })
+  handleApi(req, res, url).catch((e) => {
+    console.error('[mock] api error', e)
+    send(res, 500, { detail: String(e) })
+  })
+})
+
+/* ---------------- WS ---------------- */
+
+// Runs belong to the thread, not the socket: they keep going while a client is
+// reconnecting, and `resume` replays what it missed from this log.
+type Thread = {
+  seq: number
+  events: Array<Record<string, unknown>>
+  sockets: Set<WebSocket>
+  muted: boolean
+  runId: number          // bumping this cancels the current run
+  audioEpoch: number     // bumping this drops pending audio only
+  slidesVersion: number
+}
+const threads = new Map<string, Thread>()
+// Sockets that negotiated binary audio frames (see src/lib/protocol.ts)
+const binarySockets = new WeakSet<WebSocket>()
+const LOG_CAP = 2000
+// seq and the event log live in memory: a restart starts both over, under a new epoch
+const SEQ_EPOCH = randomUUID()
+const JOIN_GRACE_MS = 300
+
+function thread(thread_id: string): Thread {
+  let t = threads.get(thread_id)
+  if (!t) {
+    t = { seq: 0, events: [], sockets: new Set(), muted: false, runId: 0, audioEpoch: 0, slidesVersion: 0 }
+    threads.set(thread_id, t)
+  }
+  return t
+}
+
+// [u32 BE header length][JSON header][audio bytes] for audio on binary sockets, JSON otherwise
+function frameFor(ws: WebSocket, ev: Record<string, unknown>): string | Buffer {
+  if (!binarySockets.has(ws) || ev.type !== 'audio_response' || typeof ev.audio !== 'string') return JSON.stringify(ev)
+  const { audio, ...header } = ev
+  const json = Buffer.from(JSON.stringify(header))
+  const len = Buffer.alloc(4)
+  len.writeUInt32BE(json.length)
+  return Buffer.concat([len, json, Buffer.from(audio, 'base64')])
+}
+
+/** The header of a binary frame; the audio itself is never looked at */
+function readBinaryFrame(raw: Buffer): Record<string, unknown> | null {
+  if (raw.length < 4) return null
+  const len = raw.readUInt32BE(0)
+  try { return { ...JSON.parse(raw.subarray(4, 4 + len).toString('utf8')), audio: '(binary)' } } catch { return null }
+}
+
+function emit(t: Thread, ev: Record<string, unknown>) {
+  const framed = { ...ev, seq: ++t.seq }
+  t.events.push(framed)
+  if (t.events.length > LOG_CAP) t.events.splice(0, t.events.length - LOG_CAP)
+  for (const ws of t.sockets) if (ws.readyState === ws.OPEN) ws.send(frameFor(ws, framed))
+}
+
+/** Echoes the query with the id its chat row will get (edit-and-resend branches on it), then runs it */
+function ask(t: Thread, thread_id: string, query: string) {
+  const row = store.reserveChat()
+  emit(t, { type: 'text_query', text: query, chat_id: row.id })
+  void respond(t, thread_id, query, row)
+}
+
+async function respond(t: Thread, thread_id: string, query: string, row: { id: number; created_at: string }) {
+  const sc = pickScenario(scenarios, query, FORCED)
+  if (!sc) { emit(t, { type: 'error', message: 'mock: no scenarios loaded' }); return }
+  const myRun = ++t.runId
+  const myAudio = t.audioEpoch
+  console.log(`[mock] ${thread_id} ← "${query}" → scenario "${sc.name}"`)
+  const result = await runScenario(sc, {
+    send: (ev) => {
+      if (ev.type === 'audio_response' && myAudio !== t.audioEpoch) return
+      emit(t, ev)
+    },
+    muted: () => t.muted || myAudio !== t.audioEpoch,
+    cancelled: () => myRun !== t.runId,
+    nextSlidesVersion: () => {
+      const stored = store.slides.filter(r => r.thread_id === thread_id).reduce((m, r) => Math.max(m, r.version), 0)
+      t.slidesVersion = Math.max(t.slidesVersion, stored) + 1
+      return t.slidesVersion
+    },
+    onSlides: (deck) => store.addSlides(thread_id, { ...deck, updated_by: 'ai' }),
+  })
+  if (result.reply) store.addChat(thread_id, query, result.reply, result.emotion, row)
+}
+
+const wss = new WebSocketServer({ noServer: true })
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host}`)
+  if (url.pathname.replace(/\/+$/, '') !== '/ws/chat') { socket.destroy(); return }
+  wss.handleUpgrade(req, socket, head, (ws) => onChat(ws, url))
+})
+
+let voiceTurn = 0
+
+/** Next voice query's transcript: scenarios with a `transcript` take turns */
+function nextTranscript(): string {
+  const voiced = scenarios.filter(s => s.transcript)
+  const sc = FORCED ? scenarios.find(s => s.name === FORCED) : voiced[voiceTurn++ % Math.max(1, voiced.length)]
+  return sc?.transcript || '(voice message)'
+}
+
+function onChat(ws: WebSocket, url: URL) {
+  const bot_id = url.searchParams.get('bot_id') || ''
+  const thread_id = url.searchParams.get('thread_id') || store.createSession(bot_id).thread_id
+  store.ensureSession(thread_id, bot_id)
+  const t = thread(thread_id)
+  const binary = !JSON_AUDIO && url.searchParams.get('audio_framing') === 'binary'
+  if (binary) binarySockets.add(ws)
+
+  // Hold live events back until the client had a chance to `resume`, otherwise
+  // fresh seqs would overtake the replay and the client would drop the replay.
+  const seqAtConnect = t.seq
+  let joined = false
+  const join = (after: number) => {
+    if (joined) return
+    joined = true
+    clearTimeout(grace)
+    for (const ev of t.events) if (Number(ev.seq) > after) ws.send(frameFor(ws, ev))
+    t.sockets.add(ws)
+  }
+  const grace = setTimeout(() => join(seqAtConnect), JOIN_GRACE_MS)
+
+  const direct = (ev: Record<string, unknown>) => ws.send(JSON.stringify(ev)) // connection-level: no seq
+
+  // Streamed mic takes (audio_chunk … audio_end): the transcript is picked on the first slice
+  // and revealed a word per slice as transcript_partial, like a recognizer catching up
+  const takes = new Map<string, { transcript: string; slices: number }>()
+
+  ws.on('message', (raw, isBinary) => {
+    let msg: Record<string, unknown> | null = null
+    if (isBinary) msg = readBinaryFrame(Array.isArray(raw) ? Buffer.concat(raw) : Buffer.isBuffer(raw) ? raw : Buffer.from(raw))
+    else try { msg = JSON.parse(raw.toString()) } catch { /* not JSON */ }
+    if (!msg) return
+    if (msg.type === 'resume') { join(Number(msg.last_seq) || 0); return }
+    join(seqAtConnect)
+
+    switch (msg.type) {
+      case 'ping':
+        direct({ type: 'pong', ...(typeof msg.ts === 'number' ? { ts: msg.ts } : {}) })
+        break
+      case 'text_query': {
+        const text = String(msg.text || '').trim()
+        if (!text) break
+        if (msg.muteAudio === true) t.muted = true
+        ask(t, thread_id, text)
+        break
+      }
+      case 'audio_query': {
+        const text = nextTranscript()
+        if (msg.muteAudio === true) t.muted = true
+        ask(t, thread_id, text)
+        break
+      }
+      case 'audio_chunk': {
+        const id = String(msg.stream_id || '')
+        let take = takes.get(id)
+        if (!take) takes.set(id, take = { transcript: nextTranscript(), slices: 0 })
+        take.slices++
+        const words = take.transcript.split(/\s+/)
+        if (take.slices <= words.length) direct({ type: 'transcript_partial', stream_id: id, text: words.slice(0, take.slices).join(' ') })
+        break
+      }
+      case 'audio_end': {
+        const id = String(msg.stream_id || '')
+        const take = takes.get(id)
+        takes.delete(id)
+        if (!take || msg.cancel === true) break
+        if (msg.muteAudio === true) t.muted = true
+        ask(t, thread_id, take.transcript)
+        break
+      }
+      case 'mute_audio':
+      case 'unmute_audio':
+        t.muted = msg.type === 'mute_audio'
+        if (t.muted) t.audioEpoch++
+        emit(t, { type: 'audio_muted', muted: t.muted })
+        break
+      case 'stop_audio':
+        t.audioEpoch++
+        emit(t, { type: 'stop_audio' })
+        break
+      case 'tts_request': {
+        // Only the asking socket wants it: no seq, not replayed on resume
+        const text = String(msg.text || '').trim()
+        if (!text || t.muted) break
+        const ref = typeof msg.ref === 'string' ? { ref: msg.ref } : {}
+        const myAudio = ++t.audioEpoch
+        void (async () => {
+          for (const chunk of synthSpeech(text)) {
+            if (myAudio !== t.audioEpoch || ws.readyState !== ws.OPEN) break
+            ws.send(frameFor(ws, { type: 'audio_response', ...chunk, ...ref }))
+            await new Promise(r => setTimeout(r, 60))
+          }
+        })()
+        break
+      }
+      default:
+        direct({ type: 'error', message: `mock: unsupported message type "${String(msg.type)}"` })
+    }
+  })
+
+  ws.on('close', () => {
+    clearTimeout(grace)
+    t.sockets.delete(ws)
+  })
+
+  direct({ type: 'connected', bot_id, thread_id, audio_stream: true, seq_epoch: SEQ_EPOCH, ...(binary ? { audio_framing: 'binary' } : {}) })
+}
+
+server.listen(PORT, HOST, () => {
+  console.log(`[mock] http://${HOST}:${PORT}  (ws /ws/chat/)  scenarios: ${scenarios.map(s => s.name).join(', ') || 'none'}`)
+  if (FORCED) console.log(`[mock] forcing scenario "${FORCED}"`)
+})
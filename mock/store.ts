@@ -0,0 +1,181 @@
+// mock/store.ts
+// In-memory stand-in for the Django models + DRF views the SPA talks to.
+// Shapes follow what src/lib/* and src/ui/* read; anything else is left out.
+
+import { randomBytes, randomUUID } from 'node:crypto'
+
+export type Agent = { bot_id: string; name: string; glb_url: string | null; morph_profile: unknown; viseme_tuning: unknown }
+export type Session = { thread_id: string; bot_id: string; title: string; last_message: string; created_at: string; updated_at: string }
+export type ChatRow = {
+  id: number
+  thread_id: string
+  query: string
+  response: string
+  emotion: { name: string; intensity: number } | null
+  created_at: string
+}
+export type SlidesRow = {
+  id: number
+  thread_id: string
+  version: number
+  title: string
+  summary: string
+  editorjs: unknown
+  updated_by: string
+  updated_at: string
+}
+
+const now = () => new Date().toISOString()
+
+export function createStore() {
+  const agents = new Map<string, Agent>()
+  const sessions = new Map<string, Session>()
+  const chats: ChatRow[] = []
+  const slides: SlidesRow[] = []
+  let chatId = 0
+  let slidesId = 0
+
+  function agent(bot_id: string): Agent {
+    let a = agents.get(bot_id)
+    if (!a) {
+      a = { bot_id, name: 'Mock Coach', glb_url: null, morph_profile: null, viseme_tuning: null }
+      agents.set(bot_id, a)
+    }
+    return a
+  }
+
+  function createSession(bot_id: string): Session {
+    const s: Session = {
+      thread_id: `user_${randomBytes(8).toString('hex')}`,
+      bot_id: bot_id || randomUUID(),
+      title: '',
+      last_message: '',
+      created_at: now(),
+      updated_at: now(),
+    }
+    sessions.set(s.thread_id, s)
+    return s
+  }
+
+  function ensureSession(thread_id: string, bot_id: string): Session {
+    let s = sessions.get(thread_id)
+    if (!s) {
+      s = { thread_id, bot_id, title: '', last_message: '', created_at: now(), updated_at: now() }
+      sessions.set(thread_id, s)
+    }
+    return s
+  }
+
+  /** The id (and time) a query's row gets, handed out when the query is echoed */
+  function reserveChat(): { id: number; created_at: string } {
+    return { id: ++chatId, created_at: now() }
+  }
+
+  function addChat(thread_id: string, query: string, response: string, emotion: ChatRow['emotion'], at = reserveChat()): ChatRow {
+    const row: ChatRow = { id: at.id, thread_id, query, response, emotion, created_at: at.created_at }
+    chats.push(row)
+    const s = sessions.get(thread_id)
+    if (s) {
+      s.updated_at = row.created_at
+      s.last_message = (response || query).slice(0, 120)
+      if (!s.title && query) s.title = query.slice(0, 60)
+    }
+    return row
+  }
+
+  function addSlides(thread_id: string, data: Partial<SlidesRow>): SlidesRow {
+    const latest = slides.filter(r => r.thread_id === thread_id).reduce((m, r) => Math.max(m, r.version), 0)
+    const row: SlidesRow = {
+      id: ++slidesId,
+      thread_id,
+      version: Math.max(latest + 1, Number(data.version) || 0),
+      title: String(data.title ?? ''),
+      summary: String(data.summary ?? ''),
+      editorjs: data.editorjs ?? { blocks: [] },
+      updated_by: String(data.updated_by ?? 'ai'),
+      updated_at: now(),
+    }
+    slides.push(row)
+    return row
+  }
+
+  /**
+   * A new thread with the turns before chat row `before_id` of this one (edit-and-resend). The
+   * row may not exist yet (its reply never finished); ids still order the turns. The deck as it
+   * was when that query came in comes along.
+   */
+  function branchSession(thread_id: string, before_id: number): Session | null {
+    const src = sessions.get(thread_id)
+    if (!src) return null
+    const pivot = chats.find(r => r.thread_id === thread_id && r.id === before_id)
+    const until = pivot?.created_at ?? now()
+    const kept = orderBy(chats.filter(r => r.thread_id === thread_id && r.id < before_id), 'id')
+    const s = createSession(src.bot_id)
+    s.title = src.title ? `${src.title} (edited)` : ''
+    for (const r of kept) chats.push({ ...r, id: ++chatId, thread_id: s.thread_id })
+    const last = kept[kept.length - 1]
+    if (last) s.last_message = (last.response || last.query).slice(0, 120)
+    const deck = slides.filter(r => r.thread_id === thread_id && r.updated_at <= until).reduce<SlidesRow | null>((m, r) => !m || r.version > m.version ? r : m, null)
+    if (deck) slides.push({ ...deck, id: ++slidesId, thread_id: s.thread_id })
+    return s
+  }
+
+  /** Drops the session with its chats and slides (the Django FKs cascade) */
+  function deleteSession(thread_id: string): boolean {
+    if (!sessions.delete(thread_id)) return false
+    for (const list of [chats, slides] as Array<Array<{ thread_id: string }>>) {
+      for (let i = list.length - 1; i >= 0; i--) if (list[i].thread_id === thread_id) list.splice(i, 1)
+    }
+    return true
+  }
+
+  return { agents, sessions, chats, slides, agent, createSession, ensureSession, reserveChat, addChat, addSlides, branchSession, deleteSession }
+}
+
+export type Store = ReturnType<typeof createStore>
+
+/* ---------------- DRF-style helpers ---------------- */
+
+/** Sorts by a DRF `ordering` param ("created_at,id" / "-updated_at") */
+export function orderBy<T extends Record<string, unknown>>(rows: T[], ordering: string | null): T[] {
+  const keys = (ordering || '').split(',').map(s => s.trim()).filter(Boolean)
+  if (!keys.length) return rows
+  return [...rows].sort((a, b) => {
+    for (const k of keys) {
+      const desc = k.startsWith('-')
+      const f = desc ? k.slice(1) : k
+      const av = a[f] as string | number, bv = b[f] as string | number
+      if (av === bv) continue
+      return (av < bv ? -1 : 1) * (desc ? -1 : 1)
+    }
+    return 0
+  })
+}
+
+/** SearchFilter: every word of `search` must appear (case-insensitive) in one of the fields */
+export function searchFilter<T>(rows: T[], search: string | null, fields: (row: T) => unknown[]): T[] {
+  const terms = (search || '').toLowerCase().split(/[\s,]+/).filter(Boolean)
+  if (!terms.length) return rows
+  return rows.filter(r => {
+    const texts = fields(r).map(v => (typeof v === 'string' ? v : JSON.stringify(v ?? '')).toLowerCase())
+    return terms.every(t => texts.some(x => x.includes(t)))
+  })
+}
+
+/** PageNumberPagination: { count, next, previous, results } */
+export function paginate<T>(rows: T[], url: URL, defaultSize = 50) {
+  const size = Math.max(1, Math.min(500, Number(url.searchParams.get('page_size')) || defaultSize))
+  const page = Math.max(1, Number(url.searchParams.get('page')) || 1)
+  const start = (page - 1) * size
+  const link = (p: number) => {
+    const u = new URL(url.toString())
+    u.searchParams.set('page', String(p))
+    return u.toString()
+  }
+  return {
+    count: rows.length,
+    next: start + size < rows.length ? link(page + 1) : null,
+    previous: page > 1 ? link(page - 1) : null,
+    results: rows.slice(start, start + size),
+  }
+}
@@ -0,0 +1,190 @@
+// mock/synth.ts
+// Deterministic "speech" for the mock backend.
+// - Letters → crude phone classes → formant-ish buzz / noise bursts (16 kHz mono WAV)
+// - The same phone plan drives ARKit-15 keyframes, so mouth and audio line up exactly
+// - One chunk per sentence, shaped like a real `audio_response`
+// Not a TTS: it only needs to *look* and *sound* like a talking avatar for UI work.
+
+export const SAMPLE_RATE = 16000
+export const VIS_FPS = 60
+
+// ARKit-15 column order (must match src/ui/AvatarCanvas.tsx)
+const COL = {
+  jawOpen: 0, mouthFunnel: 1, mouthClose: 2, mouthPucker: 3,
+  mouthSmileLeft: 4, mouthSmileRight: 5, mouthLeft: 6, mouthRight: 7,
+  mouthFrownLeft: 8, mouthFrownRight: 9, mouthDimpleLeft: 10, mouthDimpleRight: 11,
+  mouthStretchLeft: 12, mouthStretchRight: 13, tongueOut: 14,
+} as const
+type Col = keyof typeof COL
+
+type Phone = {
+  kind: 'vowel' | 'nasal' | 'fricative' | 'plosive' | 'silence'
+  ms: number
+  f1?: number          // vowel formants (Hz)
+  f2?: number
+  pose: Partial<Record<Col, number>>
+}
+
+const VOWELS: Record<string, Phone> = {
+  a: { kind: 'vowel', ms: 120, f1: 750, f2: 1250, pose: { jawOpen: 0.75, mouthStretchLeft: 0.15, mouthStretchRight: 0.15 } },
+  e: { kind: 'vowel', ms: 105, f1: 500, f2: 1900, pose: { jawOpen: 0.4, mouthStretchLeft: 0.4, mouthStretchRight: 0.4, mouthSmileLeft: 0.2, mouthSmileRight: 0.2 } },
+  i: { kind: 'vowel', ms: 95,  f1: 320, f2: 2300, pose: { jawOpen: 0.25, mouthStretchLeft: 0.5, mouthStretchRight: 0.5, mouthSmileLeft: 0.15, mouthSmileRight: 0.15 } },
+  o: { kind: 'vowel', ms: 120, f1: 550, f2: 900,  pose: { jawOpen: 0.5, mouthFunnel: 0.6, mouthPucker: 0.2 } },
+  u: { kind: 'vowel', ms: 110, f1: 350, f2: 800,  pose: { jawOpen: 0.2, mouthPucker: 0.7, mouthFunnel: 0.35 } },
+  y: { kind: 'vowel', ms: 90,  f1: 330, f2: 2200, pose: { jawOpen: 0.22, mouthStretchLeft: 0.45, mouthStretchRight: 0.45 } },
+}
+const CLOSED: Phone = { kind: 'nasal', ms: 70, pose: { mouthClose: 0.85 } }          // m b p
+const LABIODENTAL: Phone = { kind: 'fricative', ms: 75, pose: { jawOpen: 0.1, mouthClose: 0.35, mouthFrownLeft: 0.1, mouthFrownRight: 0.1 } } // f v
+const ROUNDED: Phone = { kind: 'nasal', ms: 65, pose: { mouthPucker: 0.8, mouthFunnel: 0.2 } }      // w
+const SIBILANT: Phone = { kind: 'fricative', ms: 80, pose: { jawOpen: 0.12, mouthStretchLeft: 0.3, mouthStretchRight: 0.3 } } // s z c x
+const DENTAL: Phone = { kind: 'fricative', ms: 80, pose: { jawOpen: 0.15, tongueOut: 0.45 } }       // th
+const ALVEOLAR: Phone = { kind: 'plosive', ms: 55, pose: { jawOpen: 0.18, mouthStretchLeft: 0.1, mouthStretchRight: 0.1 } } // rest
+
+function phonesFor(text: string): Phone[] {
+  const out: Phone[] = []
+  const s = text.toLowerCase()
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i]
+    if (c === 't' && s[i + 1] === 'h') { out.push(DENTAL); i++; continue }
+    if (c in VOWELS) { out.push(VOWELS[c]); continue }
+    if ('mbp'.includes(c)) { out.push(CLOSED); continue }
+    if ('fv'.includes(c)) { out.push(LABIODENTAL); continue }
+    if (c === 'w') { out.push(ROUNDED); continue }
+    if ('szcx'.includes(c)) { out.push(SIBILANT); continue }
+    if (/[a-z]/.test(c)) { out.push(ALVEOLAR); continue }
+    if (/[,;:]/.test(c)) { out.push({ kind: 'silence', ms: 140, pose: {} }); continue }
+    if (/[.!?]/.test(c)) { out.push({ kind: 'silence', ms: 220, pose: {} }); continue }
+    if (/\s/.test(c) && out[out.length - 1]?.kind !== 'silence') out.push({ kind: 'silence', ms: 35, pose: {} })
+  }
+  return out
+}
+
+/** Tiny deterministic PRNG so the same text always yields the same bytes */
+function rng(seed: number) {
+  let x = seed >>> 0 || 1
+  return () => { x ^= x << 13; x ^= x >>> 17; x ^= x << 5; return ((x >>> 0) / 0xffffffff) * 2 - 1 }
+}
+
+function renderPhones(phones: Phone[], seed: number): Float32Array {
+  const totalMs = phones.reduce((a, p) => a + p.ms, 0) + 120 // short tail
+  const pcm = new Float32Array(Math.ceil(totalMs / 1000 * SAMPLE_RATE))
+  const noise = rng(seed)
+  let cursor = Math.round(0.06 * SAMPLE_RATE)                  // 60 ms lead-in
+  let phase = 0
+  const total = pcm.length
+
+  for (const ph of phones) {
+    const n = Math.round(ph.ms / 1000 * SAMPLE_RATE)
+    const ramp = Math.min(n / 2, Math.round(0.012 * SAMPLE_RATE))
+    for (let k = 0; k < n && cursor + k < total; k++) {
+      const env = Math.min(1, k / ramp, (n - k) / ramp)
+      const progress = (cursor + k) / total
+      const f0 = 150 - 30 * progress + 6 * Math.sin(2 * Math.PI * 3 * progress) // gentle declination
+      phase += 2 * Math.PI * f0 / SAMPLE_RATE
+      let v = 0
+      if (ph.kind === 'vowel') {
+        // harmonics shaped by two resonances
+        for (let h = 1; h <= 24; h++) {
+          const fh = f0 * h
+          const a1 = Math.exp(-(((fh - ph.f1!) / 180) ** 2))
+          const a2 = 0.6 * Math.exp(-(((fh - ph.f2!) / 260) ** 2))
+          v += (a1 + a2 + 0.02) * Math.sin(phase * h) / Math.sqrt(h)
+        }
+        v *= 0.35
+      } else if (ph.kind === 'nasal') {
+        v = 0.18 * Math.sin(phase) + 0.05 * Math.sin(phase * 2)
+      } else if (ph.kind === 'fricative') {
+        v = 0.12 * noise()
+      } else if (ph.kind === 'plosive') {
+        v = (k < n * 0.3 ? 0.2 * noise() : 0) + 0.08 * Math.sin(phase)
+      }
+      pcm[cursor + k] += v * env
+    }
+    cursor += n
+  }
+  return pcm
+}
+
+function visemesFor(phones: Phone[], durationS: number): { viseme: number[][]; viseme_times: number[] } {
+  // keyframes at each phone's centre, neutral at both ends
+  type Key = { t: number; v: number[] }
+  const keys: Key[] = [{ t: 0, v: new Array(15).fill(0) }]
+  let t = 0.06
+  for (const ph of phones) {
+    const d = ph.ms / 1000
+    const v = new Array(15).fill(0)
+    for (const [k, w] of Object.entries(ph.pose)) v[COL[k as Col]] = w!
+    keys.push({ t: t + d / 2, v })
+    t += d
+  }
+  keys.push({ t: durationS, v: new Array(15).fill(0) })
+
+  const n = Math.max(2, Math.floor(durationS * VIS_FPS) + 1)
+  const viseme: number[][] = []
+  const viseme_times: number[] = []
+  let j = 0
+  for (let i = 0; i < n; i++) {
+    const ti = i === n - 1 ? durationS : i / VIS_FPS
+    while (j < keys.length - 2 && keys[j + 1].t <= ti) j++
+    const a = keys[j], b = keys[j + 1]
+    const u = b.t > a.t ? Math.max(0, Math.min(1, (ti - a.t) / (b.t - a.t))) : 0
+    viseme.push(a.v.map((x, c) => +(x + (b.v[c] - x) * u).toFixed(3)))
+    viseme_times.push(+ti.toFixed(4))
+  }
+  return { viseme, viseme_times }
+}
+
+function wavBase64(pcm: Float32Array): string {
+  const bytes = 44 + pcm.length * 2
+  const buf = Buffer.alloc(bytes)
+  buf.write('RIFF', 0); buf.writeUInt32LE(bytes - 8, 4); buf.write('WAVE', 8)
+  buf.write('fmt ', 12); buf.writeUInt32LE(16, 16); buf.writeUInt16LE(1, 20); buf.writeUInt16LE(1, 22)
+  buf.writeUInt32LE(SAMPLE_RATE, 24); buf.writeUInt32LE(SAMPLE_RATE * 2, 28); buf.writeUInt16LE(2, 32); buf.writeUInt16LE(16, 34)
+  buf.write('data', 36); buf.writeUInt32LE(pcm.length * 2, 40)
+  for (let i = 0; i < pcm.length; i++) {
+    const s = Math.max(-1, Math.min(1, pcm[i]))
+    buf.writeInt16LE(Math.round(s * 32767), 44 + i * 2)
+  }
+  return buf.toString('base64')
+}
+
+export type SpeechChunk = {
+  audio: string
+  audio_format: 'wav'
+  viseme: number[][]
+  viseme_times: number[]
+  viseme_format: 'arkit15'
+  viseme_fps: number
+  duration_ms: number
+  chunk_index: number
+  offset_ms: number
+}
+
+/**
+ * Splits text into sentences and synthesizes one `audio_response`-shaped chunk per sentence.
+ * `first`/`offsetMs` continue the numbering when a run speaks in several steps.
+ */
+export function synthSpeech(text: string, first = 0, offsetMs = 0): SpeechChunk[] {
+  const sentences = (text.match(/[^.!?]+[.!?]*/g) || []).map(s => s.trim()).filter(Boolean)
+  const out: SpeechChunk[] = []
+  let offset = offsetMs
+  sentences.forEach((sentence, i) => {
+    const phones = phonesFor(sentence)
+    let seed = 2166136261
+    for (let i = 0; i < sentence.length; i++) seed = Math.imul(seed ^ sentence.charCodeAt(i), 16777619)
+    const pcm = renderPhones(phones, seed)
+    const durationS = pcm.length / SAMPLE_RATE
+    out.push({
+      audio: wavBase64(pcm),
+      audio_format: 'wav',
+      ...visemesFor(phones, durationS),
+      viseme_format: 'arkit15',
+      viseme_fps: VIS_FPS,
+      duration_ms: Math.round(durationS * 1000),
+      chunk_index: first + i,
+      offset_ms: offset,
+    })
+    offset += Math.round(durationS * 1000)
+  })
+  return out
+}
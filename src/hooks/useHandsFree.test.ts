@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { useHandsFree } from './useHandsFree'
+import { DEFAULT_VAD } from '../lib/vad'
+import type { VADOptions, VadEvent } from '../lib/vad'
+import { DEFAULT_MIC } from '../lib/micSettings'
+import { installFakeMic } from '../test/fakes'
+
+const vad = vi.hoisted(() => ({ opts: null as VADOptions | null, stop: vi.fn() }))
+vi.mock('../lib/vad', async (orig) => ({
+  ...(await orig<typeof import('../lib/vad')>()),
+  createVAD: (_stream: MediaStream, opts: VADOptions) => {
+    vad.opts = opts
+    return { speaking: () => false, stop: vad.stop }
+  },
+}))
+
+function setup(talking = false, settings = DEFAULT_VAD) {
+  const { getUserMedia } = installFakeMic()
+  const o = {
+    enabled: true,
+    settings,
+    mic: DEFAULT_MIC,
+    avatarTalking: vi.fn(() => talking),
+    onBargeIn: vi.fn(),
+    startPTT: vi.fn(async () => {}),
+    stopPTT: vi.fn(async () => {}),
+  }
+  const hook = renderHook((p: typeof o) => useHandsFree(p), { initialProps: o })
+  return { o, hook, getUserMedia }
+}
+
+const fire = (ev: VadEvent) => act(() => { vad.opts!.onEvent(ev) })
+
+describe('useHandsFree', () => {
+  it('records each utterance the VAD opens on the shared mic stream', async () => {
+    const { o, hook, getUserMedia } = setup()
+    await waitFor(() => expect(hook.result.current.state).toBe('listening'))
+    expect(getUserMedia).toHaveBeenCalledWith({ audio: expect.objectContaining({ echoCancellation: true }) })
+    const stream = await getUserMedia.mock.results[0].value
+
+    await fire('speech_start')
+    expect(o.startPTT).toHaveBeenCalledWith(stream)
+    expect(hook.result.current.speaking).toBe(true)
+    await fire('speech_end')
+    expect(o.stopPTT).toHaveBeenCalledWith(true)
+    expect(o.onBargeIn).not.toHaveBeenCalled()
+  })
+
+  it('starts the take at the onset so the first syllable is kept, and drops it if no speech follows', async () => {
+    const { o, hook } = setup()
+    await waitFor(() => expect(hook.result.current.state).toBe('listening'))
+    await fire('speech_onset')
+    expect(o.startPTT).toHaveBeenCalledOnce()
+    expect(hook.result.current.speaking).toBe(false)
+    await fire('speech_abort')
+    expect(o.stopPTT).toHaveBeenCalledWith(false)
+
+    o.startPTT.mockClear()
+    o.stopPTT.mockClear()
+    await fire('speech_onset')
+    await fire('speech_start')
+    expect(o.startPTT).toHaveBeenCalledOnce()
+    expect(hook.result.current.speaking).toBe(true)
+    await fire('speech_end')
+    expect(o.stopPTT).toHaveBeenCalledExactlyOnceWith(true)
+  })
+
+  it('barges in when the user talks over the avatar, with the stricter threshold until then', async () => {
+    const { o, hook } = setup(true)
+    await waitFor(() => expect(hook.result.current.state).toBe('listening'))
+    expect(vad.opts!.strict!()).toBe(true)
+    await fire('speech_start')
+    expect(o.onBargeIn).toHaveBeenCalledOnce()
+    expect(o.startPTT).toHaveBeenCalled()
+    expect(vad.opts!.strict!()).toBe(false)
+  })
+
+  it('ignores speech over the avatar when barge-in is off', async () => {
+    const { o, hook } = setup(true, { ...DEFAULT_VAD, bargeIn: false })
+    await waitFor(() => expect(hook.result.current.state).toBe('listening'))
+    await fire('speech_onset')
+    await fire('speech_start')
+    await fire('speech_end')
+    expect(o.onBargeIn).not.toHaveBeenCalled()
+    expect(o.startPTT).not.toHaveBeenCalled()
+    expect(o.stopPTT).not.toHaveBeenCalled()
+  })
+
+  it('drops an open take and releases the mic when turned off', async () => {
+    const { o, hook, getUserMedia } = setup()
+    await waitFor(() => expect(hook.result.current.state).toBe('listening'))
+    const stream: MediaStream = await getUserMedia.mock.results[0].value
+    await fire('speech_start')
+    hook.rerender({ ...o, enabled: false })
+    expect(vad.stop).toHaveBeenCalled()
+    expect(o.stopPTT).toHaveBeenCalledWith(false)
+    for (const t of stream.getTracks()) expect(t.stop).toHaveBeenCalled()
+    expect(hook.result.current.state).toBe('off')
+  })
+})
@@ -0,0 +1,104 @@
+// hooks/useHandsFree.ts
+// Hands-free voice mode: keeps the mic open, lets the VAD (lib/vad.ts) open and close
+// utterances, and drives usePTT's recorder with the shared stream instead of a held button.
+// Speech while the avatar talks is a barge-in: `onBargeIn` stops the reply, then capture starts.
+// The take starts at the VAD's onset, before speech is confirmed, so the first syllable is in it;
+// an onset that never becomes speech drops its take.
+import * as React from 'react'
+import { createVAD } from '../lib/vad'
+import type { VAD, VadSettings } from '../lib/vad'
+import { openMic } from '../lib/micSettings'
+import type { MicSettings } from '../lib/micSettings'
+
+export type HandsFreeState = 'off' | 'starting' | 'listening' | 'denied' | 'unsupported'
+
+type UseHandsFreeOpts = {
+  enabled: boolean
+  settings: VadSettings
+  /** Reopens the mic when the device or processing changes */
+  mic: MicSettings
+  /** True while the reply's audio is playing */
+  avatarTalking: () => boolean
+  onBargeIn: () => void
+  startPTT: (stream: MediaStream) => Promise<void>
+  stopPTT: (send: boolean) => Promise<void>
+}
+
+export function useHandsFree(opts: UseHandsFreeOpts) {
+  const [state, setState] = React.useState<HandsFreeState>('off')
+  const [speaking, setSpeaking] = React.useState(false)
+  // The VAD outlives renders; it reads the latest settings and callbacks from here
+  const optsRef = React.useRef(opts)
+  React.useEffect(() => { optsRef.current = opts })
+  const micKey = JSON.stringify(opts.mic)
+
+  React.useEffect(() => {
+    if (!opts.enabled) {
+      setState('off')
+      return
+    }
+    let cancelled = false
+    let stream: MediaStream | null = null
+    let vad: VAD | null = null
+    let capturing = false
+    let early = false     // a take started on an onset, not yet confirmed as speech
+    setState('starting')
+
+    openMic(opts.mic)
+      .then((s) => {
+        if (cancelled) { s.getTracks().forEach(t => t.stop()); return }
+        stream = s
+        vad = createVAD(s, {
+          settings: () => optsRef.current.settings,
+          // While we capture, the user's own pauses must not be judged by the stricter threshold
+          strict: () => !capturing && optsRef.current.avatarTalking(),
+          onEvent(ev) {
+            const o = optsRef.current
+            if (ev === 'speech_onset') {
+              if (capturing || early || (o.avatarTalking() && !o.settings.bargeIn)) return
+              early = true
+              void o.startPTT(s)
+            } else if (ev === 'speech_abort') {
+              if (!early) return
+              early = false
+              void o.stopPTT(false)
+            } else if (ev === 'speech_start') {
+              const started = early
+              early = false
+              if (o.avatarTalking()) {
+                if (!o.settings.bargeIn) {
+                  if (started) void o.stopPTT(false)
+                  return
+                }
+                o.onBargeIn()
+              }
+              capturing = true
+              setSpeaking(true)
+              if (!started) void o.startPTT(s)
+            } else if (capturing) {
+              capturing = false
+              setSpeaking(false)
+              void o.stopPTT(true)
+            }
+          },
+        })
+        if (!vad) {
+          s.getTracks().forEach(t => t.stop())
+          stream = null
+        }
+        setState(vad ? 'listening' : 'unsupported')
+      })
+      .catch(() => { if (!cancelled) setState('denied') })
+
+    return () => {
+      cancelled = true
+      vad?.stop()
+      if (capturing || early) void optsRef.current.stopPTT(false)
+      setSpeaking(false)
+      stream?.getTracks().forEach(t => t.stop())
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [opts.enabled, micKey])
+
+  return { state, speaking }
+}
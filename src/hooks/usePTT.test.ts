@@ -0,0 +1,228 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { usePTT } from './usePTT'
+import type { PTTStream } from './usePTT'
+import { DEFAULT_GUARDS } from '../lib/recordingGuards'
+import type { RecordingGuards, checkClip } from '../lib/recordingGuards'
+import { FakeMediaRecorder, fakeStream, installFakeMic } from '../test/fakes'
+
+// jsdom can't decode audio; the energy check itself is covered in lib/recordingGuards.test.ts
+const clip = vi.hoisted(() => ({ check: vi.fn<typeof checkClip>(async () => null) }))
+vi.mock('../lib/recordingGuards', async (orig) => ({
+  ...(await orig<typeof import('../lib/recordingGuards')>()),
+  checkClip: clip.check,
+}))
+
+// takes in these tests last a few ms, so the minimum length is off unless a test turns it on
+const NO_MIN: RecordingGuards = { ...DEFAULT_GUARDS, minDurationMs: 0 }
+
+function setup(stream?: PTTStream, guards = NO_MIN) {
+  const onSend = vi.fn()
+  const onReject = vi.fn()
+  const hook = renderHook(() => usePTT({ muted: false, onSend, onReject, stream, guards }))
+  return { onSend, onReject, hook }
+}
+
+const text = (b: ArrayBuffer) => new TextDecoder().decode(b)
+
+describe('usePTT', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    clip.check.mockReset().mockResolvedValue(null)
+  })
+
+  it('records on start and sends the raw webm bytes on release', async () => {
+    installFakeMic()
+    const { onSend, hook } = setup()
+    await act(() => hook.result.current.startPTT())
+    expect(hook.result.current.micState).toBe('recording')
+    expect(FakeMediaRecorder.last?.state).toBe('recording')
+
+    await act(() => hook.result.current.stopPTT(true))
+    await waitFor(() => expect(onSend).toHaveBeenCalledTimes(1))
+    const { audio, format } = onSend.mock.calls[0][0]
+    expect(format).toBe('webm')
+    expect(new TextDecoder().decode(audio)).toBe('fake-opus-bytes')
+    expect(hook.result.current.micState).toBe('idle')
+  })
+
+  it('does not send a cancelled take', async () => {
+    installFakeMic()
+    const { onSend, hook } = setup()
+    await act(() => hook.result.current.startPTT())
+    await act(() => hook.result.current.stopPTT(false))
+    await waitFor(() => expect(hook.result.current.micState).toBe('idle'))
+    await new Promise(r => setTimeout(r, 20))
+    expect(onSend).not.toHaveBeenCalled()
+  })
+
+  it('releases the microphone tracks when a take ends', async () => {
+    const { getUserMedia } = installFakeMic()
+    const { hook } = setup()
+    await act(() => hook.result.current.startPTT())
+    const stream = await getUserMedia.mock.results[0].value as MediaStream
+    await act(() => hook.result.current.stopPTT(true))
+    for (const t of stream.getTracks()) expect(t.stop).toHaveBeenCalled()
+  })
+
+  it('does not record when the key was released before the mic opened', async () => {
+    const { getUserMedia } = installFakeMic()
+    let open!: () => void
+    const opened = new Promise<void>(r => { open = r })
+    const { stream, track } = fakeStream()
+    getUserMedia.mockImplementationOnce(async () => { await opened; return stream })
+    const { onSend, hook } = setup()
+    let starting!: Promise<void>
+    act(() => { starting = hook.result.current.startPTT() })
+    await act(() => hook.result.current.stopPTT(true))
+    open()
+    await act(() => starting)
+    expect(FakeMediaRecorder.last).toBeNull()
+    expect(hook.result.current.micState).toBe('idle')
+    expect(hook.result.current.remainingS).toBeNull()
+    expect(track.stop).toHaveBeenCalled()
+    expect(onSend).not.toHaveBeenCalled()
+  })
+
+  it('keeps a cancelled take dropped when the next take starts before its onstop', async () => {
+    installFakeMic()
+    const { stream: shared } = fakeStream()
+    const { onSend, hook } = setup()
+    await act(() => hook.result.current.startPTT(shared))
+    const aborted = FakeMediaRecorder.last!
+    // hold back the aborted recorder's onstop, as a real one fires it a task later
+    const lateStop = aborted.onstop!
+    aborted.onstop = null
+    await act(() => hook.result.current.stopPTT(false))
+    await act(() => hook.result.current.startPTT(shared))
+    const next = FakeMediaRecorder.last!
+    expect(next).not.toBe(aborted)
+
+    await act(async () => { lateStop() })
+    await new Promise(r => setTimeout(r, 20))
+    expect(onSend).not.toHaveBeenCalled()
+    expect(hook.result.current.micState).toBe('recording')
+    expect(hook.result.current.remainingS).not.toBeNull()
+
+    await act(() => hook.result.current.stopPTT(true))
+    await waitFor(() => expect(onSend).toHaveBeenCalledTimes(1))
+    expect(hook.result.current.micState).toBe('idle')
+  })
+
+  it('streams timeslices in order while held and ends the stream on release', async () => {
+    installFakeMic()
+    const stream = { onChunk: vi.fn<PTTStream['onChunk']>(() => true), onEnd: vi.fn() }
+    const { onSend, hook } = setup(stream)
+    await act(() => hook.result.current.startPTT())
+    const rec = FakeMediaRecorder.last!
+    expect(rec.timeslice).toBe(250)
+    rec.slice('one')
+    rec.slice('two')
+    await waitFor(() => expect(stream.onChunk).toHaveBeenCalledTimes(2))
+
+    await act(() => hook.result.current.stopPTT(true))
+    await waitFor(() => expect(stream.onEnd).toHaveBeenCalledWith(true))
+    const chunks = stream.onChunk.mock.calls.map(([c]) => [c.index, text(c.audio)])
+    expect(chunks).toEqual([[0, 'one'], [1, 'two'], [2, 'fake-opus-bytes']])
+    expect(onSend).not.toHaveBeenCalled()
+  })
+
+  it('cancels a streamed take instead of finishing it', async () => {
+    installFakeMic()
+    const stream = { onChunk: vi.fn<PTTStream['onChunk']>(() => true), onEnd: vi.fn() }
+    const { onSend, hook } = setup(stream)
+    await act(() => hook.result.current.startPTT())
+    FakeMediaRecorder.last!.slice('one')
+    await waitFor(() => expect(stream.onChunk).toHaveBeenCalledTimes(1))
+    await act(() => hook.result.current.stopPTT(false))
+    await waitFor(() => expect(stream.onEnd).toHaveBeenCalledWith(false))
+    expect(stream.onChunk).toHaveBeenCalledTimes(1)
+    expect(onSend).not.toHaveBeenCalled()
+  })
+
+  it('sends the whole take when a slice could not go out', async () => {
+    installFakeMic()
+    const stream = { onChunk: vi.fn<PTTStream['onChunk']>(() => true), onEnd: vi.fn() }
+    const { onSend, hook } = setup(stream)
+    await act(() => hook.result.current.startPTT())
+    FakeMediaRecorder.last!.slice('one')
+    await waitFor(() => expect(stream.onChunk).toHaveBeenCalledTimes(1))
+    stream.onChunk.mockReturnValue(false)
+    FakeMediaRecorder.last!.slice('two')
+    await act(() => hook.result.current.stopPTT(true))
+    await waitFor(() => expect(onSend).toHaveBeenCalledTimes(1))
+    expect(stream.onChunk).toHaveBeenCalledTimes(2)
+    expect(stream.onEnd).toHaveBeenCalledWith(false)
+    expect(text(onSend.mock.calls[0][0].audio)).toBe('onetwofake-opus-bytes')
+  })
+
+  it('drops a take shorter than the minimum length', async () => {
+    installFakeMic()
+    const { onSend, onReject, hook } = setup(undefined, DEFAULT_GUARDS)
+    await act(() => hook.result.current.startPTT())
+    await act(() => hook.result.current.stopPTT(true))
+    await waitFor(() => expect(onReject).toHaveBeenCalledWith('too_short'))
+    expect(onSend).not.toHaveBeenCalled()
+    expect(clip.check).not.toHaveBeenCalled()
+  })
+
+  it('sends the trimmed WAV when silence was cut off', async () => {
+    installFakeMic()
+    const wav = new TextEncoder().encode('RIFF-trimmed').buffer
+    clip.check.mockResolvedValue({ silent: false, trimmed: { audio: wav, format: 'wav' } })
+    const { onSend, hook } = setup()
+    await act(() => hook.result.current.startPTT())
+    await act(() => hook.result.current.stopPTT(true))
+    await waitFor(() => expect(onSend).toHaveBeenCalledWith({ audio: wav, format: 'wav' }))
+    expect(text(clip.check.mock.calls[0][0])).toBe('fake-opus-bytes')
+    expect(clip.check.mock.calls[0][1]).toBe(true)
+  })
+
+  it('rejects a silent take and cancels it when it was streamed', async () => {
+    installFakeMic()
+    clip.check.mockResolvedValue({ silent: true })
+    const stream = { onChunk: vi.fn<PTTStream['onChunk']>(() => true), onEnd: vi.fn() }
+    const { onSend, onReject, hook } = setup(stream)
+    await act(() => hook.result.current.startPTT())
+    FakeMediaRecorder.last!.slice('hum')
+    await waitFor(() => expect(stream.onChunk).toHaveBeenCalledTimes(1))
+    await act(() => hook.result.current.stopPTT(true))
+    await waitFor(() => expect(onReject).toHaveBeenCalledWith('silent'))
+    expect(stream.onEnd).toHaveBeenCalledWith(false)
+    // already on the wire: checked, but not trimmed
+    expect(clip.check.mock.calls[0][1]).toBe(false)
+    expect(onSend).not.toHaveBeenCalled()
+  })
+
+  it('counts down and stops by itself at the maximum length', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance'] })
+    installFakeMic()
+    const { onSend, hook } = setup(undefined, { ...NO_MIN, maxDurationS: 5 })
+    await act(() => hook.result.current.startPTT())
+    expect(hook.result.current.remainingS).toBe(5)
+    await act(() => vi.advanceTimersByTimeAsync(2100))
+    expect(hook.result.current.remainingS).toBe(3)
+    await act(() => vi.advanceTimersByTimeAsync(3000))
+    expect(FakeMediaRecorder.last?.state).toBe('inactive')
+    vi.useRealTimers()
+    await waitFor(() => expect(onSend).toHaveBeenCalledTimes(1))
+    expect(hook.result.current.remainingS).toBeNull()
+    expect(hook.result.current.micState).toBe('idle')
+  })
+
+  it('reports denied when getUserMedia is refused', async () => {
+    installFakeMic({ deny: true })
+    const { onSend, hook } = setup()
+    await act(() => hook.result.current.startPTT())
+    expect(hook.result.current.micState).toBe('denied')
+    expect(FakeMediaRecorder.last).toBeNull()
+    expect(onSend).not.toHaveBeenCalled()
+  })
+
+  it('reports unsupported without MediaRecorder', async () => {
+    vi.stubGlobal('MediaRecorder', undefined)
+    const { hook } = setup()
+    await waitFor(() => expect(hook.result.current.micState).toBe('unsupported'))
+    expect(hook.result.current.micSupported).toBe(false)
+  })
+})
@@ -1,19 +1,59 @@
 // hooks/usePTT.ts
 import * as React from 'react'
+import { DEFAULT_MIC, openMic } from '../lib/micSettings'
+import type { MicSettings } from '../lib/micSettings'
+import { DEFAULT_GUARDS, checkClip } from '../lib/recordingGuards'
+import type { ClipCheck, RecordingGuards } from '../lib/recordingGuards'
 
 export type MicState = 'idle' | 'recording' | 'blocked' | 'denied' | 'unsupported'
 
+type AudioFormat = 'webm' | 'm4a' | 'ogg' | 'wav'
+
+/** Why a finished take was not sent (lib/recordingGuards.ts) */
+export type PTTReject = 'too_short' | 'silent'
+
+/**
+ * Streaming mode: the recorder runs with a timeslice and every slice is handed over while the
+ * button is held. Slices are pieces of one file (only the first has the container header), so
+ * the receiver concatenates them in `index` order.
+ */
+export type PTTStream = {
+  /** Returns false if the slice could not go out; the take then falls back to `onSend` */
+  onChunk: (chunk: { audio: ArrayBuffer; format: AudioFormat; index: number }) => boolean
+  /** After the last slice: `send` is false when the take was cancelled or fell back */
+  onEnd: (send: boolean) => void
+}
+
 type UsePTTOpts = {
   muted: boolean
-  onSend: (payload: { base64Audio: string; format: 'webm' | 'm4a' | 'ogg' }) => void
+  /** The recording's raw bytes; ChatPane hands them to the socket as-is */
+  onSend: (payload: { audio: ArrayBuffer; format: AudioFormat }) => void
+  /** Read when a take starts; without it the whole take goes to `onSend` on release */
+  stream?: PTTStream | null
+  /** Input device and processing (mic settings panel) */
+  mic?: MicSettings
+  /** Length limits and silence handling, read when a take starts */
+  guards?: RecordingGuards
+  /** A take was dropped by the guards instead of being sent */
+  onReject?: (reason: PTTReject) => void
 }
 
-export function usePTT({ onSend }: UsePTTOpts) {
+const STREAM_SLICE_MS = 250
+
+export function usePTT({ onSend, onReject, stream: streamOpt, mic = DEFAULT_MIC, guards = DEFAULT_GUARDS }: UsePTTOpts) {
   const [micSupported, setMicSupported] = React.useState<boolean>(true)
   const [micState, setMicState] = React.useState<MicState>('idle')
+  // whole seconds left before the take stops by itself; null when not recording
+  const [remainingS, setRemainingS] = React.useState<number | null>(null)
+  const limitTimers = React.useRef<{ stop: number; tick: number } | null>(null)
   const recStream = React.useRef<MediaStream | null>(null)
   const recorder = React.useRef<MediaRecorder | null>(null)
-  const chunks = React.useRef<BlobPart[]>([])
+  // marks the current take as cancelled (stopPTT(false)). The flag and the chunks live in the
+  // take's own closure: hands-free can start the next take before the last one's onstop ran
+  const discardTake = React.useRef<(() => void) | null>(null)
+  // set by stopPTT while startPTT is still waiting for the mic: a key released before the
+  // mic opened must not leave a take recording with the UI idle
+  const pendingStop = React.useRef(false)
 
   // support & permission probe
   React.useEffect(() => {
@@ -35,9 +75,18 @@ export function usePTT({ onSend }: UsePTTOpts) {
     }
   }, [])
 
+  function clearLimit() {
+    if (!limitTimers.current) return
+    clearTimeout(limitTimers.current.stop)
+    clearInterval(limitTimers.current.tick)
+    limitTimers.current = null
+    setRemainingS(null)
+  }
+  React.useEffect(() => clearLimit, [])
+
   async function requestMicPermission() {
     try {
-      const s = await navigator.mediaDevices.getUserMedia({ audio: true })
+      const s = await openMic(mic)
       s.getTracks().forEach((t) => t.stop())
       setMicState('idle')
       setMicSupported(true)
@@ -48,7 +97,7 @@ export function usePTT({ onSend }: UsePTTOpts) {
 
   async function ensureMic(): Promise<MediaStream | null> {
     try {
-      return await navigator.mediaDevices.getUserMedia({ audio: true })
+      return await openMic(mic)
     } catch {
       return null
     }
@@ -71,73 +120,141 @@ export function usePTT({ onSend }: UsePTTOpts) {
     }
     return 'audio/webm'
   }
-  function fmtFromMime(m: string): 'webm' | 'm4a' | 'ogg' {
+  function fmtFromMime(m: string): AudioFormat {
     if (m.includes('mp4')) return 'm4a'
     if (m.includes('ogg')) return 'ogg'
     return 'webm'
   }
 
-  async function startPTT() {
+  /** `shared`: an already open mic (hands-free mode); its tracks are left running after the take */
+  async function startPTT(shared?: MediaStream) {
     if (!micSupported) {
       setMicState('unsupported')
       return
     }
     setMicState('recording')
+    pendingStop.current = false
 
-    const stream = await ensureMic()
+    const stream = shared ?? await ensureMic()
     if (!stream) {
       setMicState('denied')
       return
     }
+    if (pendingStop.current) {
+      pendingStop.current = false
+      if (!shared) stream.getTracks().forEach((t) => t.stop())
+      setMicState('idle')
+      return
+    }
     recStream.current = stream
 
     const mime = pickRecorderMime()
     // @ts-ignore
     const rec = new MediaRecorder(stream, { mimeType: mime, audioBitsPerSecond: 64000 })
     recorder.current = rec
-    chunks.current = []
+    // the final dataavailable still fires after stop(), so dropping the chunks is not enough
+    let discarded = false
+    discardTake.current = () => { discarded = true }
+    const chunks: BlobPart[] = []
+
+    // Streaming: slices go out in order (blob reads are async), until one fails to send
+    const live = streamOpt ?? null
+    let streaming = !!live
+    let sent = 0
+    let pump: Promise<void> = Promise.resolve()
 
     rec.ondataavailable = (ev: BlobEvent | any) => {
-      if (ev.data && ev.data.size) chunks.current.push(ev.data)
+      if (!ev.data || !ev.data.size) return
+      chunks.push(ev.data)
+      if (!live) return
+      const slice: Blob = ev.data
+      pump = pump.then(async () => {
+        if (!streaming || discarded) return
+        const audio = await slice.arrayBuffer()
+        if (live.onChunk({ audio, format: fmtFromMime(mime), index: sent })) sent++
+        else streaming = false
+      })
     }
+    const g = guards
+    let startedAt = 0
+
+    // a newer take may already be recording when this one's onstop runs: leave its state alone
+    const latest = () => recorder.current === rec
     rec.onstop = async () => {
+      if (latest()) clearLimit()
       try {
-        const blob = new Blob(chunks.current, { type: mime })
-        chunks.current = []
+        const durationMs = performance.now() - startedAt
+        const blob = new Blob(chunks, { type: mime })
         try {
-          stream.getTracks().forEach((t) => t.stop())
+          if (!shared) stream.getTracks().forEach((t) => t.stop())
         } catch {}
-        recStream.current = null
+        if (latest()) recStream.current = null
+        await pump
+        const audio = discarded || !blob.size ? null : await blob.arrayBuffer()
 
-        const base64Audio = await new Promise<string>((resolve, reject) => {
-          const fr = new FileReader()
-          fr.onloadend = () => resolve((fr.result || '') as string)
-          fr.onerror = reject
-          fr.readAsDataURL(blob)
-        })
+        // Guards: a tap on the button, or a take with nothing said in it, never reaches the server.
+        // A streamed take is already out, so it is only checked, not trimmed.
+        const streamed = streaming && sent > 0
+        let reject: PTTReject | null = null
+        let check: ClipCheck | null = null
+        if (audio) {
+          if (durationMs < g.minDurationMs) reject = 'too_short'
+          else {
+            check = await checkClip(audio, g.trimSilence && !streamed)
+            if (check?.silent) reject = 'silent'
+          }
+        }
+        if (live && sent) live.onEnd(streamed && !!audio && !reject)
+        if (!audio) return
+        if (reject) {
+          onReject?.(reject)
+          return
+        }
+        if (streamed) return
 
-        onSend({ base64Audio, format: fmtFromMime(mime) })
+        onSend(check && !check.silent && check.trimmed ? check.trimmed : { audio, format: fmtFromMime(mime) })
       } catch {
         // swallow
       } finally {
-        setMicState('idle')
+        if (latest()) setMicState('idle')
       }
     }
 
     try {
-      rec.start()
+      if (live) rec.start(STREAM_SLICE_MS)
+      else rec.start()
     } catch {
       setMicState('blocked')
+      return
+    }
+
+    // Max length: the take ends (and goes out) by itself, with a countdown until then
+    startedAt = performance.now()
+    const limitMs = g.maxDurationS * 1000
+    clearLimit()
+    setRemainingS(Math.ceil(limitMs / 1000))
+    limitTimers.current = {
+      stop: window.setTimeout(() => {
+        if (latest() && rec.state !== 'inactive') rec.stop()
+      }, limitMs),
+      tick: window.setInterval(() => {
+        setRemainingS(Math.max(0, Math.ceil((limitMs - (performance.now() - startedAt)) / 1000)))
+      }, 250),
     }
   }
 
   async function stopPTT(send = true) {
+    pendingStop.current = true
     if (!recorder.current) {
       setMicState('idle')
       return
     }
     try {
-      if (!send) chunks.current = []
+      if (!send) discardTake.current?.()
+      if (recorder.current.state === 'inactive') {
+        setMicState('idle')
+        return
+      }
       recorder.current.stop()
     } catch {
       setMicState('idle')
@@ -161,6 +278,7 @@ export function usePTT({ onSend }: UsePTTOpts) {
   return {
     micSupported,
     micState,
+    remainingS,
     requestMicPermission,
     startPTT,
     stopPTT,
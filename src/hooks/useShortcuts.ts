@@ -0,0 +1,68 @@
+// hooks/useShortcuts.ts
+// Window-level keyboard shortcuts (lib/shortcuts.ts). Holding the push-to-talk key records;
+// key repeat is ignored, releasing sends, Esc or leaving the window cancels.
+import * as React from 'react'
+import { matchShortcut } from '../lib/shortcuts'
+import type { ShortcutAction } from '../lib/shortcuts'
+
+type UseShortcutsOpts = {
+  enabled: boolean
+  pttKey: string
+  onPttDown: () => void
+  onPttUp: () => void
+  /** Esc: returns true if there was something to cancel (the key is then consumed) */
+  onCancel: () => boolean
+  onAction: (a: Exclude<ShortcutAction, 'ptt' | 'cancel'>) => void
+}
+
+export function useShortcuts(opts: UseShortcutsOpts) {
+  const optsRef = React.useRef(opts)
+  React.useEffect(() => { optsRef.current = opts })
+
+  React.useEffect(() => {
+    if (!opts.enabled) return
+    let held = false
+
+    const onDown = (e: KeyboardEvent) => {
+      const hit = matchShortcut(e, opts.pttKey)
+      if (!hit) return
+      const o = optsRef.current
+      if (hit === 'cancel') {
+        held = false
+        if (o.onCancel()) e.preventDefault()
+        return
+      }
+      // Space would also scroll or click the focused button
+      e.preventDefault()
+      if (e.repeat) return
+      if (hit === 'ptt') {
+        if (held) return
+        held = true
+        o.onPttDown()
+        return
+      }
+      o.onAction(hit)
+    }
+    const onUp = (e: KeyboardEvent) => {
+      if (!held || e.code !== opts.pttKey) return
+      e.preventDefault()
+      held = false
+      optsRef.current.onPttUp()
+    }
+    const onBlur = () => {
+      if (!held) return
+      held = false
+      optsRef.current.onCancel()
+    }
+
+    window.addEventListener('keydown', onDown)
+    window.addEventListener('keyup', onUp)
+    window.addEventListener('blur', onBlur)
+    return () => {
+      window.removeEventListener('keydown', onDown)
+      window.removeEventListener('keyup', onUp)
+      window.removeEventListener('blur', onBlur)
+      if (held) optsRef.current.onCancel()
+    }
+  }, [opts.enabled, opts.pttKey])
+}
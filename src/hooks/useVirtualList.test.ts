@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import { useVirtualList } from './useVirtualList'
+
+const ids = Array.from({ length: 1000 }, (_, i) => `m${i}`)
+
+/** A scroll container with a 400 px viewport (jsdom does no layout) */
+function container() {
+  const el = document.createElement('div')
+  Object.defineProperty(el, 'clientHeight', { value: 400 })
+  return { current: el }
+}
+
+/** A rendered row reporting `h` px */
+function row(id: string, h: number) {
+  const el = document.createElement('div')
+  el.dataset.vid = id
+  Object.defineProperty(el, 'offsetHeight', { value: h })
+  return el
+}
+
+describe('useVirtualList', () => {
+  it('renders the rows around the viewport and follows the scroll position', () => {
+    const ref = container()
+    const { result } = renderHook(() => useVirtualList(ids, ref, { estimate: 100, overscan: 200 }))
+    expect(result.current).toMatchObject({ start: 0, end: 6, padTop: 0, total: 100_000 })
+
+    act(() => {
+      ref.current.scrollTop = 50_000
+      ref.current.dispatchEvent(new Event('scroll'))
+    })
+    expect(result.current).toMatchObject({ start: 498, end: 506, padTop: 49_800 })
+  })
+
+  it('keeps the scroll position on what is in view when a row above it is measured', () => {
+    const ref = container()
+    const { result } = renderHook(() => useVirtualList(ids, ref, { estimate: 100, overscan: 200 }))
+    act(() => {
+      ref.current.scrollTop = 1000
+      ref.current.dispatchEvent(new Event('scroll'))
+    })
+    act(() => { result.current.measure(row('m8', 250)) })     // above the viewport
+    expect(ref.current.scrollTop).toBe(1150)
+    act(() => { result.current.measure(row('m12', 30)) })     // inside it: nothing moves
+    expect(ref.current.scrollTop).toBe(1150)
+    expect(result.current.total).toBe(100_000 + 150 - 70)
+  })
+})
@@ -0,0 +1,89 @@
+// hooks/useVirtualList.ts
+// Renders only the rows near the viewport of a scroll container (lib/virtualList.ts).
+// - Every rendered row gets `ref={measure}` and `data-vid={id}`; a ResizeObserver keeps its
+//   height current (markdown, images and code blocks reflow after the first paint)
+// - When a row above the viewport changes height, the scroll position moves with it, so what
+//   the user is reading stays put
+// scrollToIndex() jumps to a row that may not be rendered yet (search results).
+// Without layout (jsdom, before the first measure) every row renders.
+import * as React from 'react'
+import { rowOffsets, visibleRange } from '../lib/virtualList'
+
+type UseVirtualListOpts = {
+  /** Height assumed for a row that was never rendered */
+  estimate?: number
+  /** Extra px rendered above and below the viewport */
+  overscan?: number
+}
+
+export function useVirtualList(
+  ids: readonly string[],
+  scrollRef: React.RefObject<HTMLElement | null>,
+  { estimate = 96, overscan = 800 }: UseVirtualListOpts = {},
+) {
+  const heights = React.useRef(new Map<string, number>())
+  const [measured, setMeasured] = React.useState(0)
+  const [view, setView] = React.useState({ top: 0, height: 0 })
+
+  React.useLayoutEffect(() => {
+    const el = scrollRef.current
+    if (!el) return
+    const update = () => setView(v => v.top === el.scrollTop && v.height === el.clientHeight ? v : { top: el.scrollTop, height: el.clientHeight })
+    update()
+    el.addEventListener('scroll', update, { passive: true })
+    const ro = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(update)
+    ro?.observe(el)
+    return () => {
+      el.removeEventListener('scroll', update)
+      ro?.disconnect()
+    }
+  }, [scrollRef])
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- `measured` is bumped when `heights` changes
+  const offsets = React.useMemo(() => rowOffsets(ids, heights.current, estimate), [ids, measured, estimate])
+  const range = visibleRange(offsets, view.top, view.height, overscan)
+
+  // Read by the observer, which outlives renders
+  const layoutRef = React.useRef({ offsets, index: new Map<string, number>(), estimate })
+  React.useEffect(() => {
+    layoutRef.current = { offsets, index: new Map(ids.map((id, i) => [id, i])), estimate }
+  }, [ids, offsets, estimate])
+
+  const record = React.useCallback((node: HTMLElement) => {
+    const id = node.dataset.vid
+    const h = node.offsetHeight
+    if (!id || !h) return false
+    const { offsets: at, index, estimate: est } = layoutRef.current
+    const old = heights.current.get(id) ?? est
+    if (heights.current.has(id) && h === old) return false
+    heights.current.set(id, h)
+    const el = scrollRef.current
+    const i = index.get(id)
+    if (el && i != null && at[i] + old <= el.scrollTop) el.scrollTop += h - old
+    return true
+  }, [scrollRef])
+
+  const observer = React.useMemo(() => typeof ResizeObserver === 'undefined' ? null : new ResizeObserver((entries) => {
+    let changed = false
+    for (const e of entries) changed = record(e.target as HTMLElement) || changed
+    if (changed) setMeasured(m => m + 1)
+  }), [record])
+  React.useEffect(() => () => observer?.disconnect(), [observer])
+
+  const measure = React.useCallback((node: HTMLElement | null) => {
+    if (!node) return
+    if (record(node)) setMeasured(m => m + 1)
+    observer?.observe(node)
+    return () => observer?.unobserve(node)
+  }, [observer, record])
+
+  /** Brings row `i` into the rendered range, a third of the way down; exact once it is measured */
+  const scrollToIndex = React.useCallback((i: number) => {
+    const el = scrollRef.current
+    const at = layoutRef.current.offsets
+    if (!el || i < 0 || i >= at.length - 1) return
+    el.scrollTop = Math.max(0, at[i] - el.clientHeight / 3)
+  }, [scrollRef])
+
+  return { ...range, measure, scrollToIndex }
+}
@@ -1,16 +1,31 @@
 import { get, patch } from './http'
 import { ENV } from './env'
+import type { MorphProfile } from './morphProfile'
+import type { VisemeTuning } from './visemeTuning'
 
 export type AgentRead = {
   bot_id: string
   name: string
   glb_url?: string | null
+  /** Viseme→morph mapping for glb_url (see lib/morphProfile); raw JSON, normalize before use */
+  morph_profile?: unknown
+  /** Tuning-panel preset (see lib/visemeTuning); raw JSON, normalize before use */
+  viseme_tuning?: unknown
 }
 
 export async function fetchAgent(): Promise<AgentRead> {
   return get(`/api/agents/${ENV.BOT_ID}/`)
 }
 
-export async function saveAgentGlb(glb_url: string) {
-  return patch(`/api/agents/${ENV.BOT_ID}/`, { glb_url })
+/** A new avatar invalidates the old mapping, so the profile is reset alongside it */
+export async function saveAgentGlb(glb_url: string, morph_profile: MorphProfile | null = null) {
+  return patch(`/api/agents/${ENV.BOT_ID}/`, { glb_url, morph_profile })
+}
+
+export async function saveAgentMorphProfile(morph_profile: MorphProfile | null) {
+  return patch(`/api/agents/${ENV.BOT_ID}/`, { morph_profile })
+}
+
+export async function saveAgentTuning(viseme_tuning: VisemeTuning | null) {
+  return patch(`/api/agents/${ENV.BOT_ID}/`, { viseme_tuning })
 }
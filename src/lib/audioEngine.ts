@@ -0,0 +1,82 @@
+// lib/audioEngine.ts
+// WebAudio playback for the viseme scheduler.
+// - Decodes chunks (base64 or binary frames) into AudioBuffers as they arrive, ahead of playback
+// - Starts each buffer at an exact AudioContext time, so consecutive chunks join without gaps
+// - One output chain: sources → gain (mute) → analyser (prosody) → destination
+// The context is created lazily; until it runs (autoplay policy) the scheduler keeps using <audio>.
+
+import { payloadBytes } from './bytes'
+import type { AudioPayload } from './bytes'
+
+export type AudioEngine = {
+  /** True once the context is running; otherwise nudges it with resume() */
+  running(): boolean
+  /** AudioContext.currentTime (s): the clock scheduled chunks and their visemes run on */
+  now(): number
+  decode(src: AudioPayload): Promise<AudioBuffer>
+  /** Starts `buf` at context time `at`; `onEnded` fires once it finished or was stopped */
+  play(buf: AudioBuffer, at: number, onEnded: () => void): { stop(): void }
+  setMuted(v: boolean): void
+  analyser(): AnalyserNode | null
+  close(): void
+}
+
+/** Null when the browser has no WebAudio */
+export function createAudioEngine(): AudioEngine | null {
+  const Ctx = typeof window === 'undefined' ? undefined
+    : window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+  if (!Ctx) return null
+
+  let ctx: AudioContext | null = null
+  let gain: GainNode | null = null
+  let tap: AnalyserNode | null = null
+  let muted = false
+
+  function ensure(): AudioContext {
+    if (ctx) return ctx
+    ctx = new Ctx!()
+    gain = ctx.createGain()
+    gain.gain.value = muted ? 0 : 1
+    tap = ctx.createAnalyser()
+    tap.fftSize = 2048
+    gain.connect(tap)
+    tap.connect(ctx.destination)
+    return ctx
+  }
+
+  return {
+    running() {
+      const c = ensure()
+      if (c.state !== 'running') void c.resume().catch(() => {})
+      return c.state === 'running'
+    },
+    now: () => ctx?.currentTime ?? 0,
+    decode(src) {
+      return ensure().decodeAudioData(payloadBytes(src))
+    },
+    play(buf, at, onEnded) {
+      const c = ensure()
+      const src = c.createBufferSource()
+      src.buffer = buf
+      src.connect(gain!)
+      src.onended = () => { src.disconnect(); onEnded() }
+      src.start(Math.max(at, c.currentTime))
+      return {
+        stop() {
+          try { src.stop() } catch { /* never started or already stopped */ }
+        },
+      }
+    },
+    setMuted(v) {
+      muted = v
+      if (gain && ctx) gain.gain.setValueAtTime(v ? 0 : 1, ctx.currentTime)
+    },
+    analyser: () => tap,
+    close() {
+      try { void ctx?.close() } catch { /* already closed */ }
+      ctx = null
+      gain = null
+      tap = null
+    },
+  }
+}
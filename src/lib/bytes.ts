@@ -0,0 +1,42 @@
+// lib/bytes.ts
+// Audio payloads arrive as base64 in JSON frames (data URLs allowed) or as raw bytes from
+// binary frames (protocol.ts). Everything that decodes audio takes either.
+
+export type AudioPayload = string | ArrayBuffer
+
+export function base64ToBytes(b64: string): ArrayBuffer {
+  const clean = b64.replace(/^data:[^,]*,/, '')
+  const bin = atob(clean)
+  const out = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+  return out.buffer
+}
+
+export function bytesToBase64(buf: ArrayBuffer): string {
+  const u8 = new Uint8Array(buf)
+  let bin = ''
+  // fromCharCode's argument count is limited; 32k at a time stays well under it
+  for (let i = 0; i < u8.length; i += 0x8000) bin += String.fromCharCode(...u8.subarray(i, i + 0x8000))
+  return btoa(bin)
+}
+
+/** A fresh buffer for decodeAudioData, which detaches whatever it is given */
+export function payloadBytes(src: AudioPayload): ArrayBuffer {
+  return typeof src === 'string' ? base64ToBytes(src) : src.slice(0)
+}
+
+/** Something an <audio> element can play: a data URL for base64, an object URL for bytes */
+export function payloadUrl(src: AudioPayload, format: string): string {
+  if (typeof src === 'string') return `data:audio/${format};base64,${src}`
+  return URL.createObjectURL(new Blob([src], { type: `audio/${format}` }))
+}
+
+/** Frees what payloadUrl allocated (data URLs need nothing) */
+export function releasePayloadUrl(url: string) {
+  if (url.startsWith('blob:')) URL.revokeObjectURL(url)
+}
+
+/** instanceof fails across realms (iframes, workers, test environments) */
+export function isArrayBuffer(v: unknown): v is ArrayBuffer {
+  return Object.prototype.toString.call(v) === '[object ArrayBuffer]'
+}
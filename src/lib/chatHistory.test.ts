@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { firstHistoryPath, parseHistoryPage, toApiPath } from './chatHistory'
+
+const first = firstHistoryPath('t-1', 2)
+
+describe('chat history pages', () => {
+  it('asks for the newest turns first', () => {
+    const u = new URL(first, 'http://x')
+    expect(u.pathname).toBe('/api/chats/')
+    expect(u.searchParams.get('thread_id')).toBe('t-1')
+    expect(u.searchParams.get('ordering')).toBe('-created_at,-id')
+    expect(u.searchParams.get('page_size')).toBe('2')
+  })
+
+  it('returns each page oldest-first and follows the DRF next link', () => {
+    const page = parseHistoryPage({
+      count: 5,
+      next: 'https://api.example.com/api/chats/?thread_id=t-1&page=2&page_size=2',
+      results: [{ id: 5, query: 'newest' }, { id: 4, query: 'older' }],
+    }, first)
+    expect(page.rows.map(r => r.id)).toEqual([4, 5])
+    expect(page.older).toBe('/api/chats/?thread_id=t-1&page=2&page_size=2')
+  })
+
+  it('builds the next request from a bare cursor', () => {
+    const page = parseHistoryPage({ results: [{ id: 1 }], next_cursor: 'cD0yMDI0' }, first)
+    const u = new URL(page.older!, 'http://x')
+    expect(u.searchParams.get('cursor')).toBe('cD0yMDI0')
+    expect(u.searchParams.get('thread_id')).toBe('t-1')
+  })
+
+  it('treats a plain list (or a single row) as the whole history', () => {
+    expect(parseHistoryPage([{ id: 2 }, { id: 1 }], first)).toEqual({ rows: [{ id: 1 }, { id: 2 }], older: null })
+    expect(parseHistoryPage({ id: 7, query: 'hi' }, first)).toEqual({ rows: [{ id: 7, query: 'hi' }], older: null })
+    expect(parseHistoryPage(null, first)).toEqual({ rows: [], older: null })
+  })
+
+  it('keeps relative links as they are', () => {
+    expect(toApiPath('/api/chats/?cursor=abc')).toBe('/api/chats/?cursor=abc')
+  })
+
+  it('drops the path prefix of the API base from next links', () => {
+    const base = 'https://host/backend'
+    expect(toApiPath('https://host/backend/api/chats/?page=2', base)).toBe('/api/chats/?page=2')
+    expect(toApiPath('https://host/backend/api/chats/?page=2', `${base}/`)).toBe('/api/chats/?page=2')
+    // a base without a path leaves the link's path alone
+    expect(toApiPath('https://host/api/chats/?page=2', 'https://host')).toBe('/api/chats/?page=2')
+  })
+})
@@ -0,0 +1,73 @@
+// lib/chatHistory.ts
+// A thread's chat history (GET /api/chats/) in pages, newest first, for scrolling upward.
+// - The first request asks for `-created_at,-id`, so page 1 holds the latest turns; each page
+//   is handed back oldest-first, ready to prepend
+// - The next (older) page is whatever the server paginates with: a DRF `next` link (page
+//   number or cursor pagination) or a bare `next_cursor`. A plain list is the only page.
+
+import { ENV } from './env'
+import { get } from './http'
+
+export type ChatRow = { id?: number | string; query?: string; response?: string; created_at?: string; emotion?: unknown }
+/** `older`: the request for the page before this one, or null at the start of the thread */
+export type HistoryPage = { rows: ChatRow[]; older: string | null }
+
+export const HISTORY_PAGE_SIZE = 50
+
+export function firstHistoryPath(thread_id: string, pageSize = HISTORY_PAGE_SIZE): string {
+  const qs = new URLSearchParams({ thread_id, ordering: '-created_at,-id', page_size: String(pageSize) }).toString()
+  return `/api/chats/?${qs}`
+}
+
+/**
+ * Pagination links are absolute; http.get wants the path (it adds the API base itself). When the
+ * API base has a path prefix (`https://host/backend`) the links carry it too, so it comes off as well.
+ */
+export function toApiPath(link: string, apiBase = ENV.API_BASE): string {
+  try {
+    const u = new URL(link, 'http://relative.invalid')
+    const prefix = apiBase ? new URL(apiBase, 'http://relative.invalid').pathname.replace(/\/+$/, '') : ''
+    const path = prefix && u.pathname.startsWith(`${prefix}/`) ? u.pathname.slice(prefix.length) : u.pathname
+    return path + u.search
+  } catch {
+    return link
+  }
+}
+
+/** The request after `requested` in a paginated list response (also used for the thread list), or null on the last page */
+export function nextPagePath(res: unknown, requested: string): string | null {
+  const page = (res && typeof res === 'object' ? res : {}) as { next?: unknown; next_cursor?: unknown }
+  if (typeof page.next === 'string' && page.next) return toApiPath(page.next)
+  if (typeof page.next_cursor === 'string' && page.next_cursor) {
+    const u = new URL(requested, 'http://relative.invalid')
+    u.searchParams.set('cursor', page.next_cursor)
+    return u.pathname + u.search
+  }
+  return null
+}
+
+export function parseHistoryPage(res: unknown, requested: string): HistoryPage {
+  const page = (res && typeof res === 'object' ? res : {}) as { results?: unknown }
+  const list: unknown[] =
+    Array.isArray(page.results) ? page.results :
+    Array.isArray(res) ? res :
+    res && typeof res === 'object' ? [res] : []
+  const rows = (list.filter(r => r && typeof r === 'object') as ChatRow[]).reverse()
+  return { rows, older: nextPagePath(res, requested) }
+}
+
+export async function fetchHistoryPage(path: string): Promise<HistoryPage> {
+  return parseHistoryPage(await get(path), path)
+}
+
+/** Every row from `path` back to the start of the thread, oldest first (the transcript export) */
+export async function fetchOlderRows(path: string, maxPages = 200): Promise<ChatRow[]> {
+  const pages: ChatRow[][] = []
+  let next: string | null = path
+  while (next && pages.length < maxPages) {
+    const page: HistoryPage = await fetchHistoryPage(next)
+    pages.unshift(page.rows)
+    next = page.older
+  }
+  return pages.flat()
+}
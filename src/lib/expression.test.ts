@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { EXPRESSION, createExpressionDriver, intensityGain } from './expression'
+import type { ExpressionName } from './expression'
+
+const at = (f: number[], name: ExpressionName) => f[EXPRESSION.indexOf(name)]
+
+function run(drv: ReturnType<typeof createExpressionDriver>, ms: number, step = 16) {
+  let f: number[] = []
+  for (let t = 0; t < ms; t += step) {
+    vi.advanceTimersByTime(step)
+    f = drv.getFrame()
+  }
+  return f
+}
+
+describe('intensityGain', () => {
+  it('grows with intensity and saturates at 3', () => {
+    expect(intensityGain(1)).toBeLessThan(intensityGain(2))
+    expect(intensityGain(3)).toBe(1)
+    expect(intensityGain(10)).toBe(1)
+    expect(intensityGain(Number.NaN)).toBe(intensityGain(1))
+  })
+})
+
+describe('createExpressionDriver', () => {
+  beforeEach(() => { vi.useFakeTimers({ toFake: ['performance', 'Date'] }) })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('is neutral until an emotion arrives', () => {
+    const drv = createExpressionDriver()
+    expect(run(drv, 200).every(v => v === 0)).toBe(true)
+  })
+
+  it('eases into the pose instead of snapping', () => {
+    const drv = createExpressionDriver()
+    drv.set({ name: 'surprise', intensity: 3 })
+    const early = at(run(drv, 32), 'eyeWideLeft')
+    const late = at(run(drv, 2000), 'eyeWideLeft')
+    expect(early).toBeGreaterThan(0)
+    expect(early).toBeLessThan(late * 0.5)
+    expect(late).toBeCloseTo(0.6, 2)
+  })
+
+  it('scales the pose with intensity', () => {
+    const low = createExpressionDriver()
+    const high = createExpressionDriver()
+    low.set({ name: 'anger', intensity: 1 })
+    high.set({ name: 'anger', intensity: 3 })
+    const a = at(run(low, 2000), 'browDownLeft')
+    const b = at(run(high, 2000), 'browDownLeft')
+    expect(a).toBeLessThan(b)
+  })
+
+  it('holds through a release while the reply is still playing', () => {
+    let speaking = true
+    const drv = createExpressionDriver({ hold: () => speaking })
+    drv.set({ name: 'joy', intensity: 2 })
+    const full = at(run(drv, 4000), 'cheekSquintLeft')
+    drv.release()
+    expect(at(run(drv, 1000), 'cheekSquintLeft')).toBeCloseTo(full, 3)
+    expect(drv.emotion()?.name).toBe('joy')
+
+    speaking = false
+    const mid = at(run(drv, 300), 'cheekSquintLeft')
+    expect(mid).toBeGreaterThan(0)
+    expect(mid).toBeLessThan(full)
+    expect(at(run(drv, 8000), 'cheekSquintLeft')).toBe(0)
+    expect(drv.emotion()).toBeNull()
+  })
+
+  it('a new emotion cancels a pending release and crosses over', () => {
+    const drv = createExpressionDriver({ hold: () => true })
+    drv.set({ name: 'sadness', intensity: 3 })
+    run(drv, 2000)
+    drv.release()
+    drv.set({ name: 'surprise', intensity: 3 })
+    const f = run(drv, 8000)
+    expect(at(f, 'mouthFrownLeft')).toBeCloseTo(0, 2)
+    expect(at(f, 'browOuterUpLeft')).toBeCloseTo(0.7, 2)
+  })
+})
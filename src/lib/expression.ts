@@ -0,0 +1,130 @@
+// lib/expression.ts
+// Upper-face expression layer driven by the `emotion` event.
+// - Each EmotionKey is a pose over brow/eye/cheek/nose (+ a few mouth) ARKit blendshapes
+// - Intensity (1..3 from the server, fractional scores accepted) scales the pose
+// - Eases in when the emotion arrives, holds while the avatar is still talking, eases out after
+// The mouth channels here are offsets: AvatarCanvas adds them on top of the viseme frame.
+
+export type EmotionKey = 'joy' | 'anger' | 'sadness' | 'surprise'
+
+/** ARKit names, in frame order */
+export const EXPRESSION = [
+  'browInnerUp', 'browDownLeft', 'browDownRight', 'browOuterUpLeft', 'browOuterUpRight',
+  'eyeSquintLeft', 'eyeSquintRight', 'eyeWideLeft', 'eyeWideRight',
+  'cheekSquintLeft', 'cheekSquintRight', 'noseSneerLeft', 'noseSneerRight',
+  'mouthSmileLeft', 'mouthSmileRight', 'mouthFrownLeft', 'mouthFrownRight',
+  'mouthPressLeft', 'mouthPressRight', 'mouthShrugLower',
+] as const
+export type ExpressionName = typeof EXPRESSION[number]
+
+const COLS = EXPRESSION.length
+
+type Pose = Partial<Record<ExpressionName, number>>
+const both = (l: ExpressionName, r: ExpressionName, v: number): Pose => ({ [l]: v, [r]: v })
+
+/** Poses at full intensity; kept below 1 so speech still reads through them */
+export const EXPRESSION_POSES: Record<EmotionKey, Pose> = {
+  joy: {
+    ...both('cheekSquintLeft', 'cheekSquintRight', 0.55),
+    ...both('eyeSquintLeft', 'eyeSquintRight', 0.35),
+    ...both('mouthSmileLeft', 'mouthSmileRight', 0.45),
+    ...both('browOuterUpLeft', 'browOuterUpRight', 0.1),
+  },
+  anger: {
+    ...both('browDownLeft', 'browDownRight', 0.8),
+    ...both('eyeSquintLeft', 'eyeSquintRight', 0.3),
+    ...both('noseSneerLeft', 'noseSneerRight', 0.45),
+    ...both('mouthPressLeft', 'mouthPressRight', 0.3),
+    ...both('mouthFrownLeft', 'mouthFrownRight', 0.15),
+  },
+  sadness: {
+    browInnerUp: 0.7,
+    ...both('browDownLeft', 'browDownRight', 0.15),
+    ...both('eyeSquintLeft', 'eyeSquintRight', 0.15),
+    ...both('mouthFrownLeft', 'mouthFrownRight', 0.45),
+    mouthShrugLower: 0.25,
+  },
+  surprise: {
+    browInnerUp: 0.6,
+    ...both('browOuterUpLeft', 'browOuterUpRight', 0.7),
+    ...both('eyeWideLeft', 'eyeWideRight', 0.6),
+  },
+}
+
+function clamp01(x: number) { return x < 0 ? 0 : (x > 1 ? 1 : x) }
+
+/** 1 → ~0.53, 2 → ~0.77, 3 → 1; a 0..1 score lands in the lower part of the range */
+export function intensityGain(intensity: number | undefined): number {
+  const i = Number.isFinite(intensity) ? Math.max(0, Math.min(3, intensity as number)) : 1
+  return 0.3 + 0.7 * (i / 3)
+}
+
+export function createExpressionDriver(opts?: {
+  attackS?: number            // time constant while easing in
+  releaseS?: number           // time constant while easing out
+  gain?: number               // global scale (tuning)
+  /** While true, a pending release waits (e.g. the scheduler is still playing the reply) */
+  hold?: () => boolean
+}) {
+  const attackS = opts?.attackS ?? 0.35
+  const releaseS = opts?.releaseS ?? 0.9
+  const gain = opts?.gain ?? 1
+  const hold = opts?.hold
+
+  const target = new Float32Array(COLS)
+  const cur = new Float32Array(COLS)
+  let current: { name: EmotionKey; intensity: number } | null = null
+  let releasing = false
+  let lastTick = performance.now() / 1000
+
+  function setTarget(e: { name: EmotionKey; intensity?: number } | null) {
+    target.fill(0)
+    if (!e) return
+    const pose = EXPRESSION_POSES[e.name]
+    if (!pose) return
+    const g = intensityGain(e.intensity) * gain
+    for (let i = 0; i < COLS; i++) target[i] = clamp01((pose[EXPRESSION[i]] ?? 0) * g)
+  }
+
+  return {
+    /** Ease toward this emotion (null → neutral); cancels a pending release */
+    set(e: { name: EmotionKey; intensity?: number } | null) {
+      current = e ? { name: e.name, intensity: e.intensity ?? 1 } : null
+      releasing = false
+      setTarget(current)
+    },
+
+    /** Ease back to neutral once `hold()` lets go (end of a response) */
+    release() {
+      releasing = true
+    },
+
+    /** Neutral target right away (stop / disconnect); still eases, never snaps */
+    clear() {
+      current = null
+      releasing = false
+      target.fill(0)
+    },
+
+    emotion() { return current },
+
+    getFrame(): number[] {
+      const now = performance.now() / 1000
+      const dt = Math.max(0.001, Math.min(0.1, now - lastTick))
+      lastTick = now
+
+      if (releasing && !hold?.()) {
+        releasing = false
+        current = null
+        target.fill(0)
+      }
+
+      for (let i = 0; i < COLS; i++) {
+        const tau = target[i] >= cur[i] ? attackS : releaseS
+        cur[i] += (target[i] - cur[i]) * (1 - Math.exp(-dt / Math.max(0.001, tau)))
+        if (cur[i] < 1e-4 && target[i] === 0) cur[i] = 0
+      }
+      return Array.from(cur)
+    },
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createHeartbeat } from './heartbeat'
+import type { WSClient, WSMessage } from './ws'
+
+function setup() {
+  const client = {
+    send: vi.fn<WSClient['send']>(() => true),
+    close: vi.fn(),
+    reconnect: vi.fn(),
+    status: () => 'open' as const,
+    socket: () => null,
+  }
+  const onLatency = vi.fn()
+  const onDead = vi.fn()
+  const hb = createHeartbeat(client, { intervalMs: 10000, timeoutMs: 6000, smoothing: 0.5, onLatency, onDead })
+  const pings = () => client.send.mock.calls.map(([m]) => m).filter(m => m.type === 'ping')
+  return { client, hb, onLatency, onDead, pings }
+}
+
+const pong = (ts?: number) => ({ type: 'pong', ...(ts != null ? { ts } : {}) }) as WSMessage
+
+describe('createHeartbeat', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance'] })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    // a ping stamped 0 would read as "no ping sent yet"
+    vi.advanceTimersByTime(1000)
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('forces a reconnect when no pong arrives in time', () => {
+    const { client, hb, onDead, pings } = setup()
+    hb.onStatus('open')
+    expect(pings()).toHaveLength(1)
+    vi.advanceTimersByTime(5999)
+    expect(client.reconnect).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(1)
+    expect(client.reconnect).toHaveBeenCalledExactlyOnceWith('heartbeat timeout')
+    expect(onDead).toHaveBeenCalledTimes(1)
+    // stopped: no more pings until the socket reports open again
+    vi.advanceTimersByTime(30000)
+    expect(pings()).toHaveLength(1)
+  })
+
+  it('treats any inbound frame as a sign of life', () => {
+    const { client, hb } = setup()
+    hb.onStatus('open')
+    vi.advanceTimersByTime(5000)
+    hb.onMessage({ type: 'text_token', token: 'hi' } as WSMessage)
+    vi.advanceTimersByTime(4999)
+    expect(client.reconnect).not.toHaveBeenCalled()
+    // the next ping arms a new deadline
+    vi.advanceTimersByTime(1 + 6000)
+    expect(client.reconnect).toHaveBeenCalledTimes(1)
+  })
+
+  it('smooths the RTT from echoed timestamps', () => {
+    const { hb, onLatency, pings } = setup()
+    hb.onStatus('open')
+    vi.advanceTimersByTime(100)
+    hb.onMessage(pong(pings()[0].ts as number))
+    expect(hb.latency()).toBe(100)
+
+    vi.advanceTimersByTime(9900)   // second ping
+    vi.advanceTimersByTime(300)
+    hb.onMessage(pong(pings()[1].ts as number))
+    expect(onLatency.mock.calls.map(([ms]) => ms)).toEqual([100, 200])
+  })
+
+  it('measures from the last ping sent when the server does not echo ts', () => {
+    const { hb } = setup()
+    hb.onStatus('open')
+    vi.advanceTimersByTime(200)
+    hb.onMessage(pong())
+    vi.advanceTimersByTime(9800)   // second ping
+    vi.advanceTimersByTime(100)
+    hb.onMessage(pong())
+    expect(hb.latency()).toBe(150)
+  })
+
+  it('stops pinging and reports no latency once the socket is not open', () => {
+    const { client, hb, onLatency, pings } = setup()
+    hb.onStatus('open')
+    vi.advanceTimersByTime(50)
+    hb.onMessage(pong())
+    hb.onStatus('reconnecting')
+    expect(hb.latency()).toBeNull()
+    expect(onLatency).toHaveBeenLastCalledWith(null)
+    vi.advanceTimersByTime(60000)
+    expect(pings()).toHaveLength(1)
+    expect(client.reconnect).not.toHaveBeenCalled()
+  })
+})
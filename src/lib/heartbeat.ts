@@ -0,0 +1,84 @@
+// lib/heartbeat.ts
+// Application-level ping/pong on top of openWS().
+// - Sends `ping` every intervalMs while the socket is open
+// - RTT from the echoed `ts` when the server supports it, else from the last ping sent
+// - Any inbound frame counts as liveness; only pongs produce a latency sample
+// - No sign of life for timeoutMs after a ping → client.reconnect()
+
+import type { WSClient, WSMessage, WSStatus } from './ws'
+
+export type HeartbeatOpts = {
+  intervalMs?: number
+  timeoutMs?: number
+  /** EMA weight of the newest sample (0..1] */
+  smoothing?: number
+  onLatency?: (ms: number | null) => void
+  onDead?: () => void
+}
+
+export function createHeartbeat(client: WSClient, opts?: HeartbeatOpts) {
+  const intervalMs = opts?.intervalMs ?? 10000
+  const timeoutMs = opts?.timeoutMs ?? 6000
+  const smoothing = opts?.smoothing ?? 0.5
+
+  let tick: number | null = null
+  let deadline: number | null = null
+  let lastPingAt = 0
+  let latency: number | null = null
+
+  const now = () => performance.now()
+
+  function clearDeadline() {
+    if (deadline != null) { clearTimeout(deadline); deadline = null }
+  }
+
+  function ping() {
+    const ts = now()
+    if (!client.send({ type: 'ping', ts })) return
+    lastPingAt = ts
+    if (deadline == null) {
+      deadline = window.setTimeout(() => {
+        deadline = null
+        console.warn(`[WS] no pong within ${timeoutMs} ms — forcing reconnect`)
+        stop()
+        opts?.onDead?.()
+        client.reconnect('heartbeat timeout')
+      }, timeoutMs)
+    }
+  }
+
+  function start() {
+    if (tick != null) return
+    ping()
+    tick = window.setInterval(ping, intervalMs)
+  }
+
+  function stop() {
+    if (tick != null) { clearInterval(tick); tick = null }
+    clearDeadline()
+    latency = null
+    opts?.onLatency?.(null)
+  }
+
+  return {
+    /** Feed every ws status change; pings only run while open */
+    onStatus(status: WSStatus) {
+      if (status === 'open') start()
+      else stop()
+    },
+
+    /** Feed every inbound message */
+    onMessage(msg: WSMessage) {
+      clearDeadline()
+      if (msg.type !== 'pong') return
+      const sentAt = msg.ts ?? lastPingAt
+      if (!sentAt) return
+      const rtt = Math.max(0, now() - sentAt)
+      latency = latency == null ? rtt : latency + (rtt - latency) * smoothing
+      opts?.onLatency?.(Math.round(latency))
+    },
+
+    latency: () => latency,
+    stop,
+  }
+}
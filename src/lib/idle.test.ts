@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { IDLE_MORPHS, createIdleDriver, idleMorphs } from './idle'
+import type { IdlePose } from './idle'
+
+/** Deterministic LCG so runs are reproducible */
+function seeded(seed = 1) {
+  let x = seed >>> 0
+  return () => ((x = (Math.imul(x, 1664525) + 1013904223) >>> 0) / 2 ** 32)
+}
+
+function simulate(seconds: number, speaking = 0, opts = {}) {
+  const drv = createIdleDriver({ rng: seeded(7), ...opts })
+  const out: IdlePose[] = []
+  for (let t = 0; t < seconds; t += 1 / 60) out.push(drv.update(1 / 60, speaking))
+  return out
+}
+
+const m = (w: number[], name: typeof IDLE_MORPHS[number]) => w[IDLE_MORPHS.indexOf(name)]
+
+describe('createIdleDriver', () => {
+  it('blinks every few seconds and fully reopens', () => {
+    const poses = simulate(30)
+    let blinks = 0
+    for (let i = 1; i < poses.length; i++) if (poses[i].blink > 0.9 && poses[i - 1].blink <= 0.9) blinks++
+    expect(blinks).toBeGreaterThanOrEqual(5)
+    expect(blinks).toBeLessThanOrEqual(18)
+    expect(poses.filter(p => p.blink === 0).length).toBeGreaterThan(poses.length * 0.9)
+  })
+
+  it('breathes at roughly the configured rate', () => {
+    const poses = simulate(60, 0, { breathsPerMin: 12 })
+    let peaks = 0
+    for (let i = 1; i < poses.length - 1; i++) {
+      if (poses[i].breath > poses[i - 1].breath && poses[i].breath >= poses[i + 1].breath && poses[i].breath > 0.9) peaks++
+    }
+    expect(peaks).toBe(12)
+  })
+
+  it('damps saccades and head sway while speaking', () => {
+    const spread = (poses: IdlePose[], pick: (p: IdlePose) => number) =>
+      Math.max(...poses.map(pick)) - Math.min(...poses.map(pick))
+    const quiet = simulate(40, 0, { lookAwayChance: 0 })
+    const talking = simulate(40, 1, { lookAwayChance: 0 })
+    expect(spread(talking, p => p.gazeYaw)).toBeLessThan(spread(quiet, p => p.gazeYaw) * 0.5)
+    expect(spread(talking, p => p.head.yaw)).toBeLessThan(spread(quiet, p => p.head.yaw) * 0.5)
+  })
+
+  it('returns from a look-away', () => {
+    const poses = simulate(30, 0, { lookAwayChance: 1, saccadeRad: 0 })
+    const away = poses.findIndex(p => Math.abs(p.gazeYaw) > 0.15)
+    expect(away).toBeGreaterThanOrEqual(0)
+    // back on the camera within ~1.5 s (glances last 0.6–1.4 s)
+    expect(poses.slice(away, away + 90).some(p => Math.abs(p.gazeYaw) < 0.01)).toBe(true)
+  })
+})
+
+describe('idleMorphs', () => {
+  const pose: IdlePose = { blink: 0, gazeYaw: 0, gazePitch: 0, breath: 0, head: { pitch: 0, yaw: 0, roll: 0 } }
+
+  it('turns both eyes the same way', () => {
+    const w = idleMorphs(pose, 0.2, 0)
+    expect(m(w, 'eyeLookOutLeft')).toBeGreaterThan(0)
+    expect(m(w, 'eyeLookInRight')).toBeCloseTo(m(w, 'eyeLookOutLeft'))
+    expect(m(w, 'eyeLookInLeft')).toBe(0)
+    expect(m(w, 'eyeLookOutRight')).toBe(0)
+  })
+
+  it('adds the saccade offset to the camera direction and clamps to the eye range', () => {
+    expect(m(idleMorphs({ ...pose, gazePitch: 0.1 }, 0, 0.1), 'eyeLookUpLeft')).toBeGreaterThan(m(idleMorphs(pose, 0, 0.1), 'eyeLookUpLeft'))
+    expect(m(idleMorphs(pose, 0, -5), 'eyeLookDownRight')).toBe(1)
+  })
+
+  it('maps blink to both lids', () => {
+    const w = idleMorphs({ ...pose, blink: 0.7 })
+    expect(m(w, 'eyeBlinkLeft')).toBeCloseTo(0.7)
+    expect(m(w, 'eyeBlinkRight')).toBeCloseTo(0.7)
+  })
+})
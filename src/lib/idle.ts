@@ -0,0 +1,154 @@
+// lib/idle.ts
+// Procedural "alive" layer for the avatar: blinks, saccades, breathing, head sway.
+// - Pure state machine: update(dt, speaking) → IdlePose, no three.js in here
+// - Gaze is an offset from looking at the camera (AvatarCanvas supplies the camera angles)
+// - `speaking` (0..1) damps saccades and sway so speech-driven motion reads cleanly;
+//   blinks keep going, people blink while talking too
+
+export type IdlePose = {
+  blink: number        // 0 open … 1 closed (both eyes)
+  gazeYaw: number      // radians, + = avatar's left
+  gazePitch: number    // radians, + = up
+  breath: number       // -1 … 1, inhale at +1
+  head: { pitch: number; yaw: number; roll: number } // radians
+}
+
+/** ARKit eye morphs written by the idle layer, in idleMorphs() order */
+export const IDLE_MORPHS = [
+  'eyeBlinkLeft', 'eyeBlinkRight',
+  'eyeLookUpLeft', 'eyeLookUpRight', 'eyeLookDownLeft', 'eyeLookDownRight',
+  'eyeLookInLeft', 'eyeLookInRight', 'eyeLookOutLeft', 'eyeLookOutRight',
+] as const
+
+export type IdleOpts = {
+  blinkMinS?: number        // shortest gap between blinks
+  blinkMaxS?: number        // longest gap between blinks
+  blinkS?: number           // close+open duration
+  doubleBlinkChance?: number
+  saccadeMinS?: number
+  saccadeMaxS?: number
+  saccadeRad?: number       // typical fixation jitter
+  lookAwayChance?: number   // chance a saccade is a bigger glance away
+  breathsPerMin?: number
+  swayRad?: number          // head sway amplitude
+  speakingDamp?: number     // how much `speaking` suppresses saccades/sway (0..1)
+  rng?: () => number        // [0,1), injectable for tests
+}
+
+const EYE_RANGE_RAD = 0.45 // a full eyeLook* morph ≈ this many radians
+
+function clamp(x: number, lo: number, hi: number) { return x < lo ? lo : (x > hi ? hi : x) }
+
+export function createIdleDriver(opts?: IdleOpts) {
+  const blinkMinS = opts?.blinkMinS ?? 2
+  const blinkMaxS = opts?.blinkMaxS ?? 6
+  const blinkS = opts?.blinkS ?? 0.16
+  const doubleBlinkChance = opts?.doubleBlinkChance ?? 0.15
+  const saccadeMinS = opts?.saccadeMinS ?? 0.6
+  const saccadeMaxS = opts?.saccadeMaxS ?? 2.5
+  const saccadeRad = opts?.saccadeRad ?? 0.08
+  const lookAwayChance = opts?.lookAwayChance ?? 0.15
+  const breathHz = (opts?.breathsPerMin ?? 14) / 60
+  const swayRad = opts?.swayRad ?? 0.025
+  const speakingDamp = clamp(opts?.speakingDamp ?? 0.75, 0, 1)
+  const rng = opts?.rng ?? Math.random
+
+  const between = (a: number, b: number) => a + (b - a) * rng()
+
+  let t = 0
+  // blink: time until the next one, and progress of the current one (-1 = none)
+  let nextBlink = between(blinkMinS, blinkMaxS)
+  let blinkT = -1
+  let pendingDouble = false
+  // saccades: fixation target, current gaze, and a pending return from a look-away
+  let nextSaccade = between(saccadeMinS, saccadeMaxS)
+  let fixYaw = 0, fixPitch = 0
+  let gazeYaw = 0, gazePitch = 0
+  let lookAwayUntil = -1
+  // head sway phases, so two avatars (or reloads) don't move in lockstep
+  const ph = [rng(), rng(), rng()].map(x => x * Math.PI * 2)
+
+  function pickFixation(speaking: number) {
+    const damp = 1 - speakingDamp * speaking
+    if (lookAwayUntil < 0 && rng() < lookAwayChance * damp) {
+      // brief glance off to the side/down, like thinking
+      fixYaw = (rng() < 0.5 ? -1 : 1) * between(0.18, 0.32)
+      fixPitch = between(-0.15, 0.05)
+      lookAwayUntil = t + between(0.6, 1.4)
+      return
+    }
+    lookAwayUntil = -1
+    fixYaw = (rng() * 2 - 1) * saccadeRad * damp
+    fixPitch = (rng() * 2 - 1) * saccadeRad * 0.5 * damp
+  }
+
+  return {
+    update(dtS: number, speaking = 0): IdlePose {
+      const dt = clamp(dtS, 0, 0.1)
+      const s = clamp(speaking, 0, 1)
+      t += dt
+
+      // --- blink: fast close, slower open ---
+      nextBlink -= dt
+      if (blinkT < 0 && nextBlink <= 0) {
+        blinkT = 0
+        pendingDouble = rng() < doubleBlinkChance
+      }
+      let blink = 0
+      if (blinkT >= 0) {
+        blinkT += dt
+        const u = blinkT / blinkS
+        blink = u < 0.4 ? u / 0.4 : Math.max(0, 1 - (u - 0.4) / 0.6)
+        if (u >= 1) {
+          blinkT = -1
+          blink = 0
+          nextBlink = pendingDouble ? 0.12 : between(blinkMinS, blinkMaxS)
+          pendingDouble = false
+        }
+      }
+
+      // --- saccades: jump quickly (~40 ms) between fixations ---
+      nextSaccade -= dt
+      if (lookAwayUntil >= 0 && t >= lookAwayUntil) {
+        lookAwayUntil = -1
+        fixYaw = 0; fixPitch = 0
+        nextSaccade = between(saccadeMinS, saccadeMaxS)
+      } else if (nextSaccade <= 0) {
+        pickFixation(s)
+        nextSaccade = between(saccadeMinS, saccadeMaxS)
+      }
+      const k = 1 - Math.exp(-dt / 0.04)
+      gazeYaw += (fixYaw - gazeYaw) * k
+      gazePitch += (fixPitch - gazePitch) * k
+
+      // --- breathing + head sway (sum of incommensurate sines ≈ smooth noise) ---
+      const breath = Math.sin(2 * Math.PI * breathHz * t)
+      const sway = swayRad * (1 - speakingDamp * s)
+      const head = {
+        pitch: sway * (0.6 * Math.sin(0.23 * t * 2 * Math.PI + ph[0]) + 0.4 * Math.sin(0.07 * t * 2 * Math.PI + ph[1])) + 0.008 * breath,
+        yaw: sway * (0.7 * Math.sin(0.11 * t * 2 * Math.PI + ph[1]) + 0.3 * Math.sin(0.31 * t * 2 * Math.PI + ph[2])),
+        roll: sway * 0.6 * Math.sin(0.17 * t * 2 * Math.PI + ph[2]),
+      }
+
+      return { blink, gazeYaw, gazePitch, breath, head }
+    },
+  }
+}
+
+/**
+ * Eye morph weights (IDLE_MORPHS order) for a gaze direction in radians.
+ * `lookYaw/lookPitch` is where the camera is relative to the face; the pose's gaze is added on top.
+ */
+export function idleMorphs(pose: IdlePose, lookYaw = 0, lookPitch = 0): number[] {
+  const yaw = clamp(lookYaw + pose.gazeYaw, -EYE_RANGE_RAD, EYE_RANGE_RAD) / EYE_RANGE_RAD
+  const pitch = clamp(lookPitch + pose.gazePitch, -EYE_RANGE_RAD, EYE_RANGE_RAD) / EYE_RANGE_RAD
+  const up = Math.max(0, pitch), down = Math.max(0, -pitch)
+  const left = Math.max(0, yaw), right = Math.max(0, -yaw)
+  const b = clamp(pose.blink, 0, 1)
+  return [
+    b, b,
+    up, up, down, down,
+    // looking to the avatar's left: left eye turns out, right eye turns in
+    right, left, left, right,
+  ]
+}
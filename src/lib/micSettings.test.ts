@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_MIC, listMicrophones, micConstraints, normalizeMic, openMic } from './micSettings'
+import { installFakeMic } from '../test/fakes'
+
+describe('normalizeMic', () => {
+  it('falls back to the default device with all processing on', () => {
+    expect(normalizeMic(null)).toEqual(DEFAULT_MIC)
+    expect(normalizeMic('{broken')).toEqual(DEFAULT_MIC)
+    expect(normalizeMic({ deviceId: 'usb-1', noiseSuppression: false, autoGainControl: 'no' }))
+      .toEqual({ ...DEFAULT_MIC, deviceId: 'usb-1', noiseSuppression: false })
+  })
+
+  it('asks for the exact device only when one was picked', () => {
+    expect(micConstraints(DEFAULT_MIC)).not.toHaveProperty('deviceId')
+    expect(micConstraints({ ...DEFAULT_MIC, deviceId: 'usb-1', echoCancellation: false }))
+      .toEqual({ deviceId: { exact: 'usb-1' }, echoCancellation: false, noiseSuppression: true, autoGainControl: true })
+  })
+})
+
+describe('openMic', () => {
+  it('falls back to the default input when the saved device is gone', async () => {
+    const { getUserMedia } = installFakeMic({ devices: [{ deviceId: 'usb-1', label: 'USB' }] })
+    await openMic({ ...DEFAULT_MIC, deviceId: 'usb-1' })
+    expect(getUserMedia).toHaveBeenCalledTimes(1)
+    await openMic({ ...DEFAULT_MIC, deviceId: 'unplugged' })
+    expect(getUserMedia).toHaveBeenCalledTimes(3)
+    expect(getUserMedia.mock.calls[2][0]).toEqual({ audio: micConstraints(DEFAULT_MIC) })
+  })
+
+  it('does not hide a refused permission', async () => {
+    installFakeMic({ deny: true })
+    await expect(openMic({ ...DEFAULT_MIC, deviceId: 'usb-1' })).rejects.toThrow('denied')
+  })
+})
+
+describe('listMicrophones', () => {
+  it('lists audio inputs and names the unlabelled ones', async () => {
+    installFakeMic({ devices: [{ deviceId: 'default', label: 'Default' }, { deviceId: 'a', label: '' }, { deviceId: 'b', label: 'Headset' }] })
+    expect(await listMicrophones()).toEqual([{ deviceId: 'a', label: 'Microphone 1' }, { deviceId: 'b', label: 'Headset' }])
+  })
+})
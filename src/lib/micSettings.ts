@@ -0,0 +1,109 @@
+// lib/micSettings.ts
+// Which microphone to record from and how the browser should process it.
+// - Stored in localStorage; every capture (push-to-talk, hands-free, the settings panel's
+//   test loop) opens the mic through openMic() with these constraints
+// - A remembered device that is gone (unplugged, new browser profile) falls back to the default
+// - createMicMeter: live input level for the settings panel
+
+import { rms } from './prosody'
+import { toDb } from './vad'
+
+export type MicSettings = {
+  deviceId: string | null      // null = the browser's default input
+  echoCancellation: boolean
+  noiseSuppression: boolean
+  autoGainControl: boolean
+}
+
+export const DEFAULT_MIC: MicSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+}
+
+const LS_MIC = 'mic_settings'
+
+/** Lenient reader for stored JSON: missing/bad fields fall back to defaults */
+export function normalizeMic(raw: unknown): MicSettings {
+  if (typeof raw === 'string') {
+    try { raw = JSON.parse(raw) } catch { raw = null }
+  }
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const flag = (k: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl') => typeof r[k] === 'boolean' ? r[k] : DEFAULT_MIC[k]
+  return {
+    deviceId: typeof r.deviceId === 'string' && r.deviceId ? r.deviceId : null,
+    echoCancellation: flag('echoCancellation'),
+    noiseSuppression: flag('noiseSuppression'),
+    autoGainControl: flag('autoGainControl'),
+  }
+}
+
+export function loadMicSettings(): MicSettings {
+  return normalizeMic(localStorage.getItem(LS_MIC))
+}
+
+export function saveMicSettings(s: MicSettings) {
+  localStorage.setItem(LS_MIC, JSON.stringify(s))
+}
+
+export function micConstraints(s: MicSettings): MediaTrackConstraints {
+  return {
+    ...(s.deviceId ? { deviceId: { exact: s.deviceId } } : {}),
+    echoCancellation: s.echoCancellation,
+    noiseSuppression: s.noiseSuppression,
+    autoGainControl: s.autoGainControl,
+  }
+}
+
+/** Opens the mic with `s`; a remembered device that no longer exists falls back to the default one */
+export async function openMic(s: MicSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: micConstraints(s) })
+  } catch (e) {
+    const gone = e instanceof DOMException && (e.name === 'OverconstrainedError' || e.name === 'NotFoundError')
+    if (!s.deviceId || !gone) throw e
+    return navigator.mediaDevices.getUserMedia({ audio: micConstraints({ ...s, deviceId: null }) })
+  }
+}
+
+export type MicDevice = { deviceId: string; label: string }
+
+/** Audio inputs; labels are empty until the page has mic permission, so those get a placeholder */
+export async function listMicrophones(): Promise<MicDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return []
+  const all = await navigator.mediaDevices.enumerateDevices()
+  return all
+    .filter(d => d.kind === 'audioinput' && d.deviceId && d.deviceId !== 'default')
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Microphone ${i + 1}` }))
+}
+
+/** Calls `onLevel` with the input level in dBFS every frame. Null when the browser has no WebAudio. */
+export function createMicMeter(stream: MediaStream, onLevel: (db: number) => void) {
+  const Ctx = typeof window === 'undefined' ? undefined
+    : window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+  if (!Ctx) return null
+
+  const ctx = new Ctx()
+  const analyser = ctx.createAnalyser()
+  analyser.fftSize = 1024
+  const source = ctx.createMediaStreamSource(stream)
+  source.connect(analyser)
+  const buf = new Float32Array(analyser.fftSize)
+  let raf = 0
+  const tick = () => {
+    raf = requestAnimationFrame(tick)
+    if (ctx.state !== 'running') { void ctx.resume().catch(() => {}); return }
+    analyser.getFloatTimeDomainData(buf)
+    onLevel(toDb(rms(buf)))
+  }
+  raf = requestAnimationFrame(tick)
+
+  return {
+    stop() {
+      cancelAnimationFrame(raf)
+      try { source.disconnect() } catch { /* already disconnected */ }
+      void ctx.close().catch(() => {})
+    },
+  }
+}
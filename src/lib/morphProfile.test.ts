@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { ARKIT15, applyMorphMap, compileMorphProfile, detectMorphProfile, normalizeMorphProfile } from './morphProfile'
+import type { Channel } from './morphProfile'
+
+const dictOf = (names: string[]) => Object.fromEntries(names.map((n, i) => [n, i]))
+const frameWith = (vals: Partial<Record<Channel, number>>) => ARKIT15.map(c => vals[c] ?? 0)
+
+describe('detectMorphProfile', () => {
+  it('maps an ARKit rig 1:1 and ignores its extra viseme shapes', () => {
+    const p = detectMorphProfile([...ARKIT15, 'viseme_aa', 'viseme_O', 'eyeBlinkLeft'], 'https://x/a.glb')
+    expect(p.rig).toBe('arkit')
+    expect(p.glb).toBe('https://x/a.glb')
+    expect(Object.keys(p.names)).toHaveLength(15)
+    expect(p.names.jawOpen).toBe('jawOpen')
+    expect(p.mix).toEqual({})
+  })
+
+  it('matches names case/underscore-insensitively and keeps the GLB spelling', () => {
+    const p = detectMorphProfile(['JAW_OPEN', 'mouth_smile_left'])
+    expect(p.names.jawOpen).toBe('JAW_OPEN')
+    expect(p.names.mouthSmileLeft).toBe('mouth_smile_left')
+  })
+
+  it('mixes Oculus visemes from several channels', () => {
+    const p = detectMorphProfile(['viseme_sil', 'viseme_aa', 'viseme_O', 'viseme_U', 'viseme_PP', 'viseme_E'])
+    expect(p.rig).toBe('oculus')
+    expect(p.names).toEqual({})
+    expect(p.mix.viseme_aa).toEqual({ jawOpen: 0.7, mouthStretchLeft: 0.1, mouthStretchRight: 0.1 })
+    expect(p.mix.viseme_PP).toEqual({ mouthClose: 1 })
+  })
+
+  it('only mixes channels the 1:1 names left open', () => {
+    const p = detectMorphProfile(['jawOpen', 'viseme_aa', 'viseme_O'])
+    expect(p.names.jawOpen).toBe('jawOpen')
+    expect(p.mix.viseme_aa).toEqual({ mouthStretchLeft: 0.1, mouthStretchRight: 0.1 })
+    expect(p.mix.viseme_O).toEqual({ mouthFunnel: 0.8 })
+  })
+
+  it('recognises CC4 quadrants and VRoid mouth shapes', () => {
+    const cc4 = detectMorphProfile(['Jaw_Open', 'Mouth_Close', 'Mouth_Smile_L', 'Mouth_Smile_R', 'Mouth_Pucker_Up_L', 'Mouth_Pucker_Down_R'])
+    expect(cc4.rig).toBe('cc4')
+    expect(cc4.mix.Mouth_Pucker_Up_L).toEqual({ mouthPucker: 1 })
+    const vrm = detectMorphProfile(['Fcl_MTH_A', 'Fcl_MTH_I', 'Fcl_MTH_U', 'Fcl_MTH_E', 'Fcl_MTH_O'])
+    expect(vrm.rig).toBe('vrm')
+    expect(vrm.mix.Fcl_MTH_A).toEqual({ jawOpen: 0.8 })
+  })
+
+  it('reports custom with nothing mapped when no family matches', () => {
+    const p = detectMorphProfile(['Blink', 'Frown'])
+    expect(p.rig).toBe('custom')
+    expect(compileMorphProfile(p, dictOf(['Blink', 'Frown'])).terms).toEqual([])
+  })
+})
+
+describe('compileMorphProfile + applyMorphMap', () => {
+  it('sums many-to-many weights and clamps each morph to 0..1', () => {
+    const names = ['viseme_aa', 'viseme_E']
+    const p = detectMorphProfile(names)
+    const m = compileMorphProfile(p, dictOf(names))
+    expect([...m.channels].sort()).toEqual(['jawOpen', 'mouthSmileLeft', 'mouthSmileRight', 'mouthStretchLeft', 'mouthStretchRight'])
+    const inf = [0, 0]
+    applyMorphMap(m, frameWith({ jawOpen: 1, mouthStretchLeft: 0.5, mouthStretchRight: 0.5 }), inf)
+    expect(inf[0]).toBeCloseTo(0.8)
+    expect(inf[1]).toBeCloseTo(0.2)
+    const boosted = [0, 0]
+    applyMorphMap(compileMorphProfile({ ...p, gain: { jawOpen: 3 } }, dictOf(names)), frameWith({ jawOpen: 0.2 }), boosted)
+    expect(boosted[0]).toBeCloseTo(0.42)
+    const full = [0.5, 0]
+    applyMorphMap(m, frameWith({ jawOpen: 1, mouthStretchLeft: 1, mouthStretchRight: 1 }), full)
+    expect(full[0]).toBe(1)
+  })
+
+  it('applies per-channel gain and clamp before mapping', () => {
+    const p = normalizeMorphProfile({
+      version: 1, names: { jawOpen: 'Open', mouthFunnel: 'Funnel' },
+      mix: {}, gain: { jawOpen: 0.5 }, clamp: { mouthFunnel: [0.1, 0.4] },
+    })!
+    const m = compileMorphProfile(p, dictOf(['Open', 'Funnel']))
+    const inf = [0, 0]
+    applyMorphMap(m, frameWith({ jawOpen: 0.8, mouthFunnel: 0.9 }), inf)
+    expect(inf[0]).toBeCloseTo(0.4)
+    expect(inf[1]).toBeCloseTo(0.4)
+    const rest = [0, 0]
+    applyMorphMap(m, frameWith({}), rest)
+    expect(rest[1]).toBeCloseTo(0.1)
+  })
+
+  it('skips morphs the mesh does not have', () => {
+    const p = detectMorphProfile(['jawOpen', 'mouthClose'])
+    const m = compileMorphProfile(p, dictOf(['jawOpen']))
+    expect(m.targets).toEqual([0])
+    expect([...m.channels]).toEqual(['jawOpen'])
+  })
+})
+
+describe('normalizeMorphProfile', () => {
+  it('round-trips a detected profile through JSON', () => {
+    const p = detectMorphProfile(['jawOpen', 'viseme_O'], 'a.glb')
+    expect(normalizeMorphProfile(JSON.stringify(p))).toEqual(p)
+  })
+
+  it('drops unknown channels and bad values', () => {
+    const p = normalizeMorphProfile({
+      version: 1, rig: 'cc4',
+      names: { jawOpen: 'Jaw_Open', lipsWobble: 'X', mouthClose: 3 },
+      mix: { A: { jawOpen: 'lots', mouthFunnel: 0.5 }, B: { nope: 1 } },
+      gain: { jawOpen: 99, tongueOut: -1 },
+      clamp: { jawOpen: [0.9, 0.2], mouthClose: [0] },
+    })
+    expect(p).toEqual({
+      version: 1, rig: 'cc4',
+      names: { jawOpen: 'Jaw_Open' },
+      mix: { A: { mouthFunnel: 0.5 } },
+      gain: { jawOpen: 4, tongueOut: 0 },
+      clamp: { jawOpen: [0.2, 0.9] },
+    })
+  })
+
+  it('rejects other versions, junk and profiles that map nothing', () => {
+    expect(normalizeMorphProfile(null)).toBeNull()
+    expect(normalizeMorphProfile('{nope')).toBeNull()
+    expect(normalizeMorphProfile({ version: 2, names: { jawOpen: 'a' } })).toBeNull()
+    expect(normalizeMorphProfile({ version: 1, names: {}, mix: {} })).toBeNull()
+  })
+})
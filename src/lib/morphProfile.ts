@@ -0,0 +1,247 @@
+// lib/morphProfile.ts
+// Per-avatar mapping from the ARKit-15 viseme channels to a GLB's blend shapes.
+// - `names`: channel → morph, weight 1 (ARKit, CC4, Fuse-era Mixamo rigs)
+// - `mix`: morph → Σ weight × channel, many-to-many (Oculus/RPM visemes, VRM, CC4 quadrants)
+// - `gain` / `clamp`: per channel, applied before mapping
+// Profiles are plain JSON so they can be stored on the agent next to glb_url and hand-edited.
+
+/** ARKIT-15 canonical names (indices must match server) */
+export const ARKIT15 = [
+  'jawOpen', 'mouthFunnel', 'mouthClose', 'mouthPucker',
+  'mouthSmileLeft', 'mouthSmileRight', 'mouthLeft', 'mouthRight',
+  'mouthFrownLeft', 'mouthFrownRight', 'mouthDimpleLeft', 'mouthDimpleRight',
+  'mouthStretchLeft', 'mouthStretchRight', 'tongueOut',
+] as const
+export type Channel = typeof ARKIT15[number]
+export type ChannelWeights = Partial<Record<Channel, number>>
+
+export type MorphProfile = {
+  version: 1
+  rig: string                                   // detected family ('arkit', 'oculus', 'cc4', 'mixamo', 'vrm') or 'custom'
+  glb?: string                                  // avatar the profile was made for
+  names: Partial<Record<Channel, string>>
+  mix: Record<string, ChannelWeights>
+  gain: Partial<Record<Channel, number>>
+  clamp: Partial<Record<Channel, [number, number]>>
+}
+
+export const lcKey = (s: string) => s.toLowerCase().replace(/[\s_.-]+/g, '')
+
+const both = (l: Channel, r: Channel, v: number): ChannelWeights => ({ [l]: v, [r]: v })
+
+type Family = {
+  rig: string
+  names?: Partial<Record<Channel, string[]>>
+  mix?: Record<string, ChannelWeights>
+}
+
+/** Tried in order; `names` before any `mix`, so a rig with real ARKit shapes never falls back to visemes */
+const FAMILIES: Family[] = [
+  {
+    rig: 'arkit',
+    names: {
+      ...Object.fromEntries(ARKIT15.map(c => [c, [c]])),
+      mouthFunnel: ['mouthFunnel', 'lipsFunnel'],
+      mouthClose: ['mouthClose', 'lipsClose'],
+      mouthPucker: ['mouthPucker', 'lipsPucker'],
+    },
+  },
+  {
+    rig: 'cc4',
+    names: {
+      jawOpen: ['Jaw_Open'], mouthClose: ['Mouth_Close'],
+      mouthSmileLeft: ['Mouth_Smile_L'], mouthSmileRight: ['Mouth_Smile_R'],
+      mouthLeft: ['Mouth_L'], mouthRight: ['Mouth_R'],
+      mouthFrownLeft: ['Mouth_Frown_L'], mouthFrownRight: ['Mouth_Frown_R'],
+      mouthDimpleLeft: ['Mouth_Dimple_L'], mouthDimpleRight: ['Mouth_Dimple_R'],
+      mouthStretchLeft: ['Mouth_Stretch_L'], mouthStretchRight: ['Mouth_Stretch_R'],
+      tongueOut: ['Tongue_Out'],
+    },
+    // CC4 splits funnel/pucker into lip quadrants
+    mix: {
+      Mouth_Funnel_Up_L: { mouthFunnel: 1 }, Mouth_Funnel_Up_R: { mouthFunnel: 1 },
+      Mouth_Funnel_Down_L: { mouthFunnel: 1 }, Mouth_Funnel_Down_R: { mouthFunnel: 1 },
+      Mouth_Pucker_Up_L: { mouthPucker: 1 }, Mouth_Pucker_Up_R: { mouthPucker: 1 },
+      Mouth_Pucker_Down_L: { mouthPucker: 1 }, Mouth_Pucker_Down_R: { mouthPucker: 1 },
+    },
+  },
+  {
+    rig: 'mixamo',
+    names: {
+      jawOpen: ['MouthOpen', 'mouth_open'],
+      mouthSmileLeft: ['Smile_Left', 'mouthSmile'], mouthSmileRight: ['Smile_Right'],
+      mouthFrownLeft: ['Frown_Left'], mouthFrownRight: ['Frown_Right'],
+      mouthLeft: ['Midmouth_Left'], mouthRight: ['Midmouth_Right'],
+      tongueOut: ['TongueOut', 'Tongue'],
+    },
+    mix: {
+      MouthNarrow_Left: { mouthPucker: 0.8, mouthFunnel: 0.4 },
+      MouthNarrow_Right: { mouthPucker: 0.8, mouthFunnel: 0.4 },
+      MouthWhistle_NarrowAdjust_Left: { mouthFunnel: 0.6 },
+      MouthWhistle_NarrowAdjust_Right: { mouthFunnel: 0.6 },
+    },
+  },
+  {
+    // Oculus/RPM viseme set: each viseme is a whole mouth shape, so it is mixed from several channels
+    rig: 'oculus',
+    mix: {
+      viseme_aa: { jawOpen: 0.7, ...both('mouthStretchLeft', 'mouthStretchRight', 0.1) },
+      viseme_O: { mouthFunnel: 0.8, jawOpen: 0.2 },
+      viseme_U: { mouthPucker: 0.9 },
+      viseme_PP: { mouthClose: 1 },
+      viseme_FF: { mouthClose: 0.3, ...both('mouthStretchLeft', 'mouthStretchRight', 0.1) },
+      viseme_E: { ...both('mouthSmileLeft', 'mouthSmileRight', 0.3), ...both('mouthStretchLeft', 'mouthStretchRight', 0.2) },
+      viseme_I: { ...both('mouthStretchLeft', 'mouthStretchRight', 0.3) },
+      viseme_SS: { ...both('mouthDimpleLeft', 'mouthDimpleRight', 0.3) },
+      viseme_TH: { tongueOut: 1 },
+    },
+  },
+  {
+    // VRoid mesh morphs, then VRM 1.0 / 0.x preset names some exporters bake into the mesh
+    rig: 'vrm',
+    mix: {
+      Fcl_MTH_A: { jawOpen: 0.8 },
+      Fcl_MTH_I: { ...both('mouthStretchLeft', 'mouthStretchRight', 0.35) },
+      Fcl_MTH_U: { mouthPucker: 0.9 },
+      Fcl_MTH_E: { ...both('mouthSmileLeft', 'mouthSmileRight', 0.3), ...both('mouthStretchLeft', 'mouthStretchRight', 0.2) },
+      Fcl_MTH_O: { mouthFunnel: 0.8, jawOpen: 0.2 },
+      Fcl_MTH_Close: { mouthClose: 1 },
+      aa: { jawOpen: 0.8 },
+      ih: { ...both('mouthStretchLeft', 'mouthStretchRight', 0.35) },
+      ou: { mouthPucker: 0.9 },
+      ee: { ...both('mouthSmileLeft', 'mouthSmileRight', 0.3), ...both('mouthStretchLeft', 'mouthStretchRight', 0.2) },
+      oh: { mouthFunnel: 0.8, jawOpen: 0.2 },
+    },
+  },
+]
+
+/**
+ * Builds a profile from the morph names found on an avatar (all meshes).
+ * Each channel takes the first 1:1 name any family offers; channels still missing are
+ * mixed from whole-shape morphs. `rig` is whichever family covered the most channels.
+ */
+export function detectMorphProfile(morphNames: Iterable<string>, glb?: string): MorphProfile {
+  const byLc = new Map<string, string>()
+  for (const n of morphNames) if (!byLc.has(lcKey(n))) byLc.set(lcKey(n), n)
+
+  const names: MorphProfile['names'] = {}
+  const mix: MorphProfile['mix'] = {}
+  const covered = new Map<string, number>()
+  const bump = (rig: string) => covered.set(rig, (covered.get(rig) || 0) + 1)
+
+  for (const c of ARKIT15) {
+    for (const fam of FAMILIES) {
+      const hit = fam.names?.[c]?.map(a => byLc.get(lcKey(a))).find(Boolean)
+      if (hit) { names[c] = hit; bump(fam.rig); break }
+    }
+  }
+  const done = new Set<Channel>(ARKIT15.filter(c => names[c]))
+  const used = new Set(Object.values(names))
+  for (const fam of FAMILIES) {
+    const gained = new Set<Channel>()
+    for (const [morph, weights] of Object.entries(fam.mix || {})) {
+      const hit = byLc.get(lcKey(morph))
+      if (!hit || used.has(hit)) continue
+      const w: ChannelWeights = {}
+      for (const [c, v] of Object.entries(weights) as Array<[Channel, number]>) {
+        if (!done.has(c)) { w[c] = v; gained.add(c) }
+      }
+      if (Object.keys(w).length) mix[hit] = { ...mix[hit], ...w }
+    }
+    // later families only fill what this one left open
+    for (const c of gained) { done.add(c); bump(fam.rig) }
+  }
+
+  let rig = 'custom', best = 0
+  for (const [r, n] of covered) if (n > best) { rig = r; best = n }
+  return { version: 1, rig, ...(glb ? { glb } : {}), names, mix, gain: {}, clamp: {} }
+}
+
+const isChannel = (c: string): c is Channel => (ARKIT15 as readonly string[]).includes(c)
+const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+const isObj = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v)
+
+/** Lenient reader for stored/hand-edited JSON: drops unknown channels and bad values, null if unusable */
+export function normalizeMorphProfile(raw: unknown): MorphProfile | null {
+  if (typeof raw === 'string') {
+    try { raw = JSON.parse(raw) } catch { return null }
+  }
+  if (!isObj(raw) || raw.version !== 1) return null
+  const names: MorphProfile['names'] = {}
+  const mix: MorphProfile['mix'] = {}
+  const gain: MorphProfile['gain'] = {}
+  const clamp: MorphProfile['clamp'] = {}
+  if (isObj(raw.names)) {
+    for (const [c, n] of Object.entries(raw.names)) if (isChannel(c) && typeof n === 'string' && n) names[c] = n
+  }
+  if (isObj(raw.mix)) {
+    for (const [morph, ws] of Object.entries(raw.mix)) {
+      if (!isObj(ws)) continue
+      const w: ChannelWeights = {}
+      for (const [c, v] of Object.entries(ws)) if (isChannel(c) && finite(v)) w[c] = v
+      if (Object.keys(w).length) mix[morph] = w
+    }
+  }
+  if (isObj(raw.gain)) {
+    for (const [c, v] of Object.entries(raw.gain)) if (isChannel(c) && finite(v)) gain[c] = Math.max(0, Math.min(4, v))
+  }
+  if (isObj(raw.clamp)) {
+    for (const [c, v] of Object.entries(raw.clamp)) {
+      if (!isChannel(c) || !Array.isArray(v) || !finite(v[0]) || !finite(v[1])) continue
+      const lo = Math.max(0, Math.min(1, v[0])), hi = Math.max(0, Math.min(1, v[1]))
+      clamp[c] = [Math.min(lo, hi), Math.max(lo, hi)]
+    }
+  }
+  if (!Object.keys(names).length && !Object.keys(mix).length) return null
+  return {
+    version: 1,
+    rig: typeof raw.rig === 'string' && raw.rig ? raw.rig : 'custom',
+    ...(typeof raw.glb === 'string' && raw.glb ? { glb: raw.glb } : {}),
+    names, mix, gain, clamp,
+  }
+}
+
+/** A profile resolved against one mesh's morphTargetDictionary */
+export type MorphMap = {
+  terms: Array<{ idx: number; ch: number; w: number }>
+  targets: number[]       // morph indices written (for zeroing/clamping)
+  channels: Set<Channel>  // channels that reach at least one morph
+  gain: Float32Array
+  lo: Float32Array
+  hi: Float32Array
+}
+
+export function compileMorphProfile(profile: MorphProfile, dict: Record<string, number>): MorphMap {
+  const dictLc = new Map<string, number>()
+  for (const [k, v] of Object.entries(dict)) dictLc.set(lcKey(k), v)
+  const terms: MorphMap['terms'] = []
+  const channels = new Set<Channel>()
+  const add = (morph: string, c: Channel, w: number) => {
+    const idx = dictLc.get(lcKey(morph))
+    if (idx == null || !w) return
+    terms.push({ idx, ch: ARKIT15.indexOf(c), w })
+    channels.add(c)
+  }
+  for (const [c, morph] of Object.entries(profile.names) as Array<[Channel, string]>) add(morph, c, 1)
+  for (const [morph, ws] of Object.entries(profile.mix)) {
+    for (const [c, w] of Object.entries(ws) as Array<[Channel, number]>) add(morph, c, w)
+  }
+  const gain = new Float32Array(ARKIT15.length).fill(1)
+  const lo = new Float32Array(ARKIT15.length)
+  const hi = new Float32Array(ARKIT15.length).fill(1)
+  ARKIT15.forEach((c, i) => {
+    if (profile.gain[c] != null) gain[i] = profile.gain[c]!
+    const cl = profile.clamp[c]
+    if (cl) { lo[i] = cl[0]; hi[i] = cl[1] }
+  })
+  return { terms, targets: [...new Set(terms.map(t => t.idx))], channels, gain, lo, hi }
+}
+
+/** Adds the mapped viseme frame onto `influences` (caller zeroes first), then clamps each target to 0..1 */
+export function applyMorphMap(m: MorphMap, frame: ArrayLike<number>, influences: number[]) {
+  for (const t of m.terms) {
+    const v = Math.min(m.hi[t.ch], Math.max(m.lo[t.ch], (frame[t.ch] || 0) * m.gain[t.ch]))
+    influences[t.idx] += t.w * v
+  }
+  for (const idx of m.targets) influences[idx] = Math.min(1, Math.max(0, influences[idx]))
+}
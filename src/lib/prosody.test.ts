@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { createProsodyMotion, detectPitch, rms } from './prosody'
+import type { ProsodyFeatures } from './prosody'
+
+const SR = 48000
+
+function tone(hz: number, n = 2048, amp = 0.3) {
+  // a few harmonics so it looks like a voice, not a pure sine
+  return Float32Array.from({ length: n }, (_, i) => {
+    const ph = 2 * Math.PI * hz * i / SR
+    return amp * (Math.sin(ph) + 0.5 * Math.sin(2 * ph) + 0.25 * Math.sin(3 * ph))
+  })
+}
+
+function noise(n = 2048, amp = 0.2) {
+  let x = 12345
+  return Float32Array.from({ length: n }, () => {
+    x = (Math.imul(x, 1103515245) + 12345) >>> 0
+    return amp * ((x / 2 ** 32) * 2 - 1)
+  })
+}
+
+describe('rms', () => {
+  it('measures the level of a buffer', () => {
+    expect(rms(new Float32Array(64))).toBe(0)
+    expect(rms(new Float32Array(64).fill(0.5))).toBeCloseTo(0.5)
+  })
+})
+
+describe('detectPitch', () => {
+  it.each([110, 180, 260])('finds %i Hz within a few percent', (hz) => {
+    const f = detectPitch(tone(hz), SR)
+    expect(f).not.toBeNull()
+    expect(Math.abs(f! - hz) / hz).toBeLessThan(0.03)
+  })
+
+  it('returns null for silence and noise', () => {
+    expect(detectPitch(new Float32Array(2048), SR)).toBeNull()
+    expect(detectPitch(noise(), SR)).toBeNull()
+  })
+})
+
+describe('createProsodyMotion', () => {
+  function drive(motion: ReturnType<typeof createProsodyMotion>, seconds: number, feat: ProsodyFeatures | null) {
+    const out = []
+    for (let t = 0; t < seconds; t += 1 / 60) out.push(motion.update(1 / 60, feat))
+    return out
+  }
+
+  it('stays still without audio', () => {
+    const m = createProsodyMotion({ rng: () => 0.5 })
+    const last = drive(m, 1, null).pop()!
+    expect(last.head).toEqual({ pitch: 0, yaw: 0, roll: 0 })
+    expect(last.brow).toBe(0)
+  })
+
+  it('nods on an energy accent and settles again', () => {
+    const m = createProsodyMotion({ rng: () => 0.5 })
+    drive(m, 1, { energy: 0.03, pitch: 150 })
+    const burst = drive(m, 0.25, { energy: 0.2, pitch: 150 })
+    expect(Math.max(...burst.map(f => f.head.pitch))).toBeGreaterThan(0.02)
+    const after = drive(m, 2, { energy: 0.2, pitch: 150 }).pop()!
+    expect(Math.abs(after.head.pitch)).toBeLessThan(0.005)
+  })
+
+  it('tilts and raises the brows when pitch rises above the running mean', () => {
+    const m = createProsodyMotion({ rng: () => 0.5 })
+    drive(m, 3, { energy: 0.05, pitch: 120 })
+    const high = drive(m, 0.4, { energy: 0.05, pitch: 200 }).pop()!
+    expect(high.head.roll).toBeGreaterThan(0.01)
+    expect(high.brow).toBeGreaterThan(0.3)
+  })
+
+  it('relaxes once the audio stops', () => {
+    const m = createProsodyMotion({ rng: () => 0.9 })
+    drive(m, 1, { energy: 0.05, pitch: 120 })
+    drive(m, 0.3, { energy: 0.3, pitch: 220 })
+    const rest = drive(m, 4, null).pop()!
+    expect(Math.abs(rest.head.pitch) + Math.abs(rest.head.yaw) + Math.abs(rest.head.roll)).toBeLessThan(0.005)
+    expect(rest.brow).toBeLessThan(0.01)
+  })
+})
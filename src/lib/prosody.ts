@@ -0,0 +1,211 @@
+// lib/prosody.ts
+// Head nods, tilts and brow raises that follow the reply's audio.
+// - Features: RMS energy + autocorrelation pitch from an AnalyserNode on the playing <audio>
+// - Motion: accents (energy jumps) kick a damped nod spring and the brows; pitch above the
+//   speaker's running mean tilts the head and lifts the brows; phrase starts re-aim the yaw
+// - No audio (muted, idle) → everything relaxes to zero
+// The feature extractors and the motion model are pure; only the tracker touches WebAudio.
+
+export type ProsodyFeatures = { energy: number; pitch: number | null }
+export type ProsodyMotion = {
+  head: { pitch: number; yaw: number; roll: number } // radians, pitch + = chin down
+  brow: number                                      // 0..1 raise
+}
+
+/** How a brow raise spreads over the ARKit brow morphs */
+export const BROW_RAISE = { browInnerUp: 0.6, browOuterUpLeft: 0.4, browOuterUpRight: 0.4 } as const
+
+function clamp(x: number, lo: number, hi: number) { return x < lo ? lo : (x > hi ? hi : x) }
+const follow = (cur: number, target: number, dt: number, tau: number) =>
+  cur + (target - cur) * (1 - Math.exp(-dt / Math.max(1e-3, tau)))
+
+export function rms(buf: Float32Array): number {
+  let s = 0
+  for (let i = 0; i < buf.length; i++) s += buf[i] * buf[i]
+  return buf.length ? Math.sqrt(s / buf.length) : 0
+}
+
+/**
+ * Fundamental frequency via normalized autocorrelation, or null when unvoiced.
+ * Works on a ~12 kHz decimation so a 2048-sample window stays cheap at 60 fps.
+ */
+export function detectPitch(buf: Float32Array, sampleRate: number, minHz = 75, maxHz = 400): number | null {
+  const step = Math.max(1, Math.floor(sampleRate / 12000))
+  const sr = sampleRate / step
+  const n = Math.floor(buf.length / step)
+  const x = new Float32Array(n)
+  let mean = 0
+  for (let i = 0; i < n; i++) { x[i] = buf[i * step]; mean += x[i] }
+  mean /= n || 1
+  let energy = 0
+  for (let i = 0; i < n; i++) { x[i] -= mean; energy += x[i] * x[i] }
+  if (energy < 1e-6) return null
+
+  const minLag = Math.max(2, Math.floor(sr / maxHz))
+  const maxLag = Math.min(n - 2, Math.ceil(sr / minHz))
+  let bestLag = -1, best = 0
+  const corr = new Float32Array(maxLag + 2)
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let c = 0, e1 = 0, e2 = 0
+    for (let i = 0; i + lag < n; i++) { c += x[i] * x[i + lag]; e1 += x[i] * x[i]; e2 += x[i + lag] * x[i + lag] }
+    corr[lag] = c / (Math.sqrt(e1 * e2) || 1)
+  }
+  // first strong peak wins (avoids octave-down errors from later, equally good peaks)
+  for (let lag = minLag + 1; lag <= maxLag; lag++) {
+    if (corr[lag] > 0.6 && corr[lag] >= corr[lag - 1] && corr[lag] >= corr[lag + 1]) { bestLag = lag; best = corr[lag]; break }
+  }
+  if (bestLag < 0 || best < 0.6) return null
+
+  // parabolic interpolation around the peak
+  const a = corr[bestLag - 1], b = corr[bestLag], c = corr[bestLag + 1]
+  const den = a - 2 * b + c
+  const shift = den ? clamp(0.5 * (a - c) / den, -0.5, 0.5) : 0
+  return sr / (bestLag + shift)
+}
+
+export type ProsodyMotionOpts = {
+  gain?: number            // overall scale
+  nodRad?: number          // nod size for a strong accent
+  tiltRad?: number         // roll per octave above the mean pitch
+  yawRad?: number          // phrase-to-phrase head turn
+  accentRatio?: number     // fast/slow energy ratio that counts as an accent
+  rng?: () => number
+}
+
+export function createProsodyMotion(opts?: ProsodyMotionOpts) {
+  const gain = opts?.gain ?? 1
+  const nodRad = opts?.nodRad ?? 0.06
+  const tiltRad = opts?.tiltRad ?? 0.05
+  const yawRad = opts?.yawRad ?? 0.04
+  const accentRatio = opts?.accentRatio ?? 1.6
+  const rng = opts?.rng ?? Math.random
+
+  // energy envelopes
+  let fast = 0, slow = 0
+  let cooldown = 0
+  let silentFor = 1
+  // nod spring (≈3 Hz, a bit under-damped so nods settle with a small rebound)
+  let nod = 0, nodV = 0
+  const w = 2 * Math.PI * 3, zeta = 0.55
+  // pitch contour in semitones vs. running mean (log2 Hz)
+  let meanLog: number | null = null
+  let semis = 0
+  // smoothed outputs
+  let roll = 0, yaw = 0, yawTarget = 0, brow = 0, browKick = 0
+
+  return {
+    update(dtS: number, feat: ProsodyFeatures | null): ProsodyMotion {
+      const dt = clamp(dtS, 0, 0.1)
+      const e = feat ? Math.max(0, feat.energy) : 0
+      fast = follow(fast, e, dt, 0.03)
+      slow = follow(slow, e, dt, 0.4)
+      cooldown = Math.max(0, cooldown - dt)
+
+      // phrase start: voice after >250 ms of silence → new yaw aim
+      const voiced = fast > 0.01
+      if (voiced && silentFor > 0.25) yawTarget = (rng() * 2 - 1) * yawRad
+      silentFor = voiced ? 0 : silentFor + dt
+      if (!feat) yawTarget = 0
+
+      // accent → nod + brow kick
+      if (feat && cooldown === 0 && fast > 0.02 && fast > slow * accentRatio) {
+        const strength = clamp(fast / Math.max(slow, 1e-4) - 1, 0.3, 1)
+        nodV += strength * nodRad * w * 1.2
+        browKick = Math.max(browKick, 0.5 * strength)
+        cooldown = 0.35
+      }
+      const steps = Math.max(1, Math.ceil(dt / (1 / 240)))
+      const h = dt / steps
+      for (let s = 0; s < steps; s++) {
+        nodV += (-w * w * nod - 2 * zeta * w * nodV) * h
+        nod += nodV * h
+      }
+
+      // pitch contour
+      const f0 = feat?.pitch
+      let browTarget = 0
+      if (f0 && f0 > 0) {
+        const l = Math.log2(f0)
+        meanLog = meanLog == null ? l : follow(meanLog, l, dt, 2)
+        semis = follow(semis, 12 * (l - meanLog), dt, 0.08)
+        browTarget = clamp((semis - 2) / 6, 0, 1)
+      } else {
+        semis = follow(semis, 0, dt, 0.3)
+      }
+      roll = follow(roll, clamp(semis / 12, -1, 1) * tiltRad, dt, 0.25)
+      yaw = follow(yaw, yawTarget, dt, 0.6)
+      browKick = follow(browKick, 0, dt, 0.25)
+      brow = follow(brow, Math.max(browTarget, browKick), dt, browTarget > brow ? 0.08 : 0.3)
+
+      return {
+        head: { pitch: nod * gain, yaw: yaw * gain, roll: roll * gain },
+        brow: clamp(brow * gain, 0, 1),
+      }
+    },
+  }
+}
+
+/**
+ * Analyses whatever `getAudio()` returns: the scheduler's current <audio>, or the WebAudio
+ * engine's analyser when chunks play through it.
+ * The AudioContext is created lazily and elements are only routed through it once it runs —
+ * a suspended context would otherwise silence them.
+ */
+export function createProsodyTracker(getAudio: () => HTMLAudioElement | AnalyserNode | null, opts?: ProsodyMotionOpts) {
+  const motion = createProsodyMotion(opts)
+  let ctx: AudioContext | null = null
+  let analyser: AnalyserNode | null = null
+  let buf: Float32Array<ArrayBuffer> | null = null
+  const wired = new WeakMap<HTMLAudioElement, boolean>()
+  let frame = 0
+  let lastPitch: number | null = null
+
+  function wire(el: HTMLAudioElement): boolean {
+    if (wired.has(el)) return wired.get(el)!
+    try {
+      if (!ctx) {
+        const Ctx = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+        if (!Ctx) { wired.set(el, false); return false }
+        ctx = new Ctx()
+        analyser = ctx.createAnalyser()
+        analyser.fftSize = 2048
+        analyser.connect(ctx.destination)
+        buf = new Float32Array(analyser.fftSize)
+      }
+      if (ctx.state !== 'running') { void ctx.resume().catch(() => {}); return false }
+      ctx.createMediaElementSource(el).connect(analyser!)
+      wired.set(el, true)
+      return true
+    } catch {
+      // e.g. already wired to another context — just skip this chunk
+      wired.set(el, false)
+      return false
+    }
+  }
+
+  return {
+    sample(dtS: number): ProsodyMotion {
+      const src = getAudio()
+      let feat: ProsodyFeatures | null = null
+      if (src && 'getFloatTimeDomainData' in src) {
+        // The WebAudio engine's own output tap: nothing to wire
+        if (!buf || buf.length !== src.fftSize) buf = new Float32Array(src.fftSize)
+        src.getFloatTimeDomainData(buf)
+        if ((frame++ & 1) === 0) lastPitch = detectPitch(buf, src.context.sampleRate)
+        feat = { energy: rms(buf), pitch: lastPitch }
+      } else if (src && !src.paused && wire(src) && analyser && buf && ctx) {
+        analyser.getFloatTimeDomainData(buf)
+        // pitch every other frame is plenty for a contour
+        if ((frame++ & 1) === 0) lastPitch = detectPitch(buf, ctx.sampleRate)
+        feat = { energy: rms(buf), pitch: lastPitch }
+      }
+      return motion.update(dtS, feat)
+    },
+
+    dispose() {
+      try { void ctx?.close() } catch { /* already closed */ }
+      ctx = null
+      analyser = null
+    },
+  }
+}
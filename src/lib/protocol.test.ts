@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { decodeServerFrame, encodeAudioFrame, encodeClientMessage, splitAudioFrame, validateClientMessage } from './protocol'
+
+const bytesOf = (s: string) => new TextEncoder().encode(s).buffer as ArrayBuffer
+const textOf = (b: ArrayBuffer) => new TextDecoder().decode(b)
+
+describe('binary audio frames', () => {
+  it('round-trips a header and its audio', () => {
+    const frame = encodeAudioFrame({ type: 'audio_response', chunk_index: 2 }, bytesOf('RIFF…'))
+    const split = splitAudioFrame(frame)
+    expect(typeof split).toBe('object')
+    if (typeof split === 'string') return
+    expect(split.header).toEqual({ type: 'audio_response', chunk_index: 2 })
+    expect(textOf(split.audio)).toBe('RIFF…')
+  })
+
+  it('decodes an audio_response frame with the payload as audio_bytes', () => {
+    const frame = encodeAudioFrame({ type: 'audio_response', audio: 'ignored', viseme: [[0.5]], seq: 7 }, bytesOf('mp3'))
+    const res = decodeServerFrame(frame)
+    expect(res.ok).toBe(true)
+    if (!res.ok || res.msg.type !== 'audio_response') return
+    expect(res.msg.audio).toBeUndefined()
+    expect(textOf(res.msg.audio_bytes!)).toBe('mp3')
+    expect(res.msg.seq).toBe(7)
+  })
+
+  it('reports truncated and garbled frames as parse errors', () => {
+    expect(decodeServerFrame(new ArrayBuffer(2))).toMatchObject({ ok: false, error: { kind: 'parse', message: 'binary frame too short' } })
+    const overrun = new Uint8Array(8)
+    new DataView(overrun.buffer).setUint32(0, 100)
+    expect(decodeServerFrame(overrun.buffer)).toMatchObject({ ok: false, error: { kind: 'parse' } })
+    const garbled = encodeAudioFrame({}, new ArrayBuffer(0))
+    new Uint8Array(garbled)[4] = 0x7b + 1
+    expect(decodeServerFrame(garbled)).toMatchObject({ ok: false, error: { kind: 'parse' } })
+  })
+})
+
+describe('encodeClientMessage', () => {
+  const query = { type: 'audio_query' as const, audio_bytes: bytesOf('opus'), format: 'webm', muteAudio: false }
+
+  it('needs base64 or bytes on audio_query', () => {
+    expect(validateClientMessage({ type: 'audio_query', format: 'webm' })).toMatchObject({ ok: false, error: { path: 'audio' } })
+    expect(validateClientMessage(query).ok).toBe(true)
+  })
+
+  it('sends recorded bytes binary once negotiated', () => {
+    const wire = encodeClientMessage(query, true)
+    expect(wire).toBeInstanceOf(ArrayBuffer)
+    const split = splitAudioFrame(wire as ArrayBuffer)
+    if (typeof split === 'string') throw new Error(split)
+    expect(split.header).toEqual({ type: 'audio_query', format: 'webm', muteAudio: false })
+    expect(textOf(split.audio)).toBe('opus')
+  })
+
+  it('falls back to a base64 data URL for JSON-only servers', () => {
+    const wire = JSON.parse(encodeClientMessage(query, false) as string)
+    expect(wire).toEqual({ type: 'audio_query', format: 'webm', muteAudio: false, audio: `data:audio/webm;base64,${btoa('opus')}` })
+    expect(encodeClientMessage({ type: 'ping', ts: 1 }, true)).toBe('{"type":"ping","ts":1}')
+  })
+
+  it('frames streamed mic slices like whole queries', () => {
+    const chunk = { type: 'audio_chunk' as const, stream_id: 's1', index: 3, audio_bytes: bytesOf('opus'), format: 'webm' }
+    expect(validateClientMessage(chunk).ok).toBe(true)
+    expect(validateClientMessage({ type: 'audio_chunk', stream_id: 's1', format: 'webm', audio: 'AA==' })).toMatchObject({ ok: false, error: { path: 'index' } })
+    const split = splitAudioFrame(encodeClientMessage(chunk, true) as ArrayBuffer)
+    if (typeof split === 'string') throw new Error(split)
+    expect(split.header).toEqual({ type: 'audio_chunk', stream_id: 's1', index: 3, format: 'webm' })
+    expect(encodeClientMessage({ type: 'audio_end', stream_id: 's1', cancel: true }, true)).toBe('{"type":"audio_end","stream_id":"s1","cancel":true}')
+  })
+
+  it('asks for a past reply to be spoken again, tagged with its message', () => {
+    expect(validateClientMessage({ type: 'tts_request', text: 'Hello again', ref: 'm-1' })).toEqual({ ok: true, msg: { type: 'tts_request', text: 'Hello again', ref: 'm-1' } })
+    expect(validateClientMessage({ type: 'tts_request' })).toMatchObject({ ok: false, error: { path: 'text' } })
+    const frame = decodeServerFrame(JSON.stringify({ type: 'audio_response', audio: 'AA==', ref: 'm-1' }))
+    expect(frame).toMatchObject({ ok: true, msg: { ref: 'm-1' } })
+  })
+})
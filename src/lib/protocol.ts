@@ -0,0 +1,273 @@
+// lib/protocol.ts
+// Wire contract for /ws/chat/ (see README "Backend Contract").
+// - One decoder per message type, both directions
+// - Decoders return structured errors instead of throwing
+// - Unknown fields are dropped; unknown types are reported, never passed through
+// - Audio may travel in binary frames instead of base64 once both sides agreed (see below)
+
+import { bytesToBase64, isArrayBuffer } from './bytes'
+
+/* ---------------- decoder kit ---------------- */
+type Ok<T> = { ok: true; value: T }
+type Err = { ok: false; path: string; message: string }
+type Result<T> = Ok<T> | Err
+type Decoder<T> = (v: unknown, path: string) => Result<T>
+
+const ok = <T>(value: T): Ok<T> => ({ ok: true, value })
+const err = (path: string, message: string): Err => ({ ok: false, path, message })
+
+const str: Decoder<string> = (v, p) => typeof v === 'string' ? ok(v) : err(p, 'expected string')
+const num: Decoder<number> = (v, p) => typeof v === 'number' && Number.isFinite(v) ? ok(v) : err(p, 'expected finite number')
+const bool: Decoder<boolean> = (v, p) => typeof v === 'boolean' ? ok(v) : err(p, 'expected boolean')
+const unknownValue: Decoder<unknown> = (v) => ok(v)
+const bytes: Decoder<ArrayBuffer> = (v, p) => isArrayBuffer(v) ? ok(v) : err(p, 'expected binary payload')
+/** Never fails: unusable viseme data must not drop the audio (the scheduler estimates locally) */
+const visemeRows: Decoder<number[][]> = (v) =>
+  ok(Array.isArray(v) ? v.map(row => Array.isArray(row) ? row.map(x => typeof x === 'number' ? x : NaN) : []) : [])
+
+function arrayOf<T>(item: Decoder<T>): Decoder<T[]> {
+  return (v, p) => {
+    if (!Array.isArray(v)) return err(p, 'expected array')
+    const out: T[] = []
+    for (let i = 0; i < v.length; i++) {
+      const r = item(v[i], `${p}[${i}]`)
+      if (!r.ok) return r
+      out.push(r.value)
+    }
+    return ok(out)
+  }
+}
+
+function oneOf<A, B>(a: Decoder<A>, b: Decoder<B>, what: string): Decoder<A | B> {
+  return (v, p) => {
+    const ra = a(v, p)
+    if (ra.ok) return ra
+    const rb = b(v, p)
+    return rb.ok ? rb : err(p, `expected ${what}`)
+  }
+}
+
+const record: Decoder<Record<string, unknown>> = (v, p) =>
+  v && typeof v === 'object' && !Array.isArray(v) ? ok(v as Record<string, unknown>) : err(p, 'expected object')
+
+type Shape = Record<string, Decoder<unknown>>
+type Opt<D> = D & { optional: true }
+type ShapeOut<S extends Shape> =
+  { [K in keyof S as S[K] extends Opt<Decoder<unknown>> ? never : K]: S[K] extends Decoder<infer T> ? T : never } &
+  { [K in keyof S as S[K] extends Opt<Decoder<unknown>> ? K : never]?: S[K] extends Decoder<infer T> ? T : never }
+
+/** Marks a field as optional; `null` is treated like a missing field. */
+function optional<T>(d: Decoder<T>): Opt<Decoder<T>> {
+  const o = ((v: unknown, p: string) => (v === undefined || v === null) ? ok(undefined) : d(v, p)) as Opt<Decoder<T>>
+  o.optional = true
+  return o
+}
+
+function object<S extends Shape>(shape: S): Decoder<ShapeOut<S>> {
+  return (v, p) => {
+    const r = record(v, p)
+    if (!r.ok) return r
+    const out: Record<string, unknown> = {}
+    for (const [k, d] of Object.entries(shape)) {
+      const f = d(r.value[k], p ? `${p}.${k}` : k)
+      if (!f.ok) return f
+      if (f.value !== undefined) out[k] = f.value
+    }
+    return ok(out as ShapeOut<S>)
+  }
+}
+
+function withType<T extends string, S extends Shape>(type: T, shape: S) {
+  const d = object(shape)
+  return (v: unknown): Result<{ type: T } & ShapeOut<S>> => {
+    const r = d(v, '')
+    return r.ok ? ok({ type, ...r.value }) : r
+  }
+}
+
+/** At least one of `keys` must be present (e.g. base64 `audio` or binary `audio_bytes`) */
+function anyOf<T>(d: (v: unknown) => Result<T>, keys: Array<keyof T & string>) {
+  return (v: unknown): Result<T> => {
+    const r = d(v)
+    if (!r.ok || keys.some(k => r.value[k] !== undefined)) return r
+    return err(keys[0], `expected ${keys.join(' or ')}`)
+  }
+}
+
+/* ---------------- server → client ---------------- */
+/** Every server event may carry `seq` (used for resume, see ws.ts) */
+const base = { seq: optional(num) }
+
+/** `emotion` arrives as an object or a JSON string; canonicalization lives in the UI */
+export type EmotionPayload = Record<string, unknown> | string
+
+const serverDecoders = {
+  connected:       withType('connected',       {
+    ...base,
+    bot_id: str,
+    thread_id: str,
+    audio_framing: optional(str),
+    audio_stream: optional(bool),         // server takes audio_chunk / audio_end
+    seq_epoch: optional(str),             // changes when the server's seq restarts (see ws.ts)
+  }),
+  response_start:  withType('response_start',  { ...base }),
+  emotion:         withType('emotion',         { ...base, emotion: oneOf(record, str, 'object or JSON string') }),
+  text_token:      withType('text_token',      { ...base, token: str }),
+  text_query:      withType('text_query',      { ...base, text: str, chat_id: optional(oneOf(num, str, 'number or string')) }),
+  transcript_partial: withType('transcript_partial', { ...base, text: str, stream_id: optional(str) }),
+  audio_response:  withType('audio_response',  {
+    ...base,
+    audio: optional(str),
+    audio_bytes: optional(bytes),         // binary frames only
+    audio_format: optional(str),
+    viseme: visemeRows,
+    viseme_times: optional(arrayOf(num)),
+    viseme_format: optional(str),
+    viseme_profile: optional(str),
+    frame_ms: optional(num),
+    viseme_fps: optional(num),
+    duration_ms: optional(num),
+    chunk_index: optional(num),
+    offset_ms: optional(num),
+    ref: optional(str),                   // echoed from tts_request: the message being re-spoken
+  }),
+  slides_response: withType('slides_response', { ...base, slides: optional(unknownValue), slides_raw: optional(unknownValue) }),
+  slides_done:     withType('slides_done',     { ...base }),
+  audio_muted:     withType('audio_muted',     { ...base, muted: bool }),
+  stop_audio:      withType('stop_audio',      { ...base }),
+  response_done:   withType('response_done',   { ...base, timings: optional(record) }),
+  response_ended:  withType('response_ended',  { ...base }),
+  pong:            withType('pong',            { ...base, ts: optional(num) }),  // `ts` echoed from ping, if supported
+  error:           withType('error',           { ...base, message: str }),
+}
+
+type DecodedOf<D> = D extends (v: unknown) => Result<infer T> ? T : never
+export type ServerMessageType = keyof typeof serverDecoders
+export type ServerMessage = { [K in ServerMessageType]: DecodedOf<(typeof serverDecoders)[K]> }[ServerMessageType]
+export type ServerMessageOf<K extends ServerMessageType> = Extract<ServerMessage, { type: K }>
+
+/* ---------------- client → server ---------------- */
+const clientDecoders = {
+  text_query:   withType('text_query',   { text: str, local_time: optional(str), muteAudio: optional(bool) }),
+  audio_query:  anyOf(withType('audio_query', { audio: optional(str), audio_bytes: optional(bytes), format: str, muteAudio: optional(bool) }), ['audio', 'audio_bytes']),
+  // Streamed mic upload: numbered slices of one recording, then audio_end (see usePTT)
+  audio_chunk:  anyOf(withType('audio_chunk', { stream_id: str, index: num, audio: optional(str), audio_bytes: optional(bytes), format: str }), ['audio', 'audio_bytes']),
+  audio_end:    withType('audio_end',    { stream_id: str, cancel: optional(bool), muteAudio: optional(bool) }),
+  mute_audio:   withType('mute_audio',   {}),
+  unmute_audio: withType('unmute_audio', {}),
+  stop_audio:   withType('stop_audio',   {}),
+  ping:         withType('ping',         { ts: optional(num) }),
+  resume:       withType('resume',       { last_seq: num }),
+  // Speak a past reply again (no new turn); audio_response chunks come back with the same `ref`
+  tts_request:  withType('tts_request',  { text: str, ref: optional(str) }),
+}
+
+export type ClientMessageType = keyof typeof clientDecoders
+export type ClientMessage = { [K in ClientMessageType]: DecodedOf<(typeof clientDecoders)[K]> }[ClientMessageType]
+
+/* ---------------- errors ---------------- */
+export type ProtocolError = {
+  direction: 'in' | 'out'
+  kind: 'parse' | 'unknown_type' | 'invalid'
+  type?: string           // message type, when one could be read
+  path?: string           // offending field, e.g. "viseme[3][1]"
+  message: string
+  raw: unknown            // the frame / object as received
+}
+
+export type Decoded<T> = { ok: true; msg: T } | { ok: false; error: ProtocolError }
+
+function decodeWith<M>(
+  decoders: Record<string, (v: unknown) => Result<unknown>>,
+  direction: 'in' | 'out',
+  obj: unknown
+): Decoded<M> {
+  const type = (obj && typeof obj === 'object') ? (obj as { type?: unknown }).type : undefined
+  if (typeof type !== 'string') {
+    return { ok: false, error: { direction, kind: 'invalid', path: 'type', message: 'missing "type"', raw: obj } }
+  }
+  const d = Object.prototype.hasOwnProperty.call(decoders, type) ? decoders[type] : undefined
+  if (!d) {
+    return { ok: false, error: { direction, kind: 'unknown_type', type, message: `unknown message type "${type}"`, raw: obj } }
+  }
+  const r = d(obj)
+  if (!r.ok) {
+    return { ok: false, error: { direction, kind: 'invalid', type, path: r.path, message: `${r.path || type}: ${r.message}`, raw: obj } }
+  }
+  return { ok: true, msg: r.value as M }
+}
+
+/** Decodes one inbound frame (text, or binary once negotiated). Never throws. */
+export function decodeServerFrame(data: unknown): Decoded<ServerMessage> {
+  if (isArrayBuffer(data)) {
+    const split = splitAudioFrame(data)
+    if (typeof split === 'string') {
+      return { ok: false, error: { direction: 'in', kind: 'parse', message: split, raw: data } }
+    }
+    // The payload is the audio, whatever the header says
+    const obj: Record<string, unknown> = { ...(split.header as object), audio_bytes: split.audio }
+    delete obj.audio
+    return decodeWith<ServerMessage>(serverDecoders, 'in', obj)
+  }
+  if (typeof data !== 'string') {
+    return { ok: false, error: { direction: 'in', kind: 'parse', message: 'expected a text frame', raw: data } }
+  }
+  let obj: unknown
+  try { obj = JSON.parse(data) } catch (e) {
+    return { ok: false, error: { direction: 'in', kind: 'parse', message: e instanceof Error ? e.message : 'invalid JSON', raw: data } }
+  }
+  return decodeWith<ServerMessage>(serverDecoders, 'in', obj)
+}
+
+/** Validates an outbound message before it is serialized. */
+export function validateClientMessage(msg: unknown): Decoded<ClientMessage> {
+  return decodeWith<ClientMessage>(clientDecoders, 'out', msg)
+}
+
+/* ---------------- binary audio frames ---------------- */
+// Negotiated per socket: the client asks with `?audio_framing=binary`; a server that can do it
+// answers `connected` with `audio_framing: "binary"`. From then on audio travels as one binary
+// frame [u32 BE header length][UTF-8 JSON header][audio bytes], the header being the message
+// without its audio. Everything else stays JSON, and so does everything with an older server.
+export const AUDIO_FRAMING = 'binary'
+
+const FORMAT_MIME: Record<string, string> = { webm: 'audio/webm', m4a: 'audio/mp4', ogg: 'audio/ogg', mp3: 'audio/mpeg', wav: 'audio/wav' }
+
+export function encodeAudioFrame(header: Record<string, unknown>, audio: ArrayBuffer): ArrayBuffer {
+  const json = new TextEncoder().encode(JSON.stringify(header))
+  const out = new Uint8Array(4 + json.length + audio.byteLength)
+  new DataView(out.buffer).setUint32(0, json.length)
+  out.set(json, 4)
+  out.set(new Uint8Array(audio), 4 + json.length)
+  return out.buffer
+}
+
+/** Header + audio, or a parse error message */
+export function splitAudioFrame(buf: ArrayBuffer): { header: unknown; audio: ArrayBuffer } | string {
+  if (buf.byteLength < 4) return 'binary frame too short'
+  const len = new DataView(buf).getUint32(0)
+  if (4 + len > buf.byteLength) return 'binary frame header overruns the frame'
+  try {
+    const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buf, 4, len)))
+    return { header, audio: buf.slice(4 + len) }
+  } catch (e) {
+    return e instanceof Error ? `binary frame header: ${e.message}` : 'binary frame header is not JSON'
+  }
+}
+
+/**
+ * What goes on the wire for a validated message. Audio given as bytes goes out binary when the
+ * server agreed to it, else as the base64 data URL older servers expect.
+ */
+export function encodeClientMessage(msg: ClientMessage, binary: boolean): string | ArrayBuffer {
+  if ((msg.type !== 'audio_query' && msg.type !== 'audio_chunk') || !msg.audio_bytes) return JSON.stringify(msg)
+  const { audio_bytes, ...header } = msg
+  if (binary) return encodeAudioFrame(header, audio_bytes)
+  const mime = FORMAT_MIME[msg.format] || `audio/${msg.format}`
+  return JSON.stringify({ ...header, audio: `data:${mime};base64,${bytesToBase64(audio_bytes)}` })
+}
+
+export function formatProtocolError(e: ProtocolError): string {
+  const where = e.direction === 'in' ? 'server→client' : 'client→server'
+  return `[protocol] ${where} ${e.kind}${e.type ? ` (${e.type})` : ''}: ${e.message}`
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_GUARDS, GUARD_RANGES, checkClip, downsample, encodeWav, findSpeech, normalizeGuards } from './recordingGuards'
+
+const RATE = 16000
+
+/** `parts`: [seconds, amplitude] runs of a 200 Hz tone (amplitude 0 = digital silence) */
+function signal(parts: Array<[number, number]>) {
+  const total = parts.reduce((n, [s]) => n + Math.round(s * RATE), 0)
+  const pcm = new Float32Array(total)
+  let i = 0
+  for (const [s, amp] of parts) {
+    for (const end = i + Math.round(s * RATE); i < end; i++) pcm[i] = amp * Math.sin(2 * Math.PI * 200 * i / RATE)
+  }
+  return pcm
+}
+
+/** Decodes every payload to `pcm` */
+function stubDecoder(pcm: Float32Array) {
+  vi.stubGlobal('OfflineAudioContext', class {
+    async decodeAudioData() {
+      return { length: pcm.length, numberOfChannels: 1, sampleRate: RATE, getChannelData: () => pcm }
+    }
+  })
+}
+
+describe('normalizeGuards', () => {
+  it('falls back to defaults and clamps to the slider ranges', () => {
+    expect(normalizeGuards('{broken')).toEqual(DEFAULT_GUARDS)
+    const g = normalizeGuards(JSON.stringify({ maxDurationS: 9999, minDurationMs: 'x', trimSilence: false }))
+    expect(g.maxDurationS).toBe(GUARD_RANGES.maxDurationS.max)
+    expect(g.minDurationMs).toBe(DEFAULT_GUARDS.minDurationMs)
+    expect(g.trimSilence).toBe(false)
+  })
+})
+
+describe('findSpeech', () => {
+  it('finds the voiced part, padded, between silences', () => {
+    const span = findSpeech(signal([[1, 0], [0.5, 0.3], [1, 0]]), RATE)!
+    expect(span.startS).toBeCloseTo(0.8, 1)
+    expect(span.endS).toBeCloseTo(1.7, 1)
+  })
+
+  it('treats a quiet room and a lone click as silence', () => {
+    expect(findSpeech(signal([[1, 0.002]]), RATE)).toBeNull()
+    expect(findSpeech(signal([[0.5, 0], [0.04, 0.8], [0.5, 0]]), RATE)).toBeNull()
+    expect(findSpeech(new Float32Array(0), RATE)).toBeNull()
+  })
+})
+
+describe('encodeWav / downsample', () => {
+  it('writes a 16-bit mono PCM header and clipped samples', () => {
+    const wav = encodeWav(new Float32Array([0, 1, -1, 2]), RATE)
+    const v = new DataView(wav)
+    expect(new TextDecoder().decode(wav.slice(0, 4))).toBe('RIFF')
+    expect(new TextDecoder().decode(wav.slice(8, 12))).toBe('WAVE')
+    expect(v.getUint16(22, true)).toBe(1)
+    expect(v.getUint32(24, true)).toBe(RATE)
+    expect(v.getUint32(40, true)).toBe(8)
+    expect([46, 48, 50].map(o => v.getInt16(o, true))).toEqual([32767, -32768, 32767])
+  })
+
+  it('decimates by averaging and leaves lower rates alone', () => {
+    expect(Array.from(downsample(new Float32Array([1, 3, 5, 7]), 32000, 16000))).toEqual([2, 6])
+    const pcm = new Float32Array(4)
+    expect(downsample(pcm, 8000, 16000)).toBe(pcm)
+  })
+})
+
+describe('checkClip', () => {
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('returns null when the take cannot be decoded here', async () => {
+    expect(await checkClip(new ArrayBuffer(8), true)).toBeNull()
+  })
+
+  it('flags a silent take', async () => {
+    stubDecoder(signal([[1, 0.001]]))
+    expect(await checkClip(new ArrayBuffer(8), true)).toEqual({ silent: true })
+  })
+
+  // what the recorder makes of `s` seconds at 64 kbps
+  const opus = (s: number) => new ArrayBuffer(s * 8000)
+
+  it('trims long silences into a WAV, and leaves short ones (or trimming off) as recorded', async () => {
+    stubDecoder(signal([[4, 0], [0.5, 0.3], [4, 0]]))
+    const trimmed = await checkClip(opus(8.5), true)
+    if (trimmed?.silent !== false || !trimmed.trimmed) throw new Error('expected a trimmed take')
+    expect(trimmed.trimmed.format).toBe('wav')
+    const seconds = (trimmed.trimmed.audio.byteLength - 44) / 2 / RATE
+    expect(seconds).toBeCloseTo(0.9, 1)
+    expect(await checkClip(opus(8.5), false)).toEqual({ silent: false, trimmed: null })
+
+    stubDecoder(signal([[0.1, 0], [0.5, 0.3], [0.1, 0]]))
+    expect(await checkClip(opus(0.7), true)).toEqual({ silent: false, trimmed: null })
+  })
+
+  it('sends the recording as it is when the trimmed WAV would be larger', async () => {
+    // a second of silence either side of 3 s of speech: 3.4 s of WAV outweighs 5 s of opus
+    stubDecoder(signal([[1, 0], [3, 0.3], [1, 0]]))
+    expect(await checkClip(opus(5), true)).toEqual({ silent: false, trimmed: null })
+  })
+})
@@ -0,0 +1,162 @@
+// lib/recordingGuards.ts
+// Checks on a push-to-talk take before it becomes an `audio_query`.
+// - Length: takes stop by themselves after `maxDurationS`; shorter than `minDurationMs` is a tap
+//   on the button, not a question, and is dropped
+// - Energy: the take is decoded and measured in 20 ms frames. Too little voiced audio means
+//   nothing was said; otherwise leading/trailing silence can be cut off and the rest sent as WAV.
+//   16 kHz WAV is about 4× the recorder's 64 kbps opus, so the cut take is sent only when it is
+//   smaller than the recording (a take that is mostly silence). A trimmed `audio_query` is
+//   therefore never bigger than the longest take `maxDurationS` allows.
+// - Without WebAudio (or for a container the browser can't decode) the take goes out unchecked
+
+import { rms } from './prosody'
+import { toDb } from './vad'
+import { decodeAudioPayload } from './visemeEstimator'
+
+export type RecordingGuards = {
+  maxDurationS: number      // the take stops (and is sent) after this long
+  minDurationMs: number     // shorter takes are dropped
+  trimSilence: boolean      // cut leading/trailing silence before sending
+}
+export type GuardScalar = Exclude<keyof RecordingGuards, 'trimSilence'>
+
+export const DEFAULT_GUARDS: RecordingGuards = {
+  maxDurationS: 60,
+  minDurationMs: 400,
+  trimSilence: true,
+}
+
+/** Slider ranges; stored values are clamped to them */
+export const GUARD_RANGES: Record<GuardScalar, { min: number; max: number; step: number; label: string }> = {
+  maxDurationS: { min: 5, max: 300, step: 5, label: 'Max length (s)' },
+  minDurationMs: { min: 0, max: 2000, step: 50, label: 'Min length (ms)' },
+}
+
+const LS_GUARDS = 'recording_guards'
+
+const clamp = (x: number, lo: number, hi: number) => x < lo ? lo : (x > hi ? hi : x)
+const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+
+/** Lenient reader for stored JSON: missing/bad fields fall back to defaults, values clamped to range */
+export function normalizeGuards(raw: unknown): RecordingGuards {
+  if (typeof raw === 'string') {
+    try { raw = JSON.parse(raw) } catch { raw = null }
+  }
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const out: RecordingGuards = { ...DEFAULT_GUARDS }
+  for (const k of Object.keys(GUARD_RANGES) as GuardScalar[]) {
+    const { min, max } = GUARD_RANGES[k]
+    if (finite(r[k])) out[k] = clamp(r[k], min, max)
+  }
+  if (typeof r.trimSilence === 'boolean') out.trimSilence = r.trimSilence
+  return out
+}
+
+export function loadGuards(): RecordingGuards {
+  return normalizeGuards(localStorage.getItem(LS_GUARDS))
+}
+
+export function saveGuards(g: RecordingGuards) {
+  localStorage.setItem(LS_GUARDS, JSON.stringify(g))
+}
+
+const FRAME_MS = 20
+const VOICED_DB = -45         // a frame this loud may be speech
+const MIN_VOICED_MS = 120     // less voiced audio than this is a click or a breath, not a word
+const EDGE_BELOW_PEAK_DB = 30 // at the edges, frames this far under the loudest one are silence
+const PAD_MS = 200            // kept around the speech so soft onsets and endings survive
+const MIN_TRIM_MS = 300       // not worth re-encoding for less
+const WAV_RATE = 16000
+
+export type SpeechSpan = { startS: number; endS: number; peakDb: number }
+
+/** Where the speech is in `pcm` (padded), or null when the take is (near) silent */
+export function findSpeech(pcm: Float32Array, sampleRate: number): SpeechSpan | null {
+  const n = Math.max(1, Math.round(sampleRate * FRAME_MS / 1000))
+  const frames = Math.ceil(pcm.length / n)
+  const db = new Float32Array(frames)
+  let peak = -Infinity
+  let voiced = 0
+  for (let f = 0; f < frames; f++) {
+    db[f] = toDb(rms(pcm.subarray(f * n, (f + 1) * n)))
+    if (db[f] > peak) peak = db[f]
+    if (db[f] >= VOICED_DB) voiced++
+  }
+  if (voiced * FRAME_MS < MIN_VOICED_MS) return null
+
+  const edge = Math.max(VOICED_DB, peak - EDGE_BELOW_PEAK_DB)
+  let a = 0
+  while (db[a] < edge) a++
+  let b = frames - 1
+  while (db[b] < edge) b--
+  const pad = PAD_MS / 1000
+  return {
+    startS: Math.max(0, (a * n) / sampleRate - pad),
+    endS: Math.min(pcm.length / sampleRate, ((b + 1) * n) / sampleRate + pad),
+    peakDb: peak,
+  }
+}
+
+/** Box-filter decimation (speech only needs 8 kHz of bandwidth); no-op if already at or below `to` */
+export function downsample(pcm: Float32Array, from: number, to: number): Float32Array {
+  if (from <= to) return pcm
+  const ratio = from / to
+  const out = new Float32Array(Math.floor(pcm.length / ratio))
+  for (let i = 0; i < out.length; i++) {
+    const a = Math.floor(i * ratio)
+    const b = Math.min(pcm.length, Math.floor((i + 1) * ratio))
+    let s = 0
+    for (let j = a; j < b; j++) s += pcm[j]
+    out[i] = b > a ? s / (b - a) : 0
+  }
+  return out
+}
+
+/** 16-bit PCM mono WAV */
+export function encodeWav(pcm: Float32Array, sampleRate: number): ArrayBuffer {
+  const buf = new ArrayBuffer(44 + pcm.length * 2)
+  const v = new DataView(buf)
+  const tag = (at: number, s: string) => { for (let i = 0; i < 4; i++) v.setUint8(at + i, s.charCodeAt(i)) }
+  tag(0, 'RIFF')
+  v.setUint32(4, 36 + pcm.length * 2, true)
+  tag(8, 'WAVE')
+  tag(12, 'fmt ')
+  v.setUint32(16, 16, true)
+  v.setUint16(20, 1, true)             // PCM
+  v.setUint16(22, 1, true)             // mono
+  v.setUint32(24, sampleRate, true)
+  v.setUint32(28, sampleRate * 2, true)
+  v.setUint16(32, 2, true)
+  v.setUint16(34, 16, true)
+  tag(36, 'data')
+  v.setUint32(40, pcm.length * 2, true)
+  for (let i = 0; i < pcm.length; i++) {
+    const x = clamp(pcm[i], -1, 1)
+    v.setInt16(44 + i * 2, x < 0 ? x * 0x8000 : x * 0x7fff, true)
+  }
+  return buf
+}
+
+export type ClipCheck =
+  | { silent: true }
+  | { silent: false; trimmed: { audio: ArrayBuffer; format: 'wav' } | null }
+
+/** Energy check on a finished take; null when it can't be decoded here (send it as recorded) */
+export async function checkClip(bytes: ArrayBuffer, trim: boolean): Promise<ClipCheck | null> {
+  let decoded: { pcm: Float32Array; sampleRate: number }
+  try {
+    decoded = await decodeAudioPayload(bytes)
+  } catch {
+    return null
+  }
+  const { pcm, sampleRate } = decoded
+  const span = findSpeech(pcm, sampleRate)
+  if (!span) return { silent: true }
+  const cutMs = (pcm.length / sampleRate - (span.endS - span.startS)) * 1000
+  if (!trim || cutMs < MIN_TRIM_MS) return { silent: false, trimmed: null }
+  const speech = pcm.subarray(Math.floor(span.startS * sampleRate), Math.ceil(span.endS * sampleRate))
+  const rate = Math.min(sampleRate, WAV_RATE)
+  // the WAV must come out smaller than what was recorded, or the trim costs more than it saves
+  if (44 + Math.floor(speech.length * rate / sampleRate) * 2 >= bytes.byteLength) return { silent: false, trimmed: null }
+  return { silent: false, trimmed: { audio: encodeWav(downsample(speech, sampleRate, rate), rate), format: 'wav' } }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest'
+import { highlight, queryTerms, searchAll, slideText, snippet, toChatHits, toSlideHits } from './search'
+import { get } from './http'
+
+vi.mock('./http', () => ({ get: vi.fn() }))
+
+const terms = queryTerms('Budget  plan budget')
+
+describe('search', () => {
+  it('splits the query into lower-cased words, longest first', () => {
+    expect(terms).toEqual(['budget', 'plan'])
+  })
+
+  it('marks every term case-insensitively', () => {
+    expect(highlight('The Budget planning', terms)).toEqual([
+      { text: 'The ', hit: false },
+      { text: 'Budget', hit: true },
+      { text: ' ', hit: false },
+      { text: 'plan', hit: true },
+      { text: 'ning', hit: false },
+    ])
+    expect(highlight('a+b (c)', queryTerms('(c)'))).toEqual([{ text: 'a+b ', hit: false }, { text: '(c)', hit: true }])
+  })
+
+  it('cuts a snippet around the first match', () => {
+    const long = `${'lorem '.repeat(30)}the budget is tight ${'ipsum '.repeat(30)}`
+    const s = snippet(long, terms, 30)
+    expect(s).toMatch(/^….*budget is tight.*…$/)
+    expect(s.length).toBeLessThanOrEqual(62)
+    expect(snippet('short  text\nhere', terms)).toBe('short text here')
+  })
+
+  it('flattens a deck to text', () => {
+    expect(slideText({
+      title: 'Q3',
+      summary: '',
+      editorjs: { blocks: [
+        { type: 'header', data: { text: 'Goals' } },
+        { type: 'paragraph', data: { text: 'Cut <b>costs</b>&nbsp;now' } },
+        { type: 'list', data: { items: ['one', { content: 'two' }] } },
+      ] },
+    })).toBe('Q3 · Goals · Cut  costs  now · one · two')
+  })
+
+  it('points a chat hit at the side that matched', () => {
+    const hits = toChatHits({ results: [
+      { id: 7, thread_id: 't-1', query: 'what about the budget?', response: 'Let us look at it.', created_at: '2024-01-01' },
+      { id: 8, thread_id: 't-2', query: 'plan?', response: 'The plan is ready', created_at: '2024-01-02' },
+      { thread_id: 't-3', query: 'no id' },
+    ] }, terms)
+    expect(hits.map(h => [h.thread_id, h.row_id, h.side, h.text])).toEqual([
+      ['t-1', 7, 'query', 'what about the budget?'],
+      ['t-2', 8, 'response', 'The plan is ready'],
+    ])
+  })
+
+  it('keeps only the newest of identical slide versions', () => {
+    const deck = (version: number, text: string) => ({ thread_id: 't-1', version, title: 'Deck', editorjs: { blocks: [{ data: { text } }] } })
+    const hits = toSlideHits([deck(3, 'budget v2'), deck(2, 'budget v2'), deck(1, 'budget v1')], terms)
+    expect(hits.map(h => h.version)).toEqual([3, 1])
+  })
+
+  it('queries chats and slides for the bot and survives one of them failing', async () => {
+    vi.mocked(get).mockImplementation(async (path: string) => {
+      if (path.startsWith('/api/slides/')) throw new Error('500')
+      return { results: [{ id: 1, thread_id: 't-1', query: 'budget', response: '' }] }
+    })
+    const r = await searchAll(' budget ')
+    const u = new URL(vi.mocked(get).mock.calls[0][0], 'http://x')
+    expect(u.pathname).toBe('/api/chats/')
+    expect(u.searchParams.get('search')).toBe('budget')
+    expect(u.searchParams.has('bot_id')).toBe(true)
+    expect(r.chats).toHaveLength(1)
+    expect(r.slides).toEqual([])
+
+    vi.mocked(get).mockRejectedValue(new Error('offline'))
+    await expect(searchAll('budget')).rejects.toThrow('offline')
+  })
+})
@@ -0,0 +1,139 @@
+// lib/search.ts
+// Full-text search over the bot's history: chat turns (/api/chats/) and slide versions
+// (/api/slides/), across all threads, through the DRF `search` filter.
+// - A chat hit points at the side of the turn that matched (the coach's answer wins)
+// - Slide versions of one thread with the same matching text collapse into the newest one
+// - snippet() cuts the text around the first match; highlight() splits it for <mark>
+
+import { get } from './http'
+import { ENV } from './env'
+
+export type ChatHit = {
+  kind: 'chat'
+  thread_id: string
+  row_id: number | string
+  side: 'query' | 'response'
+  text: string
+  at: string
+}
+export type SlideHit = {
+  kind: 'slide'
+  thread_id: string
+  version: number
+  title: string
+  text: string
+  at: string
+}
+export type SearchHit = ChatHit | SlideHit
+export type SearchResults = { chats: ChatHit[]; slides: SlideHit[] }
+
+export const SEARCH_MIN_CHARS = 2
+const PAGE_SIZE = '20'
+
+/** Lower-cased words of the query, longest first (so "plan" doesn't split "planning" in highlight) */
+export function queryTerms(q: string): string[] {
+  const words = q.toLowerCase().split(/\s+/).filter(Boolean)
+  return [...new Set(words)].sort((a, b) => b.length - a.length)
+}
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+export function highlight(text: string, terms: string[]): Array<{ text: string; hit: boolean }> {
+  if (!terms.length || !text) return text ? [{ text, hit: false }] : []
+  const re = new RegExp(`(${terms.map(escapeRe).join('|')})`, 'gi')
+  return text.split(re).filter(Boolean).map(part => ({ text: part, hit: terms.includes(part.toLowerCase()) }))
+}
+
+/** ~2×radius characters around the first match, on word boundaries, with ellipses */
+export function snippet(text: string, terms: string[], radius = 60): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  if (flat.length <= radius * 2) return flat
+  const lower = flat.toLowerCase()
+  const hits = terms.map(t => lower.indexOf(t)).filter(i => i >= 0)
+  const at = hits.length ? Math.min(...hits) : 0
+  // full width even when the match sits near either end
+  let to = Math.min(flat.length, Math.max(0, at - radius) + radius * 2)
+  let from = Math.max(0, to - radius * 2)
+  if (from > 0) {
+    const sp = flat.indexOf(' ', from)
+    if (sp >= 0 && sp < at) from = sp + 1
+  }
+  if (to < flat.length) {
+    const sp = flat.lastIndexOf(' ', to)
+    if (sp > at) to = sp
+  }
+  return `${from > 0 ? '…' : ''}${flat.slice(from, to)}${to < flat.length ? '…' : ''}`
+}
+
+const stripTags = (s: unknown) => String(s ?? '').replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ')
+
+/** Plain text of a deck: title, summary and every EditorJS block */
+export function slideText(deck: { title?: unknown; summary?: unknown; editorjs?: unknown }): string {
+  const parts = [stripTags(deck.title), stripTags(deck.summary)]
+  const blocks = (deck.editorjs as { blocks?: unknown } | null)?.blocks
+  for (const b of Array.isArray(blocks) ? blocks : []) {
+    const d = (b as { data?: Record<string, unknown> })?.data ?? {}
+    if (Array.isArray(d.items)) {
+      for (const it of d.items) parts.push(stripTags(typeof it === 'object' && it ? (it as { content?: unknown }).content : it))
+    } else parts.push(stripTags(d.text))
+  }
+  return parts.filter(p => p.trim()).join(' · ')
+}
+
+const matches = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase()
+  return terms.some(t => lower.includes(t))
+}
+
+function rows(res: unknown): Array<Record<string, unknown>> {
+  const page = (res && typeof res === 'object' ? res : {}) as { results?: unknown }
+  const list = Array.isArray(page.results) ? page.results : Array.isArray(res) ? res : []
+  return list.filter(r => r && typeof r === 'object')
+}
+
+export function toChatHits(res: unknown, terms: string[]): ChatHit[] {
+  const out: ChatHit[] = []
+  for (const r of rows(res)) {
+    const thread_id = String(r.thread_id ?? '')
+    const row_id = r.id as number | string | undefined
+    if (!thread_id || row_id == null) continue
+    const response = String(r.response ?? '')
+    const query = String(r.query ?? '')
+    const side = matches(response, terms) || !matches(query, terms) ? 'response' : 'query'
+    const text = side === 'response' ? response : query
+    if (!text) continue
+    out.push({ kind: 'chat', thread_id, row_id, side, text: snippet(text, terms), at: String(r.created_at ?? '') })
+  }
+  return out
+}
+
+export function toSlideHits(res: unknown, terms: string[]): SlideHit[] {
+  const out: SlideHit[] = []
+  const seen = new Set<string>()
+  for (const r of rows(res)) {
+    const thread_id = String(r.thread_id ?? '')
+    const version = Number(r.version)
+    if (!thread_id || !Number.isFinite(version)) continue
+    const text = snippet(slideText(r), terms)
+    // rows arrive newest first: older versions with the same matching text add nothing
+    if (seen.has(`${thread_id}\n${text}`)) continue
+    seen.add(`${thread_id}\n${text}`)
+    out.push({ kind: 'slide', thread_id, version, title: String(r.title ?? ''), text, at: String(r.updated_at ?? '') })
+  }
+  return out
+}
+
+/** Both searches at once; one failing leaves the other's results, both failing throws */
+export async function searchAll(q: string): Promise<SearchResults> {
+  const terms = queryTerms(q)
+  const qs = (ordering: string) => new URLSearchParams({ search: q.trim(), bot_id: ENV.BOT_ID, ordering, page_size: PAGE_SIZE }).toString()
+  const [chats, slides] = await Promise.allSettled([
+    get(`/api/chats/?${qs('-created_at')}`),
+    get(`/api/slides/?${qs('-updated_at')}`),
+  ])
+  if (chats.status === 'rejected' && slides.status === 'rejected') throw chats.reason
+  return {
+    chats: chats.status === 'fulfilled' ? toChatHits(chats.value, terms) : [],
+    slides: slides.status === 'fulfilled' ? toSlideHits(slides.value, terms) : [],
+  }
+}
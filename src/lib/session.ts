@@ -1,5 +1,6 @@
-import { post } from './http'
+import { del, get, patch, post } from './http'
 import { ENV } from './env'
+import { nextPagePath } from './chatHistory'
 
 const LS_KEY = 'thread_id';
 
@@ -27,3 +28,69 @@ export async function rotateSession(): Promise<string> {
   localStorage.removeItem(LS_KEY);
   return ensureSession();
 }
+
+// ---- Thread manager (sidebar): this bot's past sessions, newest first ----
+
+export type ThreadSummary = {
+  thread_id: string;
+  title: string;
+  last_message: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const str = (v: unknown) => (typeof v === 'string' ? v : '');
+
+/** Lenient: DRF page or bare list; rows without a thread_id are dropped */
+export function normalizeThreads(res: unknown): ThreadSummary[] {
+  const page = (res && typeof res === 'object' ? res : {}) as { results?: unknown };
+  const rows: unknown[] = Array.isArray(page.results) ? page.results : Array.isArray(res) ? res : [];
+  const out: ThreadSummary[] = [];
+  for (const r of rows as Array<Record<string, unknown>>) {
+    const thread_id = str(r?.thread_id);
+    if (!thread_id) continue;
+    out.push({
+      thread_id,
+      title: str(r.title),
+      last_message: str(r.last_message),
+      created_at: str(r.created_at),
+      updated_at: str(r.updated_at) || str(r.created_at),
+    });
+  }
+  return out;
+}
+
+/** `next`: the request for the following (older) page, or null after the last one */
+export type ThreadPage = { threads: ThreadSummary[]; next: string | null };
+
+export function firstThreadsPath(): string {
+  const qs = new URLSearchParams({ bot_id: ENV.BOT_ID, ordering: '-updated_at', page_size: '100' }).toString();
+  return `/api/sessions/?${qs}`;
+}
+
+/** One page of the list; pagination links are followed the way chat history follows them */
+export async function listThreads(path = firstThreadsPath()): Promise<ThreadPage> {
+  const res = await get(path);
+  return { threads: normalizeThreads(res), next: nextPagePath(res, path) };
+}
+
+export async function renameThread(thread_id: string, title: string): Promise<void> {
+  await patch(`/api/sessions/${encodeURIComponent(thread_id)}/`, { title });
+}
+
+export async function deleteThread(thread_id: string): Promise<void> {
+  await del(`/api/sessions/${encodeURIComponent(thread_id)}/`);
+}
+
+/** Edit-and-resend: a new thread holding this one's turns before chat row `before_id` (server copies them) */
+export async function branchThread(thread_id: string, before_id: number | string): Promise<string> {
+  const resp = await post(`/api/sessions/${encodeURIComponent(thread_id)}/branch/`, { before_id });
+  const id = str(resp?.thread_id);
+  if (!id) throw new Error('Branch returned no thread_id');
+  return id;
+}
+
+/** What the sidebar shows for a thread without a title */
+export function threadLabel(t: ThreadSummary): string {
+  return t.title.trim() || t.last_message.trim() || 'New conversation';
+}
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createSessionPlayer, createSessionRecorder, parseSessionFile, sessionFileName } from './sessionLog'
+import type { SessionFile } from './sessionLog'
+
+const meta = { bot_id: 'bot-1', thread_id: 'thread-1', lang: 'en' }
+
+function session(events: SessionFile['events']): SessionFile {
+  return { format: 'ws-chat-session', version: 1, recorded_at: '2026-01-02T03:04:05.000Z', ...meta, duration_ms: 0, events }
+}
+
+describe('createSessionRecorder', () => {
+  it('stamps both directions relative to start and ignores traffic outside a recording', () => {
+    let now = 1000
+    const rec = createSessionRecorder(() => now)
+    rec.inbound({ type: 'pong' })
+    rec.start(meta)
+    now = 1040
+    rec.outbound({ type: 'text_query', text: 'hi' })
+    now = 1250.4
+    rec.inbound({ type: 'text_token', token: 'Hel' })
+    expect(rec.count()).toBe(2)
+    now = 1300
+    const file = rec.stop()!
+    expect(file).toMatchObject({ format: 'ws-chat-session', version: 1, ...meta, duration_ms: 300 })
+    expect(file.events).toEqual([
+      { t: 40, dir: 'out', msg: { type: 'text_query', text: 'hi' } },
+      { t: 250, dir: 'in', msg: { type: 'text_token', token: 'Hel' } },
+    ])
+    expect(rec.recording()).toBe(false)
+    expect(rec.stop()).toBeNull()
+  })
+
+  it('stores binary-frame audio as base64', () => {
+    const rec = createSessionRecorder(() => 0)
+    rec.start(meta)
+    const bytes = new TextEncoder().encode('abc').buffer as ArrayBuffer
+    rec.inbound({ type: 'audio_response', audio_bytes: bytes, viseme: [] })
+    rec.outbound({ type: 'audio_query', audio_bytes: bytes, format: 'webm' })
+    const [inbound, outbound] = rec.stop()!.events
+    expect(inbound.msg).toEqual({ type: 'audio_response', audio: btoa('abc'), viseme: [] })
+    expect(outbound.msg).toEqual({ type: 'audio_query', audio: btoa('abc'), format: 'webm' })
+  })
+
+  it('notifies subscribers on start, every event and stop', () => {
+    const rec = createSessionRecorder(() => 0)
+    const fn = vi.fn()
+    const off = rec.subscribe(fn)
+    rec.start(meta)
+    rec.inbound({ type: 'response_start' })
+    rec.stop()
+    expect(fn).toHaveBeenCalledTimes(3)
+    off()
+    rec.start(meta)
+    expect(fn).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe('parseSessionFile', () => {
+  it('round-trips a recording through JSON and sorts events by time', () => {
+    const file = session([
+      { t: 30, dir: 'in', msg: { type: 'response_done' } },
+      { t: 10, dir: 'in', msg: { type: 'emotion', emotion: { name: 'joy' } } },
+    ])
+    const parsed = parseSessionFile(JSON.stringify(file))
+    expect(parsed.events.map(e => e.t)).toEqual([10, 30])
+    expect(parsed.duration_ms).toBe(30)
+    expect(parsed.thread_id).toBe('thread-1')
+  })
+
+  it('rejects files that are not valid sessions with a readable reason', () => {
+    expect(() => parseSessionFile('{nope')).toThrow('Not a JSON file')
+    expect(() => parseSessionFile('{"format":"other"}')).toThrow('Not a session recording')
+    expect(() => parseSessionFile('{"format":"ws-chat-session","version":2,"events":[]}')).toThrow('version 2')
+    const bad = session([{ t: 5, dir: 'in', msg: { type: 'text_token' } as never }])
+    expect(() => parseSessionFile(JSON.stringify(bad))).toThrow(/^Event 0: /)
+    const noTime = { ...session([]), events: [{ dir: 'in', msg: { type: 'pong' } }] }
+    expect(() => parseSessionFile(JSON.stringify(noTime))).toThrow('Event 0: missing time')
+  })
+
+  it('names downloads after the thread and start time', () => {
+    expect(sessionFileName(session([]))).toBe('session-thread-1-2026-01-02T03-04-05-000Z.json')
+  })
+})
+
+describe('createSessionPlayer', () => {
+  beforeEach(() => { vi.useFakeTimers() })
+  afterEach(() => { vi.useRealTimers() })
+
+  const file = session([
+    { t: 0, dir: 'in', msg: { type: 'response_start' } },
+    { t: 50, dir: 'out', msg: { type: 'stop_audio' } },
+    { t: 100, dir: 'in', msg: { type: 'text_token', token: 'a' } },
+    { t: 300, dir: 'in', msg: { type: 'response_done' } },
+  ])
+
+  it('delivers the inbound events on the recorded timeline', () => {
+    const onMsg = vi.fn()
+    const onDone = vi.fn()
+    const p = createSessionPlayer(file, { onMsg, onDone })
+    expect(p.total).toBe(3)
+    p.play()
+    expect(onMsg).toHaveBeenCalledTimes(1)
+    vi.advanceTimersByTime(99)
+    expect(onMsg).toHaveBeenCalledTimes(1)
+    vi.advanceTimersByTime(1)
+    expect(onMsg).toHaveBeenLastCalledWith({ type: 'text_token', token: 'a' })
+    vi.advanceTimersByTime(200)
+    expect(onMsg).toHaveBeenCalledTimes(3)
+    expect(onDone).toHaveBeenCalledOnce()
+    expect(p.state()).toBe('done')
+  })
+
+  it('pauses, resumes where it left off and honours speed', () => {
+    const onMsg = vi.fn()
+    const onProgress = vi.fn()
+    const p = createSessionPlayer(file, { onMsg, onProgress, speed: 2 })
+    p.play()
+    vi.advanceTimersByTime(50)
+    expect(onProgress).toHaveBeenLastCalledWith(2, 3)
+    p.pause()
+    vi.advanceTimersByTime(1000)
+    expect(onMsg).toHaveBeenCalledTimes(2)
+    p.play()
+    vi.advanceTimersByTime(99)
+    expect(onMsg).toHaveBeenCalledTimes(2)
+    vi.advanceTimersByTime(1)
+    expect(onMsg).toHaveBeenCalledTimes(3)
+  })
+
+  it('stops delivering once stopped', () => {
+    const onMsg = vi.fn()
+    const p = createSessionPlayer(file, { onMsg })
+    p.play()
+    p.stop()
+    vi.advanceTimersByTime(1000)
+    expect(onMsg).toHaveBeenCalledTimes(1)
+    p.play()
+    expect(onMsg).toHaveBeenCalledTimes(1)
+  })
+})
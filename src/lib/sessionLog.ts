@@ -0,0 +1,205 @@
+// lib/sessionLog.ts
+// Record/replay of whole chat sessions, for debugging and demos without a backend.
+// - Recorder: every inbound message ChatPane receives (after seq dedupe) and every message it
+//   sends, stamped with ms since recording started
+// - File: plain JSON, downloaded from the browser; parsing re-validates each inbound message
+//   with the same decoders the socket uses, so a hand-edited file can't feed junk to onMsg
+// - Player: re-emits the inbound side on the recorded timeline (outbound is kept for reading)
+
+import { decodeServerFrame, validateClientMessage } from './protocol'
+import type { ClientMessage, ServerMessage } from './protocol'
+import { bytesToBase64 } from './bytes'
+
+export type SessionEvent =
+  | { t: number; dir: 'in'; msg: ServerMessage }
+  | { t: number; dir: 'out'; msg: ClientMessage }
+
+export type SessionFile = {
+  format: 'ws-chat-session'
+  version: 1
+  recorded_at: string         // ISO time recording started
+  bot_id: string
+  thread_id: string
+  lang: string
+  duration_ms: number
+  events: SessionEvent[]
+}
+
+export type SessionMeta = Pick<SessionFile, 'bot_id' | 'thread_id' | 'lang'>
+
+/** Audio from binary frames is kept as base64, so the file stays plain JSON */
+function storable<M extends ServerMessage | ClientMessage>(msg: M): M {
+  if (!('audio_bytes' in msg) || !msg.audio_bytes) return msg
+  const { audio_bytes, ...rest } = msg
+  return { ...rest, audio: bytesToBase64(audio_bytes) } as M
+}
+
+export function createSessionRecorder(now: () => number = () => performance.now()) {
+  let events: SessionEvent[] = []
+  let meta: SessionMeta | null = null
+  let startedAt = 0
+  let recordedAt = ''
+  const listeners = new Set<() => void>()
+  const changed = () => listeners.forEach(fn => fn())
+
+  const push = (e: SessionEvent) => {
+    if (!meta) return
+    events.push(e)
+    changed()
+  }
+
+  return {
+    start(m: SessionMeta) {
+      meta = { ...m }
+      events = []
+      startedAt = now()
+      recordedAt = new Date().toISOString()
+      changed()
+    },
+    /** Ends the recording and returns it (null if none was running) */
+    stop(): SessionFile | null {
+      if (!meta) return null
+      const file: SessionFile = {
+        format: 'ws-chat-session',
+        version: 1,
+        recorded_at: recordedAt,
+        ...meta,
+        duration_ms: Math.round(now() - startedAt),
+        events,
+      }
+      meta = null
+      events = []
+      changed()
+      return file
+    },
+    recording: () => meta != null,
+    count: () => events.length,
+    inbound(msg: ServerMessage) { if (meta) push({ t: Math.round(now() - startedAt), dir: 'in', msg: storable(msg) }) },
+    outbound(msg: ClientMessage) { if (meta) push({ t: Math.round(now() - startedAt), dir: 'out', msg: storable(msg) }) },
+    subscribe(fn: () => void) {
+      listeners.add(fn)
+      return () => { listeners.delete(fn) }
+    },
+  }
+}
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>
+
+/** Parses a downloaded session. Throws with a readable message if the file is not one. */
+export function parseSessionFile(text: string): SessionFile {
+  let raw: unknown
+  try { raw = JSON.parse(text) } catch { throw new Error('Not a JSON file') }
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  if (r.format !== 'ws-chat-session') throw new Error('Not a session recording')
+  if (r.version !== 1) throw new Error(`Unsupported session version ${String(r.version)}`)
+  if (!Array.isArray(r.events)) throw new Error('Session has no events')
+
+  const events: SessionEvent[] = []
+  r.events.forEach((e, i) => {
+    const ev = (e && typeof e === 'object' ? e : {}) as Record<string, unknown>
+    const t = typeof ev.t === 'number' && Number.isFinite(ev.t) ? Math.max(0, ev.t) : null
+    if (t == null) throw new Error(`Event ${i}: missing time`)
+    if (ev.dir === 'in') {
+      const res = decodeServerFrame(JSON.stringify(ev.msg))
+      if (!res.ok) throw new Error(`Event ${i}: ${res.error.message}`)
+      events.push({ t, dir: 'in', msg: res.msg })
+    } else if (ev.dir === 'out') {
+      const res = validateClientMessage(ev.msg)
+      if (!res.ok) throw new Error(`Event ${i}: ${res.error.message}`)
+      events.push({ t, dir: 'out', msg: res.msg })
+    } else {
+      throw new Error(`Event ${i}: unknown direction`)
+    }
+  })
+  events.sort((a, b) => a.t - b.t)
+
+  const str = (v: unknown) => typeof v === 'string' ? v : ''
+  const last = events.length ? events[events.length - 1].t : 0
+  return {
+    format: 'ws-chat-session',
+    version: 1,
+    recorded_at: str(r.recorded_at),
+    bot_id: str(r.bot_id),
+    thread_id: str(r.thread_id),
+    lang: str(r.lang),
+    duration_ms: typeof r.duration_ms === 'number' && r.duration_ms >= last ? r.duration_ms : last,
+    events,
+  }
+}
+
+export function sessionFileName(f: SessionFile): string {
+  const stamp = (f.recorded_at || new Date().toISOString()).replace(/[:.]/g, '-')
+  return `session-${f.thread_id || 'local'}-${stamp}.json`
+}
+
+export function downloadSession(f: SessionFile) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(f, null, 2)], { type: 'application/json' }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = sessionFileName(f)
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export type SessionPlayerOptions = {
+  onMsg: (msg: ServerMessage) => void
+  /** After every delivered message: how many inbound events have played, out of how many */
+  onProgress?: (done: number, total: number) => void
+  onDone?: () => void
+  speed?: number
+}
+
+/** Plays the inbound side of a session back on its recorded timeline */
+export function createSessionPlayer(file: SessionFile, opts: SessionPlayerOptions) {
+  const inbound = file.events.filter((e): e is Extract<SessionEvent, { dir: 'in' }> => e.dir === 'in')
+  const speed = opts.speed && opts.speed > 0 ? opts.speed : 1
+  let next = 0
+  let pos = 0               // session ms already played
+  let resumedAt = 0         // performance.now() when play() last started the clock
+  let timer: number | null = null
+  let state: 'idle' | 'playing' | 'paused' | 'done' = 'idle'
+
+  const clock = () => pos + (performance.now() - resumedAt) * speed
+
+  function schedule() {
+    timer = null
+    if (state !== 'playing') return
+    // One message per task, like the socket: ChatPane's handlers rely on React rendering
+    // between messages (e.g. response_done reads the buffer text_token filled)
+    if (next < inbound.length && inbound[next].t <= clock()) {
+      opts.onMsg(inbound[next].msg)
+      next++
+      opts.onProgress?.(next, inbound.length)
+      if (state !== 'playing') return
+    }
+    if (next >= inbound.length) {
+      state = 'done'
+      opts.onDone?.()
+      return
+    }
+    timer = window.setTimeout(schedule, Math.max(0, (inbound[next].t - clock()) / speed))
+  }
+
+  return {
+    total: inbound.length,
+    play() {
+      if (state === 'playing' || state === 'done') return
+      state = 'playing'
+      resumedAt = performance.now()
+      schedule()
+    },
+    pause() {
+      if (state !== 'playing') return
+      pos = clock()
+      state = 'paused'
+      if (timer != null) { clearTimeout(timer); timer = null }
+    },
+    stop() {
+      state = 'done'
+      if (timer != null) { clearTimeout(timer); timer = null }
+    },
+    state: () => state,
+  }
+}
+
+export type SessionPlayer = ReturnType<typeof createSessionPlayer>
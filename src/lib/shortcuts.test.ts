@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { isValidPttKey, keyLabel, matchShortcut } from './shortcuts'
+
+const key = (key: string, code: string, extra: Partial<KeyboardEvent> = {}, target: EventTarget | null = document.body) =>
+  ({ key, code, shiftKey: false, ctrlKey: false, metaKey: false, altKey: false, target, ...extra })
+
+describe('matchShortcut', () => {
+  it('maps the push-to-talk key by its physical code and the rest by character', () => {
+    expect(matchShortcut(key(' ', 'Space'), 'Space')).toBe('ptt')
+    expect(matchShortcut(key('t', 'KeyT'), 'KeyT')).toBe('ptt')
+    expect(matchShortcut(key(' ', 'Space'), 'KeyT')).toBeNull()
+    expect(matchShortcut(key('m', 'KeyM'), 'Space')).toBe('mute')
+    expect(matchShortcut(key('s', 'KeyS'), 'Space')).toBe('stopAudio')
+    expect(matchShortcut(key('R', 'KeyR', { shiftKey: true }), 'Space')).toBe('rotate')
+    expect(matchShortcut(key('r', 'KeyR'), 'Space')).toBeNull()
+    expect(matchShortcut(key('?', 'Slash', { shiftKey: true }), 'Space')).toBe('help')
+  })
+
+  it('stays out of the way while typing and of browser shortcuts', () => {
+    const input = document.createElement('input')
+    expect(matchShortcut(key(' ', 'Space', {}, input), 'Space')).toBeNull()
+    expect(matchShortcut(key('m', 'KeyM', {}, document.createElement('textarea')), 'Space')).toBeNull()
+    expect(matchShortcut(key('s', 'KeyS', { ctrlKey: true }), 'Space')).toBeNull()
+    expect(matchShortcut(key('Escape', 'Escape', {}, input), 'Space')).toBe('cancel')
+  })
+})
+
+describe('push-to-talk key', () => {
+  it('labels codes the way keyboards do and refuses keys with a job', () => {
+    expect(keyLabel('KeyT')).toBe('T')
+    expect(keyLabel('Digit5')).toBe('5')
+    expect(keyLabel('ControlRight')).toBe('Right Ctrl')
+    expect(keyLabel('Space')).toBe('Space')
+    expect(isValidPttKey('Escape')).toBe(false)
+    expect(isValidPttKey('Tab')).toBe(false)
+    expect(isValidPttKey('Backquote')).toBe(true)
+  })
+})
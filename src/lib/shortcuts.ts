@@ -0,0 +1,76 @@
+// lib/shortcuts.ts
+// Keyboard shortcuts for the chat (cheat-sheet: src/ui/ShortcutsHelp.tsx, `?`).
+// - Push-to-talk is held on a key of the user's choice, matched on KeyboardEvent.code (the
+//   physical key) and stored; the other shortcuts are fixed and matched on the character
+// - Nothing but Esc fires while typing in a field, and nothing fires with Ctrl/Cmd/Alt held,
+//   so browser shortcuts keep working
+
+export type ShortcutAction = 'ptt' | 'cancel' | 'mute' | 'stopAudio' | 'rotate' | 'help'
+
+export const DEFAULT_PTT_KEY = 'Space'
+const LS_PTT_KEY = 'ptt_key'
+/** Keys that can't hold push-to-talk: they already mean something everywhere */
+const RESERVED_CODES = new Set(['Escape', 'Tab', 'Enter', 'NumpadEnter', 'Backspace'])
+
+/** Inputs, textareas and contenteditable: single-key shortcuts would eat the user's typing */
+export function isTextEditingTarget(t: EventTarget | null) {
+  const el = t as HTMLElement | null
+  if (!el) return false
+  const tag = el.tagName?.toLowerCase()
+  const editable = !!el.isContentEditable
+  return tag === 'input' || tag === 'textarea' || editable
+}
+
+type FixedShortcut = {
+  action: Exclude<ShortcutAction, 'ptt' | 'cancel'>
+  key: string            // KeyboardEvent.key, lower case
+  shift?: boolean        // undefined: either
+  keys: string           // as shown in the cheat-sheet
+  label: string
+}
+
+export const SHORTCUTS: FixedShortcut[] = [
+  { action: 'mute', key: 'm', shift: false, keys: 'M', label: 'Mute / unmute the avatar' },
+  { action: 'stopAudio', key: 's', shift: false, keys: 'S', label: 'Stop audio' },
+  { action: 'rotate', key: 'r', shift: true, keys: 'Shift + R', label: 'Rotate session (starts a new thread)' },
+  { action: 'help', key: '?', keys: '?', label: 'Show / hide this cheat-sheet' },
+]
+
+/** Handled elsewhere (App); listed in the cheat-sheet only */
+export const OTHER_SHORTCUTS = [
+  { keys: 'Ctrl/⌘ + Shift + A', label: 'Customize avatar' },
+  { keys: 'Ctrl/⌘ + K', label: 'Search conversations and slides' },
+]
+
+export function loadPttKey(): string {
+  const v = localStorage.getItem(LS_PTT_KEY)
+  return v && isValidPttKey(v) ? v : DEFAULT_PTT_KEY
+}
+
+export function savePttKey(code: string) {
+  localStorage.setItem(LS_PTT_KEY, code)
+}
+
+export function isValidPttKey(code: string) {
+  return !!code && code !== 'Unidentified' && !RESERVED_CODES.has(code)
+}
+
+/** "KeyT" → "T", "Digit1" → "1", "ShiftRight" → "Right Shift" */
+export function keyLabel(code: string): string {
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3)
+  if (/^Digit\d$/.test(code)) return code.slice(5)
+  const side = code.match(/^(Shift|Control|Alt|Meta)(Left|Right)$/)
+  if (side) return `${side[2]} ${side[1] === 'Control' ? 'Ctrl' : side[1]}`
+  return code
+}
+
+type KeyEventLike = Pick<KeyboardEvent, 'key' | 'code' | 'shiftKey' | 'ctrlKey' | 'metaKey' | 'altKey' | 'target'>
+
+export function matchShortcut(e: KeyEventLike, pttKey: string): ShortcutAction | null {
+  if (e.key === 'Escape') return 'cancel'
+  if (e.ctrlKey || e.metaKey || e.altKey || isTextEditingTarget(e.target)) return null
+  if (e.code === pttKey) return 'ptt'
+  const key = e.key?.toLowerCase()
+  const hit = SHORTCUTS.find(s => s.key === key && (s.shift === undefined || s.shift === e.shiftKey))
+  return hit?.action ?? null
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { blocksToMarkdown, emotionBadge, inlineToMarkdown, toJson, toMarkdown, transcriptFileName } from './transcript'
+import type { Transcript } from './transcript'
+
+const deck = {
+  title: 'Q3 plan',
+  summary: 'Where the money goes',
+  version: 4,
+  editorjs: { blocks: [
+    { type: 'header', data: { text: 'Goals', level: 2 } },
+    { type: 'paragraph', data: { text: 'Cut <b>costs</b> by 10%&nbsp;— see <a href="https://x.test">the sheet</a>' } },
+    { type: 'list', data: { style: 'ordered', items: [{ content: 'Audit', items: [{ content: 'vendors', items: [] }] }, { content: 'Renegotiate', items: [] }] } },
+    { type: 'list', data: { style: 'unordered', items: ['plain', 'strings'] } },
+  ] },
+}
+
+const transcript: Transcript = {
+  thread_id: 't-1',
+  bot_id: 'coach',
+  exported_at: '2024-01-02T10:00:00.000Z',
+  messages: [
+    { role: 'user', text: 'How do I cut costs?', ts: '2024-01-02T09:00:00Z' },
+    { role: 'assistant', text: 'Start with **vendors**.', ts: '2024-01-02T09:00:05Z', emotion: { name: 'joy', intensity: 2.4 } },
+  ],
+  slides: deck,
+}
+
+describe('transcript export', () => {
+  it('formats the emotion badge like the chat bubble', () => {
+    expect(emotionBadge({ name: 'joy', intensity: 2.4 })).toBe('😊 joy ×2')
+    expect(emotionBadge({ name: 'calm', intensity: 0 })).toBe('🙂 calm')
+    expect(emotionBadge(undefined)).toBe('')
+  })
+
+  it('turns EditorJS inline HTML and blocks into Markdown', () => {
+    expect(inlineToMarkdown('a<br>b <i>c</i> <code>d</code> &lt;e&gt;')).toBe('a\nb *c* `d` <e>')
+    expect(blocksToMarkdown(deck.editorjs)).toBe([
+      '## Goals',
+      'Cut **costs** by 10% — see [the sheet](https://x.test)',
+      '1. Audit\n  1. vendors\n2. Renegotiate',
+      '- plain\n- strings',
+    ].join('\n\n'))
+    expect(blocksToMarkdown(null)).toBe('')
+  })
+
+  it('writes messages in order with speaker, time and badge, then the slides appendix', () => {
+    const md = toMarkdown(transcript)
+    expect(md).toMatch(/^# Conversation transcript\n/)
+    const you = md.indexOf('### You — ')
+    const coach = md.indexOf('### Coach — ')
+    expect(you).toBeGreaterThan(0)
+    expect(coach).toBeGreaterThan(you)
+    expect(md).toContain('· 😊 joy ×2\n\nStart with **vendors**.')
+    expect(md).toContain('## Appendix: slides (v4)\n\n**Q3 plan**\n\n_Where the money goes_\n\n## Goals')
+    expect(toMarkdown({ ...transcript, messages: [], slides: undefined })).toContain('_No messages._')
+  })
+
+  it('writes a versioned JSON transcript', () => {
+    const json = JSON.parse(toJson(transcript))
+    expect(json).toMatchObject({ format: 'transcript', version: 1, thread_id: 't-1', bot_id: 'coach' })
+    expect(json.messages[1]).toEqual(transcript.messages[1])
+    expect(json.slides.markdown).toContain('## Goals')
+    expect(JSON.parse(toJson({ ...transcript, slides: undefined })).slides).toBeUndefined()
+    expect(transcriptFileName(transcript, 'md')).toBe('transcript-t-1-2024-01-02T10-00-00-000Z.md')
+  })
+})
@@ -0,0 +1,150 @@
+// lib/transcript.ts
+// Conversation export: the thread's messages (with time and emotion badge), optionally the
+// slide deck as an appendix, as Markdown or a JSON transcript. The PDF is the browser's print
+// of components/TranscriptPrint.tsx, which reads the same Transcript.
+// - Message text is Markdown already and is passed through as is
+// - The deck's EditorJS blocks become Markdown (headers, paragraphs, lists, quotes, code)
+
+export type TranscriptMsg = {
+  role: 'user' | 'assistant'
+  text: string
+  ts?: string
+  emotion?: { name: string; intensity: number }
+}
+export type SlidesDeck = { title: string; summary: string; version: number; editorjs: unknown }
+export type Transcript = {
+  thread_id: string
+  bot_id: string
+  exported_at: string
+  messages: TranscriptMsg[]
+  slides?: SlidesDeck
+}
+export type ExportFormat = 'md' | 'pdf' | 'json'
+
+export const TRANSCRIPT_VERSION = 1
+
+const EMOTION_EMOJI: Record<string, string> = { joy: '😊', anger: '😡', sadness: '😢', surprise: '😮' }
+
+/** Same badge as the chat bubble: "😊 joy ×2" */
+export function emotionBadge(e?: TranscriptMsg['emotion']): string {
+  if (!e?.name) return ''
+  const inten = e.intensity ? ` ×${Math.max(1, Math.min(3, Math.round(e.intensity)))}` : ''
+  return `${EMOTION_EMOJI[e.name] ?? '🙂'} ${e.name}${inten}`
+}
+
+export const speaker = (m: TranscriptMsg) => m.role === 'user' ? 'You' : 'Coach'
+
+export function formatTs(ts?: string): string {
+  if (!ts) return ''
+  const d = new Date(ts)
+  return Number.isNaN(d.getTime()) ? '' : d.toLocaleString()
+}
+
+/* ---------------- EditorJS → Markdown ---------------- */
+
+const ENTITIES: Record<string, string> = { '&nbsp;': ' ', '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" }
+
+/** EditorJS inline HTML (b/i/a/code/br) → Markdown; any other tag is dropped */
+export function inlineToMarkdown(html: unknown): string {
+  return String(html ?? '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<(b|strong)>(.*?)<\/\1>/gi, '**$2**')
+    .replace(/<(i|em)>(.*?)<\/\1>/gi, '*$2*')
+    .replace(/<code[^>]*>(.*?)<\/code>/gi, '`$1`')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, '[$2]($1)')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, m => ENTITIES[m])
+    .trim()
+}
+
+type ListItem = string | { content?: unknown; items?: unknown; meta?: { checked?: boolean } }
+
+function listToMarkdown(items: unknown, style: unknown, depth = 0): string[] {
+  const out: string[] = []
+  const list = Array.isArray(items) ? (items as ListItem[]) : []
+  list.forEach((it, i) => {
+    const obj = typeof it === 'object' && it ? it : null
+    const text = inlineToMarkdown(obj ? obj.content : it)
+    const marker =
+      style === 'ordered' ? `${i + 1}.` :
+      style === 'checklist' ? `- [${obj?.meta?.checked ? 'x' : ' '}]` : '-'
+    out.push(`${'  '.repeat(depth)}${marker} ${text}`)
+    if (obj?.items) out.push(...listToMarkdown(obj.items, style, depth + 1))
+  })
+  return out
+}
+
+export function blocksToMarkdown(editorjs: unknown): string {
+  const blocks = (editorjs as { blocks?: unknown } | null)?.blocks
+  const out: string[] = []
+  for (const b of Array.isArray(blocks) ? blocks : []) {
+    const type = String((b as { type?: unknown })?.type ?? '').toLowerCase()
+    const d = ((b as { data?: unknown })?.data ?? {}) as Record<string, unknown>
+    if (type === 'header') {
+      const level = Math.max(1, Math.min(6, Number(d.level) || 2))
+      out.push(`${'#'.repeat(level)} ${inlineToMarkdown(d.text)}`)
+    } else if (type === 'list' || type === 'checklist') {
+      out.push(listToMarkdown(d.items, type === 'checklist' ? 'checklist' : d.style).join('\n'))
+    } else if (type === 'quote') {
+      out.push(inlineToMarkdown(d.text).split('\n').map(l => `> ${l}`).join('\n') + (d.caption ? `\n>\n> — ${inlineToMarkdown(d.caption)}` : ''))
+    } else if (type === 'code') {
+      out.push('```\n' + String(d.code ?? '') + '\n```')
+    } else if (type === 'delimiter') {
+      out.push('***')
+    } else if (d.text != null) {
+      out.push(inlineToMarkdown(d.text))
+    }
+  }
+  return out.filter(Boolean).join('\n\n')
+}
+
+/* ---------------- formats ---------------- */
+
+export function toMarkdown(t: Transcript): string {
+  const head = [
+    '# Conversation transcript',
+    '',
+    `Thread \`${t.thread_id || '—'}\` · bot \`${t.bot_id || '—'}\` · exported ${formatTs(t.exported_at)}`,
+  ]
+  const body = t.messages.map(m => {
+    const meta = [formatTs(m.ts), m.role === 'assistant' ? emotionBadge(m.emotion) : ''].filter(Boolean).join(' · ')
+    return `### ${speaker(m)}${meta ? ` — ${meta}` : ''}\n\n${m.text.trim()}`
+  })
+  const parts = [head.join('\n'), ...(body.length ? body : ['_No messages._'])]
+  if (t.slides) {
+    const s = t.slides
+    parts.push([
+      `## Appendix: slides (v${s.version})`,
+      `**${s.title || 'Untitled Deck'}**`,
+      s.summary ? `_${s.summary.trim()}_` : '',
+      blocksToMarkdown(s.editorjs),
+    ].filter(Boolean).join('\n\n'))
+  }
+  return parts.join('\n\n---\n\n') + '\n'
+}
+
+export function toJson(t: Transcript): string {
+  const out = {
+    format: 'transcript',
+    version: TRANSCRIPT_VERSION,
+    ...t,
+    ...(t.slides ? { slides: { ...t.slides, markdown: blocksToMarkdown(t.slides.editorjs) } } : {}),
+  }
+  return JSON.stringify(out, null, 2)
+}
+
+export function transcriptFileName(t: Transcript, ext: 'md' | 'json'): string {
+  const stamp = (t.exported_at || new Date().toISOString()).replace(/[:.]/g, '-')
+  return `transcript-${t.thread_id || 'local'}-${stamp}.${ext}`
+}
+
+export function downloadTranscript(t: Transcript, format: 'md' | 'json') {
+  const text = format === 'md' ? toMarkdown(t) : toJson(t)
+  const type = format === 'md' ? 'text/markdown' : 'application/json'
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = transcriptFileName(t, format)
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
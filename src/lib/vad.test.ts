@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_VAD, VAD_RANGES, createVadDetector, normalizeVad, vadMarginDb } from './vad'
+import type { VadEvent, VadSettings } from './vad'
+
+/** Feeds `ms` of a constant level in 20 ms frames; returns the events it produced */
+function feed(d: ReturnType<typeof createVadDetector>, db: number, ms: number, strict = false) {
+  const out: VadEvent[] = []
+  for (let t = 0; t < ms; t += 20) {
+    const ev = d.push(db, 20, strict)
+    if (ev) out.push(ev)
+  }
+  return out
+}
+
+describe('normalizeVad', () => {
+  it('falls back to defaults and clamps to the slider ranges', () => {
+    expect(normalizeVad('{broken')).toEqual(DEFAULT_VAD)
+    const s = normalizeVad(JSON.stringify({ sensitivity: 3, minSilenceMs: 1200, bargeIn: false, minSpeechMs: 'x' }))
+    expect(s.sensitivity).toBe(VAD_RANGES.sensitivity.max)
+    expect(s.minSilenceMs).toBe(1200)
+    expect(s.bargeIn).toBe(false)
+    expect(s.minSpeechMs).toBe(DEFAULT_VAD.minSpeechMs)
+  })
+
+  it('maps sensitivity to a smaller margin over the noise floor', () => {
+    expect(vadMarginDb(0)).toBe(24)
+    expect(vadMarginDb(1)).toBe(6)
+  })
+})
+
+describe('createVadDetector', () => {
+  const settings: VadSettings = { ...DEFAULT_VAD, sensitivity: 0.5, minSpeechMs: 100, minSilenceMs: 400 }
+
+  it('opens after min speech and closes after min silence', () => {
+    const d = createVadDetector(() => settings)
+    expect(feed(d, -60, 1000)).toEqual([])
+    expect(feed(d, -25, 80)).toEqual(['speech_onset'])
+    expect(feed(d, -25, 40)).toEqual(['speech_start'])
+    expect(d.speaking()).toBe(true)
+    // pauses shorter than min silence keep the utterance open
+    expect(feed(d, -60, 300)).toEqual([])
+    expect(feed(d, -25, 200)).toEqual([])
+    expect(feed(d, -60, 400)).toEqual(['speech_end'])
+  })
+
+  it('ignores clicks shorter than min speech', () => {
+    const d = createVadDetector(() => settings)
+    feed(d, -60, 500)
+    expect(feed(d, -20, 60)).toEqual(['speech_onset'])
+    expect(feed(d, -60, 100)).toEqual([])
+    expect(d.speaking()).toBe(false)
+    // the take the onset started is given up once it's quiet again
+    expect(feed(d, -60, 300)).toEqual(['speech_abort'])
+  })
+
+  it('signals the onset a little under the threshold, before speech opens', () => {
+    const d = createVadDetector(() => settings)
+    feed(d, -60, 1000)
+    // threshold is -45 dB (15 dB margin); the onset counts from 6 dB under it
+    expect(feed(d, -49, 200)).toEqual(['speech_onset'])
+    expect(feed(d, -40, 100)).toEqual(['speech_start'])
+    expect(feed(d, -60, 400)).toEqual(['speech_end'])
+    // a level that hovers there without becoming speech is dropped after a while
+    expect(feed(d, -49, 2000)).toEqual(['speech_onset', 'speech_abort'])
+  })
+
+  it('adapts to a louder room instead of treating it as speech', () => {
+    const d = createVadDetector(() => settings)
+    feed(d, -70, 500)
+    // hum just under the threshold pulls the floor up; the same level no longer counts after that
+    feed(d, -56, 6000)
+    expect(d.floorDb()).toBeGreaterThan(-60)
+    expect(feed(d, -50, 500)).toEqual([])
+  })
+
+  it('needs louder speech while the avatar talks', () => {
+    const d = createVadDetector(() => ({ ...settings, bargeInSensitivity: 0 }))
+    feed(d, -60, 1000)
+    expect(feed(d, -45, 300, true)).toEqual([])
+    expect(feed(d, -30, 200, true)).toEqual(['speech_onset', 'speech_start'])
+  })
+})
@@ -0,0 +1,186 @@
+// lib/vad.ts
+// Voice activity detection for hands-free mode.
+// - Level: RMS of the mic in dBFS, compared to a noise floor that follows the room while nobody speaks
+// - Speech opens after `minSpeechMs` above the threshold and closes after `minSilenceMs` below it
+// - `speech_onset` fires earlier, on the first frame a little under the threshold, so the recorder
+//   starts before the first syllable; `speech_abort` takes it back if speech never opens
+// - While the avatar talks a stricter threshold applies (`bargeInSensitivity`), since its voice leaks
+//   back into the mic even with echo cancellation
+// The detector is pure; only createVAD touches WebAudio.
+
+import { rms } from './prosody'
+
+export type VadSettings = {
+  sensitivity: number          // 0..1, higher opens on quieter speech
+  minSpeechMs: number          // speech needed to open an utterance (ignores clicks and bumps)
+  minSilenceMs: number         // silence that closes it
+  bargeIn: boolean             // talking over the avatar stops it and starts a new utterance
+  bargeInSensitivity: number   // 0..1, used instead of `sensitivity` while the avatar talks
+}
+export type VadScalar = Exclude<keyof VadSettings, 'bargeIn'>
+
+export const DEFAULT_VAD: VadSettings = {
+  sensitivity: 0.6,
+  minSpeechMs: 150,
+  minSilenceMs: 800,
+  bargeIn: true,
+  bargeInSensitivity: 0.35,
+}
+
+/** Slider ranges; stored values are clamped to them */
+export const VAD_RANGES: Record<VadScalar, { min: number; max: number; step: number; label: string }> = {
+  sensitivity: { min: 0, max: 1, step: 0.05, label: 'Sensitivity' },
+  minSpeechMs: { min: 50, max: 600, step: 10, label: 'Min speech (ms)' },
+  minSilenceMs: { min: 200, max: 3000, step: 50, label: 'Min silence (ms)' },
+  bargeInSensitivity: { min: 0, max: 1, step: 0.05, label: 'Barge-in sensitivity' },
+}
+
+const clamp = (x: number, lo: number, hi: number) => x < lo ? lo : (x > hi ? hi : x)
+const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+
+/** Lenient reader for stored JSON: missing/bad fields fall back to defaults, values clamped to range */
+export function normalizeVad(raw: unknown): VadSettings {
+  if (typeof raw === 'string') {
+    try { raw = JSON.parse(raw) } catch { raw = null }
+  }
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const out: VadSettings = { ...DEFAULT_VAD }
+  for (const k of Object.keys(VAD_RANGES) as VadScalar[]) {
+    const { min, max } = VAD_RANGES[k]
+    if (finite(r[k])) out[k] = clamp(r[k], min, max)
+  }
+  if (typeof r.bargeIn === 'boolean') out.bargeIn = r.bargeIn
+  return out
+}
+
+/** dB above the noise floor that counts as speech: sensitivity 0 → 24 dB, 1 → 6 dB */
+export function vadMarginDb(sensitivity: number): number {
+  return 24 - 18 * clamp(sensitivity, 0, 1)
+}
+
+export const toDb = (level: number) => 20 * Math.log10(Math.max(level, 1e-5))
+
+const FLOOR_MIN_DB = -80
+const FLOOR_MAX_DB = -35     // a floor above this is someone talking, not the room
+const FLOOR_RISE_MS = 2000   // the floor creeps up slowly, and drops at once
+
+const ONSET_BELOW_DB = 6      // an onset counts this far under the speech threshold (at most half the margin)
+const ONSET_GIVEUP_MS = 400  // quiet this long after an onset without speech: it was a noise
+const ONSET_MAX_MS = 2000    // an onset that never turns into speech is dropped after this long
+
+export type VadEvent = 'speech_onset' | 'speech_abort' | 'speech_start' | 'speech_end'
+
+export function createVadDetector(getSettings: () => VadSettings) {
+  let floorDb = -60
+  let speaking = false
+  let aboveMs = 0
+  let belowMs = 0
+  let onset = false
+  let onsetMs = 0
+  let quietMs = 0
+
+  return {
+    /**
+     * One analysis frame. `strict` while the avatar is talking (barge-in threshold).
+     * Returns an event when the state flips. `speech_start` may come without an onset first.
+     */
+    push(levelDb: number, dtMs: number, strict = false): VadEvent | null {
+      const s = getSettings()
+      const margin = vadMarginDb(strict ? s.bargeInSensitivity : s.sensitivity)
+      const threshold = floorDb + margin
+      const loud = levelDb > threshold
+      const stirring = levelDb > threshold - Math.min(ONSET_BELOW_DB, margin / 2)
+
+      if (!speaking && !loud) {
+        floorDb = levelDb < floorDb ? levelDb : floorDb + (levelDb - floorDb) * Math.min(1, dtMs / FLOOR_RISE_MS)
+        floorDb = clamp(floorDb, FLOOR_MIN_DB, FLOOR_MAX_DB)
+      }
+
+      if (loud) { aboveMs += dtMs; belowMs = 0 } else { belowMs += dtMs; aboveMs = 0 }
+      if (!speaking && aboveMs >= s.minSpeechMs) {
+        speaking = true
+        onset = false
+        return 'speech_start'
+      }
+      if (!speaking && !onset && stirring) {
+        onset = true
+        onsetMs = quietMs = 0
+        return 'speech_onset'
+      }
+      if (!speaking && onset) {
+        onsetMs += dtMs
+        quietMs = stirring ? 0 : quietMs + dtMs
+        if (quietMs >= ONSET_GIVEUP_MS || onsetMs >= ONSET_MAX_MS) {
+          onset = false
+          return 'speech_abort'
+        }
+      }
+      if (speaking && belowMs >= s.minSilenceMs) {
+        speaking = false
+        return 'speech_end'
+      }
+      return null
+    },
+    speaking: () => speaking,
+    floorDb: () => floorDb,
+    reset() {
+      speaking = false
+      onset = false
+      aboveMs = 0
+      belowMs = 0
+    },
+  }
+}
+
+export type VadDetector = ReturnType<typeof createVadDetector>
+
+export type VADOptions = {
+  settings: () => VadSettings
+  /** True while the avatar is talking: the barge-in threshold applies */
+  strict?: () => boolean
+  onEvent: (e: VadEvent) => void
+  /** Every frame, in dBFS (for a level meter) */
+  onLevel?: (db: number) => void
+  frameMs?: number
+}
+
+/** Runs the detector on a live mic stream. Null when the browser has no WebAudio. */
+export function createVAD(stream: MediaStream, opts: VADOptions) {
+  const Ctx = typeof window === 'undefined' ? undefined
+    : window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+  if (!Ctx) return null
+
+  const ctx = new Ctx()
+  const analyser = ctx.createAnalyser()
+  analyser.fftSize = 1024
+  // Not connected to the destination: we only listen
+  const source = ctx.createMediaStreamSource(stream)
+  source.connect(analyser)
+  const buf = new Float32Array(analyser.fftSize)
+  const detector = createVadDetector(opts.settings)
+  const frameMs = opts.frameMs ?? 20
+  let last = performance.now()
+
+  const timer = window.setInterval(() => {
+    if (ctx.state !== 'running') { void ctx.resume().catch(() => {}); return }
+    const now = performance.now()
+    const dt = Math.min(100, now - last)
+    last = now
+    analyser.getFloatTimeDomainData(buf)
+    const db = toDb(rms(buf))
+    opts.onLevel?.(db)
+    const ev = detector.push(db, dt, opts.strict?.() ?? false)
+    if (ev) opts.onEvent(ev)
+  }, frameMs)
+
+  return {
+    speaking: detector.speaking,
+    stop() {
+      clearInterval(timer)
+      try { source.disconnect() } catch { /* already disconnected */ }
+      void ctx.close().catch(() => {})
+    },
+  }
+}
+
+export type VAD = NonNullable<ReturnType<typeof createVAD>>
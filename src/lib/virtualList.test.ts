@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { rowOffsets, visibleRange } from './virtualList'
+
+const ids = Array.from({ length: 100 }, (_, i) => `m${i}`)
+
+describe('rowOffsets', () => {
+  it('uses measured heights and the estimate for the rest', () => {
+    const offsets = rowOffsets(['a', 'b', 'c'], new Map([['b', 40]]), 100)
+    expect(Array.from(offsets)).toEqual([0, 100, 140, 240])
+  })
+})
+
+describe('visibleRange', () => {
+  const offsets = rowOffsets(ids, new Map(), 50)   // 5000 px in all
+
+  it('renders the rows around the viewport with padding for the rest', () => {
+    const r = visibleRange(offsets, 1000, 300, 100)
+    // 900..1400 → rows 18..27
+    expect(r).toEqual({ start: 18, end: 28, padTop: 900, padBottom: 5000 - 1400, total: 5000 })
+  })
+
+  it('clamps at both ends', () => {
+    expect(visibleRange(offsets, 0, 200, 100)).toMatchObject({ start: 0, end: 6, padTop: 0 })
+    expect(visibleRange(offsets, 4800, 200, 100)).toMatchObject({ start: 94, end: 100, padBottom: 0 })
+  })
+
+  it('renders everything before there is a viewport, and nothing breaks on an empty list', () => {
+    expect(visibleRange(offsets, 0, 0, 100)).toMatchObject({ start: 0, end: 100, padTop: 0, padBottom: 0 })
+    expect(visibleRange(rowOffsets([], new Map(), 50), 0, 300, 100)).toEqual({ start: 0, end: 0, padTop: 0, padBottom: 0, total: 0 })
+  })
+})
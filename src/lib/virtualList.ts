@@ -0,0 +1,43 @@
+// lib/virtualList.ts
+// Windowing for long lists of variable-height rows (the chat history).
+// - Rows are measured once they have rendered; rows never rendered count at an estimate
+// - Only rows within `overscan` px of the viewport are rendered; padding stands in for the rest
+// Pure; hooks/useVirtualList.ts does the DOM side (scroll position, measuring, anchoring).
+
+export type VirtualRange = {
+  start: number        // first rendered row
+  end: number          // one past the last rendered row
+  padTop: number       // height of the rows above `start`
+  padBottom: number    // height of the rows from `end` on
+  total: number
+}
+
+/** Top offset of every row, plus the total height at [ids.length] */
+export function rowOffsets(ids: readonly string[], heights: ReadonlyMap<string, number>, estimate: number): Float64Array {
+  const out = new Float64Array(ids.length + 1)
+  for (let i = 0; i < ids.length; i++) out[i + 1] = out[i] + (heights.get(ids[i]) ?? estimate)
+  return out
+}
+
+/** First index in [lo, hi) whose value passes `ok` (values ascending, `ok` monotonic) */
+function search(offsets: Float64Array, lo: number, hi: number, ok: (v: number) => boolean) {
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (ok(offsets[mid])) hi = mid
+    else lo = mid + 1
+  }
+  return lo
+}
+
+/** Rows that intersect the viewport widened by `overscan`; all of them while nothing is laid out */
+export function visibleRange(offsets: Float64Array, top: number, height: number, overscan: number): VirtualRange {
+  const n = offsets.length - 1
+  const total = offsets[n]
+  if (height <= 0) return { start: 0, end: n, padTop: 0, padBottom: 0, total }
+  const lo = Math.max(0, top - overscan)
+  const hi = top + height + overscan
+  // a row is in if it ends below `lo` and starts above `hi`
+  const start = Math.max(0, search(offsets, 1, n + 1, v => v > lo) - 1)
+  const end = Math.max(start, search(offsets, start, n, v => v >= hi))
+  return { start, end, padTop: offsets[start], padBottom: total - offsets[end], total }
+}
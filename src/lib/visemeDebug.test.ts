@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createVisemeScheduler } from './visemeScheduler'
+import { createVisemeRecorder, frameAt, sampleAt, targetAt, waveformPeaks } from './visemeDebug'
+import type { RecordedChunk } from './visemeDebug'
+import { FakeAudio, installFakeAudio } from '../test/fakes'
+
+const JAW = 0
+const ramp = (vals: number[]) => vals.map(v => { const r = new Array(15).fill(0); r[JAW] = v; return r })
+
+function chunk(over: Partial<RecordedChunk> = {}): RecordedChunk {
+  return {
+    id: 1, label: 'chunk 0', at: 0, source: 'server', audioFormat: 'mp3',
+    frames: ramp([0, 1, 1, 0]), timesRaw: [0, 0.25, 0.5, 0.75], times: [0, 0.5, 1, 1.5], duration: 1.5,
+    samples: [], ...over,
+  }
+}
+
+describe('createVisemeRecorder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance', 'Date'] })
+    installFakeAudio()
+  })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('records each chunk with raw and scaled timelines, then its ticks', () => {
+    const rec = createVisemeRecorder()
+    const onChange = vi.fn()
+    rec.subscribe(onChange)
+    const sched = createVisemeScheduler()
+    sched.setTap(rec.tap)
+    sched.pushChunk({ audio: 'AAAA', viseme: ramp([0, 1]), viseme_times: [0, 1], chunk_index: 4 })
+    expect(rec.chunks()).toHaveLength(0) // nothing until playback starts
+    FakeAudio.instances[0].loadMetadata(2)
+    expect(onChange).toHaveBeenCalledOnce()
+    const [c] = rec.chunks()
+    expect(c).toMatchObject({ label: 'chunk 4', source: 'server', audio: 'AAAA', timesRaw: [0, 1], times: [0, 2], duration: 2 })
+
+    FakeAudio.instances[0].seek(1)
+    for (let i = 0; i < 5; i++) { vi.advanceTimersByTime(16); sched.getFrame() }
+    expect(c.samples).toHaveLength(5)
+    expect(c.samples[4].t).toBe(1)
+    expect(c.samples[4].target[JAW]).toBeCloseTo(0.5, 1)
+    expect(c.samples[4].out[JAW]).toBeLessThan(c.samples[4].target[JAW])
+    expect(onChange).toHaveBeenCalledOnce() // ticks don't notify
+  })
+
+  it('keeps only the newest chunks and ignores ticks for evicted ones', () => {
+    const rec = createVisemeRecorder(2)
+    const c = { msg: {}, source: 'server' as const, frames: [], timesRaw: new Float32Array(), times: new Float32Array(), duration: 1 }
+    for (const id of [1, 2, 3]) rec.tap.chunk({ ...c, id })
+    expect(rec.chunks().map(x => x.id)).toEqual([2, 3])
+    rec.tap.sample(1, 0, new Float32Array(15), new Float32Array(15))
+    rec.clear()
+    expect(rec.chunks()).toHaveLength(0)
+    expect(rec.version()).toBe(4)
+  })
+})
+
+describe('scrub lookups', () => {
+  it('targetAt re-samples the scaled timeline through the frames', () => {
+    const c = chunk()
+    expect(targetAt(c, 0)[JAW]).toBe(0)
+    expect(targetAt(c, 0.5)[JAW]).toBeCloseTo(1)
+    expect(targetAt(c, 0.75)[JAW]).toBeGreaterThan(0.95)
+    expect(targetAt(c, 1.5)[JAW]).toBe(0)
+    expect(targetAt(chunk({ frames: [] }), 0.3)).toEqual(new Array(15).fill(0))
+  })
+
+  it('frameAt prefers the recorded spring output near t, else the target', () => {
+    const out = new Array(15).fill(0); out[JAW] = 0.42
+    const c = chunk({ samples: [{ t: 0.5, target: targetAt(chunk(), 0.5), out }] })
+    expect(sampleAt(c, 0.52)?.out[JAW]).toBe(0.42)
+    expect(frameAt(c, 0.52)[JAW]).toBe(0.42)
+    expect(frameAt(c, 1)[JAW]).toBeCloseTo(1) // 0.5 s away from any tick
+    expect(sampleAt(chunk(), 0.5)).toBeNull()
+  })
+
+  it('waveformPeaks returns min/max per column', () => {
+    const pcm = Float32Array.from([0.5, -0.5, 0.75, 0.25, -0.25, 0])
+    expect(waveformPeaks(pcm, 3)).toEqual([[-0.5, 0.5], [0, 0.75], [-0.25, 0]])
+  })
+})
@@ -0,0 +1,122 @@
+// lib/visemeDebug.ts
+// Recorder behind the viseme timeline debugger.
+// - Plugs into the scheduler as a SchedulerTap: one entry per chunk, with the server frames,
+//   raw + scaled timelines and every (target, spring output) pair getFrame produced
+// - Pure lookups for scrubbing: target at any t (re-sampled), output at t (nearest recorded tick)
+// - Waveform peaks for the plot (the overlay decodes with visemeEstimator's decodeAudioPayload)
+
+import { catmullRom, lowerBound } from './visemeScheduler'
+import type { SchedulerTap } from './visemeScheduler'
+import type { AudioPayload } from './bytes'
+
+export type RecordedSample = { t: number; target: number[]; out: number[] }
+export type RecordedChunk = {
+  id: number
+  label: string
+  at: number                  // Date.now() when the chunk started
+  source: 'server' | 'local'
+  audio?: AudioPayload        // for waveform + replay
+  audioFormat: string
+  frames: number[][]
+  timesRaw: number[]
+  times: number[]             // scaled to the element duration (what playback used)
+  duration: number
+  samples: RecordedSample[]   // in tick order; t can jump back on seeks
+}
+
+const clamp01 = (x: number) => x < 0 ? 0 : (x > 1 ? 1 : x)
+
+export function createVisemeRecorder(maxChunks = 20) {
+  const chunks: RecordedChunk[] = []
+  const byId = new Map<number, RecordedChunk>()
+  const listeners = new Set<() => void>()
+  let version = 0
+  const changed = () => { version++; listeners.forEach(fn => fn()) }
+
+  const tap: SchedulerTap = {
+    chunk(c) {
+      const rec: RecordedChunk = {
+        id: c.id,
+        label: c.msg.chunk_index != null ? `chunk ${c.msg.chunk_index}` : `#${c.id}`,
+        at: Date.now(),
+        source: c.source,
+        audio: c.msg.audio_bytes ?? c.msg.audio,
+        audioFormat: (c.msg.audio_format || 'mp3').toLowerCase(),
+        frames: c.frames.map(f => Array.from(f)),
+        timesRaw: Array.from(c.timesRaw),
+        times: Array.from(c.times),
+        duration: c.duration,
+        samples: [],
+      }
+      chunks.push(rec)
+      byId.set(rec.id, rec)
+      while (chunks.length > maxChunks) byId.delete(chunks.shift()!.id)
+      changed()
+    },
+    sample(id, t, target, out) {
+      byId.get(id)?.samples.push({ t, target: Array.from(target), out: Array.from(out) })
+    },
+  }
+
+  return {
+    tap,
+    chunks: (): readonly RecordedChunk[] => chunks,
+    /** Bumps on new chunks and clear(); samples arrive silently (poll while drawing) */
+    version: () => version,
+    subscribe(fn: () => void) {
+      listeners.add(fn)
+      return () => { listeners.delete(fn) }
+    },
+    clear() {
+      chunks.length = 0
+      byId.clear()
+      changed()
+    },
+  }
+}
+
+export type VisemeRecorder = ReturnType<typeof createVisemeRecorder>
+
+/** Catmull–Rom target at chunk time t on the scaled timeline (what getFrame samples, minus crossfade) */
+export function targetAt(c: RecordedChunk, t: number): number[] {
+  const n = c.frames.length
+  if (!n) return new Array(15).fill(0)
+  if (n < 2 || c.times.length < 2) return c.frames[0].slice()
+  const times = Float32Array.from(c.times)
+  const i1 = lowerBound(times, t), i0 = i1 - 1
+  const i2 = Math.min(i1 + 1, n - 1), i_1 = Math.max(i0 - 1, 0)
+  const t0 = times[i0], t1 = times[i1]
+  const u = t1 > t0 ? Math.min(1, Math.max(0, (t - t0) / (t1 - t0))) : 0
+  const f = (i: number) => c.frames[i] || c.frames[n - 1]
+  return f(i0).map((_, k) => clamp01(catmullRom(f(i_1)[k], f(i0)[k], f(i1)[k], f(i2)[k], u)))
+}
+
+/** The recorded tick closest to t (spring output + live target), or null if nothing was recorded */
+export function sampleAt(c: RecordedChunk, t: number): RecordedSample | null {
+  let best: RecordedSample | null = null
+  let bestD = Infinity
+  for (const s of c.samples) {
+    const d = Math.abs(s.t - t)
+    if (d < bestD) { best = s; bestD = d }
+  }
+  return best
+}
+
+/** Frame shown on the avatar while scrubbing: the recorded spring output, else the re-sampled target */
+export function frameAt(c: RecordedChunk, t: number, maxGapS = 0.05): number[] {
+  const s = sampleAt(c, t)
+  return s && Math.abs(s.t - t) <= maxGapS ? s.out.slice() : targetAt(c, t)
+}
+
+/** Min/max per column for drawing a waveform `columns` px wide */
+export function waveformPeaks(pcm: Float32Array, columns: number): Array<[number, number]> {
+  const out: Array<[number, number]> = []
+  const per = pcm.length / Math.max(1, columns)
+  for (let x = 0; x < columns; x++) {
+    const a = Math.floor(x * per), b = Math.max(a + 1, Math.floor((x + 1) * per))
+    let lo = 0, hi = 0
+    for (let i = a; i < b && i < pcm.length; i++) { if (pcm[i] < lo) lo = pcm[i]; if (pcm[i] > hi) hi = pcm[i] }
+    out.push([lo, hi])
+  }
+  return out
+}
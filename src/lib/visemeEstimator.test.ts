@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { estimateVisemes, hasUsableVisemes } from './visemeEstimator'
+
+const SR = 16000
+const JAW = 0, FUNNEL = 1, CLOSE = 2, STRETCH_L = 12
+
+/** Harmonic buzz shaped by two formants, roughly like a sung vowel */
+function vowel(f1: number, f2: number, seconds: number, amp = 0.4) {
+  const n = Math.round(seconds * SR)
+  const out = new Float32Array(n)
+  for (let h = 1; h * 120 < SR / 2; h++) {
+    const fh = 120 * h
+    const a = Math.exp(-(((fh - f1) / 150) ** 2)) + 0.7 * Math.exp(-(((fh - f2) / 200) ** 2))
+    for (let i = 0; i < n; i++) out[i] += amp * a * Math.sin(2 * Math.PI * fh * i / SR)
+  }
+  return out
+}
+
+function hiss(seconds: number, amp = 0.2) {
+  // crude high-pass noise (first difference of white noise)
+  let x = 99, prev = 0
+  return Float32Array.from({ length: Math.round(seconds * SR) }, () => {
+    x = (Math.imul(x, 1103515245) + 12345) >>> 0
+    const w = (x / 2 ** 32) * 2 - 1
+    const v = amp * (w - prev); prev = w
+    return v
+  })
+}
+
+const concat = (...parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((a, p) => a + p.length, 0))
+  let o = 0
+  for (const p of parts) { out.set(p, o); o += p.length }
+  return out
+}
+const mean = (rows: number[][], col: number) => rows.reduce((a, r) => a + r[col], 0) / rows.length
+const slice = (rows: number[][], fromS: number, toS: number, fps = 60) => rows.slice(Math.round(fromS * fps), Math.round(toS * fps))
+
+describe('hasUsableVisemes', () => {
+  const row = new Array(15).fill(0.1)
+  it('accepts well-formed frames', () => expect(hasUsableVisemes([row, row])).toBe(true))
+  it.each([
+    ['missing', undefined],
+    ['a single frame', [row]],
+    ['empty rows', [[], []]],
+    ['mostly short rows', [row, [0.1], [0.2]]],
+    ['non-finite values', [row.map(() => NaN), row.map(() => NaN)]],
+  ])('rejects %s', (_, rows) => expect(hasUsableVisemes(rows)).toBe(false))
+})
+
+describe('estimateVisemes', () => {
+  it('matches the server shape: [N][15] frames with times at 1/fps', () => {
+    const { viseme, viseme_times } = estimateVisemes(vowel(700, 1200, 0.5), SR, 50)
+    expect(viseme.length).toBe(viseme_times.length)
+    expect(viseme.length).toBeGreaterThanOrEqual(25)
+    expect(viseme.every(r => r.length === 15 && r.every(v => v >= 0 && v <= 1))).toBe(true)
+    expect(viseme_times[1]).toBeCloseTo(0.02)
+  })
+
+  it('opens the jaw on voiced audio and keeps it shut in silence', () => {
+    const pcm = concat(new Float32Array(SR * 0.3), vowel(750, 1250, 0.4), new Float32Array(SR * 0.3))
+    const { viseme } = estimateVisemes(pcm, SR)
+    expect(mean(slice(viseme, 0.35, 0.65), JAW)).toBeGreaterThan(0.4)
+    expect(mean(slice(viseme, 0, 0.2), JAW)).toBeLessThan(0.02)
+    expect(mean(slice(viseme, 0.8, 0.95), JAW)).toBeLessThan(0.02)
+  })
+
+  it('rounds the lips for back vowels and spreads them for front vowels', () => {
+    const oo = estimateVisemes(vowel(320, 800, 0.5), SR).viseme
+    const ee = estimateVisemes(vowel(300, 2300, 0.5), SR).viseme
+    expect(mean(oo, FUNNEL)).toBeGreaterThan(mean(oo, STRETCH_L))
+    expect(mean(ee, STRETCH_L)).toBeGreaterThan(mean(ee, FUNNEL))
+  })
+
+  it('treats sibilants as spread with little jaw', () => {
+    const pcm = concat(vowel(750, 1250, 0.3), hiss(0.3))
+    const { viseme } = estimateVisemes(pcm, SR)
+    const s = slice(viseme, 0.35, 0.55)
+    expect(mean(s, STRETCH_L)).toBeGreaterThan(mean(s, FUNNEL))
+    expect(mean(s, JAW)).toBeLessThan(mean(slice(viseme, 0.05, 0.25), JAW))
+  })
+
+  it('closes the lips in short gaps between voiced frames', () => {
+    const gap = new Float32Array(Math.round(SR * 0.05))
+    const { viseme } = estimateVisemes(concat(vowel(750, 1250, 0.25), gap, vowel(750, 1250, 0.25)), SR)
+    expect(Math.max(...slice(viseme, 0.22, 0.33).map(r => r[CLOSE]))).toBeGreaterThan(0.1)
+  })
+})
@@ -0,0 +1,151 @@
+// lib/visemeEstimator.ts
+// Local lip-sync for audio that arrived without usable server visemes.
+// - Decodes the chunk (OfflineAudioContext, no user gesture needed)
+// - Per 1/fps hop: RMS energy + band energies from a small FFT
+//   (F1 band ≈ openness, F2 band ≈ spread vs. rounding, >4 kHz ≈ sibilants)
+// - Heuristic ARKit-15 poses in the same [N][15] + viseme_times shape as the server's
+// Far cruder than server shaping; it only has to beat a mouth that stays shut.
+
+import { payloadBytes } from './bytes'
+import type { AudioPayload } from './bytes'
+
+const COLS = 15
+const J = { jawOpen: 0, mouthFunnel: 1, mouthClose: 2, mouthPucker: 3, smileL: 4, smileR: 5, stretchL: 12, stretchR: 13 } as const
+
+export type EstimatedVisemes = { viseme: number[][]; viseme_times: number[] }
+
+/** True if the server frames are worth trusting: ≥2 rows, most of them 15 finite values */
+export function hasUsableVisemes(rows: unknown): rows is number[][] {
+  if (!Array.isArray(rows) || rows.length < 2) return false
+  let good = 0
+  for (const r of rows) {
+    if (Array.isArray(r) && r.length >= COLS && r.slice(0, COLS).every(v => typeof v === 'number' && Number.isFinite(v))) good++
+  }
+  return good >= rows.length / 2
+}
+
+/** In-place iterative radix-2 FFT (re/im length must be a power of two) */
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) { [re[i], re[j]] = [re[j], re[i]]; [im[i], im[j]] = [im[j], im[i]] }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = -2 * Math.PI / len
+    const wr = Math.cos(ang), wi = Math.sin(ang)
+    for (let i = 0; i < n; i += len) {
+      let cr = 1, ci = 0
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k, b = a + len / 2
+        const tr = re[b] * cr - im[b] * ci
+        const ti = re[b] * ci + im[b] * cr
+        re[b] = re[a] - tr; im[b] = im[a] - ti
+        re[a] += tr; im[a] += ti
+        const ncr = cr * wr - ci * wi
+        ci = cr * wi + ci * wr
+        cr = ncr
+      }
+    }
+  }
+}
+
+const clamp01 = (x: number) => x < 0 ? 0 : (x > 1 ? 1 : x)
+
+/** Pure estimator: mono PCM → ARKit-15 frames at `fps` */
+export function estimateVisemes(pcm: Float32Array, sampleRate: number, fps = 60): EstimatedVisemes {
+  const hop = Math.max(1, Math.round(sampleRate / fps))
+  let size = 256
+  while (size < hop * 2) size <<= 1
+  const n = Math.max(2, Math.ceil(pcm.length / hop) + 1)
+  const binHz = sampleRate / size
+  const band = (lo: number, hi: number) => [Math.max(1, Math.floor(lo / binHz)), Math.min(size / 2, Math.ceil(hi / binHz))] as const
+  const F1 = band(250, 900), F2 = band(900, 2500), HI = band(4000, 8000)
+
+  const re = new Float32Array(size), im = new Float32Array(size)
+  const hann = Float32Array.from({ length: size }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (size - 1)))
+  const feats: Array<{ e: number; f1: number; f2: number; hi: number }> = []
+
+  for (let f = 0; f < n; f++) {
+    const centre = f * hop
+    for (let i = 0; i < size; i++) {
+      const k = centre - size / 2 + i
+      re[i] = (k >= 0 && k < pcm.length ? pcm[k] : 0) * hann[i]; im[i] = 0
+    }
+    // loudness over one hop only: the FFT window is long enough to smear short closures
+    let sum = 0
+    const lo = Math.max(0, centre - (hop >> 1)), hi = Math.min(pcm.length, centre + (hop >> 1))
+    for (let k = lo; k < hi; k++) sum += pcm[k] * pcm[k]
+    fft(re, im)
+    const pow = (b: readonly [number, number]) => {
+      let s = 0
+      for (let i = b[0]; i < b[1]; i++) s += re[i] * re[i] + im[i] * im[i]
+      return s
+    }
+    feats.push({ e: Math.sqrt(sum / Math.max(1, hi - lo)), f1: pow(F1), f2: pow(F2), hi: pow(HI) })
+  }
+
+  // loudness relative to this clip (95th percentile), with a floor so silence stays silent
+  const sorted = feats.map(x => x.e).sort((a, b) => a - b)
+  const ref = Math.max(0.02, sorted[Math.floor(0.95 * (sorted.length - 1))])
+
+  const viseme: number[][] = []
+  const viseme_times: number[] = []
+  for (let f = 0; f < n; f++) {
+    const { e, f1, f2, hi } = feats[f]
+    const level = clamp01((e / ref - 0.08) / 0.92)
+    const total = f1 + f2 + hi || 1
+    const open = f1 / total          // vowel-ish openness
+    const front = f2 / total         // spread (ee/eh) vs. rounded (oo/oh)
+    const sib = hi / total           // s, sh, f
+    const row = new Array(COLS).fill(0)
+    row[J.jawOpen] = clamp01(level * (0.25 + 0.75 * open) * (1 - 0.6 * sib))
+    const round = clamp01(level * (open - front) * 1.4)
+    row[J.mouthFunnel] = round * 0.7
+    row[J.mouthPucker] = round * 0.5
+    const spread = clamp01(level * (front * 1.2 + sib * 0.8))
+    row[J.stretchL] = row[J.stretchR] = spread * 0.6
+    row[J.smileL] = row[J.smileR] = spread * 0.15
+    viseme.push(row)
+    viseme_times.push(f / fps)
+  }
+
+  // lips meet in short dips between voiced frames (m/b/p-ish), then a light 3-tap smooth
+  const jaw = viseme.map(r => r[J.jawOpen])
+  for (let f = 0; f < n; f++) {
+    if (jaw[f] >= 0.08) continue
+    const near = (d: number) => Math.max(jaw[f - d] ?? 0, jaw[f + d] ?? 0) > 0.2
+    const before = (jaw[f - 1] ?? 0) > 0.2 || (jaw[f - 2] ?? 0) > 0.2
+    const after = (jaw[f + 1] ?? 0) > 0.2 || (jaw[f + 2] ?? 0) > 0.2
+    if (before && after) viseme[f][J.mouthClose] = 0.5
+    else if (near(1)) viseme[f][J.mouthClose] = 0.25
+  }
+  const smooth = viseme.map((row, f) => row.map((v, c) => {
+    const a = viseme[Math.max(0, f - 1)][c], b = viseme[Math.min(n - 1, f + 1)][c]
+    return +(0.25 * a + 0.5 * v + 0.25 * b).toFixed(3)
+  }))
+  return { viseme: smooth, viseme_times }
+}
+
+/** Decodes base64 or raw audio to mono PCM; rejects if the browser can't decode it */
+export async function decodeAudioPayload(src: AudioPayload): Promise<{ pcm: Float32Array; sampleRate: number }> {
+  const Offline = window.OfflineAudioContext
+    || (window as unknown as { webkitOfflineAudioContext?: typeof OfflineAudioContext }).webkitOfflineAudioContext
+  if (!Offline) throw new Error('OfflineAudioContext unavailable')
+  const ctx = new Offline(1, 1, 44100)
+  const buf = await ctx.decodeAudioData(payloadBytes(src))
+  const pcm = new Float32Array(buf.length)
+  for (let c = 0; c < buf.numberOfChannels; c++) {
+    const ch = buf.getChannelData(c)
+    for (let i = 0; i < pcm.length; i++) pcm[i] += ch[i] / buf.numberOfChannels
+  }
+  return { pcm, sampleRate: buf.sampleRate }
+}
+
+/** Decode + estimate in one go (what the scheduler calls) */
+export async function estimateVisemesFromAudio(src: AudioPayload, fps = 60): Promise<EstimatedVisemes> {
+  const { pcm, sampleRate } = await decodeAudioPayload(src)
+  return estimateVisemes(pcm, sampleRate, fps)
+}
@@ -0,0 +1,391 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildTimes, catmullRom, createVisemeScheduler, lowerBound } from './visemeScheduler'
+import { FakeAudio, createFakeAudioEngine, installFakeAudio } from '../test/fakes'
+import { estimateVisemesFromAudio } from './visemeEstimator'
+
+vi.mock('./visemeEstimator', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./visemeEstimator')>(),
+  estimateVisemesFromAudio: vi.fn(),
+}))
+
+const JAW = 0
+const PUCKER = 3
+
+/** [N][15] frames with one channel set per row */
+function frames(values: number[], col = JAW): number[][] {
+  return values.map(v => { const r = new Array(15).fill(0); r[col] = v; return r })
+}
+
+/** Advances the fake clock in render-sized steps, sampling like the rAF loop would */
+function tick(sched: ReturnType<typeof createVisemeScheduler>, ms: number, step = 16) {
+  let f: number[] | null = null
+  for (let t = 0; t < ms; t += step) {
+    vi.advanceTimersByTime(step)
+    f = sched.getFrame()
+  }
+  return f!
+}
+
+describe('buildTimes', () => {
+  it('prefers viseme_times, clamping negatives and backwards steps', () => {
+    const t = buildTimes(4, { viseme: [], viseme_times: [-1, 0.2, 0.1, 0.4] })
+    expect(Array.from(t)).toEqual([0, expect.closeTo(0.2), expect.closeTo(0.2), expect.closeTo(0.4)])
+  })
+
+  it('truncates viseme_times to the number of frames', () => {
+    expect(buildTimes(2, { viseme: [], viseme_times: [0, 0.1, 0.2] }).length).toBe(2)
+  })
+
+  it('falls back to frame_ms, then viseme_fps, then duration_ms', () => {
+    expect(Array.from(buildTimes(3, { viseme: [], frame_ms: 20 }))).toEqual([0, expect.closeTo(0.02), expect.closeTo(0.04)])
+    expect(Array.from(buildTimes(3, { viseme: [], viseme_fps: 50 }))).toEqual([0, expect.closeTo(0.02), expect.closeTo(0.04)])
+    expect(Array.from(buildTimes(3, { viseme: [], duration_ms: 1000 }))).toEqual([0, 0.5, 1])
+  })
+
+  it('never produces a zero-length timeline from duration_ms', () => {
+    const t = buildTimes(2, { viseme: [] })
+    expect(t[1]).toBeCloseTo(0.02)
+  })
+
+  it('ignores a single-entry viseme_times', () => {
+    expect(Array.from(buildTimes(3, { viseme: [], viseme_times: [0], frame_ms: 10 }))).toEqual([0, expect.closeTo(0.01), expect.closeTo(0.02)])
+  })
+})
+
+describe('lowerBound', () => {
+  const arr = Float32Array.from([0, 0.1, 0.2, 0.3])
+
+  it('returns the first index whose time is >= t', () => {
+    expect(lowerBound(arr, 0.15)).toBe(2)
+    expect(lowerBound(arr, 0.2)).toBe(2)
+  })
+
+  it('clamps to [1, len-1] so i-1 is always a valid segment start', () => {
+    expect(lowerBound(arr, -5)).toBe(1)
+    expect(lowerBound(arr, 0)).toBe(1)
+    expect(lowerBound(arr, 99)).toBe(3)
+  })
+})
+
+describe('catmullRom', () => {
+  it('interpolates through the inner control points', () => {
+    expect(catmullRom(0, 1, 2, 3, 0)).toBe(1)
+    expect(catmullRom(0, 1, 2, 3, 1)).toBe(2)
+    expect(catmullRom(0, 1, 2, 3, 0.5)).toBeCloseTo(1.5)
+  })
+})
+
+describe('createVisemeScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance', 'Date'] })
+    installFakeAudio()
+  })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('returns a neutral frame while idle', () => {
+    const sched = createVisemeScheduler()
+    expect(tick(sched, 50)).toEqual(new Array(15).fill(0))
+  })
+
+  it('waits for loadedmetadata, then plays the chunk', () => {
+    const sched = createVisemeScheduler()
+    sched.pushChunk({ audio: 'AAAA', viseme: frames([0, 1]), viseme_times: [0, 1] })
+    const el = FakeAudio.instances[0]
+    expect(el.src).toBe('data:audio/mp3;base64,AAAA')
+    expect(el.paused).toBe(true)
+    el.loadMetadata(1)
+    expect(el.paused).toBe(false)
+  })
+
+  it('scales the server timeline to the real audio duration', () => {
+    const sched = createVisemeScheduler()
+    // server thinks 1 s, jaw ramps 0 → 1; the decoded element is 2 s long
+    sched.pushChunk({ audio: 'AAAA', viseme: frames([0, 0.5, 1]), viseme_times: [0, 0.5, 1] })
+    const el = FakeAudio.instances[0]
+    el.loadMetadata(2)
+    el.seek(1) // halfway through the *element* → halfway through the ramp
+    const f = tick(sched, 800)
+    expect(f[JAW]).toBeGreaterThan(0.4)
+    expect(f[JAW]).toBeLessThan(0.65)
+  })
+
+  it('springs toward the target instead of snapping', () => {
+    const sched = createVisemeScheduler()
+    sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+    const el = FakeAudio.instances[0]
+    el.loadMetadata(1)
+    el.seek(0.5)
+    const first = tick(sched, 16)
+    expect(first[JAW]).toBeGreaterThan(0)
+    expect(first[JAW]).toBeLessThan(0.5)
+    const settled = tick(sched, 600)
+    expect(settled[JAW]).toBeGreaterThan(0.9)
+    expect(settled[JAW]).toBeLessThanOrEqual(1)
+  })
+
+  it('setParams retunes the spring mid-playback and ignores bad values', () => {
+    const sched = createVisemeScheduler()
+    sched.setParams({ freqJaw: 2, zeta: Number.NaN })
+    expect(sched.getParams()).toMatchObject({ freqJaw: 2, zeta: 0.84 })
+    sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+    const el = FakeAudio.instances[0]
+    el.loadMetadata(1)
+    el.seek(0.5)
+    const slow = tick(sched, 48)
+    sched.setParams({ freqJaw: 10 })
+    const fast = tick(sched, 48)
+    expect(slow[JAW]).toBeLessThan(0.1)
+    expect(fast[JAW] - slow[JAW]).toBeGreaterThan(0.3)
+  })
+
+  it('crossfades from the previous pose at chunk start', () => {
+    const sched = createVisemeScheduler({ crossfadeS: 0.2 })
+    sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+    FakeAudio.instances[0].loadMetadata(1)
+    const fast = tick(sched, 48)
+    const sched2 = createVisemeScheduler({ crossfadeS: 0.001 })
+    sched2.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+    FakeAudio.instances[1].loadMetadata(1)
+    const noFade = tick(sched2, 48)
+    expect(fast[JAW]).toBeLessThan(noFade[JAW])
+  })
+
+  it('plays queued chunks in order when audio ends', () => {
+    const sched = createVisemeScheduler()
+    sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+    sched.pushChunk({ audio: 'BBBB', viseme: frames([1, 1], PUCKER), viseme_times: [0, 1] })
+    const [a, b] = FakeAudio.instances
+    a.loadMetadata(1)
+    expect(b.paused).toBe(true)
+    a.finish()
+    b.loadMetadata(1)
+    expect(b.paused).toBe(false)
+    b.seek(0.5)
+    const f = tick(sched, 600)
+    expect(f[PUCKER]).toBeGreaterThan(0.9)
+  })
+
+  it('drives muted chunks from a timer instead of audio', () => {
+    const sched = createVisemeScheduler()
+    sched.setMuted(true)
+    sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 0.2] })
+    sched.pushChunk({ audio: 'BBBB', viseme: frames([1, 1], PUCKER), viseme_times: [0, 0.2] })
+    expect(FakeAudio.instances).toHaveLength(0)
+    expect(tick(sched, 160)[JAW]).toBeGreaterThan(0.5)
+    const f = tick(sched, 400)
+    expect(f[PUCKER]).toBeGreaterThan(0.5)
+  })
+
+  it('stop() pauses audio, drops the queue and relaxes to neutral', () => {
+    const sched = createVisemeScheduler()
+    sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+    sched.pushChunk({ audio: 'BBBB', viseme: frames([1, 1]), viseme_times: [0, 1] })
+    const [a, b] = FakeAudio.instances
+    a.loadMetadata(1)
+    a.seek(0.5)
+    const before = tick(sched, 300)[JAW]
+    sched.stop()
+    expect(a.paused).toBe(true)
+    a.finish()
+    expect(b.paused).toBe(true)
+    const after = tick(sched, 1500)[JAW]
+    expect(after).toBeLessThan(before * 0.5)
+  })
+
+  it('plays binary-frame audio from an object URL and frees it afterwards', () => {
+    const revoke = vi.fn()
+    Object.assign(URL, { createObjectURL: vi.fn(() => 'blob:chunk'), revokeObjectURL: revoke })
+    const sched = createVisemeScheduler({}, null)
+    sched.pushChunk({ audio_bytes: new ArrayBuffer(8), audio_format: 'wav', viseme: frames([1, 1]), viseme_times: [0, 1] })
+    const el = FakeAudio.instances[0]
+    expect(el.src).toBe('blob:chunk')
+    el.loadMetadata(1)
+    el.finish()
+    expect(revoke).toHaveBeenCalledWith('blob:chunk')
+  })
+
+  it('clamps and pads malformed frame values', () => {
+    const sched = createVisemeScheduler()
+    sched.setMuted(true)
+    sched.pushChunk({ viseme: [[5, -1], [Number.NaN]], viseme_times: [0, 1] })
+    const f = tick(sched, 600)
+    expect(f.every(v => v >= 0 && v <= 1)).toBe(true)
+  })
+
+  describe('local viseme fallback', () => {
+    const flush = () => vi.advanceTimersByTimeAsync(0)
+
+    it('estimates frames from the audio when the server sent none', async () => {
+      const info = vi.spyOn(console, 'info').mockImplementation(() => {})
+      vi.mocked(estimateVisemesFromAudio).mockResolvedValue({ viseme: frames([1, 1]), viseme_times: [0, 1] })
+      const sched = createVisemeScheduler()
+      sched.pushChunk({ audio: 'AAAA', viseme: [], chunk_index: 3 })
+      const el = FakeAudio.instances[0]
+      el.loadMetadata(1)
+      expect(el.paused).toBe(true) // waits for the estimate
+      await flush()
+      expect(estimateVisemesFromAudio).toHaveBeenCalledWith('AAAA')
+      expect(el.paused).toBe(false)
+      el.seek(0.5)
+      expect(tick(sched, 600)[JAW]).toBeGreaterThan(0.9)
+      expect(info).toHaveBeenCalledWith(expect.stringContaining('local estimate (chunk 3: server visemes missing)'))
+    })
+
+    it('keeps chunk order while an estimate is pending', async () => {
+      let resolve!: (v: { viseme: number[][]; viseme_times: number[] }) => void
+      vi.mocked(estimateVisemesFromAudio).mockReturnValue(new Promise(r => { resolve = r }))
+      vi.spyOn(console, 'info').mockImplementation(() => {})
+      const sched = createVisemeScheduler()
+      sched.pushChunk({ audio: 'AAAA', viseme: [[Number.NaN], [Number.NaN]] })
+      sched.pushChunk({ audio: 'BBBB', viseme: frames([1, 1]), viseme_times: [0, 1] })
+      const [a, b] = FakeAudio.instances
+      a.loadMetadata(1); b.loadMetadata(1)
+      expect(sched.busy()).toBe(true)
+      expect(b.paused).toBe(true)
+      resolve({ viseme: frames([0.5, 0.5]), viseme_times: [0, 1] })
+      await flush()
+      expect(a.paused).toBe(false)
+      expect(b.paused).toBe(true)
+    })
+
+    it('still plays the audio if the estimate fails', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      vi.mocked(estimateVisemesFromAudio).mockRejectedValue(new Error('cannot decode'))
+      const sched = createVisemeScheduler()
+      sched.pushChunk({ audio: 'AAAA' })
+      const el = FakeAudio.instances[0]
+      el.loadMetadata(1)
+      await flush()
+      expect(el.paused).toBe(false)
+      expect(tick(sched, 200)).toEqual(new Array(15).fill(0))
+    })
+
+    it('drops a pending chunk on stop()', async () => {
+      let resolve!: (v: { viseme: number[][]; viseme_times: number[] }) => void
+      vi.mocked(estimateVisemesFromAudio).mockReturnValue(new Promise(r => { resolve = r }))
+      const sched = createVisemeScheduler()
+      sched.pushChunk({ audio: 'AAAA' })
+      sched.stop()
+      resolve({ viseme: frames([1, 1]), viseme_times: [0, 1] })
+      await flush()
+      expect(FakeAudio.instances[0].paused).toBe(true)
+      expect(sched.busy()).toBe(false)
+    })
+  })
+
+  describe('WebAudio engine', () => {
+    const flush = () => vi.advanceTimersByTimeAsync(0)
+
+    it('decodes ahead and starts chunks back-to-back on the context clock', async () => {
+      const fake = createFakeAudioEngine({ AAAA: 1.2, BBBB: 0.5 })
+      const sched = createVisemeScheduler({}, fake.engine)
+      sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1], chunk_index: 0 })
+      sched.pushChunk({ audio: 'BBBB', viseme: frames([1, 1], PUCKER), viseme_times: [0, 0.5], chunk_index: 1 })
+      await flush()
+      expect(FakeAudio.instances).toHaveLength(0)
+      expect(fake.played.map(p => p.b64)).toEqual(['AAAA', 'BBBB'])
+      expect(fake.played[1].at).toBeCloseTo(fake.played[0].at + 1.2, 6)
+    })
+
+    it('drives the visemes from AudioContext.currentTime', async () => {
+      const fake = createFakeAudioEngine({ AAAA: 1, BBBB: 1 })
+      const sched = createVisemeScheduler({}, fake.engine)
+      sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+      sched.pushChunk({ audio: 'BBBB', viseme: frames([1, 1], PUCKER), viseme_times: [0, 1] })
+      await flush()
+      expect(tick(sched, 300)).toEqual(new Array(15).fill(0)) // clock not at the first start yet
+      fake.advance(0.5)
+      expect(tick(sched, 600)[JAW]).toBeGreaterThan(0.9)
+      fake.advance(1)
+      const f = tick(sched, 600)
+      expect(f[PUCKER]).toBeGreaterThan(0.9)
+      expect(sched.busy()).toBe(true)
+      fake.advance(1)
+      expect(sched.busy()).toBe(false)
+    })
+
+    it('plays late chunks of a reply in chunk_index order', async () => {
+      let release!: () => void
+      const fake = createFakeAudioEngine()
+      fake.engine.decode.mockImplementationOnce(async (b64: string) => {
+        await new Promise<void>(r => { release = r })
+        return { duration: 1, b64 } as unknown as AudioBuffer
+      })
+      const sched = createVisemeScheduler({}, fake.engine)
+      sched.pushChunk({ audio: 'C0', viseme: frames([1, 1]), viseme_times: [0, 1], chunk_index: 0 })
+      sched.pushChunk({ audio: 'C2', viseme: frames([1, 1]), viseme_times: [0, 1], chunk_index: 2 })
+      sched.pushChunk({ audio: 'C1', viseme: frames([1, 1]), viseme_times: [0, 1], chunk_index: 1 })
+      await flush()
+      expect(fake.played).toHaveLength(0)
+      release()
+      await flush()
+      expect(fake.played.map(p => p.b64)).toEqual(['C0', 'C1', 'C2'])
+    })
+
+    it('falls back to <audio> while the context is not allowed to run', async () => {
+      const fake = createFakeAudioEngine()
+      fake.state.running = false
+      const sched = createVisemeScheduler({}, fake.engine)
+      sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+      await flush()
+      expect(fake.played).toHaveLength(0)
+      const el = FakeAudio.instances[0]
+      expect(el.src).toBe('data:audio/mp3;base64,AAAA')
+      el.loadMetadata(1)
+      expect(el.paused).toBe(false)
+    })
+
+    it('falls back to <audio> for a chunk WebAudio cannot decode', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const fake = createFakeAudioEngine()
+      fake.state.failDecode.add('AAAA')
+      const sched = createVisemeScheduler({}, fake.engine)
+      sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+      await flush()
+      FakeAudio.instances[0].loadMetadata(1)
+      expect(FakeAudio.instances[0].paused).toBe(false)
+    })
+
+    it('stop() stops scheduled sources and forgets the cursor', async () => {
+      const fake = createFakeAudioEngine()
+      const sched = createVisemeScheduler({}, fake.engine)
+      sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+      sched.pushChunk({ audio: 'BBBB', viseme: frames([1, 1]), viseme_times: [0, 1] })
+      await flush()
+      sched.stop()
+      expect(fake.played.every(p => p.stopped)).toBe(true)
+      expect(sched.busy()).toBe(false)
+      fake.advance(0.2)
+      sched.pushChunk({ audio: 'CCCC', viseme: frames([1, 1]), viseme_times: [0, 1] })
+      await flush()
+      expect(fake.played[2].at).toBeCloseTo(0.23, 6)
+    })
+
+    it('dispose() stops playback and closes the engine', async () => {
+      const fake = createFakeAudioEngine()
+      const sched = createVisemeScheduler({}, fake.engine)
+      sched.pushChunk({ audio: 'AAAA', viseme: frames([1, 1]), viseme_times: [0, 1] })
+      await flush()
+      sched.dispose()
+      expect(fake.played[0].stopped).toBe(true)
+      expect(fake.engine.close).toHaveBeenCalledTimes(1)
+    })
+
+    it('decodes binary-frame audio without a base64 detour', async () => {
+      const fake = createFakeAudioEngine()
+      const sched = createVisemeScheduler({}, fake.engine)
+      const bytes = new ArrayBuffer(16)
+      sched.pushChunk({ audio_bytes: bytes, viseme: frames([1, 1]), viseme_times: [0, 1] })
+      await flush()
+      expect(fake.engine.decode).toHaveBeenCalledWith(bytes)
+      expect(fake.played).toHaveLength(1)
+    })
+
+    it('mutes through the engine gain', () => {
+      const fake = createFakeAudioEngine()
+      const sched = createVisemeScheduler({}, fake.engine)
+      sched.setMuted(true)
+      expect(fake.engine.setMuted).toHaveBeenCalledWith(true)
+    })
+  })
+})
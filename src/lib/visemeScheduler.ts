@@ -1,17 +1,26 @@
 // lib/visemeScheduler.ts
 // Timing-only scheduler that trusts server visemes.
-// - Locks to <audio>.currentTime when present
+// - Plays through WebAudio when it runs: chunks decode ahead and start back-to-back on the
+//   AudioContext clock, which also drives the visemes (audioEngine.ts)
+// - Otherwise one <audio> per chunk, locked to its currentTime
 // - Derives timeline from viseme_times OR frame_ms OR viseme_fps OR duration_ms
 // - Catmull–Rom resampling + critically-damped spring for “muscle” feel
+// - Audio without usable visemes → frames estimated locally (visemeEstimator.ts)
 // No expression hacks here — all articulation lives on the server.
 
+import { estimateVisemesFromAudio, hasUsableVisemes } from './visemeEstimator';
+import { createAudioEngine } from './audioEngine';
+import type { AudioEngine } from './audioEngine';
+import { payloadUrl, releasePayloadUrl } from './bytes';
+
 export type AudioChunkMsg = {
   // Audio (optional)
   audio?: string;                 // base64 audio payload
+  audio_bytes?: ArrayBuffer;      // same, from a binary frame (wins over `audio`)
   audio_format?: string;          // default: "mp3"
 
-  // Visemes (required)
-  viseme: number[][];             // [N][15] ARKit-15
+  // Visemes (estimated from `audio` when missing/malformed)
+  viseme?: number[][];            // [N][15] ARKit-15
   viseme_times?: number[];        // seconds, length == N (preferred)
 
   // Fallback timing hints (optional)
@@ -27,14 +36,20 @@ export type AudioChunkMsg = {
 };
 
 const COLS = 15;
+// Explicit spring integration is only stable for small ω·dt; at 60 fps the 10 Hz jaw
+// spring is not (it chatters between the clamps), so integrate in substeps.
+const MAX_SUBSTEP_S = 1 / 240;
+// Head start for the first chunk of a run, so its start time is still in the future when
+// the source actually gets going
+const LEAD_S = 0.03;
 
 function clamp01(x: number) { return x < 0 ? 0 : (x > 1 ? 1 : x); }
 function lerp(a: number, b: number, t: number) { return a + (b - a) * (t < 0 ? 0 : t > 1 ? 1 : t); }
-function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number) {
+export function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number) {
   const t2 = t * t, t3 = t2 * t;
   return 0.5 * ((2 * p1) + (-p0 + p2) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (-p0 + 3 * p1 - 3 * p2 + p3) * t3);
 }
-function lowerBound(arr: Float32Array, t: number): number {
+export function lowerBound(arr: Float32Array, t: number): number {
   let lo = 0, hi = arr.length - 1;
   while (lo <= hi) {
     const mid = (lo + hi) >>> 1;
@@ -43,7 +58,7 @@ function lowerBound(arr: Float32Array, t: number): number {
   return Math.max(1, Math.min(arr.length - 1, lo));
 }
 
-function buildTimes(
+export function buildTimes(
   framesN: number,
   msg: AudioChunkMsg
 ): Float32Array {
@@ -81,38 +96,78 @@ function buildTimes(
   return out;
 }
 
-export function createVisemeScheduler(opts?: {
+export type VisemeSchedulerParams = {
   // Spring (muscle) params
-  zeta?: number;              // damping ratio (~0.8–1.0)
-  freqBase?: number;          // Hz for most shapes
-  freqJaw?: number;           // Hz for jawOpen
-  exaggeration?: number;      // subtle pop after spring
+  zeta: number;               // damping ratio (~0.8–1.0)
+  freqBase: number;           // Hz for most shapes
+  freqJaw: number;            // Hz for jawOpen
+  exaggeration: number;       // subtle pop after spring
   // Crossfade & idle relax
-  crossfadeS?: number;
-  neutralDecayPerSec?: number;
-}) {
+  crossfadeS: number;
+  neutralDecayPerSec: number;
+};
+
+/** Debug hook (timeline debugger): what each chunk started with, and every frame it produced */
+export type SchedulerTap = {
+  chunk(c: {
+    id: number;
+    msg: AudioChunkMsg;
+    source: 'server' | 'local';
+    frames: Float32Array[];
+    timesRaw: Float32Array;
+    times: Float32Array;      // scaled to the element duration
+    duration: number;
+  }): void;
+  /** `target` = Catmull–Rom (+ crossfade) at chunk time `t`; `out` = spring output */
+  sample(id: number, t: number, target: Float32Array, out: Float32Array): void;
+};
+
+export function createVisemeScheduler(opts?: Partial<VisemeSchedulerParams>, engine: AudioEngine | null = createAudioEngine()) {
   type Chunk = {
+    id: number;
+    msg: AudioChunkMsg;
+    source: 'server' | 'local';
     frames: Float32Array[];   // [N][15] typed
     timesRaw: Float32Array;   // as sent/derived (seconds)
     times: Float32Array;      // scaled to element duration
     duration: number;         // seconds (authoritative)
     audioEl?: HTMLAudioElement;
-    startedAt: number;        // performance.now()/1000
-    fadeInEnd: number;        // absolute time (s) for crossfade end
-    fadeInFrom: Float32Array; // previous visible pose
+    audioUrl?: string;        // what audioEl plays (object URLs are freed when it is done)
+    buffer?: AudioBuffer;     // decoded for the WebAudio engine
+    node?: { stop(): void };  // its scheduled source
+    run: number;              // reply it belongs to (chunk_index 0 starts a new one)
+    startedAt: number;        // performance.now()/1000, or context time when scheduled on the engine
+    fadeInEnd: number;        // same clock as startedAt, for crossfade end
+    fadeInFrom: Float32Array | null; // previous visible pose (engine chunks take it when they come up)
     done: boolean;
+    pending: Promise<void> | null; // local viseme estimate and/or decode still running
   };
 
-  const zeta = opts?.zeta ?? 0.84;
-  const freqBase = opts?.freqBase ?? 7.5;
-  const freqJaw  = opts?.freqJaw  ?? 10.0;
-  const exaggeration = opts?.exaggeration ?? 1.04;
-  const crossfadeS = opts?.crossfadeS ?? 0.085;
-  const neutralDecayPerSec = opts?.neutralDecayPerSec ?? 1.0;
+  // Mutable so the tuning panel can change them mid-playback (setParams)
+  const params: VisemeSchedulerParams = {
+    zeta: opts?.zeta ?? 0.84,
+    freqBase: opts?.freqBase ?? 7.5,
+    freqJaw: opts?.freqJaw ?? 10.0,
+    exaggeration: opts?.exaggeration ?? 1.04,
+    crossfadeS: opts?.crossfadeS ?? 0.085,
+    neutralDecayPerSec: opts?.neutralDecayPerSec ?? 1.0,
+  };
 
   const queue: Chunk[] = [];
-  let active: Chunk | null = null;
+  let active: Chunk | null = null;      // <audio>/timer chunk, or one held while its estimate runs
+  const timeline: Chunk[] = [];         // scheduled on the engine, in start order
+  let cursor = 0;                       // context time the last scheduled chunk ends
+  let run = 0;
   let muted = false;
+  let lastSource: 'server' | 'local' | null = null;
+  let tap: SchedulerTap | null = null;
+  let nextId = 1;
+
+  function noteSource(src: 'server' | 'local', detail: string) {
+    if (src === lastSource) return;
+    lastSource = src;
+    console.info(`[visemes] using ${src === 'server' ? 'server frames' : 'local estimate'} (${detail})`);
+  }
 
   // Pose state
   const pos = new Float32Array(COLS);
@@ -121,26 +176,86 @@ export function createVisemeScheduler(opts?: {
 
   let lastTick = performance.now() / 1000;
 
+  function attachElement(ch: Chunk) {
+    const src = ch.msg.audio_bytes ?? ch.msg.audio;
+    if (!src) return;
+    ch.audioUrl = payloadUrl(src, (ch.msg.audio_format || 'mp3').toLowerCase());
+    ch.audioEl = new Audio(ch.audioUrl);
+    ch.audioEl.preload = 'auto';
+  }
+
+  function release(ch: Chunk) {
+    if (ch.audioUrl) releasePayloadUrl(ch.audioUrl);
+    ch.audioUrl = undefined;
+  }
+
+  // Scale the timeline to the real audio duration (keeps sync)
+  function retime(ch: Chunk, durEl: number) {
+    const rawTail = ch.timesRaw[ch.timesRaw.length - 1] || 0;
+    const scale = rawTail > 0 ? (durEl / rawTail) : 1;
+    ch.times = Float32Array.from(ch.timesRaw, (t) => t * scale);
+    ch.duration = ch.times[ch.times.length - 1] || Math.max(0.02, durEl);
+    tap?.chunk({
+      id: ch.id, msg: ch.msg, source: ch.source,
+      frames: ch.frames, timesRaw: ch.timesRaw, times: ch.times, duration: ch.duration,
+    });
+  }
+
+  function schedule(ch: Chunk, buf: AudioBuffer) {
+    const e = engine!;
+    // Back-to-back with whatever is still queued on the context; after an underrun, ASAP
+    const startAt = Math.max(cursor, e.now() + LEAD_S);
+    retime(ch, buf.duration);
+    ch.startedAt = startAt;
+    ch.fadeInEnd = startAt + params.crossfadeS;
+    ch.fadeInFrom = null;
+    cursor = startAt + buf.duration;
+    timeline.push(ch);
+    ch.node = e.play(buf, startAt, () => {
+      ch.done = true;
+      const i = timeline.indexOf(ch);
+      if (i >= 0) timeline.splice(i, 1);
+      startNext();
+    });
+  }
+
   function startNext() {
     if (active || queue.length === 0) return;
-    const ch = queue.shift()!;
+    const ch = queue[0];
+
+    // Hold the slot (keeps order) until the estimate/decode is in; stop() releases it
+    if (ch.pending) {
+      queue.shift();
+      active = ch;
+      const p = ch.pending;
+      ch.pending = null;
+      void p.then(() => { if (active === ch) { active = null; queue.unshift(ch); startNext(); } });
+      return;
+    }
+
+    if (ch.buffer && !muted && engine?.running()) {
+      queue.shift();
+      schedule(ch, ch.buffer);
+      startNext();
+      return;
+    }
+    // <audio>/timer chunks run one at a time on their own clock: let scheduled audio drain first
+    if (timeline.length) return;
+    queue.shift();
     active = ch;
+    // Decoded, but the context is not allowed to run yet
+    if (ch.buffer && !ch.audioEl && !muted) attachElement(ch);
 
     const begin = (durEl: number) => {
-      // Scale timeline to actual element duration (keeps sync)
-      const rawTail = ch.timesRaw[ch.timesRaw.length - 1] || 0;
-      const scale = rawTail > 0 ? (durEl / rawTail) : 1;
-      ch.times = Float32Array.from(ch.timesRaw, (t) => t * scale);
-      ch.duration = ch.times[ch.times.length - 1] || Math.max(0.02, durEl);
-
+      retime(ch, durEl);
       ch.startedAt = performance.now() / 1000;
       ch.fadeInFrom = pos.slice(0);
-      ch.fadeInEnd = ch.startedAt + crossfadeS;
+      ch.fadeInEnd = ch.startedAt + params.crossfadeS;
 
       if (ch.audioEl && !muted) {
         (ch.audioEl as any).playsInline = true;
         void ch.audioEl.play().catch(()=>{});
-        ch.audioEl.onended = () => { ch.done = true; active = null; startNext(); };
+        ch.audioEl.onended = () => { ch.done = true; release(ch); active = null; startNext(); };
       } else {
         // Non-audio fallback timer
         window.setTimeout(() => { ch.done = true; active = null; startNext(); }, Math.round(ch.duration * 1000) + 10);
@@ -182,32 +297,87 @@ export function createVisemeScheduler(opts?: {
     }
   }
 
+  function stop() {
+    for (const c of queue) release(c);
+    queue.length = 0;
+    if (active?.audioEl) { try { active.audioEl.pause(); } catch {} }
+    if (active) release(active);
+    active = null;
+    // Detach first so the stopped sources' onended doesn't start anything
+    const scheduled = timeline.splice(0);
+    for (const c of scheduled) { c.done = true; c.node?.stop(); }
+    cursor = 0;
+  }
+
   return {
     pushChunk(msg: AudioChunkMsg) {
-      const frames = (msg.viseme || []).map(
-        row => Float32Array.from((row || []).slice(0, COLS).map(v => clamp01(Number(v) || 0)))
+      // Without audio there is nothing to estimate from: take whatever the server sent
+      const audio = msg.audio_bytes ?? msg.audio;
+      const fromServer = hasUsableVisemes(msg.viseme) || !audio;
+      // Always 15 columns: short rows would otherwise sample as NaN and poison the spring
+      const toFrames = (rows: number[][]) => rows.map(
+        row => Float32Array.from({ length: COLS }, (_, i) => clamp01(Number(row?.[i]) || 0))
       );
+      const frames = fromServer ? toFrames(msg.viseme || []) : [];
       const timesRaw = buildTimes(frames.length, msg);
+      const durMs = Number(msg.duration_ms) || 0;
       const ch: Chunk = {
+        id: nextId++,
+        msg,
+        source: fromServer ? 'server' : 'local',
         frames,
         timesRaw,
         times: new Float32Array(0),
-        duration: Math.max(0.02, (Number(msg.duration_ms) || 0) / 1000),
+        // Without duration_ms the timeline tail is the best guess (muted chunks run on it)
+        duration: Math.max(0.02, durMs > 0 ? durMs / 1000 : (timesRaw[timesRaw.length - 1] || 0)),
         audioEl: undefined,
+        run: msg.chunk_index === 0 ? ++run : run,
         startedAt: 0,
         done: false,
         fadeInEnd: 0,
         fadeInFrom: new Float32Array(COLS),
+        pending: null,
       };
+      const jobs: Promise<void>[] = [];
 
-      // audio (optional)
-      const fmt = (msg.audio_format || 'mp3').toLowerCase();
-      if (msg.audio && !muted) {
-        ch.audioEl = new Audio(`data:audio/${fmt};base64,${msg.audio}`);
-        ch.audioEl.preload = 'auto';
+      const label = msg.chunk_index != null ? `chunk ${msg.chunk_index}` : 'chunk';
+      if (fromServer) {
+        if (frames.length) noteSource('server', label);
+      } else {
+        const why = Array.isArray(msg.viseme) && msg.viseme.length ? 'malformed' : 'missing';
+        jobs.push(estimateVisemesFromAudio(audio!).then((est) => {
+          ch.frames = toFrames(est.viseme);
+          ch.timesRaw = buildTimes(ch.frames.length, { ...msg, ...est });
+          if (!durMs) ch.duration = Math.max(0.02, ch.timesRaw[ch.timesRaw.length - 1] || 0);
+          noteSource('local', `${label}: server visemes ${why}`);
+        }).catch((e) => {
+          // Audio still plays; the mouth just rests
+          console.warn(`[visemes] local estimate failed for ${label}:`, e instanceof Error ? e.message : e);
+        }));
       }
 
-      queue.push(ch);
+      // audio (optional): decoded now so it is ready the moment the previous chunk ends
+      if (audio && !muted) {
+        if (engine) {
+          jobs.push(engine.decode(audio).then((buf) => { ch.buffer = buf; }).catch((e) => {
+            console.warn(`[audio] WebAudio could not decode ${label}, using <audio>:`, e instanceof Error ? e.message : e);
+            attachElement(ch);
+          }));
+        } else {
+          attachElement(ch);
+        }
+      }
+      ch.pending = jobs.length ? Promise.all(jobs).then(() => {}) : null;
+
+      // Chunks of one reply may arrive out of order: slot this one before queued siblings
+      // with a higher chunk_index (offset_ms when there is no index)
+      const order = (c: Chunk) => c.msg.chunk_index ?? c.msg.offset_ms;
+      const key = order(ch);
+      let at = queue.length;
+      if (key != null) {
+        while (at > 0 && queue[at - 1].run === ch.run && (order(queue[at - 1]) ?? -Infinity) > key) at--;
+      }
+      queue.splice(at, 0, ch);
       startNext();
     },
 
@@ -216,16 +386,23 @@ export function createVisemeScheduler(opts?: {
       const dt = Math.max(0.001, Math.min(0.033, now - lastTick));
       lastTick = now;
 
-      const ch = active;
+      // Engine chunks: the latest one whose start time has come (the context clock is the truth)
+      let ch = active && active.times.length ? active : null;
+      let clock = now;
+      if (!ch && timeline.length) {
+        clock = engine!.now();
+        for (const c of timeline) if (c.startedAt <= clock) ch = c;
+      }
       if (!ch || !ch.frames.length || !ch.times.length) {
         // Neutral relaxation while idle
-        const k = Math.exp(-neutralDecayPerSec * dt);
+        const k = Math.exp(-params.neutralDecayPerSec * dt);
         for (let i = 0; i < COLS; i++) { pos[i] *= k; vel[i] *= k; }
         return Array.from(pos);
       }
+      if (!ch.fadeInFrom) ch.fadeInFrom = pos.slice(0);
 
-      // Sync to audio element when possible
-      let t = now - ch.startedAt;
+      // Sync to the audio clock when possible
+      let t = clock - ch.startedAt;
       if (ch.audioEl && !Number.isNaN(ch.audioEl.currentTime)) {
         t = Math.max(0, Math.min(ch.audioEl.currentTime, ch.duration));
       } else {
@@ -236,33 +413,72 @@ export function createVisemeScheduler(opts?: {
       sampleCatmullRom(ch, t, tmp);
 
       // Crossfade from previous chunk
-      if (now < ch.fadeInEnd) {
-        const cfk = 1 - Math.max(0, (ch.fadeInEnd - now) / crossfadeS);
+      if (clock < ch.fadeInEnd) {
+        const cfk = 1 - Math.max(0, (ch.fadeInEnd - clock) / Math.max(1e-3, params.crossfadeS));
         for (let i = 0; i < COLS; i++) tmp[i] = lerp(ch.fadeInFrom[i], tmp[i], cfk);
       }
 
       // Critically-damped spring (muscle)
+      const { zeta, freqBase, freqJaw, exaggeration } = params;
+      const steps = Math.ceil(dt / MAX_SUBSTEP_S);
+      const h = dt / steps;
       for (let i = 0; i < COLS; i++) {
         const f = (i === 0) ? freqJaw : freqBase;
         const w = 2 * Math.PI * f;
-        const acc = w * w * (tmp[i] - pos[i]) - 2 * zeta * w * vel[i];
-        vel[i] += acc * dt;
-        pos[i] += vel[i] * dt;
+        for (let s = 0; s < steps; s++) {
+          const acc = w * w * (tmp[i] - pos[i]) - 2 * zeta * w * vel[i];
+          vel[i] += acc * h;
+          pos[i] += vel[i] * h;
+        }
         pos[i] = clamp01(pos[i] * (exaggeration || 1));
       }
+      tap?.sample(ch.id, t, tmp, pos);
 
       return Array.from(pos);
     },
 
+    /** Live retune; non-finite values are ignored */
+    setParams(p: Partial<VisemeSchedulerParams>) {
+      for (const [k, v] of Object.entries(p) as Array<[keyof VisemeSchedulerParams, unknown]>) {
+        if (k in params && typeof v === 'number' && Number.isFinite(v)) params[k] = v;
+      }
+    },
+
+    getParams(): VisemeSchedulerParams {
+      return { ...params };
+    },
+
+    setTap(t: SchedulerTap | null) {
+      tap = t;
+    },
+
+    /** The <audio> currently driving the visemes (null when muted/idle/on the engine) */
+    audio(): HTMLAudioElement | null {
+      return (!muted && active?.audioEl) || null;
+    },
+
+    /** The engine's output tap while it is playing (prosody reads it instead of an element) */
+    analyser(): AnalyserNode | null {
+      return (!muted && timeline.length && engine?.analyser()) || null;
+    },
+
+    /** True while a chunk is playing or queued */
+    busy(): boolean {
+      return !!active || queue.length > 0 || timeline.length > 0;
+    },
+
     setMuted(v: boolean) {
       muted = !!v;
+      engine?.setMuted(muted);
       if (muted && active?.audioEl) { try { active.audioEl.pause(); } catch {} }
     },
 
-    stop() {
-      queue.length = 0;
-      if (active?.audioEl) { try { active.audioEl.pause(); } catch {} }
-      active = null;
+    stop,
+
+    /** stop() and close the AudioContext (browsers cap how many can be open); call on unmount */
+    dispose() {
+      stop();
+      engine?.close();
     },
   };
 }
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_TUNING, TUNING_RANGES, channelScale, normalizeTuning, schedulerParams } from './visemeTuning'
+
+describe('normalizeTuning', () => {
+  it('falls back to the shipped constants', () => {
+    expect(normalizeTuning(null)).toEqual(DEFAULT_TUNING)
+    expect(normalizeTuning('{broken')).toEqual(DEFAULT_TUNING)
+    expect(schedulerParams(DEFAULT_TUNING)).toEqual({ zeta: 0.84, freqBase: 7.5, freqJaw: 10, exaggeration: 1.04, crossfadeS: 0.085 })
+  })
+
+  it('keeps valid fields, clamps to the slider ranges and ignores junk', () => {
+    const t = normalizeTuning(JSON.stringify({
+      gain: 1.5, jawGain: 9, smoothing: -1, zeta: 'stiff', freqJaw: 12,
+      channelGain: [0.5, null, 3],
+    }))
+    expect(t.gain).toBe(1.5)
+    expect(t.jawGain).toBe(TUNING_RANGES.jawGain.max)
+    expect(t.smoothing).toBe(0)
+    expect(t.zeta).toBe(DEFAULT_TUNING.zeta)
+    expect(t.freqJaw).toBe(12)
+    expect(t.channelGain.slice(0, 4)).toEqual([0.5, 1, 2, 1])
+    expect(t.channelGain).toHaveLength(15)
+  })
+
+  it('never shares the default channel array', () => {
+    const t = normalizeTuning({})
+    t.channelGain[0] = 0
+    expect(DEFAULT_TUNING.channelGain[0]).toBe(1)
+  })
+})
+
+describe('channelScale', () => {
+  it('multiplies global, channel and (for jawOpen only) jaw gain', () => {
+    const t = { ...DEFAULT_TUNING, gain: 1.2, jawGain: 1.5, channelGain: DEFAULT_TUNING.channelGain.map((_, i) => (i === 3 ? 0.5 : 1)) }
+    expect(channelScale(t, 0)).toBeCloseTo(1.8)
+    expect(channelScale(t, 3)).toBeCloseTo(0.6)
+    expect(channelScale(t, 14)).toBeCloseTo(1.2)
+  })
+})
@@ -0,0 +1,78 @@
+// lib/visemeTuning.ts
+// Runtime lip-sync knobs (the tuning panel), stored per agent as `viseme_tuning`.
+// - Scheduler: spring damping/frequencies, exaggeration, chunk crossfade
+// - Canvas: smoothing EMA, then global × per-channel × jaw gain on the frame
+// Defaults equal the constants the scheduler and AvatarCanvas shipped with.
+
+import { ARKIT15 } from './morphProfile'
+
+export type VisemeTuning = {
+  gain: number            // global, all channels
+  jawGain: number         // jawOpen only, on top of gain
+  smoothing: number       // canvas EMA weight of the previous value (0 = pass-through)
+  channelGain: number[]   // ARKIT15 order
+  zeta: number            // spring damping ratio
+  freqBase: number        // Hz, most shapes
+  freqJaw: number         // Hz, jawOpen
+  exaggeration: number    // pop after the spring
+  crossfadeS: number      // chunk → chunk blend
+}
+export type TuningScalar = Exclude<keyof VisemeTuning, 'channelGain'>
+
+export const DEFAULT_TUNING: VisemeTuning = {
+  gain: 1,
+  jawGain: 1,
+  smoothing: 0.06,
+  channelGain: ARKIT15.map(() => 1),
+  zeta: 0.84,
+  freqBase: 7.5,
+  freqJaw: 10,
+  exaggeration: 1.04,
+  crossfadeS: 0.085,
+}
+
+/** Slider ranges; stored values are clamped to them */
+export const TUNING_RANGES: Record<TuningScalar, { min: number; max: number; step: number; label: string }> = {
+  gain: { min: 0.5, max: 2, step: 0.05, label: 'Viseme gain' },
+  jawGain: { min: 0.5, max: 2.2, step: 0.05, label: 'Jaw gain' },
+  smoothing: { min: 0, max: 0.8, step: 0.01, label: 'Smoothing' },
+  zeta: { min: 0.3, max: 1.5, step: 0.01, label: 'Spring damping' },
+  freqBase: { min: 2, max: 20, step: 0.5, label: 'Spring Hz (mouth)' },
+  freqJaw: { min: 2, max: 25, step: 0.5, label: 'Spring Hz (jaw)' },
+  exaggeration: { min: 0.8, max: 1.5, step: 0.01, label: 'Exaggeration' },
+  crossfadeS: { min: 0, max: 0.3, step: 0.005, label: 'Crossfade (s)' },
+}
+export const CHANNEL_GAIN_RANGE = { min: 0, max: 2, step: 0.05 }
+
+const clamp = (x: number, lo: number, hi: number) => x < lo ? lo : (x > hi ? hi : x)
+const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+
+/** Lenient reader for stored JSON: missing/bad fields fall back to defaults, values clamped to range */
+export function normalizeTuning(raw: unknown): VisemeTuning {
+  if (typeof raw === 'string') {
+    try { raw = JSON.parse(raw) } catch { raw = null }
+  }
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const out: VisemeTuning = { ...DEFAULT_TUNING, channelGain: [...DEFAULT_TUNING.channelGain] }
+  for (const k of Object.keys(TUNING_RANGES) as TuningScalar[]) {
+    const { min, max } = TUNING_RANGES[k]
+    if (finite(r[k])) out[k] = clamp(r[k], min, max)
+  }
+  if (Array.isArray(r.channelGain)) {
+    out.channelGain = out.channelGain.map((d, i) => {
+      const v = (r.channelGain as unknown[])[i]
+      return finite(v) ? clamp(v, CHANNEL_GAIN_RANGE.min, CHANNEL_GAIN_RANGE.max) : d
+    })
+  }
+  return out
+}
+
+/** Scheduler-side subset, for createVisemeScheduler().setParams */
+export function schedulerParams(t: VisemeTuning) {
+  return { zeta: t.zeta, freqBase: t.freqBase, freqJaw: t.freqJaw, exaggeration: t.exaggeration, crossfadeS: t.crossfadeS }
+}
+
+/** Gain for channel i: global × per-channel (× jaw for jawOpen); the canvas clamps the product */
+export function channelScale(t: VisemeTuning, i: number): number {
+  return t.gain * (t.channelGain[i] ?? 1) * (i === 0 ? t.jawGain : 1)
+}
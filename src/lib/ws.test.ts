@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { openWS } from './ws'
+
+class FakeSocket {
+  static OPEN = 1
+  static all: FakeSocket[] = []
+  readyState = 0
+  binaryType = ''
+  sent: string[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((ev: { data: string }) => void) | null = null
+  onerror: (() => void) | null = null
+  onclose: ((ev: { code: number; reason: string }) => void) | null = null
+  constructor(public url: string) { FakeSocket.all.push(this) }
+  send(data: string) { this.sent.push(data) }
+  close() {}
+  // --- test controls ---
+  open() { this.readyState = FakeSocket.OPEN; this.onopen?.() }
+  serve(msg: Record<string, unknown>) { this.onmessage?.({ data: JSON.stringify(msg) }) }
+  drop() { this.readyState = 3; this.onclose?.({ code: 1011, reason: '' }) }
+}
+
+const connected = (seq_epoch?: string) => ({ type: 'connected', bot_id: 'b', thread_id: 't-1', ...(seq_epoch ? { seq_epoch } : {}) })
+const token = (seq: number) => ({ type: 'text_token', token: `#${seq}`, seq })
+
+async function reconnect(prev: FakeSocket) {
+  prev.drop()
+  await vi.runAllTimersAsync()
+  const next = FakeSocket.all[FakeSocket.all.length - 1]
+  next.open()
+  return next
+}
+
+describe('openWS resume', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    FakeSocket.all = []
+    vi.stubGlobal('WebSocket', FakeSocket)
+    localStorage.setItem('thread_id', 't-1')
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  async function start() {
+    const onMsg = vi.fn()
+    openWS({ onMsg }, { baseDelayMs: 10, maxDelayMs: 10 })
+    await vi.runAllTimersAsync()
+    const ws = FakeSocket.all[0]
+    ws.open()
+    return { onMsg, ws, tokens: () => onMsg.mock.calls.map(([m]) => m).filter(m => m.type === 'text_token').map(m => m.seq) }
+  }
+
+  it('resumes from the last seq and drops events it already had', async () => {
+    const { ws, tokens } = await start()
+    ws.serve(connected('e1'))
+    ws.serve(token(1))
+    ws.serve(token(2))
+    const next = await reconnect(ws)
+    expect(JSON.parse(next.sent[0])).toEqual({ type: 'resume', last_seq: 2 })
+    next.serve(connected('e1'))
+    next.serve(token(2))
+    next.serve(token(3))
+    expect(tokens()).toEqual([1, 2, 3])
+  })
+
+  it('starts over when the server comes back under a new seq epoch', async () => {
+    const { ws, tokens } = await start()
+    ws.serve(connected('e1'))
+    for (let s = 1; s <= 5; s++) ws.serve(token(s))
+    const next = await reconnect(ws)
+    next.serve(connected('e2'))
+    next.serve(token(1))
+    next.serve(token(2))
+    expect(tokens()).toEqual([1, 2, 3, 4, 5, 1, 2])
+  })
+})
@@ -1,33 +1,39 @@
 import { ENV } from "./env";
 import { getThreadId, ensureSession } from "./session";
+import { AUDIO_FRAMING, decodeServerFrame, encodeClientMessage, formatProtocolError, validateClientMessage } from "./protocol";
+import type { ClientMessage, ClientMessageType, ProtocolError, ServerMessage } from "./protocol";
 
-export type WSMessage =
-  | { type: "connected"; bot_id: string; thread_id: string }
-  | { type: "text_query"; text: string }
-  | { type: "response_start" }
-  | { type: "emotion"; emotion: { name: string; intensity: number } }
-  | { type: "text_token"; token: string }
-  | {
-      type: "audio_response";
-      audio: string;
-      viseme: number[][];
-      viseme_times: number[];
-      viseme_format?: string;
-      frame_ms?: number;
-      duration_ms?: number;
-    }
-  | { type: "slides_response"; slides: any }
-  | { type: "slides_done" }
-  | { type: "response_done"; timings?: any }
-  | { type: "pong" }
-  | { type: "error"; message: string }
-  | { type: string; [k: string]: any };
+export type WSMessage = ServerMessage;
+
+export type WSStatus = "connecting" | "open" | "reconnecting" | "closed";
 
 export type WSHandlers = {
   onSocket?: (ws: WebSocket) => void;
   onOpen?: () => void;
   onClose?: (code?: number) => void;
   onMsg?: (msg: WSMessage) => void;
+  /** Malformed, unknown or invalid frames (in) and rejected sends (out); defaults to console.warn */
+  onProtocolError?: (err: ProtocolError) => void;
+  /** Lifecycle changes, incl. the delay before the next reconnect attempt */
+  onStatus?: (status: WSStatus, info: { attempt: number; retryInMs?: number }) => void;
+};
+
+export type WSOptions = {
+  baseDelayMs?: number;     // first retry delay (before jitter)
+  maxDelayMs?: number;      // backoff ceiling
+  maxRetries?: number;      // give up after this many failed attempts in a row
+  maxQueued?: number;       // outbound messages kept while the socket is down
+};
+
+export type WSClient = {
+  /** Sends now if open; queues resumable queries while reconnecting. Returns false if dropped. */
+  send: (msg: ClientMessage) => boolean;
+  /** Client-initiated close; never reconnects afterwards */
+  close: (code?: number, reason?: string) => void;
+  /** Drops the current socket (e.g. it stopped answering pings) and goes through the backoff path */
+  reconnect: (reason?: string) => void;
+  status: () => WSStatus;
+  socket: () => WebSocket | null;
 };
 
 function sameOriginBase(): string {
@@ -53,6 +59,7 @@ function qs(thread_id: string): string {
     bot_id: ENV.BOT_ID,
     thread_id,
     website_language: ENV.LANG || "en",
+    audio_framing: AUDIO_FRAMING,   // servers that don't know it keep sending JSON
   });
   if (ENV.API_KEY) q.set("api_key", ENV.API_KEY);
   return q.toString();
@@ -70,48 +77,169 @@ function directUrl(thread_id: string): string {
 }
 
 const HANDSHAKE_FAILURES = new Set([1006, 4403, 4000, 4004, 4005]);
+// Server said "go away for good" — retrying would only hammer it
+const NO_RETRY = new Set([1000, 4401]);
+// Only user queries are worth replaying after a blip; mute/stop/ping are stateful or stale
+const QUEUEABLE = new Set<ClientMessageType>(["text_query", "audio_query"]);
+
+function backoffDelay(attempt: number, base: number, max: number): number {
+  // "Full jitter": uniform in [0, min(max, base·2^n)], floored so we never spin
+  const ceil = Math.min(max, base * 2 ** Math.max(0, attempt - 1));
+  return Math.max(base / 2, Math.round(Math.random() * ceil));
+}
+
+export function openWS(h: WSHandlers, opts?: WSOptions): WSClient {
+  const baseDelayMs = opts?.baseDelayMs ?? 500;
+  const maxDelayMs = opts?.maxDelayMs ?? 15000;
+  const maxRetries = opts?.maxRetries ?? Infinity;
+  const maxQueued = opts?.maxQueued ?? 20;
 
-export function openWS(h: WSHandlers) {
   let closed = false;
   let active: WebSocket | null = null;
+  let status: WSStatus = "connecting";
+  let attempt = 0;          // consecutive failures since the last successful open
+  let everOpened = false;
+  let lastSeq = -1;         // highest server `seq` seen; sent back in `resume`
+  let seqEpoch: string | undefined; // the `connected.seq_epoch` lastSeq belongs to
+  let retryTimer: number | null = null;
+  let binary = false;       // the current socket's server agreed to binary audio frames
+  const outbox: ClientMessage[] = [];
 
-  (async () => {
-    const tid = await ensureThread();
-    const candidates = [proxyUrl(tid), directUrl(tid)].filter(Boolean) as string[];
-    let idx = 0;
+  const reportError = (e: ProtocolError) => {
+    if (h.onProtocolError) h.onProtocolError(e);
+    else console.warn(formatProtocolError(e), e.raw);
+  };
+
+  const setStatus = (next: WSStatus, retryInMs?: number) => {
+    status = next;
+    h.onStatus?.(next, { attempt, retryInMs });
+  };
+
+  function flush(ws: WebSocket) {
+    while (outbox.length && ws.readyState === WebSocket.OPEN) {
+      ws.send(encodeClientMessage(outbox.shift()!, binary));
+    }
+  }
 
-    function tryNext(prev?: { code?: number; reason?: string }) {
+  let candidates: string[] = [];
+  let preferred = 0;        // last endpoint that actually opened
+
+  function scheduleRetry(prev?: { code?: number; reason?: string }) {
+    if (closed) return;
+    attempt++;
+    if (attempt > maxRetries || (prev?.code != null && NO_RETRY.has(prev.code))) {
+      console.error("[WS] giving up", prev);
+      setStatus("closed");
+      h.onClose?.(prev?.code);
+      return;
+    }
+    const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+    setStatus("reconnecting", delay);
+    retryTimer = window.setTimeout(() => { retryTimer = null; connect(preferred); }, delay);
+  }
+
+  function connect(idx: number, prev?: { code?: number; reason?: string }) {
+    if (closed) return;
+    const url = candidates[idx];
+    if (!url) {
+      console.warn("[WS] all endpoints failed", prev);
+      scheduleRetry(prev);
+      return;
+    }
+    let opened = false;
+    const ws = new WebSocket(url);
+    ws.binaryType = "arraybuffer";
+    active = ws;
+    binary = false;
+    h.onSocket?.(ws);
+
+    ws.onopen = () => {
+      if (closed) return;
+      opened = true;
+      preferred = idx;
+      attempt = 0;
+      // Ask the server to replay whatever we missed, *before* new queries go out
+      if (everOpened && lastSeq >= 0) ws.send(JSON.stringify({ type: "resume", last_seq: lastSeq } satisfies ClientMessage));
+      everOpened = true;
+      setStatus("open");
+      h.onOpen?.();
+      flush(ws);
+    };
+    ws.onmessage = (ev) => {
+      const res = decodeServerFrame(ev.data);
+      if (!res.ok) { reportError(res.error); return; }
+      if (res.msg.type === "connected") {
+        binary = res.msg.audio_framing === AUDIO_FRAMING;
+        // A new epoch means the server restarted its seq (and lost its log): the old high-water
+        // mark would drop every event until seq caught up with it
+        const epoch = res.msg.seq_epoch;
+        if (epoch != null) {
+          if (seqEpoch != null && epoch !== seqEpoch) lastSeq = -1;
+          seqEpoch = epoch;
+        }
+      }
+      const { seq } = res.msg;
+      if (seq != null) {
+        if (seq <= lastSeq) return; // already delivered before the reconnect
+        lastSeq = seq;
+      }
+      h.onMsg?.(res.msg);
+    };
+    ws.onerror = (e) => console.warn("[WS] error", url, e);
+    ws.onclose = (ev) => {
+      if (active === ws) active = null;
       if (closed) return;
-      const url = candidates[idx++];
-      if (!url) {
-        console.error("[WS] all endpoints failed", prev);
-        h.onClose?.(prev?.code);
+      const prevInfo = { code: ev.code, reason: ev.reason };
+      // Never got in → try the next endpoint straight away
+      if (!opened && HANDSHAKE_FAILURES.has(ev.code) && idx + 1 < candidates.length) {
+        connect(idx + 1, prevInfo);
         return;
       }
-      const ws = new WebSocket(url);
-      active = ws;
-      h.onSocket?.(ws);
-
-      ws.onopen = () => h.onOpen?.();
-      ws.onmessage = (ev) => {
-        try { h.onMsg?.(JSON.parse(ev.data)); } catch {}
-      };
-      ws.onerror = (e) => console.warn("[WS] error", url, e);
-      ws.onclose = (ev) => {
-        if (!closed && HANDSHAKE_FAILURES.has(ev.code) && idx < candidates.length) {
-          tryNext({ code: ev.code, reason: (ev as any).reason });
-        } else {
-          h.onClose?.(ev.code);
-        }
-      };
-    }
+      scheduleRetry(prevInfo);
+    };
+  }
 
-    tryNext();
+  (async () => {
+    const tid = await ensureThread();
+    candidates = [proxyUrl(tid), directUrl(tid)].filter(Boolean) as string[];
+    connect(0);
   })();
 
-  if (!active) {
-    console.warn("⚠️ WebSocket not connected yet");
-    return null;
-  }
-  return active;
+  return {
+    send(msg) {
+      if (closed) return false;
+      const checked = validateClientMessage(msg);
+      if (!checked.ok) { reportError(checked.error); return false; }
+      if (active && active.readyState === WebSocket.OPEN) {
+        active.send(encodeClientMessage(msg, binary));
+        return true;
+      }
+      if (!QUEUEABLE.has(msg.type)) return false;
+      if (outbox.length >= maxQueued) outbox.shift();
+      outbox.push(msg);
+      return true;
+    },
+    close(code = 1000, reason?: string) {
+      closed = true;
+      if (retryTimer != null) { clearTimeout(retryTimer); retryTimer = null; }
+      outbox.length = 0;
+      try { active?.close(code, reason); } catch { /* already closed */ }
+      active = null;
+      setStatus("closed");
+    },
+    reconnect(reason = "reconnect") {
+      if (closed || !candidates.length) return;
+      const dead = active;
+      active = null;
+      if (dead) {
+        // Detach first: a half-open socket may take a long time to fire onclose
+        dead.onopen = dead.onmessage = dead.onerror = dead.onclose = null;
+        try { dead.close(4000, reason); } catch { /* already closed */ }
+      }
+      if (retryTimer != null) { clearTimeout(retryTimer); retryTimer = null; }
+      scheduleRetry({ reason });
+    },
+    status: () => status,
+    socket: () => active,
+  };
 }
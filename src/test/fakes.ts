@@ -0,0 +1,150 @@
+// test/fakes.ts
+// Hand-driven stand-ins for browser media APIs. Tests decide when metadata loads,
+// how far playback has progressed and when a recording stops.
+import { vi } from 'vitest'
+
+/* ---------------- <audio> ---------------- */
+export class FakeAudio {
+  static instances: FakeAudio[] = []
+
+  src: string
+  preload = ''
+  playsInline = false
+  currentTime = 0
+  duration = NaN
+  paused = true
+  onended: (() => void) | null = null
+  private listeners = new Map<string, Set<() => void>>()
+
+  constructor(src = '') {
+    this.src = src
+    FakeAudio.instances.push(this)
+  }
+
+  addEventListener(type: string, fn: () => void) {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set())
+    this.listeners.get(type)!.add(fn)
+  }
+  removeEventListener(type: string, fn: () => void) {
+    this.listeners.get(type)?.delete(fn)
+  }
+  play() { this.paused = false; return Promise.resolve() }
+  pause() { this.paused = true }
+
+  // --- test controls ---
+  loadMetadata(durationS: number) {
+    this.duration = durationS
+    for (const fn of [...(this.listeners.get('loadedmetadata') ?? [])]) fn()
+  }
+  seek(t: number) { this.currentTime = t }
+  finish() {
+    this.currentTime = this.duration
+    this.paused = true
+    this.onended?.()
+  }
+}
+
+export function installFakeAudio() {
+  FakeAudio.instances = []
+  vi.stubGlobal('Audio', FakeAudio)
+  return FakeAudio
+}
+
+/* ---------------- MediaRecorder / getUserMedia ---------------- */
+export class FakeMediaRecorder {
+  static last: FakeMediaRecorder | null = null
+  static isTypeSupported = (m: string) => m.startsWith('audio/webm')
+
+  state: 'inactive' | 'recording' = 'inactive'
+  ondataavailable: ((ev: { data: Blob }) => void) | null = null
+  onstop: (() => void) | null = null
+  stream: MediaStream
+  mimeType: string
+  timeslice: number | undefined
+
+  constructor(stream: MediaStream, opts?: { mimeType?: string }) {
+    this.stream = stream
+    this.mimeType = opts?.mimeType || 'audio/webm'
+    FakeMediaRecorder.last = this
+  }
+  start(timeslice?: number) {
+    this.state = 'recording'
+    this.timeslice = timeslice
+  }
+  /** One timeslice's worth of data, as a recorder started with a timeslice delivers it */
+  slice(text: string) {
+    this.ondataavailable?.({ data: new Blob([text], { type: this.mimeType }) })
+  }
+  stop() {
+    if (this.state === 'inactive') throw new DOMException('not recording', 'InvalidStateError')
+    this.state = 'inactive'
+    // Real recorders flush the last chunk *after* stop() was called
+    this.ondataavailable?.({ data: new Blob(['fake-opus-bytes'], { type: this.mimeType }) })
+    this.onstop?.()
+  }
+}
+
+export function fakeStream() {
+  const track = { stop: vi.fn() }
+  return { stream: { getTracks: () => [track] } as unknown as MediaStream, track }
+}
+
+/** `devices`: audio inputs enumerateDevices reports; asking for any other exact deviceId fails like an unplugged mic */
+export function installFakeMic(opts?: { deny?: boolean; devices?: Array<{ deviceId: string; label: string }> }) {
+  FakeMediaRecorder.last = null
+  vi.stubGlobal('MediaRecorder', FakeMediaRecorder)
+  const devices = opts?.devices ?? []
+  const getUserMedia = vi.fn(async (c?: MediaStreamConstraints) => {
+    if (opts?.deny) throw new DOMException('denied', 'NotAllowedError')
+    const wanted = typeof c?.audio === 'object' ? (c.audio.deviceId as { exact?: string } | undefined)?.exact : undefined
+    if (wanted && !devices.some(d => d.deviceId === wanted)) throw new DOMException('no such device', 'OverconstrainedError')
+    return fakeStream().stream
+  })
+  const enumerateDevices = vi.fn(async () => devices.map(d => ({ ...d, kind: 'audioinput', groupId: '' }) as MediaDeviceInfo))
+  const listeners = new Set<() => void>()
+  const mediaDevices = {
+    getUserMedia,
+    enumerateDevices,
+    addEventListener: (_type: string, fn: () => void) => { listeners.add(fn) },
+    removeEventListener: (_type: string, fn: () => void) => { listeners.delete(fn) },
+  }
+  vi.stubGlobal('navigator', { ...navigator, mediaDevices })
+  return { getUserMedia, enumerateDevices, devicechange: () => listeners.forEach(fn => fn()) }
+}
+
+/* ---------------- WebAudio engine (lib/audioEngine.ts) ---------------- */
+type FakeSource = { b64: string; at: number; duration: number; ended: boolean; stopped: boolean; onEnded: () => void }
+
+/** Decodes instantly (duration per payload, default 1 s); the context clock moves only via advance() */
+export function createFakeAudioEngine(durations: Record<string, number> = {}) {
+  const state = { now: 0, running: true, failDecode: new Set<string>() }
+  const played: FakeSource[] = []
+  const engine = {
+    running: () => state.running,
+    now: () => state.now,
+    decode: vi.fn(async (b64: string) => {
+      if (state.failDecode.has(b64)) throw new Error('cannot decode')
+      return { duration: durations[b64] ?? 1, b64 } as unknown as AudioBuffer
+    }),
+    play(buf: AudioBuffer, at: number, onEnded: () => void) {
+      const src: FakeSource = { b64: (buf as unknown as { b64: string }).b64, at, duration: buf.duration, ended: false, stopped: false, onEnded }
+      played.push(src)
+      return { stop() { src.stopped = true } }
+    },
+    setMuted: vi.fn(),
+    analyser: () => null,
+    close: vi.fn(),
+  }
+  return {
+    engine,
+    state,
+    played,
+    /** Moves the context clock and ends every source that has finished by then */
+    advance(s: number) {
+      state.now += s
+      for (const src of played) {
+        if (!src.ended && !src.stopped && src.at + src.duration <= state.now) { src.ended = true; src.onEnded() }
+      }
+    },
+  }
+}
@@ -0,0 +1,17 @@
+// test/setup.ts — jsdom gaps the components rely on
+import { afterEach } from 'vitest'
+import { cleanup } from '@testing-library/react'
+
+afterEach(() => cleanup())
+
+if (!Element.prototype.scrollTo) {
+  Element.prototype.scrollTo = function scrollTo() {}
+}
+
+if (typeof globalThis.ResizeObserver === 'undefined') {
+  globalThis.ResizeObserver = class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  }
+}
@@ -1,14 +1,41 @@
 // components/App.tsx
 import React from 'react'
 import { ENV } from '../lib/env'
-import { ensureSession } from '../lib/session'
-import { fetchAgent, saveAgentGlb } from '../lib/agent'
+import { branchThread, ensureSession, rotateSession, setThreadId as storeThreadId } from '../lib/session'
+import { fetchAgent, saveAgentGlb, saveAgentMorphProfile, saveAgentTuning } from '../lib/agent'
+import { normalizeMorphProfile } from '../lib/morphProfile'
+import { normalizeTuning } from '../lib/visemeTuning'
+import type { VisemeTuning } from '../lib/visemeTuning'
+import type { MorphProfile } from '../lib/morphProfile'
 import AvatarCanvas from './AvatarCanvas'
+import type { MorphMappingReport } from './AvatarCanvas'
 import SlidesPane from './SlidesPane'
+import type { SlideFocus } from './SlidesPane'
 import ChatPane from './ChatPane'
+import type { ChatFocus } from './ChatPane'
 import RPMEmbed from './RPMEmbed'
+import TuningPanel from './TuningPanel'
+import VisemeDebugger from './VisemeDebugger'
+import ThreadSidebar from './ThreadSidebar'
+import SearchPalette from './SearchPalette'
+import type { SearchHit } from '../lib/search'
+import type { SlidesDeck } from '../lib/transcript'
+import { createVisemeRecorder } from '../lib/visemeDebug'
+import type { ProsodyMotion } from '../lib/prosody'
+import { isTextEditingTarget } from '../lib/shortcuts'
 
 const LS_GLB = 'glb_url'
+const LS_MORPH_PROFILE = 'morph_profile'
+const LS_TUNING = 'viseme_tuning'
+/** "Test Mouth": jaw fully open for a moment, bypassing the scheduler */
+const TEST_MOUTH = [1, ...new Array(14).fill(0)]
+const TEST_MOUTH_MS = 600
+
+/** A stored profile only applies to the avatar it was made for */
+function profileFor(raw: unknown, glb: string): MorphProfile | null {
+  const p = normalizeMorphProfile(raw)
+  return p && (!p.glb || p.glb === glb) ? p : null
+}
 
 function Chip({ children }: { children: React.ReactNode }) {
   return (
@@ -21,22 +48,26 @@ function Skeleton({ className='' }: { className?: string }) {
   return <div className={`animate-pulse rounded bg-slate-200/70 ${className}`} />
 }
 
-function isTextEditingTarget(t: EventTarget | null) {
-  const el = t as HTMLElement | null
-  if (!el) return false
-  const tag = el.tagName?.toLowerCase()
-  // @ts-ignore
-  const editable = !!el.isContentEditable
-  return tag === 'input' || tag === 'textarea' || editable
-}
-
 export default function App() {
   // --- boot / state ---
   const [threadId, setThreadId] = React.useState<string>('')
   const [sessionReady, setSessionReady] = React.useState(false)
+  // Bumped when the user switches threads: ChatPane and SlidesPane remount on the new one
+  // (socket, history, slides). A thread id adopted from the server doesn't bump it.
+  const [threadEpoch, setThreadEpoch] = React.useState(0)
+  const [threadsOpen, setThreadsOpen] = React.useState(false)
+  // search palette; a picked hit becomes a focus request for ChatPane or SlidesPane
+  const [searchOpen, setSearchOpen] = React.useState(false)
+  const [chatFocus, setChatFocus] = React.useState<ChatFocus | null>(null)
+  const [slideFocus, setSlideFocus] = React.useState<SlideFocus | null>(null)
+  // edit-and-resend: the edited message, sent by the branch's ChatPane once it connects
+  const [branchQuery, setBranchQuery] = React.useState<string | null>(null)
 
   const [glbUrl, setGlbUrl] = React.useState<string>('') // drives AvatarCanvas
   const [rpmOpen, setRpmOpen] = React.useState(false)
+  const [morphProfile, setMorphProfile] = React.useState<MorphProfile | null>(null)
+  const [morphMapping, setMorphMapping] = React.useState<MorphMappingReport | null>(null)
+  const [tuning, setTuning] = React.useState<VisemeTuning>(() => normalizeTuning(localStorage.getItem(LS_TUNING)))
 
   const [bootError, setBootError] = React.useState<string | null>(null)
   const [loadingAgent, setLoadingAgent] = React.useState(true)
@@ -48,10 +79,26 @@ export default function App() {
   // visemes wiring for AvatarCanvas
   const lastFrame = React.useRef<number[] | null>(null)
   const getVisemeFrameRef = React.useRef<() => number[] | null>(() => lastFrame.current)
+  const testMouthUntil = React.useRef(0)
+  // timeline debugger: records chunks while its panel is open; while scrubbing its frame replaces the scheduler's
+  const visemeRecorder = React.useMemo(() => createVisemeRecorder(), [])
+  const [timelineOpen, setTimelineOpen] = React.useState(false)
+  const scrubFrame = React.useRef<number[] | null>(null)
+  const onScrubFrame = React.useCallback((f: number[] | null) => { scrubFrame.current = f }, [])
   const getVisemeFrame = React.useCallback(
-    () => (getVisemeFrameRef.current ? getVisemeFrameRef.current() : null),
+    () => performance.now() < testMouthUntil.current
+      ? TEST_MOUTH
+      : scrubFrame.current ?? (getVisemeFrameRef.current ? getVisemeFrameRef.current() : null),
     []
   )
+  // expression layer (emotion → brows/eyes/cheeks), owned by ChatPane
+  const getExpressionFrameRef = React.useRef<() => number[] | null>(() => null)
+  const getExpressionFrame = React.useCallback(() => getExpressionFrameRef.current(), [])
+  // prosody (speech → head nods/tilts, brow raises), also owned by ChatPane
+  const getProsodyRef = React.useRef<(dt: number) => ProsodyMotion | null>(() => null)
+  const getProsody = React.useCallback((dt: number) => getProsodyRef.current(dt), [])
+  // the slide deck on screen, for ChatPane's transcript export; filled by SlidesPane
+  const getSlidesDeckRef = React.useRef<() => SlidesDeck | null>(() => null)
 
   // --- ensure session first ---
   React.useEffect(() => {
@@ -70,6 +117,42 @@ export default function App() {
     return () => { cancelled = true }
   }, [])
 
+  // --- thread switching (sidebar, rotate) ---
+  const openThread = React.useCallback((t: string) => {
+    storeThreadId(t)
+    setThreadId(t)
+    setWsSlides(null)
+    setSlidesStreaming(false)
+    setThreadEpoch(e => e + 1)
+    setThreadsOpen(false)
+    setChatFocus(null)
+    setSlideFocus(null)
+    setBranchQuery(null)
+  }, [])
+  const newThread = React.useCallback(async () => {
+    try {
+      openThread(await rotateSession())
+    } catch { alert('Rotate failed') }
+  }, [openThread])
+  const onBranch = React.useCallback(async (beforeId: string, text: string) => {
+    if (!threadId) return
+    try {
+      openThread(await branchThread(threadId, beforeId))
+      setBranchQuery(text)
+    } catch { alert('Branch failed') }
+  }, [threadId, openThread])
+  const onThreadDeleted = React.useCallback((t: string) => {
+    if (t === threadId) void newThread()
+  }, [threadId, newThread])
+  const onSearchPick = React.useCallback((hit: SearchHit) => {
+    setSearchOpen(false)
+    if (hit.thread_id !== threadId) openThread(hit.thread_id)
+    // the nonce makes picking the same hit twice jump again
+    const nonce = Date.now()
+    if (hit.kind === 'chat') setChatFocus({ rowId: hit.row_id, side: hit.side, nonce })
+    else setSlideFocus({ version: hit.version, nonce })
+  }, [threadId, openThread])
+
   // --- load agent avatar (server → LS fallback) ---
   React.useEffect(() => {
     let cancelled = false
@@ -79,14 +162,19 @@ export default function App() {
         const fromLs = localStorage.getItem(LS_GLB) || ''
         const agent = await fetchAgent().catch(() => null)
         if (cancelled) return
+        if (agent?.viseme_tuning) setTuning(normalizeTuning(agent.viseme_tuning))
         const serverGlb = agent?.glb_url || ''
         const chosen = serverGlb || fromLs
-        if (chosen) setGlbUrl(chosen)
-        else setRpmOpen(true)
+        if (chosen) {
+          setGlbUrl(chosen)
+          setMorphProfile(profileFor(agent?.morph_profile, chosen) ?? profileFor(localStorage.getItem(LS_MORPH_PROFILE), chosen))
+        } else setRpmOpen(true)
       } catch {
         const fromLs = localStorage.getItem(LS_GLB) || ''
-        if (fromLs) setGlbUrl(fromLs)
-        else setRpmOpen(true)
+        if (fromLs) {
+          setGlbUrl(fromLs)
+          setMorphProfile(profileFor(localStorage.getItem(LS_MORPH_PROFILE), fromLs))
+        } else setRpmOpen(true)
       } finally {
         if (!cancelled) setLoadingAgent(false)
       }
@@ -94,7 +182,7 @@ export default function App() {
     return () => { cancelled = true }
   }, [])
 
-  // --- SAFE keyboard shortcut: Ctrl/Cmd + Shift + A (ignore while typing) ---
+  // --- SAFE keyboard shortcuts: Ctrl/Cmd + Shift + A (ignored while typing), Ctrl/Cmd + K ---
   React.useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
       const k = e.key?.toLowerCase()
@@ -103,6 +191,11 @@ export default function App() {
         e.preventDefault()
         setRpmOpen(true)
       }
+      // search works from a text field too: it's a chord, nothing a user types by accident
+      if (k === 'k' && (e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey) {
+        e.preventDefault()
+        setSearchOpen(o => !o)
+      }
     }
     window.addEventListener('keydown', onKey, { passive: false })
     return () => window.removeEventListener('keydown', onKey)
@@ -112,13 +205,39 @@ export default function App() {
   async function onAvatarExport(glb: string) {
     try {
       setGlbUrl(glb)
+      setMorphProfile(null) // re-detected once the new GLB loads
       localStorage.setItem(LS_GLB, glb)
+      localStorage.removeItem(LS_MORPH_PROFILE)
       await saveAgentGlb(glb).catch(() => {})
     } finally {
       setRpmOpen(false)
     }
   }
 
+  // --- morph mapping: keep an auto-detected profile (server + local) so it can be tuned later ---
+  const onMorphMapping = React.useCallback((r: MorphMappingReport) => {
+    setMorphMapping(r)
+    if (!r.detected) return
+    setMorphProfile(r.profile)
+    localStorage.setItem(LS_MORPH_PROFILE, JSON.stringify(r.profile))
+    saveAgentMorphProfile(r.profile).catch(() => {})
+  }, [])
+
+  // --- lip-sync tuning: live + local autosave; presets live on the agent ---
+  const onTuningChange = React.useCallback((t: VisemeTuning) => {
+    setTuning(t)
+    localStorage.setItem(LS_TUNING, JSON.stringify(t))
+  }, [])
+  const saveTuningPreset = React.useCallback(async () => {
+    await saveAgentTuning(tuning)
+  }, [tuning])
+  const loadTuningPreset = React.useCallback(async () => {
+    const agent = await fetchAgent()
+    if (!agent?.viseme_tuning) throw new Error('No preset saved for this agent')
+    onTuningChange(normalizeTuning(agent.viseme_tuning))
+  }, [onTuningChange])
+  const testMouth = React.useCallback(() => { testMouthUntil.current = performance.now() + TEST_MOUTH_MS }, [])
+
   return (
     // FULL SCREEN, compact bar only
     <div className="h-dvh w-dvw bg-slate-50">
@@ -127,9 +246,34 @@ export default function App() {
         <div className="shrink-0 border-b border-slate-200 bg-white">
           <div className="mx-auto max-w-7xl px-3 md:px-4 py-2 flex items-center justify-between gap-2">
             <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => setThreadsOpen(true)}
+                disabled={!sessionReady}
+                className="rounded-lg border border-slate-300 px-3 py-1.5 text-xs text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                title="Past conversations"
+              >
+                Conversations
+              </button>
+              <button
+                onClick={() => setSearchOpen(true)}
+                disabled={!sessionReady}
+                className="rounded-lg border border-slate-300 px-3 py-1.5 text-xs text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                title="Search messages and slides (Ctrl/Cmd + K)"
+              >
+                Search
+              </button>
               <Chip>bot: <span className="ml-1 font-mono">{ENV.BOT_ID || '—'}</span></Chip>
               <Chip>lang: <span className="ml-1 font-mono">{ENV.LANG}</span></Chip>
               <Chip>thread: <span className="ml-1 font-mono">{threadId || '…'}</span></Chip>
+              {morphMapping && (
+                <span title={morphMapping.missing.length ? `Unmapped: ${morphMapping.missing.join(', ')}` : 'All ARKit-15 channels mapped'}>
+                  <Chip>
+                    mouth: <span className={`ml-1 font-mono ${morphMapping.mapped.length ? '' : 'text-amber-600'}`}>
+                      {morphMapping.mapped.length}/15 {morphMapping.profile.rig}
+                    </span>
+                  </Chip>
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-2">
               {!!bootError && (
@@ -141,6 +285,13 @@ export default function App() {
                   Retry
                 </button>
               )}
+              <button
+                onClick={() => setTimelineOpen(o => !o)}
+                className={`rounded-lg px-3 py-1.5 text-xs border ${timelineOpen ? 'border-slate-700 bg-slate-700 text-white' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+                title="Viseme/audio timeline debugger"
+              >
+                Timeline
+              </button>
               <button
                 onClick={() => setRpmOpen(true)}
                 className="rounded-lg bg-emerald-600 text-white px-3 py-1.5 text-xs hover:bg-emerald-700"
@@ -165,8 +316,16 @@ export default function App() {
                     <div className="mt-3 text-xs text-slate-500">Loading avatar…</div>
                   </>
                 ) : (
-                  <div className="h-full min-h-[200px]">
-                    <AvatarCanvas glbUrl={glbUrl} getVisemeFrame={getVisemeFrame} className="h-full" zoom={0.3} />
+                  <div className="relative h-full min-h-[200px]">
+                    <AvatarCanvas glbUrl={glbUrl} getVisemeFrame={getVisemeFrame} getExpressionFrame={getExpressionFrame} getProsody={getProsody} morphProfile={morphProfile} onMorphMapping={onMorphMapping} tuning={tuning} className="h-full" zoom={0.3} />
+                    <TuningPanel
+                      className="absolute right-2 top-2 z-10 w-64"
+                      value={tuning}
+                      onChange={onTuningChange}
+                      onSave={saveTuningPreset}
+                      onLoad={loadTuningPreset}
+                      onTestMouth={testMouth}
+                    />
                   </div>
                 )}
               </div>
@@ -176,11 +335,21 @@ export default function App() {
                 {sessionReady ? (
                   <div className="h-full min-h-0">
                     <ChatPane
+                      key={threadEpoch}
                       onSlides={(s) => setWsSlides(s)}
                       onSlidesStreaming={(on) => setSlidesStreaming(on)}
                       onSlidesDone={() => setSlidesStreaming(false)}
                       getVisemeFrameRef={getVisemeFrameRef}
+                      getExpressionFrameRef={getExpressionFrameRef}
+                      getProsodyRef={getProsodyRef}
+                      tuning={tuning}
+                      visemeTap={timelineOpen ? visemeRecorder.tap : undefined}
                       onThreadRotated={(t) => setThreadId(t)}
+                      onNewThread={newThread}
+                      focus={chatFocus}
+                      getSlidesDeckRef={getSlidesDeckRef}
+                      onBranch={onBranch}
+                      initialQuery={branchQuery}
                     />
                   </div>
                 ) : (
@@ -201,14 +370,45 @@ export default function App() {
               </div>
               <div className="flex-1 min-h-0">
                 <SlidesPane className="h-full"
+                  key={threadEpoch}
                   incoming={wsSlides}
                   streaming={slidesStreaming}
+                  focus={slideFocus}
+                  deckRef={getSlidesDeckRef}
                 />
               </div>
             </section>
           </div>
         </main>
 
+        {threadsOpen && (
+          <ThreadSidebar
+            currentId={threadId}
+            onOpen={openThread}
+            onNew={() => void newThread()}
+            onDeleted={onThreadDeleted}
+            onClose={() => setThreadsOpen(false)}
+          />
+        )}
+
+        {searchOpen && sessionReady && (
+          <SearchPalette
+            currentId={threadId}
+            onPick={onSearchPick}
+            onClose={() => setSearchOpen(false)}
+          />
+        )}
+
+        {/* Viseme timeline debugger */}
+        {timelineOpen && (
+          <VisemeDebugger
+            className="fixed inset-x-3 bottom-3 z-40 md:inset-x-6"
+            recorder={visemeRecorder}
+            onFrame={onScrubFrame}
+            onClose={() => setTimelineOpen(false)}
+          />
+        )}
+
         {/* RPM Modal */}
         {rpmOpen && (
           <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
@@ -3,46 +3,46 @@ import * as React from 'react'
 import * as THREE from 'three'
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { EXPRESSION } from '../lib/expression'
+import { IDLE_MORPHS, createIdleDriver, idleMorphs } from '../lib/idle'
+import { BROW_RAISE } from '../lib/prosody'
+import type { ProsodyMotion } from '../lib/prosody'
+import { ARKIT15, applyMorphMap, compileMorphProfile, detectMorphProfile, lcKey } from '../lib/morphProfile'
+import type { Channel, MorphMap, MorphProfile } from '../lib/morphProfile'
+import { DEFAULT_TUNING, channelScale } from '../lib/visemeTuning'
+import type { VisemeTuning } from '../lib/visemeTuning'
+
+export type MorphMappingReport = {
+  profile: MorphProfile
+  detected: boolean        // true when auto-detected (nothing stored for this avatar)
+  mapped: Channel[]
+  missing: Channel[]
+}
 
 type Props = {
   glbUrl: string
   getVisemeFrame: () => number[] | null
+  /** Emotion layer in EXPRESSION order; added on top of the visemes */
+  getExpressionFrame?: () => number[] | null
+  /** Speech-driven head motion + brow raise; called once per frame with dt (s) */
+  getProsody?: (dt: number) => ProsodyMotion | null
   className?: string
   height?: number | string
   zoom?: number
+  /** Blinks, saccades, breathing and head sway (default on) */
+  idle?: boolean
+  /** Stored viseme→morph mapping for this avatar; auto-detected from the GLB when absent */
+  morphProfile?: MorphProfile | null
+  /** Called after each (re)mapping, e.g. to save an auto-detected profile */
+  onMorphMapping?: (r: MorphMappingReport) => void
+  /** Smoothing + gains from the tuning panel; read every frame, no reload */
+  tuning?: VisemeTuning
 }
 
-/** ARKIT-15 canonical names (indices must match server) */
-const ARKIT = [
-  'jawOpen','mouthFunnel','mouthClose','mouthPucker',
-  'mouthSmileLeft','mouthSmileRight','mouthLeft','mouthRight',
-  'mouthFrownLeft','mouthFrownRight','mouthDimpleLeft','mouthDimpleRight',
-  'mouthStretchLeft','mouthStretchRight','tongueOut'
-] as const
-
-/** tolerant alias map (case/underscore insensitive) */
-const ALIASES: Record<string, string[]> = {
-  jawopen: ['jawopen','mouthopen','viseme_aa','jaw_open'],
-  mouthfunnel: ['mouthfunnel','lipsfunnel','viseme_ow','viseme_ou','viseme_oh','mouth_funnel'],
-  mouthclose: ['mouthclose','lipsclose','mouth_close','viseme_m','viseme_b','viseme_p'],
-  mouthpucker: ['mouthpucker','lipspucker','viseme_uw','viseme_w','mouth_pucker'],
-  mouthsmileleft: ['mouthsmileleft','mouthsmile','mouth_smileleft','mouth_smile_left'],
-  mouthsmileright: ['mouthsmileright','mouth_smile_right','mouth_smileright'],
-  mouthleft: ['mouthleft','mouth_left'],
-  mouthright: ['mouthright','mouth_right'],
-  mouthfrownleft: ['mouthfrownleft','mouth_frownleft','mouth_frown_left'],
-  mouthfrownright: ['mouthfrownright','mouth_frownright','mouth_frown_right'],
-  mouthdimpleleft: ['mouthdimpleleft','mouth_dimpleleft','mouth_dimple_left'],
-  mouthdimpleright: ['mouthdimpleright','mouth_dimpleright','mouth_dimple_right'],
-  mouthstretchleft: ['mouthstretchleft','mouth_stretchleft','mouth_stretch_left','viseme_s','viseme_z'],
-  mouthstretchright: ['mouthstretchright','mouth_stretchright','mouth_stretch_right','viseme_s','viseme_z'],
-  tongueout: ['tongueout','tongue','tongue_out']
-}
-const lcKey = (s: string) => s.toLowerCase().replace(/[\s_-]+/g, '')
-
 /* ---------------- precise head-first framing ---------------- */
 const HEAD_NAMES = ['HeadTop_End','HeadTop','Head','J_Bip_C_Head','mixamorigHead','CC_Base_Head','HED','head'].map(s=>s.toLowerCase())
 const NECK_NAMES = ['Neck','J_Bip_C_Neck','mixamorigNeck','CC_Base_Neck','neck'].map(s=>s.toLowerCase())
+const CHEST_NAMES = ['Spine2','J_Bip_C_UpperChest','J_Bip_C_Chest','mixamorigSpine2','CC_Base_Spine02','UpperChest','Chest'].map(s=>s.toLowerCase())
 
 function findNode(root: THREE.Object3D, namesLower: string[]): THREE.Object3D | null {
   let hit: THREE.Object3D | null = null
@@ -100,13 +100,76 @@ function frameFaceStrict(
   controls.update()
 }
 
+/* ---------------- morph mapping ---------------- */
+type MorphMesh = { influences: number[]; dict: Record<string, number> }
+type MeshTargets = {
+  influences: number[]
+  controlled: number[]
+  map: MorphMap
+  exprIdx: Int16Array
+  idleIdx: Int16Array
+}
+
+function namedIdx(dictLc: Record<string, number>, names: readonly string[]): Int16Array {
+  const out = new Int16Array(names.length).fill(-1)
+  names.forEach((n, j) => { const idx = dictLc[lcKey(n)]; if (idx != null) out[j] = idx })
+  return out
+}
+
+/** Visemes go through the profile; expression/idle shapes use exact ARKit names only (RPM/ARKit exports have them) */
+function mapMeshes(meshes: MorphMesh[], stored: MorphProfile | null | undefined, glb: string) {
+  const profile = stored ?? detectMorphProfile(meshes.flatMap(m => Object.keys(m.dict)), glb)
+  const targets: MeshTargets[] = []
+  const mapped = new Set<Channel>()
+  for (const { influences, dict } of meshes) {
+    const dictLc: Record<string, number> = {}
+    for (const [k, v] of Object.entries(dict)) dictLc[lcKey(k)] = v
+    const map = compileMorphProfile(profile, dict)
+    map.channels.forEach(c => mapped.add(c))
+    const exprIdx = namedIdx(dictLc, EXPRESSION)
+    const idleIdx = namedIdx(dictLc, IDLE_MORPHS)
+    const controlled = [...new Set([...map.targets, ...exprIdx, ...idleIdx].filter(i => i >= 0))]
+    if (controlled.length) targets.push({ influences, controlled, map, exprIdx, idleIdx })
+  }
+  const report: MorphMappingReport = {
+    profile,
+    detected: !stored,
+    mapped: ARKIT15.filter(c => mapped.has(c)),
+    missing: ARKIT15.filter(c => !mapped.has(c)),
+  }
+  return { targets, report }
+}
+
+const BROW_IDX = Object.entries(BROW_RAISE).map(([k, w]) => [EXPRESSION.indexOf(k as typeof EXPRESSION[number]), w] as const)
+
+/* ---------------- procedural bone offsets ---------------- */
+type PosedBone = { bone: THREE.Object3D; rest: THREE.Quaternion }
+const _euler = new THREE.Euler()
+const _quat = new THREE.Quaternion()
+
+function posedBone(root: THREE.Object3D, names: string[]): PosedBone | null {
+  const bone = findNode(root, names)
+  return bone ? { bone, rest: bone.quaternion.clone() } : null
+}
+/** rest pose × small local rotation (radians); never accumulates frame to frame */
+function poseBone(b: PosedBone | null, x: number, y: number, z: number) {
+  if (!b) return
+  b.bone.quaternion.copy(b.rest).multiply(_quat.setFromEuler(_euler.set(x, y, z)))
+}
+
 /* ---------------- component ---------------- */
 export default function AvatarCanvas({
   glbUrl,
   getVisemeFrame,
+  getExpressionFrame,
+  getProsody,
   className = '',
   height = 180,
-  zoom = 2
+  zoom = 2,
+  idle = true,
+  morphProfile,
+  onMorphMapping,
+  tuning = DEFAULT_TUNING
 }: Props) {
   const hostRef = React.useRef<HTMLDivElement>(null)
 
@@ -116,15 +179,43 @@ export default function AvatarCanvas({
     renderer: THREE.WebGLRenderer
     controls: OrbitControls
   } | null>(null)
-  const arkitTargets = React.useRef<Array<{
-    influences: number[]
-    controlled: number[]
-    mapIdx: Int16Array
-  }>>([])
+  const arkitTargets = React.useRef<MeshTargets[]>([])
+  const morphMeshes = React.useRef<MorphMesh[]>([])
+  // read at (re)map time so a newly saved profile doesn't reload the GLB
+  const profileRef = React.useRef(morphProfile)
+  profileRef.current = morphProfile
+  const onMappingRef = React.useRef(onMorphMapping)
+  onMappingRef.current = onMorphMapping
+  const usedProfile = React.useRef<MorphProfile | null>(null)
+
+  const remap = React.useCallback((glb: string) => {
+    const { targets, report } = mapMeshes(morphMeshes.current, profileRef.current, glb)
+    arkitTargets.current = targets
+    usedProfile.current = report.profile
+    if (!report.mapped.length) {
+      console.warn('[AvatarCanvas] ⚠️ No viseme morph targets matched. Check the GLB morph names or the avatar\'s morph profile.')
+    } else {
+      console.info(`[AvatarCanvas] ${report.mapped.length}/15 viseme channels mapped on ${targets.length} mesh(es) (${report.profile.rig}${report.detected ? ', auto-detected' : ''}).`)
+    }
+    onMappingRef.current?.(report)
+  }, [])
+  const rig = React.useRef<{
+    root: THREE.Object3D
+    head: PosedBone | null
+    neck: PosedBone | null
+    chest: PosedBone | null
+  } | null>(null)
 
-  // Minimal smoothing just to prevent tiny float noise — keep tiny.
+  // Minimal smoothing just to prevent tiny float noise — keep tiny (scheduler already smooths).
   const vis = React.useRef<Float32Array>(new Float32Array(15))
-  const ema = 0.06   // small; scheduler already smooths
+  const tuned = React.useRef<Float32Array>(new Float32Array(15))
+  const tuningRef = React.useRef(tuning)
+  tuningRef.current = tuning
+  // read every frame too: toggling idle or a new getter must not reload the GLB
+  const idleRef = React.useRef(idle)
+  idleRef.current = idle
+  const framesRef = React.useRef({ getVisemeFrame, getExpressionFrame, getProsody })
+  framesRef.current = { getVisemeFrame, getExpressionFrame, getProsody }
 
   React.useEffect(() => {
     const el = hostRef.current!
@@ -175,37 +266,19 @@ export default function AvatarCanvas({
       scene.updateMatrixWorld(true)
       root.updateMatrixWorld(true)
 
-      // map ARKit indices
-      arkitTargets.current = []
-      let meshesMapped = 0
+      // collect morph meshes, then map them through the avatar's profile
+      morphMeshes.current = []
       root.traverse((obj: any) => {
         if (!(obj?.isMesh && obj.morphTargetDictionary && obj.morphTargetInfluences)) return
-        const dict: Record<string, number> = obj.morphTargetDictionary
-        const dictLc: Record<string, number> = {}
-        for (const [k, v] of Object.entries(dict)) dictLc[lcKey(k)] = v
-
-        const mapIdx = new Int16Array(15).fill(-1)
-        const controlled: number[] = []
-        for (let i = 0; i < ARKIT.length; i++) {
-          const canon = lcKey(ARKIT[i])
-          let idx = dictLc[canon]
-          if (idx == null) {
-            const alts = (ALIASES as any)[canon] || []
-            for (const alt of alts) { idx = dictLc[lcKey(alt)]; if (idx != null) break }
-          }
-          if (idx != null) { mapIdx[i] = idx; controlled.push(idx) }
-        }
-        if (controlled.length) {
-          arkitTargets.current.push({ influences: obj.morphTargetInfluences as number[], controlled, mapIdx })
-          meshesMapped++
-        }
+        morphMeshes.current.push({ influences: obj.morphTargetInfluences as number[], dict: obj.morphTargetDictionary })
       })
+      remap(glbUrl)
 
-      if (!arkitTargets.current.length) {
-        console.warn('[AvatarCanvas] ⚠️ No ARKit-compatible morph targets found. Check RPM export/names.')
-      } else {
-        // eslint-disable-next-line no-console
-        console.log(`[AvatarCanvas] ARKit morphs mapped on ${meshesMapped} mesh(es).`)
+      rig.current = {
+        root,
+        head: posedBone(root, HEAD_NAMES),
+        neck: posedBone(root, NECK_NAMES),
+        chest: posedBone(root, CHEST_NAMES),
       }
 
       try {
@@ -220,6 +293,14 @@ export default function AvatarCanvas({
       )
     })
 
+    // idle layer state (the driver comes and goes with the `idle` prop)
+    let idleDrv: ReturnType<typeof createIdleDriver> | null = null
+    let posed = false         // head/neck/chest are off their rest pose
+    let speaking = 0          // envelope of mouth activity; slow release bridges word gaps
+    let lastT = performance.now()
+    const headW = new THREE.Vector3()
+    const camL = new THREE.Vector3()
+
     // render loop
     let raf = 0
     const loop = () => {
@@ -230,7 +311,10 @@ export default function AvatarCanvas({
       }
       controls.update()
 
+      const { getVisemeFrame, getExpressionFrame, getProsody } = framesRef.current
       const f = getVisemeFrame()
+      const tn = tuningRef.current
+      const ema = tn.smoothing
       if (Array.isArray(f) && f.length >= 15) {
         // Small EMA only; otherwise pass-through (server owns shaping)
         for (let i = 0; i < 15; i++) {
@@ -242,13 +326,73 @@ export default function AvatarCanvas({
         for (let i = 0; i < 15; i++) vis.current[i] *= 0.94
       }
 
-      // write influences
+      const now = performance.now()
+      const dt = Math.min(0.1, (now - lastT) / 1000)
+      lastT = now
+
+      // expression layer, plus prosody brow raises on top of it
+      let ex = getExpressionFrame?.() ?? null
+      const pros = getProsody?.(dt) ?? null
+      if (pros && pros.brow > 0) {
+        ex = ex ? ex.slice() : new Array(EXPRESSION.length).fill(0)
+        for (const [j, w] of BROW_IDX) ex[j] += pros.brow * w
+      }
+      // head offsets: idle sway + prosody, applied once to the rest pose
+      let hp = pros?.head.pitch ?? 0, hy = pros?.head.yaw ?? 0, hr = pros?.head.roll ?? 0
+      const mouth = Math.max(vis.current[0], vis.current[1], vis.current[3], vis.current[12])
+      const env = Math.min(1, mouth * 3)
+      speaking += (env - speaking) * (1 - Math.exp(-dt / (env > speaking ? 0.12 : 0.8)))
+
+      // idle: eyes follow the camera (+ saccades), body breathes, head sways
+      let idleW: number[] | null = null
+      const r = rig.current
+      if (idleRef.current) idleDrv ??= createIdleDriver()
+      else if (idleDrv) {
+        idleDrv = null
+        poseBone(r?.chest ?? null, 0, 0, 0)   // only idle breathes; prosody leaves the chest alone
+      }
+      if (idleDrv) {
+        const pose = idleDrv.update(dt, speaking)
+        let lookYaw = 0, lookPitch = 0
+        if (r?.head) {
+          // camera direction in avatar space (glTF avatars face +Z)
+          r.head.bone.getWorldPosition(headW)
+          r.root.worldToLocal(headW)
+          r.root.worldToLocal(camL.copy(camera.position)).sub(headW)
+          lookYaw = Math.atan2(camL.x, camL.z)
+          lookPitch = Math.atan2(camL.y, Math.hypot(camL.x, camL.z))
+        }
+        idleW = idleMorphs(pose, lookYaw, lookPitch)
+        hp += pose.head.pitch; hy += pose.head.yaw; hr += pose.head.roll
+        poseBone(r?.chest ?? null, -0.012 * pose.breath, 0, 0)
+      }
+      if (idleDrv || pros) {
+        poseBone(r?.neck ?? null, hp * 0.4, hy * 0.4, hr * 0.4)
+        poseBone(r?.head ?? null, hp * 0.6, hy * 0.6, hr * 0.6)
+        posed = true
+      } else if (posed) {
+        // idle switched off with no prosody: back to the rest pose once
+        for (const b of [r?.neck, r?.head, r?.chest]) poseBone(b ?? null, 0, 0, 0)
+        posed = false
+      }
+
+      // gain stage (global × channel × jaw), then write influences (visemes, expression layer on top)
+      for (let i = 0; i < 15; i++) tuned.current[i] = Math.min(1, vis.current[i] * channelScale(tn, i))
       if (arkitTargets.current.length) {
         for (const t of arkitTargets.current) {
           for (let k = 0; k < t.controlled.length; k++) t.influences[t.controlled[k]] = 0
-          for (let i = 0; i < 15; i++) {
-            const idx = t.mapIdx[i]
-            if (idx >= 0) t.influences[idx] = vis.current[i]
+          applyMorphMap(t.map, tuned.current, t.influences)
+          if (ex) {
+            for (let j = 0; j < EXPRESSION.length; j++) {
+              const idx = t.exprIdx[j]
+              if (idx >= 0) t.influences[idx] = Math.min(1, t.influences[idx] + Math.max(0, ex[j] || 0))
+            }
+          }
+          if (idleW) {
+            for (let j = 0; j < IDLE_MORPHS.length; j++) {
+              const idx = t.idleIdx[j]
+              if (idx >= 0) t.influences[idx] = Math.min(1, t.influences[idx] + idleW[j])
+            }
           }
         }
       }
@@ -284,9 +428,18 @@ export default function AvatarCanvas({
         three.current?.renderer.dispose()
       } catch {}
       three.current = null
+      rig.current = null
+      morphMeshes.current = []
+      arkitTargets.current = []
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [glbUrl, getVisemeFrame, zoom])
+  }, [glbUrl, zoom])
+
+  // profile edited/saved while the avatar is loaded → remap in place
+  React.useEffect(() => {
+    if (morphMeshes.current.length && morphProfile && morphProfile !== usedProfile.current) remap(glbUrl)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [morphProfile])
 
   const h = typeof height === 'number' ? `${height}px` : (height || '320px')
   return (
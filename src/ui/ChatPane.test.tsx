@@ -0,0 +1,466 @@
+import * as React from 'react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import ChatPane from './ChatPane'
+import type { ChatPaneProps } from './ChatPane'
+import type { WSHandlers, WSMessage } from '../lib/ws'
+import { get } from '../lib/http'
+import { FakeMediaRecorder, installFakeMic } from '../test/fakes'
+
+const ws = vi.hoisted(() => ({
+  handlers: null as WSHandlers | null,
+  client: null as null | { send: ReturnType<typeof vi.fn>; close: ReturnType<typeof vi.fn> },
+}))
+const sched = vi.hoisted(() => ({
+  pushChunk: vi.fn(), stop: vi.fn(), dispose: vi.fn(), setMuted: vi.fn(), getFrame: vi.fn(() => null), busy: vi.fn(() => false), audio: vi.fn(() => null), analyser: vi.fn(() => null), setParams: vi.fn(), setTap: vi.fn(),
+}))
+
+vi.mock('../lib/ws', () => ({
+  openWS: (h: WSHandlers) => {
+    ws.handlers = h
+    ws.client = { send: vi.fn(() => true), close: vi.fn() }
+    return { ...ws.client, reconnect: vi.fn(), status: () => 'connecting', socket: () => null }
+  },
+}))
+vi.mock('../lib/visemeScheduler', () => ({ createVisemeScheduler: () => sched }))
+vi.mock('../lib/http', () => ({ get: vi.fn(), post: vi.fn() }))
+
+function mount(overrides: Partial<ChatPaneProps> = {}) {
+  const props: ChatPaneProps = {
+    onSlides: vi.fn(),
+    onSlidesDone: vi.fn(),
+    onSlidesStreaming: vi.fn(),
+    getVisemeFrameRef: { current: () => null } as React.MutableRefObject<() => number[] | null>,
+    onThreadRotated: vi.fn(),
+    onNewThread: vi.fn(),
+    ...overrides,
+  }
+  render(<ChatPane {...props} />)
+  return props
+}
+
+const serve = (msg: WSMessage) => act(() => { ws.handlers!.onMsg!(msg) })
+const setStatus = (status: Parameters<NonNullable<WSHandlers['onStatus']>>[0], retryInMs?: number) =>
+  act(() => { ws.handlers!.onStatus!(status, { attempt: 1, retryInMs }) })
+
+describe('ChatPane', () => {
+  beforeEach(() => {
+    localStorage.setItem('thread_id', 'thread-1')
+    // the mic takes below are instant taps; no minimum length unless a test sets one
+    localStorage.setItem('recording_guards', JSON.stringify({ minDurationMs: 0 }))
+    vi.mocked(get).mockResolvedValue({ results: [] })
+    for (const fn of Object.values(sched)) fn.mockClear()
+  })
+
+  it('reflects the socket status in the pill', async () => {
+    mount()
+    expect(screen.getByText('connecting…')).toBeTruthy()
+    await setStatus('reconnecting', 2400)
+    expect(screen.getByText(/reconnecting\s+in 2s/)).toBeTruthy()
+    await setStatus('open')
+    expect(screen.getByText('connected')).toBeTruthy()
+  })
+
+  it('seeds history from the chats endpoint', async () => {
+    vi.mocked(get).mockResolvedValue({ results: [{ query: 'Earlier question', response: 'Earlier answer', emotion: { name: 'sad' } }] })
+    mount()
+    expect(await screen.findByText('Earlier answer')).toBeTruthy()
+    expect(screen.getByText('Earlier question')).toBeTruthy()
+    expect(get).toHaveBeenCalledWith(expect.stringContaining('thread_id=thread-1'))
+  })
+
+  it('sends text on Enter and shows the echo once the server confirms it', async () => {
+    mount()
+    await setStatus('open')
+    const input = screen.getByLabelText('Message input')
+    fireEvent.change(input, { target: { value: '  hello there ' } })
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(ws.client!.send).toHaveBeenCalledWith(expect.objectContaining({ type: 'text_query', text: 'hello there', muteAudio: false }))
+    expect(input).toHaveProperty('value', '')
+
+    await serve({ type: 'text_query', text: 'hello there' })
+    expect(screen.getByText('hello there')).toBeTruthy()
+  })
+
+  it('keeps the draft when the client refuses the message', async () => {
+    mount()
+    await setStatus('reconnecting', 1000)
+    ws.client!.send.mockReturnValueOnce(false)
+    const input = screen.getByLabelText('Message input')
+    fireEvent.change(input, { target: { value: 'queued?' } })
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(input).toHaveProperty('value', 'queued?')
+  })
+
+  it('streams tokens into one assistant bubble with the run emotion', async () => {
+    mount()
+    await serve({ type: 'response_start' })
+    expect(screen.getByText('typing…')).toBeTruthy()
+    await serve({ type: 'emotion', emotion: { name: 'happy', intensity: 2 } })
+    await serve({ type: 'text_token', token: 'Hello' })
+    await serve({ type: 'text_token', token: ' world' })
+    expect(screen.getByText('Hello world')).toBeTruthy()
+
+    await serve({ type: 'response_done' })
+    await serve({ type: 'response_ended' })
+    expect(screen.getAllByText('Hello world')).toHaveLength(1)
+    expect(screen.queryByText('typing…')).toBeNull()
+    // header badge + bubble badge
+    expect(screen.getAllByText(/joy ×2/)).toHaveLength(2)
+  })
+
+  it('forwards slides and toggles the streaming flag', async () => {
+    const props = mount()
+    const deck = { title: 'Deck', summary: '', editorjs: { blocks: [] }, version: 2 }
+    await serve({ type: 'slides_response', slides: deck })
+    await serve({ type: 'slides_response', slides: { ...deck, version: 3 } })
+    expect(props.onSlides).toHaveBeenCalledTimes(2)
+    expect(props.onSlidesStreaming).toHaveBeenCalledTimes(1)
+    expect(props.onSlidesStreaming).toHaveBeenCalledWith(true)
+    await serve({ type: 'slides_done' })
+    expect(props.onSlidesStreaming).toHaveBeenLastCalledWith(false)
+    expect(props.onSlidesDone).toHaveBeenCalled()
+  })
+
+  it('hands audio chunks to the viseme scheduler and stops it on stop_audio', async () => {
+    mount()
+    await serve({ type: 'audio_response', audio: 'AAAA', viseme: [[0.5]], viseme_times: [0], duration_ms: 400 })
+    expect(sched.pushChunk).toHaveBeenCalledWith(expect.objectContaining({ audio: 'AAAA', audio_format: 'mp3', duration_ms: 400 }))
+    await serve({ type: 'stop_audio' })
+    expect(sched.stop).toHaveBeenCalled()
+  })
+
+  it('closes the socket and disposes the scheduler on unmount', () => {
+    mount()
+    const client = ws.client!
+    cleanup()
+    expect(client.close).toHaveBeenCalled()
+    expect(sched.dispose).toHaveBeenCalledTimes(1)
+  })
+
+  it('loads the newest history page first and prepends older pages on demand', async () => {
+    vi.mocked(get).mockImplementation(async (path: string) => path.includes('page=2')
+      ? { next: null, results: [{ id: 1, query: 'first question', response: 'first answer' }] }
+      : { next: 'http://localhost/api/chats/?thread_id=thread-1&page=2', results: [{ id: 2, query: 'second question', response: 'second answer' }] })
+    mount()
+    await screen.findByText('second answer')
+    expect(vi.mocked(get).mock.calls[0][0]).toContain('ordering=-created_at%2C-id')
+    expect(screen.queryByText('first question')).toBeNull()
+
+    fireEvent.click(screen.getByText('Load earlier messages'))
+    await screen.findByText('first question')
+    expect(get).toHaveBeenLastCalledWith('/api/chats/?thread_id=thread-1&page=2')
+    const texts = ['first question', 'first answer', 'second question', 'second answer'].map(t => screen.getByText(t))
+    for (let i = 1; i < texts.length; i++) {
+      expect(texts[i - 1].compareDocumentPosition(texts[i]) & Node.DOCUMENT_POSITION_FOLLOWING).toBeTruthy()
+    }
+    expect(screen.queryByText('Load earlier messages')).toBeNull()
+  })
+
+  it('pages back to a search hit and highlights it', async () => {
+    vi.mocked(get).mockImplementation(async (path: string) => path.includes('page=2')
+      ? { next: null, results: [{ id: 1, query: 'the old budget question', response: 'old answer' }] }
+      : { next: 'http://localhost/api/chats/?thread_id=thread-1&page=2', results: [{ id: 2, query: 'recent', response: 'recent answer' }] })
+    mount({ focus: { rowId: 1, side: 'query', nonce: 1 } })
+
+    const hit = await screen.findByText('the old budget question')
+    await waitFor(() => expect(hit.closest('[data-vid]')!.firstElementChild!.className).toContain('ring-amber-300'))
+    expect(hit.closest('[data-vid]')!.getAttribute('data-vid')).toBe('h1q')
+  })
+
+  it('copies the Markdown and regenerates the preceding question', async () => {
+    const writeText = vi.fn(async () => {})
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true })
+    vi.mocked(get).mockResolvedValue({ results: [{ id: 1, query: 'Why **now**?', response: 'Because *timing*.' }] })
+    mount()
+    await setStatus('open')
+    await screen.findByText('timing')
+
+    fireEvent.click(screen.getAllByLabelText('Copy message')[1])
+    expect(writeText).toHaveBeenCalledWith('Because *timing*.')
+    expect(await screen.findByLabelText('Copied')).toBeTruthy()
+
+    fireEvent.click(screen.getByLabelText('Regenerate reply'))
+    expect(ws.client!.send).toHaveBeenCalledWith(expect.objectContaining({ type: 'text_query', text: 'Why **now**?' }))
+    expect(screen.getByLabelText('Regenerate reply')).toHaveProperty('disabled', true)
+  })
+
+  it('replays cached audio, and asks the server to speak a reply it has no audio for', async () => {
+    vi.mocked(get).mockResolvedValue({ results: [{ id: 1, query: 'old question', response: 'old answer' }] })
+    mount()
+    await setStatus('open')
+    await screen.findByText('old answer')
+    await serve({ type: 'response_start' })
+    await serve({ type: 'audio_response', audio: 'AAAA', viseme: [[0.5]], viseme_times: [0], duration_ms: 400, chunk_index: 0 })
+    await serve({ type: 'text_token', token: 'fresh answer' })
+    await serve({ type: 'response_done' })
+    await serve({ type: 'response_ended' })
+    // a stray chunk after the run (e.g. a tts_request reply without `ref`) is played, not cached
+    await serve({ type: 'audio_response', audio: 'BBBB', viseme: [[0.5]], viseme_times: [0], duration_ms: 400 })
+    sched.pushChunk.mockClear()
+
+    const [old, fresh] = screen.getAllByLabelText('Replay audio')
+    fireEvent.click(fresh)
+    expect(sched.stop).toHaveBeenCalled()
+    expect(sched.pushChunk).toHaveBeenCalledWith(expect.objectContaining({ audio: 'AAAA', chunk_index: 0 }))
+    expect(sched.pushChunk).toHaveBeenCalledTimes(1)
+
+    fireEvent.click(old)
+    expect(ws.client!.send).toHaveBeenCalledWith({ type: 'tts_request', text: 'old answer', ref: 'h1a' })
+  })
+
+  it('edits a sent message into a new branch', async () => {
+    vi.mocked(get).mockResolvedValue({ results: [{ id: 1, query: 'first try', response: 'meh' }] })
+    const onBranch = vi.fn()
+    mount({ onBranch })
+    await setStatus('open')
+    await screen.findByText('first try')
+
+    fireEvent.click(screen.getByLabelText('Edit and resend'))
+    const box = screen.getByLabelText('Edit message')
+    fireEvent.change(box, { target: { value: 'second try' } })
+    fireEvent.keyDown(box, { key: 'Enter' })
+    expect(onBranch).toHaveBeenCalledWith('1', 'second try')
+    expect(screen.queryByLabelText('Edit message')).toBeNull()
+  })
+
+  it('branches a live message on the chat row the server echoed', async () => {
+    const onBranch = vi.fn()
+    mount({ onBranch })
+    await setStatus('open')
+    await serve({ type: 'text_query', text: 'no row yet' })
+    expect(screen.queryByLabelText('Edit and resend')).toBeNull()
+
+    await serve({ type: 'text_query', text: 'stored', chat_id: 7 })
+    fireEvent.click(screen.getByLabelText('Edit and resend'))
+    fireEvent.keyDown(screen.getByLabelText('Edit message'), { key: 'Enter' })
+    expect(onBranch).toHaveBeenCalledWith('7', 'stored')
+  })
+
+  it('sends the query a branch was opened with once connected', async () => {
+    mount({ initialQuery: 'second try' })
+    expect(ws.client!.send).not.toHaveBeenCalled()
+    await setStatus('open')
+    await setStatus('reconnecting', 1000)
+    await setStatus('open')
+    const queries = ws.client!.send.mock.calls.filter(([m]) => m.type === 'text_query')
+    expect(queries).toEqual([[expect.objectContaining({ text: 'second try' })]])
+  })
+
+  it('adopts the thread id from the server', async () => {
+    const props = mount()
+    await serve({ type: 'connected', bot_id: 'bot', thread_id: 'thread-2' })
+    expect(localStorage.getItem('thread_id')).toBe('thread-2')
+    expect(props.onThreadRotated).toHaveBeenCalledWith('thread-2')
+  })
+
+  it('streams a held mic take and shows partial transcripts until the echo', async () => {
+    installFakeMic()
+    mount()
+    await setStatus('open')
+    await serve({ type: 'connected', bot_id: 'bot', thread_id: 'thread-1', audio_stream: true })
+    const mic = screen.getByLabelText('Hold to talk')
+    fireEvent.mouseDown(mic)
+    await waitFor(() => expect(FakeMediaRecorder.last?.state).toBe('recording'))
+    FakeMediaRecorder.last!.slice('one')
+    await waitFor(() => expect(ws.client!.send).toHaveBeenCalledWith(expect.objectContaining({ type: 'audio_chunk', index: 0, format: 'webm' })))
+    const { stream_id } = ws.client!.send.mock.calls.at(-1)![0]
+
+    await serve({ type: 'transcript_partial', stream_id: 'older-take', text: 'stale' })
+    await serve({ type: 'transcript_partial', stream_id, text: 'what is the' })
+    expect(screen.getByLabelText('Transcript so far').textContent).toBe('what is the')
+
+    fireEvent.mouseUp(mic)
+    await waitFor(() => expect(ws.client!.send).toHaveBeenCalledWith({ type: 'audio_end', stream_id, muteAudio: false }))
+    expect(ws.client!.send).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'audio_query' }))
+    await serve({ type: 'text_query', text: 'what is the weather' })
+    expect(screen.queryByLabelText('Transcript so far')).toBeNull()
+    expect(screen.getByText('what is the weather')).toBeTruthy()
+  })
+
+  it('talks while the push-to-talk key is held and cancels on Esc', async () => {
+    installFakeMic()
+    mount()
+    await setStatus('open')
+    fireEvent.keyDown(window, { key: ' ', code: 'Space' })
+    await waitFor(() => expect(FakeMediaRecorder.last?.state).toBe('recording'))
+    fireEvent.keyDown(window, { key: ' ', code: 'Space', repeat: true })
+    fireEvent.keyUp(window, { key: ' ', code: 'Space' })
+    await waitFor(() => expect(ws.client!.send).toHaveBeenCalledWith(expect.objectContaining({ type: 'audio_query', format: 'webm' })))
+
+    ws.client!.send.mockClear()
+    fireEvent.keyDown(window, { key: ' ', code: 'Space' })
+    await waitFor(() => expect(screen.getByText('recording…')).toBeTruthy())
+    fireEvent.keyDown(window, { key: 'Escape', code: 'Escape' })
+    fireEvent.keyUp(window, { key: ' ', code: 'Space' })
+    await waitFor(() => expect(screen.queryByText('recording…')).toBeNull())
+    expect(ws.client!.send).not.toHaveBeenCalled()
+
+    // not while typing
+    fireEvent.keyDown(screen.getByLabelText('Message input'), { key: ' ', code: 'Space' })
+    expect(screen.queryByText('recording…')).toBeNull()
+  })
+
+  it('ignores the release of a push-to-talk press that started nothing', async () => {
+    installFakeMic()
+    mount()
+    // offline: the press is ignored, the key is still down
+    fireEvent.keyDown(window, { key: ' ', code: 'Space' })
+    await setStatus('open')
+    fireEvent.mouseDown(screen.getByLabelText('Hold to talk'))
+    await waitFor(() => expect(FakeMediaRecorder.last?.state).toBe('recording'))
+    fireEvent.keyUp(window, { key: ' ', code: 'Space' })
+    await new Promise(r => setTimeout(r, 20))
+    expect(FakeMediaRecorder.last?.state).toBe('recording')
+    expect(ws.client!.send).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'audio_query' }))
+  })
+
+  it('shows a toast instead of sending a take that was too short', async () => {
+    installFakeMic()
+    localStorage.removeItem('recording_guards')
+    mount()
+    await setStatus('open')
+    const mic = screen.getByLabelText('Hold to talk')
+    fireEvent.mouseDown(mic)
+    await waitFor(() => expect(screen.getByLabelText('Time left').textContent).toBe('1:00'))
+    fireEvent.mouseUp(mic)
+    await waitFor(() => expect(screen.getByRole('status').textContent).toMatch(/Too short/))
+    expect(ws.client!.send).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'audio_query' }))
+  })
+
+  it('runs the single-key shortcuts and rebinds push-to-talk from the cheat-sheet', async () => {
+    installFakeMic()
+    const props = mount()
+    await setStatus('open')
+    fireEvent.keyDown(window, { key: 'm', code: 'KeyM' })
+    expect(ws.client!.send).toHaveBeenCalledWith({ type: 'mute_audio' })
+    fireEvent.keyDown(window, { key: 's', code: 'KeyS' })
+    expect(ws.client!.send).toHaveBeenCalledWith({ type: 'stop_audio' })
+    fireEvent.keyDown(window, { key: 'R', code: 'KeyR', shiftKey: true })
+    await waitFor(() => expect(props.onNewThread).toHaveBeenCalledOnce())
+
+    fireEvent.keyDown(window, { key: '?', code: 'Slash', shiftKey: true })
+    const dialog = screen.getByRole('dialog', { name: 'Keyboard shortcuts' })
+    expect(dialog.textContent).toContain('Space')
+    fireEvent.click(screen.getByText('Change push-to-talk key'))
+    fireEvent.keyDown(dialog, { key: 'Escape', code: 'Escape' })
+    expect(screen.getByText('Change push-to-talk key')).toBeTruthy()
+    fireEvent.click(screen.getByText('Change push-to-talk key'))
+    fireEvent.keyDown(dialog, { key: 't', code: 'KeyT' })
+    expect(localStorage.getItem('ptt_key')).toBe('KeyT')
+    fireEvent.keyDown(dialog, { key: 'Escape', code: 'Escape' })
+    expect(screen.queryByRole('dialog')).toBeNull()
+    expect(screen.getByLabelText('Hold to talk').getAttribute('title')).toBe('Hold to talk (or hold T)')
+    localStorage.removeItem('ptt_key')
+  })
+
+  it('mirrors server mute state and notifies the server on toggle', async () => {
+    mount()
+    await serve({ type: 'audio_muted', muted: true })
+    expect(sched.setMuted).toHaveBeenLastCalledWith(true)
+    fireEvent.click(screen.getByLabelText('Unmute'))
+    expect(ws.client!.send).toHaveBeenCalledWith({ type: 'unmute_audio' })
+  })
+
+  it('records both directions and downloads the session on save', async () => {
+    const createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:session')
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() })
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    mount()
+    await setStatus('open')
+    fireEvent.click(screen.getByText('● Record'))
+    const input = screen.getByLabelText('Message input')
+    fireEvent.change(input, { target: { value: 'hi' } })
+    fireEvent.keyDown(input, { key: 'Enter' })
+    await serve({ type: 'text_query', text: 'hi' })
+    fireEvent.click(screen.getByText('Save (2)'))
+
+    expect(click).toHaveBeenCalledOnce()
+    const file = JSON.parse(await createObjectURL.mock.calls[0][0].text())
+    expect(file).toMatchObject({ format: 'ws-chat-session', thread_id: 'thread-1' })
+    expect(file.events.map((e: { dir: string; msg: { type: string } }) => `${e.dir}:${e.msg.type}`)).toEqual(['out:text_query', 'in:text_query'])
+    expect(screen.getByText('● Record')).toBeTruthy()
+    click.mockRestore()
+  })
+
+  it('exports the whole thread as Markdown with the slides appendix, and prints it for PDF', async () => {
+    vi.mocked(get).mockImplementation(async (path: string) => path.includes('page=2')
+      ? { next: null, results: [{ id: 1, query: 'first question', response: 'first answer', created_at: '2024-01-01T09:00:00Z' }] }
+      : { next: 'http://localhost/api/chats/?thread_id=thread-1&page=2', results: [{ id: 2, query: 'second question', response: 'second answer', emotion: { name: 'happy', intensity: 2 } }] })
+    const deck = { title: 'Deck', summary: '', version: 3, editorjs: { blocks: [{ type: 'paragraph', data: { text: 'slide text' } }] } }
+    mount({ getSlidesDeckRef: { current: () => deck } })
+    await screen.findByText('second answer')
+
+    const createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:transcript')
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() })
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    fireEvent.click(screen.getByText('Export'))
+    fireEvent.click(screen.getByText('Markdown'))
+    await waitFor(() => expect(click).toHaveBeenCalledOnce())
+    const md = await createObjectURL.mock.calls[0][0].text()
+    const order = ['first question', 'first answer', 'second question', 'second answer', '## Appendix: slides (v3)', 'slide text'].map(t => md.indexOf(t))
+    expect(order.every((at: number, i: number) => at > (i ? order[i - 1] : 0))).toBe(true)
+    expect(md).toContain('😊 joy ×2')
+    // the older page was fetched for the export only
+    expect(screen.queryByText('first question')).toBeNull()
+    click.mockRestore()
+
+    const print = vi.fn()
+    Object.assign(window, { print })
+    fireEvent.click(screen.getByText('Export'))
+    fireEvent.click(screen.getByLabelText('Include slides as an appendix'))
+    fireEvent.click(screen.getByText('PDF'))
+    await waitFor(() => expect(print).toHaveBeenCalledOnce())
+    const sheet = document.querySelector('.transcript-print')!
+    expect(sheet.textContent).toContain('first answer')
+    expect(sheet.textContent).not.toContain('Appendix')
+    act(() => { window.dispatchEvent(new Event('afterprint')) })
+    expect(document.querySelector('.transcript-print')).toBeNull()
+  })
+
+  it('replays a session through the message handler and restores the chat on exit', async () => {
+    vi.mocked(get).mockResolvedValue({ results: [{ query: 'Live question', response: 'Live answer' }] })
+    const props = mount()
+    expect(await screen.findByText('Live answer')).toBeTruthy()
+    const session = {
+      format: 'ws-chat-session', version: 1, recorded_at: '', bot_id: 'bot', thread_id: 'thread-9', lang: 'en', duration_ms: 0,
+      events: [
+        { t: 0, dir: 'in', msg: { type: 'connected', bot_id: 'bot', thread_id: 'thread-9' } },
+        { t: 0, dir: 'out', msg: { type: 'text_query', text: 'Recorded question' } },
+        { t: 0, dir: 'in', msg: { type: 'text_query', text: 'Recorded question' } },
+        { t: 0, dir: 'in', msg: { type: 'response_start' } },
+        { t: 0, dir: 'in', msg: { type: 'emotion', emotion: { name: 'sad' } } },
+        { t: 0, dir: 'in', msg: { type: 'text_token', token: 'Recorded answer' } },
+        { t: 0, dir: 'in', msg: { type: 'audio_response', audio: 'BBBB', viseme: [[0.2]], viseme_times: [0] } },
+        { t: 0, dir: 'in', msg: { type: 'response_done' } },
+      ],
+    }
+    const upload = new File([JSON.stringify(session)], 'demo.json', { type: 'application/json' })
+    fireEvent.change(screen.getByLabelText('Session file'), { target: { files: [upload] } })
+
+    expect(await screen.findByText(/replay 7\/7 · done/)).toBeTruthy()
+    expect(screen.getByText('Recorded answer')).toBeTruthy()
+    expect(screen.getByText('Recorded question')).toBeTruthy()
+    expect(screen.queryByText('Live answer')).toBeNull()
+    expect(screen.getAllByText(/sadness/).length).toBeGreaterThan(0)
+    expect(sched.pushChunk).toHaveBeenCalledWith(expect.objectContaining({ audio: 'BBBB' }))
+    expect(props.onThreadRotated).not.toHaveBeenCalled()
+
+    // Live traffic is ignored and nothing goes out while replaying
+    await serve({ type: 'text_token', token: 'live token' })
+    expect(screen.queryByText(/live token/)).toBeNull()
+    expect(screen.getByLabelText('Send message')).toHaveProperty('disabled', true)
+
+    fireEvent.click(screen.getByText('Exit replay'))
+    expect(screen.getByText('Live answer')).toBeTruthy()
+    expect(screen.queryByText('Recorded answer')).toBeNull()
+    expect(ws.client!.send).not.toHaveBeenCalled()
+  })
+
+  it('reports a file that is not a session', async () => {
+    mount()
+    const upload = new File(['{"hello":1}'], 'x.json')
+    fireEvent.change(screen.getByLabelText('Session file'), { target: { files: [upload] } })
+    expect((await screen.findByRole('status')).textContent).toBe('Not a session recording')
+  })
+})
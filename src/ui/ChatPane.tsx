@@ -13,14 +13,49 @@ import {
 } from 'react-icons/ai'
 import { FiMic } from 'react-icons/fi'
 import { openWS } from '../lib/ws'
-import type { WSMessage } from '../lib/ws'
-import { rotateSession, getThreadId } from '../lib/session'
-import { get } from '../lib/http'
+import { createHeartbeat } from '../lib/heartbeat'
+import type { WSClient, WSMessage, WSStatus } from '../lib/ws'
+import type { ClientMessage } from '../lib/protocol'
+import { ENV } from '../lib/env'
+import { getThreadId, setThreadId } from '../lib/session'
+import { fetchHistoryPage, fetchOlderRows, firstHistoryPath } from '../lib/chatHistory'
+import type { ChatRow } from '../lib/chatHistory'
+import { useVirtualList } from '../hooks/useVirtualList'
 import { createVisemeScheduler } from '../lib/visemeScheduler' // NEW
+import type { AudioChunkMsg, SchedulerTap } from '../lib/visemeScheduler'
+import { createExpressionDriver } from '../lib/expression'
+import { createProsodyTracker } from '../lib/prosody'
+import type { ProsodyMotion } from '../lib/prosody'
+import type { EmotionKey } from '../lib/expression'
+import { schedulerParams } from '../lib/visemeTuning'
+import type { VisemeTuning } from '../lib/visemeTuning'
+import { createSessionPlayer, createSessionRecorder, downloadSession } from '../lib/sessionLog'
+import type { SessionFile, SessionPlayer } from '../lib/sessionLog'
 import { usePTT } from '../hooks/usePTT'
+import type { PTTReject, PTTStream } from '../hooks/usePTT'
+import { useHandsFree } from '../hooks/useHandsFree'
+import { normalizeVad } from '../lib/vad'
+import type { VadSettings } from '../lib/vad'
+import HandsFreeControls from './HandsFreeControls'
+import { loadMicSettings, saveMicSettings } from '../lib/micSettings'
+import type { MicSettings } from '../lib/micSettings'
+import { loadGuards, saveGuards } from '../lib/recordingGuards'
+import type { RecordingGuards } from '../lib/recordingGuards'
+import MicSettingsPanel from './MicSettingsPanel'
+import Toast from './Toast'
+import type { ToastMsg } from './Toast'
+import { useShortcuts } from '../hooks/useShortcuts'
+import { keyLabel, loadPttKey, savePttKey } from '../lib/shortcuts'
+import ShortcutsHelp from './ShortcutsHelp'
+import SessionControls from './SessionControls'
+import type { ReplayStatus } from './SessionControls'
+import ExportMenu from './ExportMenu'
+import MessageActions from './MessageActions'
+import TranscriptPrint from './TranscriptPrint'
+import { downloadTranscript } from '../lib/transcript'
+import type { ExportFormat, SlidesDeck, Transcript } from '../lib/transcript'
 
 // ---------------- Types ----------------
-type EmotionKey = 'joy'|'anger'|'sadness'|'surprise'
 type Msg = {
   id: string
   role: 'assistant'|'user'
@@ -28,15 +63,35 @@ type Msg = {
   emotion?: { name: EmotionKey; intensity: number }
   ts?: string
 }
-type ChatRow = { query?: string; response?: string; created_at?: string; emotion?: any }
 
 export type ChatPaneProps = {
   onSlides: (slides:any)=>void
   onSlidesDone?: () => void
   onSlidesStreaming?: (on: boolean) => void
   getVisemeFrameRef: React.MutableRefObject<() => number[] | null>
+  /** Filled with the emotion layer's getFrame (see lib/expression.ts) */
+  getExpressionFrameRef?: React.MutableRefObject<() => number[] | null>
+  /** Filled with the prosody tracker's sample (head/brow motion from the playing audio) */
+  getProsodyRef?: React.MutableRefObject<(dt: number) => ProsodyMotion | null>
+  /** Live spring/crossfade tuning for the scheduler (tuning panel) */
+  tuning?: VisemeTuning
+  /** Debug tap on the scheduler (timeline debugger's recorder) */
+  visemeTap?: SchedulerTap
+  /** The server adopted/normalized the thread id (display only, nothing remounts) */
   onThreadRotated: (threadId: string)=>void
+  /** Rotate: the parent starts a new thread and remounts the chat on it */
+  onNewThread: () => void | Promise<void>
+  /** A search hit to scroll to and flash; older pages load until it shows up */
+  focus?: ChatFocus | null
+  /** Filled by SlidesPane with the deck on screen (appendix of the transcript export) */
+  getSlidesDeckRef?: React.MutableRefObject<() => SlidesDeck | null>
+  /** Edit-and-resend: the parent branches the thread before chat row `beforeId`, opens the branch and sends `text` there */
+  onBranch?: (beforeId: string, text: string) => void | Promise<void>
+  /** Sent once, as soon as the socket is open (the edited message that started this branch) */
+  initialQuery?: string | null
 }
+/** A history row's question (`query`) or answer (`response`); a new nonce jumps again */
+export type ChatFocus = { rowId: number | string; side: 'query' | 'response'; nonce: number }
 
 // ---------------- Emotion styling ----------------
 const EMOJI: Record<EmotionKey, {emoji:string; dot:string; pill:string; text:string}> = {
@@ -45,8 +100,15 @@ const EMOJI: Record<EmotionKey, {emoji:string; dot:string; pill:string; text:str
   sadness:  { emoji:'😢', dot:'bg-blue-500',    pill:'bg-blue-100',    text:'text-blue-800' },
   surprise: { emoji:'😮', dot:'bg-emerald-500', pill:'bg-emerald-100', text:'text-emerald-800' },
 }
+const STATUS_PILL: Record<WSStatus, {label:string; pill:string; dot:string}> = {
+  connecting:   { label:'connecting…',   pill:'bg-slate-200 text-slate-700',   dot:'bg-slate-400 animate-pulse' },
+  open:         { label:'connected',     pill:'bg-emerald-100 text-emerald-800', dot:'bg-emerald-500' },
+  reconnecting: { label:'reconnecting',  pill:'bg-amber-100 text-amber-800',   dot:'bg-amber-500 animate-pulse' },
+  closed:       { label:'offline',       pill:'bg-slate-200 text-slate-700',   dot:'bg-slate-500' },
+}
 const neutralEmo = { emoji:'🙂', dot:'bg-slate-400', pill:'bg-slate-200', text:'text-slate-700' }
 const uuid = () => (crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2))
+const LS_VAD = 'vad_settings'
 
 // Canonicalize emotion labels
 const EMO_ALIAS: Record<string, EmotionKey> = {
@@ -60,7 +122,7 @@ function canonicalEmotionName(s: any): EmotionKey | null {
   if (!k) return null
   return EMO_ALIAS[k] ?? ((k in EMOJI) ? (k as EmotionKey) : null)
 }
-function coerceEmotion(raw: any): { name: EmotionKey; intensity: number } | undefined {
+function coerceEmotion(raw: unknown): { name: EmotionKey; intensity: number } | undefined {
   if (!raw) return undefined
   try {
     const e = typeof raw === 'string' ? JSON.parse(raw) : raw
@@ -71,16 +133,47 @@ function coerceEmotion(raw: any): { name: EmotionKey; intensity: number } | unde
   } catch { return undefined }
 }
 
+/** Scrolled this close to the top, the next older page of history loads */
+const LOAD_OLDER_PX = 200
+/** How long a search hit stays highlighted */
+const FLASH_MS = 2000
+/** Replies whose audio is kept for "Replay audio"; older ones ask the server to speak again */
+const AUDIO_CACHE_MSGS = 20
+
+/** History rows → bubbles; ids come from the row so a page fetched twice doesn't duplicate */
+function historyMsgs(rows: ChatRow[]): Msg[] {
+  const out: Msg[] = []
+  for (const row of rows) {
+    const key = row.id != null ? `h${row.id}` : uuid()
+    if (row.query)     out.push({ id: `${key}q`, role:'user',      text: row.query, ts: row.created_at })
+    if (row.response)  out.push({ id: `${key}a`, role:'assistant', text: row.response, ts: row.created_at, emotion: coerceEmotion(row.emotion) })
+  }
+  return out
+}
+/** The server's chat row behind a user bubble (history, or echoed with `chat_id`); branches cut there */
+const chatRowOf = (id: string) => /^h(.+)q$/.exec(id)?.[1] ?? null
+
+function prependMsgs(older: Msg[], current: Msg[]): Msg[] {
+  const have = new Set(current.map(m => m.id))
+  const fresh = older.filter(m => !have.has(m.id))
+  return fresh.length ? [...fresh, ...current] : current
+}
+
 // ============================================================================
 // Component
 // ============================================================================
 export default function ChatPane({
-  onSlides, onSlidesDone, onSlidesStreaming, getVisemeFrameRef, onThreadRotated
+  onSlides, onSlidesDone, onSlidesStreaming, getVisemeFrameRef, getExpressionFrameRef, getProsodyRef, tuning, visemeTap, onThreadRotated, onNewThread, focus, getSlidesDeckRef, onBranch, initialQuery
 }: ChatPaneProps){
 
   // ---- WS ----
-  const wsRef = React.useRef<WebSocket|null>(null)
-  const [connected, setConnected] = React.useState(false)
+  const wsRef = React.useRef<WSClient|null>(null)
+  const [wsStatus, setWsStatus] = React.useState<WSStatus>('connecting')
+  const [retryInMs, setRetryInMs] = React.useState<number|undefined>(undefined)
+  const connected = wsStatus === 'open'
+  // Queries typed while reconnecting are queued by the client and flushed on reopen
+  const canSend = wsStatus === 'open' || wsStatus === 'reconnecting'
+  const [latencyMs, setLatencyMs] = React.useState<number|null>(null)
   const [muted, setMuted] = React.useState(false)
 
   // ---- chat + stream ----
@@ -88,6 +181,8 @@ export default function ChatPane({
   const [pendingAssistant, setPendingAssistant] = React.useState('')
   const pendingRef = React.useRef('') // authoritative stream buffer
   const [awaitingUserEcho, setAwaitingUserEcho] = React.useState(false)
+  // Streamed voice take: what the server heard so far (ghost bubble until the text_query echo)
+  const [partialTranscript, setPartialTranscript] = React.useState<string | null>(null)
 
   // Emotion during stream + header badge
   const [liveEmotion, setLiveEmotion] = React.useState<{name: EmotionKey; intensity: number} | null>(null)
@@ -101,106 +196,334 @@ export default function ChatPane({
   // ------ NEW: Viseme scheduler ------
   const sched = React.useMemo(() => createVisemeScheduler(), [])
   React.useEffect(() => { getVisemeFrameRef.current = sched.getFrame }, [getVisemeFrameRef, sched])
+  React.useEffect(() => { if (tuning) sched.setParams(schedulerParams(tuning)) }, [sched, tuning])
+  React.useEffect(() => {
+    sched.setTap(visemeTap ?? null)
+    return () => sched.setTap(null)
+  }, [sched, visemeTap])
+
+  // ------ Expression layer: follows the run's emotion, lets go once the reply stops playing ------
+  const expr = React.useMemo(() => createExpressionDriver({ hold: sched.busy }), [sched])
+  React.useEffect(() => {
+    if (!getExpressionFrameRef) return
+    getExpressionFrameRef.current = expr.getFrame
+    return () => { getExpressionFrameRef.current = () => null }
+  }, [getExpressionFrameRef, expr])
+
+  // ------ Prosody: head/brow motion from the audio the scheduler is playing ------
+  const prosody = React.useMemo(() => createProsodyTracker(() => sched.audio() ?? sched.analyser()), [sched])
+  React.useEffect(() => {
+    if (!getProsodyRef) return
+    getProsodyRef.current = prosody.sample
+    return () => { getProsodyRef.current = () => null; prosody.dispose() }
+  }, [getProsodyRef, prosody])
 
   // ------ slides streaming flag ------
   const slidesStreamingRef = React.useRef(false)
 
+  // ------ session record / replay ------
+  // While replaying, live inbound messages are dropped (the heartbeat still sees them) and
+  // nothing is sent; the player feeds the recorded messages through the same handler instead.
+  const recorder = React.useMemo(() => createSessionRecorder(), [])
+  const [recording, setRecording] = React.useState(false)
+  const [recordCount, setRecordCount] = React.useState(0)
+  React.useEffect(() => recorder.subscribe(() => {
+    setRecording(recorder.recording())
+    setRecordCount(recorder.count())
+  }), [recorder])
+  const handleMsgRef = React.useRef<(msg: WSMessage) => void>(() => {})
+  const playerRef = React.useRef<SessionPlayer | null>(null)
+  const replayingRef = React.useRef(false)
+  const [replay, setReplay] = React.useState<ReplayStatus | null>(null)
+  const beforeReplayRef = React.useRef<{ msgs: Msg[]; muted: boolean } | null>(null)
+
   // ------ autoscroll ------
   const scrollRef = React.useRef<HTMLDivElement>(null)
   const [atBottom, setAtBottom] = React.useState(true)
+  // Only the bubbles near the viewport are in the DOM; long threads stay cheap to scroll
+  const msgIds = React.useMemo(() => msgs.map(m => m.id), [msgs])
+  const virt = useVirtualList(msgIds, scrollRef)
   React.useEffect(() => {
     if (atBottom) scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight })
-  }, [msgs, pendingAssistant, awaitingUserEcho, liveEmotion, streaming, atBottom])
+  }, [msgs, pendingAssistant, awaitingUserEcho, partialTranscript, liveEmotion, streaming, atBottom, virt.total])
+
+  // ------ history: the latest page on mount, older pages while scrolling up ------
+  const [olderPath, setOlderPath] = React.useState<string | null>(null)
+  const [loadingOlder, setLoadingOlder] = React.useState(false)
+  const loadingOlderRef = React.useRef(false)
+  // the first page has landed (or failed): until then a missing search hit proves nothing
+  const [historyReady, setHistoryReady] = React.useState(false)
+  // scroll position before a prepend, restored (measured from the bottom) once it has rendered
+  const prependAnchorRef = React.useRef<{ height: number; top: number } | null>(null)
+
+  React.useEffect(() => {
+    let mounted = true
+    const thread_id = getThreadId()
+    if (!thread_id) return
+    fetchHistoryPage(firstHistoryPath(thread_id))
+      .then(page => {
+        if (!mounted) return
+        setOlderPath(page.older)
+        setMsgs(m => prependMsgs(historyMsgs(page.rows), m))
+      })
+      .catch(() => { /* no history: the chat starts empty */ })
+      .finally(() => { if (mounted) setHistoryReady(true) })
+    return () => { mounted = false }
+  }, [])
+
+  const loadOlder = React.useCallback(async () => {
+    if (!olderPath || loadingOlderRef.current || replayingRef.current) return
+    loadingOlderRef.current = true
+    setLoadingOlder(true)
+    try {
+      const page = await fetchHistoryPage(olderPath)
+      const el = scrollRef.current
+      if (el) prependAnchorRef.current = { height: el.scrollHeight, top: el.scrollTop }
+      setMsgs(m => prependMsgs(historyMsgs(page.rows), m))
+      setOlderPath(page.older)
+    } catch {
+      /* the "Load earlier messages" button stays for another try */
+    } finally {
+      loadingOlderRef.current = false
+      setLoadingOlder(false)
+    }
+  }, [olderPath])
+
+  React.useLayoutEffect(() => {
+    const a = prependAnchorRef.current
+    const el = scrollRef.current
+    if (!a || !el) return
+    prependAnchorRef.current = null
+    el.scrollTop = el.scrollHeight - a.height + a.top
+  }, [msgs])
+
+  // A first page too short to scroll can't be scrolled up: keep loading until it fills the pane
+  React.useEffect(() => {
+    const el = scrollRef.current
+    if (el && el.clientHeight > 0 && el.scrollHeight <= el.clientHeight) void loadOlder()
+  }, [loadOlder])
+
+  // ------ jump to a search hit ------
+  const [flashId, setFlashId] = React.useState<string | null>(null)
+  const focusDoneRef = React.useRef<number | null>(null)
+  const { scrollToIndex } = virt
+  React.useEffect(() => {
+    if (!focus || !historyReady || focusDoneRef.current === focus.nonce) return
+    const [q, a] = [`h${focus.rowId}q`, `h${focus.rowId}a`]
+    // the side that matched, else the other half of the turn
+    const ids = focus.side === 'query' ? [q, a] : [a, q]
+    const i = msgs.findIndex(m => m.id === ids[0])
+    const j = i >= 0 ? i : msgs.findIndex(m => m.id === ids[1])
+    if (j >= 0) {
+      focusDoneRef.current = focus.nonce
+      setAtBottom(false)
+      scrollToIndex(j)
+      setFlashId(msgs[j].id)
+    } else if (olderPath) void loadOlder()
+    else focusDoneRef.current = focus.nonce // not in this thread any more
+  }, [focus, historyReady, msgs, olderPath, loadOlder, scrollToIndex])
+
+  // scrollToIndex() lands near the row; once it's rendered, centre it
+  React.useLayoutEffect(() => {
+    if (!flashId) return
+    const el = scrollRef.current?.querySelector<HTMLElement>(`[data-vid="${flashId}"]`)
+    el?.scrollIntoView?.({ block: 'center' })
+    const t = setTimeout(() => setFlashId(null), FLASH_MS)
+    return () => clearTimeout(t)
+  }, [flashId])
+
   const onScroll = React.useCallback(() => {
     const el = scrollRef.current
     if (!el) return
     const nearBottom = el.scrollHeight - el.scrollTop - el.clientHeight < 24
     setAtBottom(nearBottom)
-  }, [])
+    if (el.scrollTop < LOAD_OLDER_PX) void loadOlder()
+  }, [loadOlder])
+
+  // ------ export: every message of the thread, older pages included ------
+  const [printDoc, setPrintDoc] = React.useState<Transcript | null>(null)
+  const exportTranscript = React.useCallback(async (format: ExportFormat, withSlides: boolean) => {
+    const older = olderPath ? historyMsgs(await fetchOlderRows(olderPath)) : []
+    const deck = withSlides ? getSlidesDeckRef?.current() ?? null : null
+    const t: Transcript = {
+      thread_id: getThreadId() || '',
+      bot_id: ENV.BOT_ID,
+      exported_at: new Date().toISOString(),
+      messages: prependMsgs(older, msgs).map(({ role, text, ts, emotion }) => ({ role, text, ts, emotion })),
+      ...(deck ? { slides: deck } : {}),
+    }
+    if (format === 'pdf') setPrintDoc(t)
+    else downloadTranscript(t, format)
+  }, [olderPath, msgs, getSlidesDeckRef])
 
-  // preload history (with persisted emotions)
+  // The print view mounts first, then the dialog opens; it unmounts once printing is over
   React.useEffect(() => {
-    let mounted = true
-    ;(async () => {
-      const thread_id = getThreadId()
-      if (!thread_id) return
-      try {
-        const qs = new URLSearchParams({ thread_id, ordering: 'created_at,id', page_size: '200' }).toString()
-        const res = await get<{results?: ChatRow[]} | ChatRow[] | ChatRow>(`/api/chats/?${qs}`)
-        const list: ChatRow[] =
-          Array.isArray((res as any)?.results) ? (res as any).results :
-          Array.isArray(res) ? (res as any) :
-          res ? [res as any] : []
-        const seeded: Msg[] = []
-        for (const row of list) {
-          if (row.query)     seeded.push({ id: uuid(), role:'user',      text: row.query, ts: row.created_at })
-          if (row.response)  seeded.push({ id: uuid(), role:'assistant', text: row.response, ts: row.created_at, emotion: coerceEmotion(row.emotion) as any })
-        }
-        if (mounted && seeded.length) setMsgs(seeded)
-      } catch {}
-    })()
-    return () => { mounted = false }
-  }, [])
+    if (!printDoc) return
+    const done = () => setPrintDoc(null)
+    window.addEventListener('afterprint', done)
+    window.print()
+    return () => window.removeEventListener('afterprint', done)
+  }, [printDoc])
 
   // ------ send text ------
   const [input, setInput] = React.useState('')
   const pendingInputRef = React.useRef('')
   React.useEffect(()=>{ pendingInputRef.current = input }, [input])
 
-  const sendText = React.useCallback(() => {
+  // Every outbound message goes through here so the session recorder sees it
+  const send = React.useCallback((msg: ClientMessage) => {
     const ws = wsRef.current
-    if (!ws || ws.readyState !== 1) return
+    if (!ws || replayingRef.current) return false
+    if (!ws.send(msg)) return false
+    recorder.outbound(msg)
+    return true
+  }, [recorder])
+
+  const sendText = React.useCallback(() => {
     const text = pendingInputRef.current.trim()
     if (!text) return
+    if (!send({ type:'text_query', text, local_time:new Date().toLocaleString(), muteAudio: muted })) return
     setInput('')
     setAwaitingUserEcho(true)
-    ws.send(JSON.stringify({ type:'text_query', text, local_time:new Date().toLocaleString(), muteAudio: muted }))
-  }, [muted])
+  }, [muted, send])
 
   // ------ rotate session ------
   async function onRotate() {
-    try {
-      sched.stop()
-      const thread = await rotateSession()
-      try { wsRef.current?.close(1001, 'rotate') } catch {}
-      setTimeout(()=>location.reload(), 100)
-      onThreadRotated(thread)
-    } catch { alert('Rotate failed') }
+    sched.stop()
+    await onNewThread()
   }
 
   // ------ STOP audio (client -> server) ------
   const onStopAudio = React.useCallback(() => {
     sched.stop()
-    const ws = wsRef.current
-    if (ws && ws.readyState === 1) {
-      ws.send(JSON.stringify({ type: 'stop_audio' }))
-    }
-  }, [sched])
+    expr.release()
+    send({ type: 'stop_audio' })
+  }, [sched, expr, send])
 
   // ------ mic / PTT ------
+  const [micSettings, setMicSettings] = React.useState<MicSettings>(loadMicSettings)
+  const changeMicSettings = (m: MicSettings) => {
+    setMicSettings(m)
+    saveMicSettings(m)
+  }
+  const [guards, setGuards] = React.useState<RecordingGuards>(loadGuards)
+  const changeGuards = (g: RecordingGuards) => {
+    setGuards(g)
+    saveGuards(g)
+  }
+  const [toast, setToast] = React.useState<ToastMsg | null>(null)
+  const dismissToast = React.useCallback(() => setToast(null), [])
+  const onRejectTake = (reason: PTTReject) => {
+    setToast({ id: Date.now(), text: reason === 'silent' ? "Didn't catch that: no speech in the recording" : 'Too short: hold the mic while you talk' })
+  }
+  // Streams the take as audio_chunk slices when the server said it can take them (connected.audio_stream)
+  const [canStreamMic, setCanStreamMic] = React.useState(false)
+  const micStreamIdRef = React.useRef<string | null>(null)
+  const micStream = React.useMemo<PTTStream | null>(() => !canStreamMic ? null : {
+    onChunk: ({ audio, format, index }) => {
+      if (index === 0) micStreamIdRef.current = uuid()
+      const stream_id = micStreamIdRef.current
+      // Slices are not queued while reconnecting: send() fails and the take goes out whole instead
+      if (!stream_id || !send({ type: 'audio_chunk', stream_id, index, audio_bytes: audio, format })) return false
+      if (index === 0) {
+        setPartialTranscript('')
+        setAwaitingUserEcho(true)
+      }
+      return true
+    },
+    onEnd: (ok) => {
+      const stream_id = micStreamIdRef.current
+      if (!stream_id) return
+      send(ok ? { type: 'audio_end', stream_id, muteAudio: muted } : { type: 'audio_end', stream_id, cancel: true })
+      if (!ok) {
+        micStreamIdRef.current = null
+        setPartialTranscript(null)
+        setAwaitingUserEcho(false)
+      }
+    },
+  }, [canStreamMic, muted, send])
+
   const {
     micSupported,
     micState,
+    remainingS,
     requestMicPermission,
+    startPTT,
+    stopPTT,
     pttDown,
     pttUp,
     pttCancel,
   } = usePTT({
     muted,
-    onSend: ({ base64Audio, format }) => {
-      const ws = wsRef.current
-      if (!ws || ws.readyState !== 1) return
-      setAwaitingUserEcho(true)
-      ws.send(JSON.stringify({
+    mic: micSettings,
+    guards,
+    onReject: onRejectTake,
+    stream: micStream,
+    onSend: ({ audio, format }) => {
+      // Raw bytes: the socket sends them binary, or as base64 to servers that can't take that
+      const queued = send({
         type: 'audio_query',
-        audio: base64Audio,
+        audio_bytes: audio,
         format,
         muteAudio: muted
-      }))
+      })
+      if (queued) setAwaitingUserEcho(true)
     }
   })
 
+  // ------ hands-free (VAD opens/closes takes; speaking over the reply stops it) ------
+  const [handsFree, setHandsFree] = React.useState(false)
+  const [vadSettings, setVadSettings] = React.useState<VadSettings>(() => normalizeVad(localStorage.getItem(LS_VAD)))
+  const changeVadSettings = (v: VadSettings) => {
+    setVadSettings(v)
+    localStorage.setItem(LS_VAD, JSON.stringify(v))
+  }
+  const handsFreeState = useHandsFree({
+    enabled: handsFree && canSend && !replay,
+    settings: vadSettings,
+    mic: micSettings,
+    avatarTalking: sched.busy,
+    onBargeIn: onStopAudio,
+    startPTT,
+    stopPTT,
+  })
+
   // ------ keyboard ------
+  const [pttKey, setPttKey] = React.useState(loadPttKey)
+  const [helpOpen, setHelpOpen] = React.useState(false)
+  const changePttKey = (code: string) => {
+    setPttKey(code)
+    savePttKey(code)
+  }
+  // the release only ends a take its own press started (not the hands-free one, say)
+  const keyTakeRef = React.useRef(false)
+  useShortcuts({
+    enabled: !helpOpen,
+    pttKey,
+    onPttDown: () => {
+      if (!canSend || replay || handsFree || !micSupported) return
+      keyTakeRef.current = true
+      void startPTT()
+    },
+    onPttUp: () => {
+      if (!keyTakeRef.current) return
+      keyTakeRef.current = false
+      void stopPTT(true)
+    },
+    onCancel: () => {
+      if (micState !== 'recording' || handsFree) return false
+      keyTakeRef.current = false
+      void stopPTT(false)
+      return true
+    },
+    onAction: (a) => {
+      if (a === 'help') setHelpOpen(true)
+      else if (a === 'mute') toggleMute()
+      else if (a === 'stopAudio') onStopAudio()
+      else if (a === 'rotate') void onRotate()
+    },
+  })
+
   const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); if (input.trim()) sendText() }
     if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'enter') { e.preventDefault(); if (input.trim()) sendText() }
@@ -211,139 +534,325 @@ export default function ChatPane({
     const next = !muted
     setMuted(next)
     sched.setMuted(next)
-    const ws = wsRef.current
-    if (ws && ws.readyState === 1) {
-      ws.send(JSON.stringify({ type: next ? 'mute_audio' : 'unmute_audio' }))
+    send({ type: next ? 'mute_audio' : 'unmute_audio' })
+  }, [muted, sched, send])
+
+  // ------ commit the streamed bubble ------
+  const finishRun = () => {
+    const finalText = pendingRef.current.trim()
+    const id = runIdRef.current ?? uuid()
+    if (finalText) {
+      const finalEmotion = runEmotionRef.current ? { ...runEmotionRef.current } : undefined
+      setMsgs(m => [...m, {
+        id,
+        role:'assistant',
+        text: finalText,
+        emotion: finalEmotion,
+        ts: new Date().toISOString()
+      }])
     }
-  }, [muted, sched])
+    runIdRef.current = null
+    pendingRef.current = ''
+    setPendingAssistant('')
+    setStreaming(false)
+    setLiveEmotion(null)
+    expr.release()
+  }
+
+  // ------ message actions: copy, regenerate, edit-and-resend, replay audio ------
+  // A reply's audio is kept under its bubble id until the run ends, so chunks that arrive after
+  // the text still find it; tts_request audio is tagged with `ref`. Audio with neither isn't kept.
+  const runIdRef = React.useRef<string | null>(null)
+  const audioKeyRef = React.useRef<string | null>(null)
+  const audioCacheRef = React.useRef(new Map<string, AudioChunkMsg[]>())
+  const cacheAudio = (key: string, chunk: AudioChunkMsg) => {
+    const cache = audioCacheRef.current
+    let list = cache.get(key)
+    if (!list) {
+      cache.set(key, list = [])
+      for (const old of cache.keys()) {
+        if (cache.size <= AUDIO_CACHE_MSGS) break
+        cache.delete(old)
+      }
+    }
+    list.push(chunk)
+  }
+
+  const [copiedId, setCopiedId] = React.useState<string | null>(null)
+  const [editing, setEditing] = React.useState<{ id: string; text: string } | null>(null)
+  React.useEffect(() => {
+    if (!copiedId) return
+    const t = setTimeout(() => setCopiedId(null), 1500)
+    return () => clearTimeout(t)
+  }, [copiedId])
+
+  async function copyMsg(m: Msg) {
+    try {
+      await navigator.clipboard.writeText(m.text)
+      setCopiedId(m.id)
+    } catch {
+      setToast({ id: Date.now(), text: "Couldn't copy: the browser blocked the clipboard" })
+    }
+  }
+
+  /** Asks the question an assistant reply answered once more */
+  function regenerate(i: number) {
+    let q: Msg | undefined
+    for (let j = i - 1; j >= 0 && !q; j--) if (msgs[j].role === 'user') q = msgs[j]
+    if (!q || !send({ type:'text_query', text: q.text, local_time: new Date().toLocaleString(), muteAudio: muted })) return
+    sched.stop()
+    setAwaitingUserEcho(true)
+  }
+
+  async function submitEdit() {
+    const row = editing && chatRowOf(editing.id)
+    const text = editing?.text.trim()
+    if (!row || !text || !onBranch) return
+    setEditing(null)
+    await onBranch(row, text)
+  }
+
+  function replayAudio(m: Msg) {
+    sched.stop()
+    const cached = audioCacheRef.current.get(m.id)
+    if (cached?.length) {
+      for (const chunk of cached) sched.pushChunk(chunk)
+      return
+    }
+    // From history, or evicted: the server speaks it again and tags the chunks with the id
+    audioCacheRef.current.delete(m.id)
+    if (!send({ type: 'tts_request', text: m.text, ref: m.id })) setToast({ id: Date.now(), text: "Can't replay audio while offline" })
+  }
+
+  // A branch opens with the edited message still to send
+  const initialSentRef = React.useRef(false)
+  React.useEffect(() => {
+    if (!initialQuery || initialSentRef.current || wsStatus !== 'open') return
+    if (!send({ type:'text_query', text: initialQuery, local_time: new Date().toLocaleString(), muteAudio: muted })) return
+    initialSentRef.current = true
+    setAwaitingUserEcho(true)
+  }, [initialQuery, wsStatus, send, muted])
 
   // ------ WebSocket wiring ------
   React.useEffect(() => {
     let unmounted = false
-    openWS({
-      onSocket: (live) => {
-        if (wsRef.current && wsRef.current !== live) {
-          try { wsRef.current.close(1001, 'superseded') } catch {}
-        }
-        wsRef.current = live
+    let hb: ReturnType<typeof createHeartbeat> | null = null
+    wsRef.current = openWS({
+      onStatus(status, info){
+        hb?.onStatus(status)
+        if (unmounted) return
+        setWsStatus(status)
+        setRetryInMs(info.retryInMs)
       },
-      onOpen(){ if (!unmounted) setConnected(true) },
-      onClose(){ if (!unmounted) { setConnected(false); sched.stop() } },
+      // Only a terminal close lands here; blips go through onStatus('reconnecting')
+      // and already-queued audio keeps playing while the server replays the run.
+      onClose(){ if (!unmounted) { sched.stop(); expr.clear() } },
       onMsg(msg: WSMessage) {
-        switch (msg.type) {
-          case 'response_start': {
-            pendingRef.current = ''
-            setPendingAssistant('')
-            setStreaming(true)
-            setGotFirstToken(false)
-            setLiveEmotion(null)
-            runEmotionRef.current = null
-            break
-          }
-          case 'emotion': {
-            const e = coerceEmotion((msg as any).emotion)
-            if (e) {
-              runEmotionRef.current = e
-              setLiveEmotion(e)
-              setLastEmotion(e)
-            }
-            break
-          }
-          case 'audio_muted': {
-            const m = (msg as any).muted === true
-            setMuted(m)
-            sched.setMuted(m)
-            break
-          }
-          case 'text_token': {
-            const t = (msg as any).token || ''
-            if (!t) break
-            setPendingAssistant(prev => {
-              const next = prev + t
-              pendingRef.current = next
-              return next
-            })
-            if (!gotFirstToken) setGotFirstToken(true)
-            break
-          }
-          case 'response_done': {
-            const finalText = pendingRef.current.trim()
-            if (finalText) {
-              const finalEmotion = runEmotionRef.current ? { ...runEmotionRef.current } : undefined
-              setMsgs(m => [...m, {
-                id: uuid(),
-                role:'assistant',
-                text: finalText,
-                emotion: finalEmotion,
-                ts: new Date().toISOString()
-              }])
-            }
-            pendingRef.current = ''
-            setPendingAssistant('')
-            setStreaming(false)
-            setLiveEmotion(null)
-            break
-          }
-          case 'text_query': {
-            const txt = (msg as any).text?.toString() ?? ''
-            if (txt) setMsgs(m => [...m, { id: uuid(), role:'user', text: txt, ts: new Date().toISOString() }])
-            setAwaitingUserEcho(false)
-            break
-          }
-          case 'slides_response': {
-            if (!slidesStreamingRef.current) {
-              slidesStreamingRef.current = true
-              onSlidesStreaming?.(true)
-            }
-            onSlides((msg as any).slides)
-            break
-          }
-          case 'slides_done': {
-            slidesStreamingRef.current = false
-            onSlidesStreaming?.(false)
-            onSlidesDone?.()
-            break
-          }
-          case 'stop_audio': {
-            sched.stop()
-            break
-          }
-          case 'audio_response': {
-            const b64 = (msg as any).audio || undefined
-            const frames = (msg as any).viseme || []
-            const times  = (msg as any).viseme_times || []
-            const duration_ms = (msg as any).duration_ms
-            // Optional extras the server may include:
-            const audio_format = (msg as any).audio_format || 'mp3'
-            const chunk_index  = (msg as any).chunk_index
-            const offset_ms    = (msg as any).offset_ms
-            sched.pushChunk({
-              audio: b64,
-              viseme: frames,
-              viseme_times: times,
-              duration_ms,
-              audio_format,
-              chunk_index,
-              offset_ms,
-            })
-            break
-          }
-          case 'error': {
-            console.error('WS error:', (msg as any).message)
-            break
-          }
-        }
+        hb?.onMessage(msg)
+        if (replayingRef.current) return
+        recorder.inbound(msg)
+        handleMsgRef.current(msg)
       }
     })
+    hb = createHeartbeat(wsRef.current, {
+      onLatency: (ms) => { if (!unmounted) setLatencyMs(ms) },
+    })
+    if (wsRef.current.status() === 'open') hb.onStatus('open')
     return () => {
       unmounted = true
-      try { wsRef.current?.close(1001, 'unmount') } catch {}
+      hb?.stop()
+      playerRef.current?.stop()
+      wsRef.current?.close(1001, 'unmount')
       wsRef.current = null
-      sched.stop()
+      // ChatPane remounts per thread: each mount's AudioContext must go with it
+      sched.dispose()
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // ------ inbound message handler (live socket and session replay) ------
+  React.useEffect(() => {
+    handleMsgRef.current = (msg: WSMessage) => {
+      switch (msg.type) {
+        case 'connected': {
+          // Server is authoritative for the thread (it may have created/normalized one);
+          // a replayed session's thread is someone else's, so it never rotates ours
+          if (!replayingRef.current && msg.thread_id && msg.thread_id !== getThreadId()) {
+            setThreadId(msg.thread_id)
+            onThreadRotated(msg.thread_id)
+          }
+          if (!replayingRef.current) setCanStreamMic(!!msg.audio_stream)
+          break
+        }
+        case 'response_start': {
+          runIdRef.current = uuid()
+          audioKeyRef.current = runIdRef.current
+          pendingRef.current = ''
+          setPendingAssistant('')
+          setStreaming(true)
+          setGotFirstToken(false)
+          setLiveEmotion(null)
+          runEmotionRef.current = null
+          break
+        }
+        case 'emotion': {
+          const e = coerceEmotion(msg.emotion)
+          if (e) {
+            runEmotionRef.current = e
+            setLiveEmotion(e)
+            setLastEmotion(e)
+            expr.set(e)
+          }
+          break
+        }
+        case 'audio_muted': {
+          setMuted(msg.muted)
+          sched.setMuted(msg.muted)
+          break
+        }
+        case 'text_token': {
+          const t = msg.token
+          if (!t) break
+          setPendingAssistant(prev => {
+            const next = prev + t
+            pendingRef.current = next
+            return next
+          })
+          if (!gotFirstToken) setGotFirstToken(true)
+          break
+        }
+        case 'response_done':
+        case 'response_ended': {
+          // `response_ended` also arrives for interrupted runs without a `response_done`;
+          // whichever comes first commits the bubble, the second is a no-op.
+          finishRun()
+          if (msg.type === 'response_ended') audioKeyRef.current = null
+          break
+        }
+        case 'text_query': {
+          const txt = msg.text
+          // With the server's chat row id the bubble is the same one history would give (and can branch)
+          const id = msg.chat_id != null ? `h${msg.chat_id}q` : uuid()
+          if (txt) setMsgs(m => [...m, { id, role:'user', text: txt, ts: new Date().toISOString() }])
+          setAwaitingUserEcho(false)
+          setPartialTranscript(null)
+          micStreamIdRef.current = null
+          break
+        }
+        case 'transcript_partial': {
+          // Partials for an older take (e.g. one that was cancelled) are stale
+          const current = micStreamIdRef.current
+          if (msg.stream_id && current && msg.stream_id !== current) break
+          setPartialTranscript(msg.text)
+          setAwaitingUserEcho(true)
+          break
+        }
+        case 'slides_response': {
+          const slides = msg.slides ?? msg.slides_raw
+          if (slides == null) break
+          if (!slidesStreamingRef.current) {
+            slidesStreamingRef.current = true
+            onSlidesStreaming?.(true)
+          }
+          onSlides(slides)
+          break
+        }
+        case 'slides_done': {
+          slidesStreamingRef.current = false
+          onSlidesStreaming?.(false)
+          onSlidesDone?.()
+          break
+        }
+        case 'stop_audio': {
+          audioKeyRef.current = null
+          sched.stop()
+          expr.release()
+          break
+        }
+        case 'audio_response': {
+          const chunk: AudioChunkMsg = {
+            audio: msg.audio,
+            audio_bytes: msg.audio_bytes,
+            viseme: msg.viseme,
+            viseme_times: msg.viseme_times,
+            duration_ms: msg.duration_ms,
+            frame_ms: msg.frame_ms,
+            viseme_fps: msg.viseme_fps,
+            viseme_format: msg.viseme_format,
+            viseme_profile: msg.viseme_profile,
+            audio_format: msg.audio_format || 'mp3',
+            chunk_index: msg.chunk_index,
+            offset_ms: msg.offset_ms,
+          }
+          const key = msg.ref ?? audioKeyRef.current
+          if (key) cacheAudio(key, chunk)
+          sched.pushChunk(chunk)
+          break
+        }
+        case 'pong': {
+          // Latency is measured by the heartbeat above; nothing to render
+          break
+        }
+        case 'error': {
+          console.error('WS error:', msg.message)
+          break
+        }
+      }
+    }
+  })
+
+  // ------ replay controls ------
+  const resetRun = () => {
+    sched.stop()
+    expr.clear()
+    pendingRef.current = ''
+    setPendingAssistant('')
+    setStreaming(false)
+    setLiveEmotion(null)
+    setAwaitingUserEcho(false)
+    setPartialTranscript(null)
+    if (slidesStreamingRef.current) {
+      slidesStreamingRef.current = false
+      onSlidesStreaming?.(false)
+    }
+  }
+
+  function startReplay(file: SessionFile, name: string) {
+    playerRef.current?.stop()
+    if (!replayingRef.current) beforeReplayRef.current = { msgs, muted }
+    replayingRef.current = true
+    resetRun()
+    setMsgs([])
+    const player = createSessionPlayer(file, {
+      onMsg: (msg) => handleMsgRef.current(msg),
+      onProgress: (done, total) => setReplay(r => r && { ...r, done, total }),
+      onDone: () => setReplay(r => r && { ...r, state: 'done' }),
+    })
+    playerRef.current = player
+    setReplay({ name, done: 0, total: player.total, state: 'playing' })
+    player.play()
+  }
+
+  function exitReplay() {
+    playerRef.current?.stop()
+    playerRef.current = null
+    replayingRef.current = false
+    resetRun()
+    const before = beforeReplayRef.current
+    beforeReplayRef.current = null
+    if (before) {
+      setMsgs(before.msgs)
+      setMuted(before.muted)
+      sched.setMuted(before.muted)
+    }
+    setReplay(null)
+  }
+
+  function saveRecording() {
+    const file = recorder.stop()
+    if (file) downloadSession(file)
+  }
+
   // ---------- UI ----------
   const headerEmo = lastEmotion ? (EMOJI[lastEmotion.name] || neutralEmo) : null
 
@@ -352,9 +861,15 @@ export default function ChatPane({
       {/* Top bar */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2 text-xs">
-          <span className={`inline-flex items-center gap-2 rounded-full px-2 py-1 ${connected ? 'bg-emerald-100 text-emerald-800' : 'bg-slate-200 text-slate-700'}`}>
-            <span className={`h-2 w-2 rounded-full ${connected ? 'bg-emerald-500' : 'bg-slate-500'}`} />
-            {connected ? 'connected' : 'offline'}
+          <span className={`inline-flex items-center gap-2 rounded-full px-2 py-1 ${STATUS_PILL[wsStatus].pill}`}>
+            <span className={`h-2 w-2 rounded-full ${STATUS_PILL[wsStatus].dot}`} />
+            {STATUS_PILL[wsStatus].label}
+            {wsStatus === 'reconnecting' && retryInMs != null && ` in ${Math.max(1, Math.round(retryInMs / 1000))}s`}
+            {connected && latencyMs != null && (
+              <span className={`font-mono text-[10px] ${latencyMs > 400 ? 'text-rose-700' : latencyMs > 150 ? 'text-amber-700' : 'opacity-70'}`} title="Round-trip latency (ping → pong)">
+                {latencyMs} ms
+              </span>
+            )}
           </span>
 
           {/* Persisted emotion badge */}
@@ -367,11 +882,44 @@ export default function ChatPane({
           {micState === 'recording' && (
             <span className="inline-flex items-center gap-2 rounded-full bg-red-100 text-red-700 px-2 py-1">
               <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" /> recording…
+              {remainingS != null && (
+                <span className={`font-mono text-[10px] ${remainingS <= 10 ? 'font-semibold' : 'opacity-70'}`} title="Stops and sends by itself at 0:00" aria-label="Time left">
+                  {Math.floor(remainingS / 60)}:{String(remainingS % 60).padStart(2, '0')}
+                </span>
+              )}
+            </span>
+          )}
+          {micState !== 'recording' && handsFreeState.state === 'listening' && (
+            <span className="inline-flex items-center gap-2 rounded-full bg-teal-100 text-teal-800 px-2 py-1">
+              <span className="h-2 w-2 rounded-full bg-teal-500" /> listening
             </span>
           )}
         </div>
 
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setHelpOpen(true)}
+            className="rounded-full border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-50"
+            title="Keyboard shortcuts (?)"
+            aria-label="Keyboard shortcuts"
+          >
+            ?
+          </button>
+
+          <ExportMenu onExport={exportTranscript} disabled={!!replay} />
+
+          <SessionControls
+            recording={recording}
+            count={recordCount}
+            onRecord={() => recorder.start({ bot_id: ENV.BOT_ID, thread_id: getThreadId() || '', lang: ENV.LANG || 'en' })}
+            onSave={saveRecording}
+            replay={replay}
+            onReplay={startReplay}
+            onPause={() => { playerRef.current?.pause(); setReplay(r => r && { ...r, state: 'paused' }) }}
+            onResume={() => { playerRef.current?.play(); setReplay(r => r && r.state === 'paused' ? { ...r, state: 'playing' } : r) }}
+            onExit={exitReplay}
+          />
+
           {/* mute toggle (indigo) */}
           <button
             onClick={toggleMute}
@@ -410,60 +958,124 @@ export default function ChatPane({
         onScroll={onScroll}
         className="flex-1 min-h-0 overflow-y-auto rounded-2xl border bg-gradient-to-b from-white to-slate-50 p-3 space-y-3"
       >
-        {msgs.map((m) => {
-          const canon = canonicalEmotionName(m.emotion?.name)
-          const style = canon ? EMOJI[canon] : neutralEmo
-          const label = canon ?? '—'
-          const inten = m.emotion?.intensity ? ` ×${Math.max(1,Math.min(3,Math.round(m.emotion.intensity)))}` : ''
-          const ts = m.ts ? new Date(m.ts).toLocaleTimeString() : ''
-          const isUser = m.role === 'user'
-          return (
-            <div key={m.id} className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
-              <div className={[
-                'group max-w-[80%] rounded-2xl px-3 py-2 shadow-sm border',
-                isUser
-                  ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white border-blue-600'
-                  : 'bg-white text-slate-800 border-slate-200'
-              ].join(' ')}>
-                {/* meta */}
-                <div className="mb-1 flex items-center justify-between gap-3">
-                  {!isUser ? (
-                    <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] leading-none ${style.pill} ${style.text}`}>
-                      <span className={`h-2 w-2 rounded-full ${style.dot}`} />
-                      {style.emoji} {label}{inten}
-                    </span>
-                  ) : <span className="text-[10px] opacity-70">you</span>}
-                  {!!ts && <span className="text-[10px] text-slate-400">{ts}</span>}
-                </div>
+        {/* older history: loads on its own near the top; the button is for keyboard users and retries */}
+        {olderPath && !replay && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => void loadOlder()}
+              disabled={loadingOlder}
+              className="rounded-full border border-slate-300 bg-white px-3 py-1 text-xs text-slate-600 hover:bg-slate-50 disabled:opacity-60"
+            >
+              {loadingOlder ? 'Loading earlier messages…' : 'Load earlier messages'}
+            </button>
+          </div>
+        )}
 
-                {/* content */}
-                <div className="prose prose-sm max-w-none prose-a:underline prose-pre:overflow-x-auto">
-                  <ReactMarkdown
-                    remarkPlugins={[remarkGfm, remarkBreaks]}
-                    components={{
-                      a: (props) => <a {...props} target="_blank" rel="noreferrer" className={isUser ? 'text-white underline underline-offset-2' : 'text-blue-600 underline'} />,
-                      code: ({inline, ...props}: any) =>
-                        inline ? <code {...props} /> : <pre className="overflow-x-auto"><code {...props} /></pre>,
-                    }}
-                  >
-                    {m.text}
-                  </ReactMarkdown>
+        <div className="-mb-3" style={{ paddingTop: virt.padTop, paddingBottom: virt.padBottom }}>
+          {msgs.slice(virt.start, virt.end).map((m, k) => {
+            const i = virt.start + k
+            const canon = canonicalEmotionName(m.emotion?.name)
+            const style = canon ? EMOJI[canon] : neutralEmo
+            const label = canon ?? '—'
+            const inten = m.emotion?.intensity ? ` ×${Math.max(1,Math.min(3,Math.round(m.emotion.intensity)))}` : ''
+            const ts = m.ts ? new Date(m.ts).toLocaleTimeString() : ''
+            const isUser = m.role === 'user'
+            return (
+              <div key={m.id} ref={virt.measure} data-vid={m.id} className={`flex pb-3 ${isUser ? 'justify-end' : 'justify-start'}`}>
+                <div className={[
+                  'group max-w-[80%] rounded-2xl px-3 py-2 shadow-sm border transition-shadow',
+                  m.id === flashId ? 'ring-4 ring-amber-300' : '',
+                  isUser
+                    ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white border-blue-600'
+                    : 'bg-white text-slate-800 border-slate-200'
+                ].join(' ')}>
+                  {/* meta */}
+                  <div className="mb-1 flex items-center justify-between gap-3">
+                    {!isUser ? (
+                      <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] leading-none ${style.pill} ${style.text}`}>
+                        <span className={`h-2 w-2 rounded-full ${style.dot}`} />
+                        {style.emoji} {label}{inten}
+                      </span>
+                    ) : <span className="text-[10px] opacity-70">you</span>}
+                    {!!ts && <span className="text-[10px] text-slate-400">{ts}</span>}
+                  </div>
+
+                  {/* content */}
+                  {editing?.id === m.id ? (
+                    <div className="space-y-1">
+                      <textarea
+                        autoFocus
+                        rows={3}
+                        aria-label="Edit message"
+                        value={editing.text}
+                        onChange={(e) => setEditing({ id: m.id, text: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); void submitEdit() }
+                          if (e.key === 'Escape') { e.stopPropagation(); setEditing(null) }
+                        }}
+                        className="w-full min-w-[16rem] rounded-lg border border-blue-300 bg-white p-2 text-sm text-slate-900 focus:outline-none"
+                      />
+                      <div className="flex items-center justify-end gap-1 text-xs">
+                        <span className="mr-auto text-[10px] opacity-80">Starts a new branch; this thread stays as it is</span>
+                        <button onClick={() => setEditing(null)} className="rounded-md bg-white/20 px-2 py-0.5 hover:bg-white/30">Cancel</button>
+                        <button onClick={() => void submitEdit()} disabled={!editing.text.trim()} className="rounded-md bg-white px-2 py-0.5 text-blue-700 hover:bg-blue-50 disabled:opacity-50">Send</button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="prose prose-sm max-w-none prose-a:underline prose-pre:overflow-x-auto">
+                      <ReactMarkdown
+                        remarkPlugins={[remarkGfm, remarkBreaks]}
+                        components={{
+                          a: (props) => <a {...props} target="_blank" rel="noreferrer" className={isUser ? 'text-white underline underline-offset-2' : 'text-blue-600 underline'} />,
+                          code: ({inline, ...props}: any) =>
+                            inline ? <code {...props} /> : <pre className="overflow-x-auto"><code {...props} /></pre>,
+                        }}
+                      >
+                        {m.text}
+                      </ReactMarkdown>
+                    </div>
+                  )}
+
+                  {/* actions (live chat only: a replayed session can't send) */}
+                  {!replay && editing?.id !== m.id && (
+                    <MessageActions
+                      onDark={isUser}
+                      copied={copiedId === m.id}
+                      onCopy={() => void copyMsg(m)}
+                      onEdit={isUser && onBranch && chatRowOf(m.id) ? () => setEditing({ id: m.id, text: m.text }) : undefined}
+                      onRegenerate={!isUser && msgs.slice(0, i).some(x => x.role === 'user') ? () => regenerate(i) : undefined}
+                      onReplay={!isUser ? () => replayAudio(m) : undefined}
+                      busy={streaming || awaitingUserEcho || !canSend}
+                      replayBlocked={muted ? 'Unmute to replay' : null}
+                    />
+                  )}
                 </div>
               </div>
-            </div>
-          )
-        })}
+            )
+          })}
+        </div>
 
-        {/* awaiting server echo bubble */}
+        {/* awaiting server echo bubble; a streamed voice take shows what was heard so far */}
         {awaitingUserEcho && (
           <div className="flex justify-end">
-            <div className="max-w-[70%] rounded-2xl px-3 py-2 bg-blue-500/90 text-white shadow-sm">
-              <span className="inline-flex gap-1 items-center">
-                <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse" />
-                <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse" />
-                <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse" />
-              </span>
-            </div>
+            {partialTranscript ? (
+              <div
+                className="max-w-[70%] rounded-2xl px-3 py-2 border border-dashed border-blue-400 bg-blue-500/60 text-white italic shadow-sm"
+                aria-label="Transcript so far"
+                aria-live="polite"
+              >
+                {partialTranscript}
+                {micState === 'recording' && <span className="ml-1 inline-block w-1.5 h-1.5 rounded-full bg-white animate-pulse" />}
+              </div>
+            ) : (
+              <div className="max-w-[70%] rounded-2xl px-3 py-2 bg-blue-500/90 text-white shadow-sm">
+                <span className="inline-flex gap-1 items-center">
+                  <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse" />
+                  <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse" />
+                  <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse" />
+                </span>
+              </div>
+            )}
           </div>
         )}
 
@@ -509,13 +1121,16 @@ export default function ChatPane({
         </div>
       )}
 
+      <Toast toast={toast} onDone={dismissToast} />
+
       {/* input row */}
       <div className="sticky bottom-0 flex items-center gap-2">
         <input
           value={input}
           onChange={e=>setInput(e.target.value)}
           onKeyDown={onKeyDown}
-          placeholder="Type a message…"
+          placeholder={replay ? 'Replaying a recorded session…' : 'Type a message…'}
+          disabled={!!replay}
           className="flex-1 rounded-xl border border-slate-300 p-3 bg-slate-50 text-slate-900 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-400"
           aria-label="Message input"
         />
@@ -523,9 +1138,9 @@ export default function ChatPane({
         {/* send */}
         <button
           onClick={sendText}
-          disabled={!connected || !input.trim()}
+          disabled={!canSend || !!replay || !input.trim()}
           className="inline-flex items-center justify-center rounded-xl h-11 w-11 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 shadow focus:outline-none focus:ring-2 focus:ring-blue-300"
-          title={connected ? 'Send' : 'Not connected'}
+          title={connected ? 'Send' : canSend ? 'Send (queued until reconnected)' : 'Not connected'}
           aria-label="Send message"
         >
           <AiOutlineSend className="text-2xl" />
@@ -533,22 +1148,34 @@ export default function ChatPane({
 
         {/* mic (PTT) */}
         {/** If micSupported is false, show enable button; else show hold-to-talk */}
+        <MicSettingsPanel value={micSettings} onChange={changeMicSettings} guards={guards} onGuards={changeGuards} />
+
+        <HandsFreeControls
+          on={handsFree}
+          onToggle={() => setHandsFree(v => !v)}
+          state={handsFreeState.state}
+          speaking={handsFreeState.speaking}
+          settings={vadSettings}
+          onSettings={changeVadSettings}
+          disabled={!canSend || !!replay}
+        />
+
         {micSupported !== undefined ? (
           micSupported ? (
             <button
-              disabled={!connected}
+              disabled={!canSend || !!replay || handsFree}
               onMouseDown={pttDown}
               onMouseUp={pttUp}
               onMouseLeave={pttCancel}
               onTouchStart={pttDown}
               onTouchEnd={pttUp}
               onTouchCancel={pttCancel}
-              title="Hold to talk"
+              title={handsFree ? 'Hands-free is on' : `Hold to talk (or hold ${keyLabel(pttKey)})`}
               aria-label="Hold to talk"
               className={[
                 'inline-flex items-center justify-center rounded-xl h-11 w-11 text-white shadow focus:outline-none focus:ring-2',
                 (micState==='recording') ? 'bg-emerald-600 ring-4 ring-emerald-300' : 'bg-emerald-600 hover:bg-emerald-700 focus:ring-emerald-300',
-                (!connected) ? 'opacity-50 cursor-not-allowed' : ''
+                (!canSend || replay || handsFree) ? 'opacity-50 cursor-not-allowed' : ''
               ].join(' ')}
             >
               <FiMic className="text-2xl"/>
@@ -565,6 +1192,9 @@ export default function ChatPane({
           )
         ) : null}
       </div>
+
+      {printDoc && <TranscriptPrint transcript={printDoc} />}
+      {helpOpen && <ShortcutsHelp pttKey={pttKey} onPttKey={changePttKey} onClose={() => setHelpOpen(false)} />}
     </div>
   )
 }
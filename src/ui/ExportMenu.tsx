@@ -0,0 +1,73 @@
+// components/ExportMenu.tsx
+// "Export" in the chat top bar: Markdown, PDF (print) or JSON transcript of the thread, with
+// the slide deck as an optional appendix. ChatPane builds the transcript (lib/transcript.ts).
+import React from 'react'
+import type { ExportFormat } from '../lib/transcript'
+
+type Props = {
+  onExport: (format: ExportFormat, withSlides: boolean) => Promise<void>
+  disabled?: boolean
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string; hint: string }> = [
+  { format: 'md', label: 'Markdown', hint: '.md file' },
+  { format: 'pdf', label: 'PDF', hint: 'print → Save as PDF' },
+  { format: 'json', label: 'JSON transcript', hint: '.json file' },
+]
+
+const BTN = 'rounded-full border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-50 disabled:opacity-50'
+
+export default function ExportMenu({ onExport, disabled }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const [withSlides, setWithSlides] = React.useState(true)
+  const [busy, setBusy] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  async function run(format: ExportFormat) {
+    setBusy(true)
+    setError(null)
+    try {
+      await onExport(format, withSlides)
+      setOpen(false)
+    } catch {
+      setError("Couldn't load the whole conversation")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button className={BTN} disabled={disabled} onClick={() => setOpen(o => !o)} aria-expanded={open} title="Export this conversation">
+        Export
+      </button>
+      {open && (
+        <div
+          role="menu"
+          aria-label="Export conversation"
+          onKeyDown={(e) => { if (e.key === 'Escape') { e.stopPropagation(); setOpen(false) } }}
+          className="absolute right-0 z-40 mt-1 w-56 space-y-1 rounded-xl border border-slate-200 bg-white p-2 text-xs shadow-lg"
+        >
+          {FORMATS.map(f => (
+            <button
+              key={f.format}
+              role="menuitem"
+              disabled={busy}
+              onClick={() => void run(f.format)}
+              className="flex w-full items-center justify-between rounded-lg px-2 py-1.5 text-left hover:bg-slate-50 disabled:opacity-50"
+            >
+              <span className="text-slate-800">{f.label}</span>
+              <span className="text-[10px] text-slate-400">{f.hint}</span>
+            </button>
+          ))}
+          <label className="flex items-center gap-2 border-t border-slate-100 px-2 pt-2 text-slate-600">
+            <input type="checkbox" checked={withSlides} onChange={(e) => setWithSlides(e.target.checked)} />
+            Include slides as an appendix
+          </label>
+          {busy && <div className="px-2 text-slate-500">Collecting messages…</div>}
+          {error && <div role="status" className="px-2 text-rose-700">{error}</div>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+// components/HandsFreeControls.tsx
+// Hands-free toggle next to the mic button, plus a popover with the VAD / barge-in knobs
+// (see lib/vad.ts). Controlled: ChatPane owns the mode and the settings and persists them.
+import React from 'react'
+import { FiHeadphones, FiSliders } from 'react-icons/fi'
+import { DEFAULT_VAD, VAD_RANGES } from '../lib/vad'
+import type { VadScalar, VadSettings } from '../lib/vad'
+import type { HandsFreeState } from '../hooks/useHandsFree'
+import { Slider } from './TuningPanel'
+
+type Props = {
+  on: boolean
+  onToggle: () => void
+  state: HandsFreeState
+  /** The VAD has an utterance open */
+  speaking: boolean
+  settings: VadSettings
+  onSettings: (s: VadSettings) => void
+  disabled?: boolean
+}
+
+const STATE_TITLE: Record<HandsFreeState, string> = {
+  off: 'Hands-free: off',
+  starting: 'Hands-free: opening the microphone…',
+  listening: 'Hands-free: listening',
+  denied: 'Hands-free: microphone permission denied',
+  unsupported: 'Hands-free: not supported in this browser',
+}
+
+export default function HandsFreeControls({ on, onToggle, state, speaking, settings, onSettings, disabled }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const set = (k: VadScalar, v: number) => onSettings({ ...settings, [k]: v })
+  const scalar = (k: VadScalar) => {
+    const r = VAD_RANGES[k]
+    return <Slider key={k} label={r.label} value={settings[k]} min={r.min} max={r.max} step={r.step} onChange={(v) => set(k, v)} />
+  }
+  const failed = state === 'denied' || state === 'unsupported'
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        onClick={onToggle}
+        disabled={disabled}
+        aria-pressed={on}
+        aria-label="Hands-free"
+        title={speaking ? 'Hands-free: hearing you' : STATE_TITLE[state]}
+        className={[
+          'relative inline-flex items-center justify-center rounded-xl h-11 w-11 shadow focus:outline-none focus:ring-2 disabled:opacity-50',
+          on ? 'bg-teal-600 text-white ring-teal-300' : 'bg-white text-teal-700 border border-teal-300 hover:bg-teal-50 focus:ring-teal-200',
+          on && speaking ? 'ring-4' : '',
+        ].join(' ')}
+      >
+        <FiHeadphones className="text-2xl" />
+        {on && (
+          <span className={`absolute right-1 top-1 h-2 w-2 rounded-full ${failed ? 'bg-rose-400' : speaking ? 'bg-white animate-pulse' : 'bg-teal-200'}`} />
+        )}
+      </button>
+      <button
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+        aria-label="Voice detection settings"
+        title="Voice detection settings"
+        className="inline-flex items-center justify-center rounded-lg h-8 w-8 text-slate-600 hover:bg-slate-100"
+      >
+        <FiSliders />
+      </button>
+
+      {open && (
+        <div className="absolute bottom-12 right-0 z-10 w-60 space-y-2 rounded-lg bg-white/95 p-2 text-xs shadow ring-1 ring-black/10">
+          <div className="text-[11px] font-semibold text-slate-500">Voice detection</div>
+          {scalar('sensitivity')}
+          {scalar('minSpeechMs')}
+          {scalar('minSilenceMs')}
+          <label className="flex items-center gap-2 text-[11px] text-slate-600">
+            <input type="checkbox" checked={settings.bargeIn} onChange={(e) => onSettings({ ...settings, bargeIn: e.target.checked })} />
+            Barge-in (talk over the avatar to stop it)
+          </label>
+          {settings.bargeIn && scalar('bargeInSensitivity')}
+          <button onClick={() => onSettings(DEFAULT_VAD)} className="rounded border border-slate-300 px-2 py-1 hover:bg-slate-50">Reset</button>
+          {failed && <div role="status" className="text-[11px] text-rose-700">{STATE_TITLE[state]}</div>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+// components/MessageActions.tsx
+// Per-bubble actions under a chat message, shown on hover or keyboard focus. An action is
+// offered only when ChatPane passes its handler; ChatPane does the work.
+import { FiCheck, FiCopy, FiEdit2, FiRefreshCw, FiVolume2 } from 'react-icons/fi'
+
+type Props = {
+  /** User bubbles are blue: light icons */
+  onDark?: boolean
+  copied?: boolean
+  onCopy: () => void
+  onRegenerate?: () => void
+  onEdit?: () => void
+  onReplay?: () => void
+  /** A reply is on its way: nothing that sends may start another */
+  busy?: boolean
+  /** Why replay is unavailable (e.g. muted); disables it */
+  replayBlocked?: string | null
+}
+
+export default function MessageActions({ onDark, copied, onCopy, onRegenerate, onEdit, onReplay, busy, replayBlocked }: Props) {
+  const btn = [
+    'inline-flex h-6 w-6 items-center justify-center rounded-md disabled:opacity-40',
+    onDark ? 'text-white/80 hover:bg-white/20 hover:text-white' : 'text-slate-500 hover:bg-slate-100 hover:text-slate-800',
+  ].join(' ')
+  return (
+    <div className="mt-1 flex justify-end gap-0.5 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+      <button className={btn} onClick={onCopy} aria-label={copied ? 'Copied' : 'Copy message'} title={copied ? 'Copied' : 'Copy Markdown'}>
+        {copied ? <FiCheck /> : <FiCopy />}
+      </button>
+      {onEdit && (
+        <button className={btn} onClick={onEdit} disabled={busy} aria-label="Edit and resend" title="Edit and resend (starts a branch)">
+          <FiEdit2 />
+        </button>
+      )}
+      {onRegenerate && (
+        <button className={btn} onClick={onRegenerate} disabled={busy} aria-label="Regenerate reply" title="Ask the same question again">
+          <FiRefreshCw />
+        </button>
+      )}
+      {onReplay && (
+        <button className={btn} onClick={onReplay} disabled={!!replayBlocked} aria-label="Replay audio" title={replayBlocked || 'Speak this reply again'}>
+          <FiVolume2 />
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest'
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import MicSettingsPanel from './MicSettingsPanel'
+import { DEFAULT_MIC } from '../lib/micSettings'
+import { DEFAULT_GUARDS } from '../lib/recordingGuards'
+import { FakeAudio, FakeMediaRecorder, installFakeAudio, installFakeMic } from '../test/fakes'
+
+const devices = [{ deviceId: 'usb-1', label: 'USB mic' }, { deviceId: 'head-2', label: 'Headset' }]
+
+function open(value = DEFAULT_MIC) {
+  const onChange = vi.fn()
+  render(<MicSettingsPanel value={value} onChange={onChange} guards={DEFAULT_GUARDS} onGuards={vi.fn()} />)
+  fireEvent.click(screen.getByLabelText('Microphone settings'))
+  return onChange
+}
+
+describe('MicSettingsPanel', () => {
+  it('lists the inputs once the preview stream is open and picks one', async () => {
+    const { getUserMedia } = installFakeMic({ devices })
+    const onChange = open()
+    await screen.findByText('Headset')
+    expect(getUserMedia).toHaveBeenCalledOnce()
+    fireEvent.change(screen.getByLabelText('Input device'), { target: { value: 'head-2' } })
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_MIC, deviceId: 'head-2' })
+    fireEvent.click(screen.getByLabelText('Noise suppression'))
+    expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_MIC, noiseSuppression: false })
+  })
+
+  it('keeps a saved device that is not plugged in visible', async () => {
+    installFakeMic({ devices })
+    open({ ...DEFAULT_MIC, deviceId: 'gone' })
+    expect(await screen.findByText('Saved device (not found)')).toBeTruthy()
+  })
+
+  it('records a test take and plays it back', async () => {
+    installFakeMic({ devices })
+    installFakeAudio()
+    Object.assign(URL, { createObjectURL: vi.fn(() => 'blob:test'), revokeObjectURL: vi.fn() })
+    open()
+    await screen.findByText('Headset')
+    fireEvent.click(screen.getByText('Test: record & play back'))
+    expect(FakeMediaRecorder.last?.state).toBe('recording')
+    act(() => { fireEvent.click(screen.getByText('Stop and play back')) })
+    await waitFor(() => expect(FakeAudio.instances).toHaveLength(1))
+    expect(FakeAudio.instances[0].src).toBe('blob:test')
+    expect(FakeAudio.instances[0].paused).toBe(false)
+    act(() => { FakeAudio.instances[0].finish() })
+    expect(screen.getByText('Test: record & play back')).toBeTruthy()
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:test')
+  })
+
+  it('says so when the microphone cannot be opened', async () => {
+    installFakeMic({ deny: true })
+    open()
+    expect((await screen.findByRole('status')).textContent).toBe('Microphone unavailable')
+  })
+})
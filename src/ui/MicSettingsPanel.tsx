@@ -0,0 +1,195 @@
+// components/MicSettingsPanel.tsx
+// Microphone picker next to the mic button: input device, echo cancellation / noise suppression /
+// AGC, a live level meter and a record-then-play-back test, plus the recording guards (length
+// limits, silence trimming). Controlled: ChatPane owns the settings (lib/micSettings.ts,
+// lib/recordingGuards.ts) and persists them. The panel holds its own preview stream only
+// while it is open.
+import React from 'react'
+import { FiSettings } from 'react-icons/fi'
+import { createMicMeter, listMicrophones, openMic } from '../lib/micSettings'
+import type { MicDevice, MicSettings } from '../lib/micSettings'
+import { GUARD_RANGES } from '../lib/recordingGuards'
+import type { GuardScalar, RecordingGuards } from '../lib/recordingGuards'
+import { Slider } from './TuningPanel'
+
+type Props = {
+  value: MicSettings
+  onChange: (s: MicSettings) => void
+  guards: RecordingGuards
+  onGuards: (g: RecordingGuards) => void
+}
+
+const TEST_MAX_MS = 5000
+const METER_FLOOR_DB = -60
+
+const PROCESSING: Array<[keyof Omit<MicSettings, 'deviceId'>, string]> = [
+  ['echoCancellation', 'Echo cancellation'],
+  ['noiseSuppression', 'Noise suppression'],
+  ['autoGainControl', 'Automatic gain control'],
+]
+
+export default function MicSettingsPanel({ value, onChange, guards, onGuards }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const [devices, setDevices] = React.useState<MicDevice[]>([])
+  const [level, setLevel] = React.useState<number | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [test, setTest] = React.useState<'idle' | 'recording' | 'playing'>('idle')
+  const streamRef = React.useRef<MediaStream | null>(null)
+  const testRef = React.useRef<{ rec: MediaRecorder; timer: number } | null>(null)
+  const playerRef = React.useRef<{ audio: HTMLAudioElement; done: () => void } | null>(null)
+
+  // Preview stream + meter, reopened whenever the device or processing changes
+  React.useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    let meter: ReturnType<typeof createMicMeter> = null
+    let stream: MediaStream | null = null
+    setError(null)
+    openMic(value)
+      .then(async (s) => {
+        if (cancelled) { s.getTracks().forEach(t => t.stop()); return }
+        stream = s
+        streamRef.current = s
+        meter = createMicMeter(s, setLevel)
+        // Labels only show up once the page may use the mic, i.e. now
+        setDevices(await listMicrophones())
+      })
+      .catch(() => { if (!cancelled) setError('Microphone unavailable') })
+    return () => {
+      cancelled = true
+      meter?.stop()
+      setLevel(null)
+      cancelTest()
+      stream?.getTracks().forEach(t => t.stop())
+      streamRef.current = null
+    }
+  }, [open, value])
+
+  // Plugged / unplugged devices
+  React.useEffect(() => {
+    const md = navigator.mediaDevices
+    if (!open || !md?.addEventListener) return
+    const refresh = () => { void listMicrophones().then(setDevices).catch(() => {}) }
+    md.addEventListener('devicechange', refresh)
+    return () => md.removeEventListener('devicechange', refresh)
+  }, [open])
+
+  React.useEffect(() => () => { playerRef.current?.done() }, [])
+
+  /** Drops a test take in progress (no playback) and stops a playing one */
+  function cancelTest() {
+    const t = testRef.current
+    if (t) {
+      clearTimeout(t.timer)
+      t.rec.onstop = null
+      try { t.rec.stop() } catch { /* already inactive */ }
+      testRef.current = null
+    }
+    playerRef.current?.done()
+    setTest('idle')
+  }
+
+  function startTest() {
+    const stream = streamRef.current
+    if (!stream || typeof MediaRecorder === 'undefined') return
+    const rec = new MediaRecorder(stream)
+    const parts: BlobPart[] = []
+    rec.ondataavailable = (e) => { if (e.data?.size) parts.push(e.data) }
+    rec.onstop = () => {
+      clearTimeout(testRef.current?.timer)
+      testRef.current = null
+      const blob = new Blob(parts, { type: rec.mimeType || 'audio/webm' })
+      if (!blob.size) { setTest('idle'); return }
+      const url = URL.createObjectURL(blob)
+      const audio = new Audio(url)
+      const done = () => {
+        audio.pause()
+        URL.revokeObjectURL(url)
+        if (playerRef.current?.audio === audio) playerRef.current = null
+        setTest('idle')
+      }
+      playerRef.current = { audio, done }
+      audio.onended = done
+      setTest('playing')
+      audio.play().catch(done)
+    }
+    rec.start()
+    testRef.current = { rec, timer: window.setTimeout(() => rec.stop(), TEST_MAX_MS) }
+    setTest('recording')
+  }
+
+  function stopTest() {
+    if (testRef.current) testRef.current.rec.stop()
+    else playerRef.current?.done()
+  }
+
+  const pct = level == null ? 0 : Math.max(0, Math.min(1, (level - METER_FLOOR_DB) / -METER_FLOOR_DB))
+  const known = !value.deviceId || devices.some(d => d.deviceId === value.deviceId)
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+        aria-label="Microphone settings"
+        title="Microphone settings"
+        className="inline-flex items-center justify-center rounded-lg h-8 w-8 text-slate-600 hover:bg-slate-100"
+      >
+        <FiSettings />
+      </button>
+
+      {open && (
+        <div className="absolute bottom-12 right-0 z-10 w-64 space-y-2 rounded-lg bg-white/95 p-2 text-xs shadow ring-1 ring-black/10">
+          <div className="text-[11px] font-semibold text-slate-500">Microphone</div>
+          <select
+            aria-label="Input device"
+            className="w-full rounded border border-slate-300 bg-white px-1 py-1"
+            value={value.deviceId ?? ''}
+            onChange={(e) => onChange({ ...value, deviceId: e.target.value || null })}
+          >
+            <option value="">System default</option>
+            {devices.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+            {!known && <option value={value.deviceId!}>Saved device (not found)</option>}
+          </select>
+
+          <div
+            role="meter" aria-label="Input level" aria-valuemin={METER_FLOOR_DB} aria-valuemax={0}
+            aria-valuenow={level == null ? METER_FLOOR_DB : Math.round(Math.max(METER_FLOOR_DB, level))}
+            className="h-2 w-full overflow-hidden rounded bg-slate-200"
+          >
+            <div
+              className={`h-full ${pct > 0.9 ? 'bg-rose-500' : pct > 0.6 ? 'bg-amber-400' : 'bg-emerald-500'}`}
+              style={{ width: `${Math.round(pct * 100)}%` }}
+            />
+          </div>
+
+          {PROCESSING.map(([k, label]) => (
+            <label key={k} className="flex items-center gap-2 text-[11px] text-slate-600">
+              <input type="checkbox" checked={value[k]} onChange={(e) => onChange({ ...value, [k]: e.target.checked })} />
+              {label}
+            </label>
+          ))}
+
+          <button
+            onClick={test === 'idle' ? startTest : stopTest}
+            disabled={!!error}
+            className="rounded border border-slate-300 px-2 py-1 hover:bg-slate-50 disabled:opacity-50"
+          >
+            {test === 'idle' ? 'Test: record & play back' : test === 'recording' ? 'Stop and play back' : 'Stop playback'}
+          </button>
+          {error && <div role="status" className="text-[11px] text-rose-700">{error}</div>}
+
+          <div className="border-t border-slate-200 pt-2 text-[11px] font-semibold text-slate-500">Recording</div>
+          {(Object.keys(GUARD_RANGES) as GuardScalar[]).map(k => {
+            const r = GUARD_RANGES[k]
+            return <Slider key={k} label={r.label} value={guards[k]} min={r.min} max={r.max} step={r.step} onChange={(v) => onGuards({ ...guards, [k]: v })} />
+          })}
+          <label className="flex items-center gap-2 text-[11px] text-slate-600">
+            <input type="checkbox" checked={guards.trimSilence} onChange={(e) => onGuards({ ...guards, trimSilence: e.target.checked })} />
+            Trim silence before sending
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import SearchPalette from './SearchPalette'
+import { get } from '../lib/http'
+
+vi.mock('../lib/http', () => ({ get: vi.fn(), post: vi.fn(), patch: vi.fn(), del: vi.fn() }))
+
+const chats = [
+  { id: 4, thread_id: 't-2', query: 'How do I plan the budget?', response: 'Start from last quarter.', created_at: '2024-01-02T10:00:00Z' },
+]
+const slides = [
+  { thread_id: 't-1', version: 3, title: 'Budget', summary: '', editorjs: { blocks: [] }, updated_at: '2024-01-03T10:00:00Z' },
+]
+
+function open() {
+  const props = { currentId: 't-1', onPick: vi.fn(), onClose: vi.fn() }
+  render(<SearchPalette {...props} />)
+  return props
+}
+
+describe('SearchPalette', () => {
+  beforeEach(() => {
+    vi.mocked(get).mockReset().mockImplementation(async (path: string) => {
+      if (path.startsWith('/api/sessions/')) return { results: [{ thread_id: 't-2', title: 'Money talk', last_message: '', created_at: '', updated_at: '' }] }
+      if (path.startsWith('/api/chats/')) return { results: chats }
+      return { results: slides }
+    })
+  })
+
+  it('shows grouped, highlighted results and opens one with the keyboard', async () => {
+    const props = open()
+    const input = screen.getByLabelText('Search messages and slides')
+    fireEvent.change(input, { target: { value: 'budget' } })
+
+    await screen.findByText('Messages')
+    expect(screen.getByText('Slides')).toBeTruthy()
+    expect(screen.getAllByText(/^budget$/i).filter(n => n.tagName === 'MARK')).toHaveLength(2)
+    await screen.findByText(/Money talk/)
+    expect(screen.getByText(/This conversation/)).toBeTruthy()
+
+    const options = screen.getAllByRole('option')
+    expect(options[0].getAttribute('aria-selected')).toBe('true')
+    fireEvent.keyDown(input, { key: 'ArrowDown' })
+    expect(options[1].getAttribute('aria-selected')).toBe('true')
+    fireEvent.keyDown(input, { key: 'ArrowDown' })
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(props.onPick).toHaveBeenCalledWith(expect.objectContaining({ kind: 'chat', thread_id: 't-2', row_id: 4, side: 'query' }))
+  })
+
+  it('picks a slide version on click and closes on Esc', async () => {
+    const props = open()
+    fireEvent.change(screen.getByLabelText('Search messages and slides'), { target: { value: 'budget' } })
+    fireEvent.click((await screen.findByText(/v3 ·/)).closest('button')!)
+    expect(props.onPick).toHaveBeenCalledWith(expect.objectContaining({ kind: 'slide', thread_id: 't-1', version: 3 }))
+
+    fireEvent.keyDown(screen.getByLabelText('Search messages and slides'), { key: 'Escape' })
+    expect(props.onClose).toHaveBeenCalled()
+  })
+
+  it('waits for two characters and says when nothing matches', async () => {
+    open()
+    const input = screen.getByLabelText('Search messages and slides')
+    fireEvent.change(input, { target: { value: 'b' } })
+    await new Promise(r => setTimeout(r, 300))
+    expect(vi.mocked(get).mock.calls.some(([p]) => p.startsWith('/api/chats/'))).toBe(false)
+
+    vi.mocked(get).mockResolvedValue({ results: [] })
+    fireEvent.change(input, { target: { value: 'zz' } })
+    await waitFor(() => expect(screen.getByText('No matches')).toBeTruthy())
+  })
+})
@@ -0,0 +1,171 @@
+// components/SearchPalette.tsx
+// Search palette (Ctrl/⌘+K): finds messages and slide versions in all of this bot's threads.
+// - Queries run 250 ms after typing stops; a slower, older response never replaces a newer one
+// - ↑/↓ move through the results, Enter opens one, Esc closes
+// Picking a hit is the parent's job (App opens the thread, then ChatPane/SlidesPane jump to it).
+import React from 'react'
+import { FiFileText, FiMessageSquare, FiSearch } from 'react-icons/fi'
+import { useDebounce } from '../hooks/useDebounce'
+import { SEARCH_MIN_CHARS, highlight, queryTerms, searchAll } from '../lib/search'
+import type { SearchHit, SearchResults } from '../lib/search'
+import { listThreads, threadLabel } from '../lib/session'
+
+type Props = {
+  currentId: string
+  onPick: (hit: SearchHit) => void
+  onClose: () => void
+}
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlight(text, terms).map((p, i) => p.hit
+        ? <mark key={i} className="rounded bg-amber-200 px-0.5 text-slate-900">{p.text}</mark>
+        : <React.Fragment key={i}>{p.text}</React.Fragment>)}
+    </>
+  )
+}
+
+export default function SearchPalette({ currentId, onPick, onClose }: Props) {
+  const [q, setQ] = React.useState('')
+  const [results, setResults] = React.useState<SearchResults | null>(null)
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [active, setActive] = React.useState(0)
+  const [labels, setLabels] = React.useState<Map<string, string>>(new Map())
+  const seq = React.useRef(0)
+  const listRef = React.useRef<HTMLDivElement>(null)
+
+  React.useEffect(() => {
+    let live = true
+    listThreads()
+      .then(({ threads }) => { if (live) setLabels(new Map(threads.map(t => [t.thread_id, threadLabel(t)]))) })
+      .catch(() => { /* results fall back to "Another conversation" */ })
+    return () => { live = false }
+  }, [])
+
+  useDebounce(() => {
+    const query = q.trim()
+    const mine = ++seq.current
+    if (query.length < SEARCH_MIN_CHARS) {
+      setResults(null)
+      setLoading(false)
+      setError(null)
+      return
+    }
+    setLoading(true)
+    searchAll(query)
+      .then(r => {
+        if (mine !== seq.current) return
+        setResults(r)
+        setError(null)
+        setActive(0)
+      })
+      .catch(() => { if (mine === seq.current) setError('Search failed') })
+      .finally(() => { if (mine === seq.current) setLoading(false) })
+  }, [q], 250)
+
+  const hits: SearchHit[] = results ? [...results.chats, ...results.slides] : []
+  const terms = queryTerms(q)
+
+  React.useEffect(() => {
+    listRef.current?.querySelector(`[data-hit="${active}"]`)?.scrollIntoView?.({ block: 'nearest' })
+  }, [active])
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      e.stopPropagation()
+      onClose()
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      if (!hits.length) return
+      setActive(a => (a + (e.key === 'ArrowDown' ? 1 : hits.length - 1)) % hits.length)
+    } else if (e.key === 'Enter' && hits[active]) {
+      e.preventDefault()
+      onPick(hits[active])
+    }
+  }
+
+  const where = (thread_id: string) =>
+    thread_id === currentId ? 'This conversation' : labels.get(thread_id) || 'Another conversation'
+  const when = (iso: string) => {
+    const d = new Date(iso)
+    return Number.isNaN(d.getTime()) ? '' : d.toLocaleDateString()
+  }
+
+  function row(hit: SearchHit, i: number) {
+    const Icon = hit.kind === 'chat' ? FiMessageSquare : FiFileText
+    const meta = hit.kind === 'chat'
+      ? `${hit.side === 'query' ? 'You' : 'Coach'} · ${where(hit.thread_id)}`
+      : `${hit.title || 'Slides'} v${hit.version} · ${where(hit.thread_id)}`
+    return (
+      <li key={`${hit.kind}-${hit.thread_id}-${hit.kind === 'chat' ? `${hit.row_id}${hit.side}` : hit.version}`}>
+        <button
+          data-hit={i}
+          role="option"
+          aria-selected={i === active}
+          onMouseEnter={() => setActive(i)}
+          onClick={() => onPick(hit)}
+          className={`flex w-full gap-2 rounded-lg px-2 py-1.5 text-left ${i === active ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+        >
+          <Icon className="mt-0.5 shrink-0 text-slate-400" />
+          <span className="min-w-0 flex-1">
+            <span className="flex justify-between gap-2 text-[11px] text-slate-500">
+              <span className="truncate">{meta}</span>
+              <span className="shrink-0">{when(hit.at)}</span>
+            </span>
+            <span className="block text-slate-700"><Highlighted text={hit.text} terms={terms} /></span>
+          </span>
+        </button>
+      </li>
+    )
+  }
+
+  const chatCount = results?.chats.length ?? 0
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 p-4 pt-[12vh]" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+        onKeyDown={onKeyDown}
+        onClick={(e) => e.stopPropagation()}
+        className="flex max-h-[70vh] w-full max-w-xl flex-col rounded-2xl bg-white text-sm shadow-2xl"
+      >
+        <label className="flex items-center gap-2 border-b border-slate-200 px-3 py-2">
+          <FiSearch className="text-slate-400" />
+          <input
+            autoFocus
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+            placeholder="Search messages and slides"
+            aria-label="Search messages and slides"
+            className="flex-1 bg-transparent py-1 outline-none"
+          />
+          {loading && <span className="text-[11px] text-slate-500">Searching…</span>}
+        </label>
+
+        <div ref={listRef} role="listbox" aria-label="Results" className="overflow-y-auto p-2">
+          {error && <div role="status" className="px-2 py-3 text-rose-700">{error}</div>}
+          {!error && results && !hits.length && <div className="px-2 py-3 text-slate-500">No matches</div>}
+          {!error && results?.chats.length ? (
+            <>
+              <div className="px-2 pb-1 pt-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">Messages</div>
+              <ul>{results.chats.map((h, i) => row(h, i))}</ul>
+            </>
+          ) : null}
+          {!error && results?.slides.length ? (
+            <>
+              <div className="px-2 pb-1 pt-2 text-[11px] font-semibold uppercase tracking-wide text-slate-400">Slides</div>
+              <ul>{results.slides.map((h, i) => row(h, chatCount + i))}</ul>
+            </>
+          ) : null}
+          {!results && !error && (
+            <div className="px-2 py-3 text-[11px] text-slate-500">Type at least {SEARCH_MIN_CHARS} characters · ↑↓ to move · Enter to open · Esc to close</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+// components/SessionControls.tsx
+// Record / replay buttons in the chat top bar (see lib/sessionLog.ts). Stateless apart from
+// the load error: ChatPane owns the recorder and the player and passes their state down.
+import React from 'react'
+import { parseSessionFile } from '../lib/sessionLog'
+import type { SessionFile } from '../lib/sessionLog'
+
+export type ReplayStatus = { name: string; done: number; total: number; state: 'playing' | 'paused' | 'done' }
+
+type Props = {
+  recording: boolean
+  /** Events captured so far */
+  count: number
+  onRecord: () => void
+  /** Ends the recording and downloads it */
+  onSave: () => void
+  replay: ReplayStatus | null
+  onReplay: (file: SessionFile, name: string) => void
+  onPause: () => void
+  onResume: () => void
+  onExit: () => void
+}
+
+const BTN = 'rounded-full border border-slate-300 bg-white px-2 py-1 text-xs hover:bg-slate-50 disabled:opacity-50'
+
+export default function SessionControls({ recording, count, onRecord, onSave, replay, onReplay, onPause, onResume, onExit }: Props) {
+  const fileRef = React.useRef<HTMLInputElement>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const f = e.target.files?.[0]
+    e.target.value = ''
+    if (!f) return
+    setError(null)
+    try {
+      onReplay(parseSessionFile(await f.text()), f.name)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read session')
+    }
+  }
+
+  if (replay) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs">
+        <span className="inline-flex items-center gap-1 rounded-full bg-violet-100 px-2 py-1 text-violet-800" title={replay.name}>
+          <span className={`h-2 w-2 rounded-full bg-violet-500 ${replay.state === 'playing' ? 'animate-pulse' : ''}`} />
+          replay {replay.done}/{replay.total}{replay.state === 'done' ? ' · done' : ''}
+        </span>
+        {replay.state === 'playing' && <button className={BTN} onClick={onPause}>Pause</button>}
+        {replay.state === 'paused' && <button className={BTN} onClick={onResume}>Resume</button>}
+        <button className={BTN} onClick={onExit}>Exit replay</button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs">
+      {recording ? (
+        <button className={`${BTN} text-red-700`} onClick={onSave} title="Stop recording and download the session">
+          <span className="mr-1 inline-block h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+          Save ({count})
+        </button>
+      ) : (
+        <button className={BTN} onClick={onRecord} title="Record this session's messages to a file">● Record</button>
+      )}
+      <button className={BTN} disabled={recording} onClick={() => fileRef.current?.click()} title="Play back a recorded session">
+        Replay…
+      </button>
+      <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" aria-label="Session file" onChange={onFile} />
+      {error && <span role="status" className="text-rose-700">{error}</span>}
+    </div>
+  )
+}
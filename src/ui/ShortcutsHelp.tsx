@@ -0,0 +1,88 @@
+// components/ShortcutsHelp.tsx
+// Keyboard cheat-sheet overlay (`?`), where the push-to-talk key can also be changed.
+// Controlled: ChatPane owns the key and persists it.
+import React from 'react'
+import { OTHER_SHORTCUTS, SHORTCUTS, isValidPttKey, keyLabel } from '../lib/shortcuts'
+
+type Props = {
+  pttKey: string
+  onPttKey: (code: string) => void
+  onClose: () => void
+}
+
+function Kbd({ children }: { children: React.ReactNode }) {
+  return <kbd className="rounded border border-slate-300 bg-slate-50 px-1.5 py-0.5 font-mono text-[11px] text-slate-700">{children}</kbd>
+}
+
+export default function ShortcutsHelp({ pttKey, onPttKey, onClose }: Props) {
+  const [capturing, setCapturing] = React.useState(false)
+  const [hint, setHint] = React.useState<string | null>(null)
+  const boxRef = React.useRef<HTMLDivElement>(null)
+  React.useEffect(() => { boxRef.current?.focus() }, [])
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    if (capturing) {
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.key === 'Escape') { setCapturing(false); setHint(null); return }
+      if (!isValidPttKey(e.code)) { setHint(`${keyLabel(e.code) || e.key} can't be used for push-to-talk`); return }
+      onPttKey(e.code)
+      setCapturing(false)
+      setHint(null)
+      return
+    }
+    if (e.key === 'Escape' || e.key === '?') {
+      e.preventDefault()
+      onClose()
+    }
+  }
+
+  const rows: Array<{ keys: React.ReactNode; label: string }> = [
+    { keys: <>Hold <Kbd>{keyLabel(pttKey)}</Kbd></>, label: 'Push-to-talk (release to send)' },
+    { keys: <Kbd>Esc</Kbd>, label: 'Cancel the recording' },
+    ...SHORTCUTS.map(s => ({ keys: <Kbd>{s.keys}</Kbd>, label: s.label })),
+    ...OTHER_SHORTCUTS.map(s => ({ keys: <Kbd>{s.keys}</Kbd>, label: s.label })),
+  ]
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        ref={boxRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Keyboard shortcuts"
+        tabIndex={-1}
+        onKeyDown={onKeyDown}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md space-y-3 rounded-2xl bg-white p-4 text-sm shadow-2xl outline-none"
+      >
+        <div className="flex items-center justify-between">
+          <div className="font-semibold text-slate-800">Keyboard shortcuts</div>
+          <button onClick={onClose} className="rounded px-2 py-1 text-xs border border-slate-300 hover:bg-slate-50">Close</button>
+        </div>
+
+        <table className="w-full text-left text-xs">
+          <tbody>
+            {rows.map((r, i) => (
+              <tr key={i} className="border-t border-slate-100">
+                <td className="py-1.5 pr-3 whitespace-nowrap">{r.keys}</td>
+                <td className="py-1.5 text-slate-600">{r.label}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="text-[11px] text-slate-500">Single-key shortcuts are ignored while you type in a field.</div>
+
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            onClick={() => { setCapturing(c => !c); setHint(null) }}
+            className={`rounded border px-2 py-1 ${capturing ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-300 hover:bg-slate-50'}`}
+          >
+            {capturing ? 'Press a key… (Esc to keep the current one)' : 'Change push-to-talk key'}
+          </button>
+          {hint && <span role="status" className="text-rose-700">{hint}</span>}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import SlidesPane from './SlidesPane'
+import { get, post } from '../lib/http'
+
+const editor = vi.hoisted(() => ({ render: vi.fn() }))
+
+vi.mock('@editorjs/editorjs', () => ({
+  default: class {
+    isReady = Promise.resolve()
+    render = editor.render
+    save = vi.fn(async () => ({ blocks: [] }))
+    destroy = vi.fn()
+  },
+}))
+vi.mock('@editorjs/header', () => ({ default: class {} }))
+vi.mock('@editorjs/list', () => ({ default: class {} }))
+vi.mock('@editorjs/paragraph', () => ({ default: class {} }))
+vi.mock('../lib/http', () => ({ get: vi.fn(), post: vi.fn() }))
+
+const blocks = (text: string) => ({ blocks: [{ type: 'paragraph', data: { text } }] })
+const deck = (version: number, title = `Deck v${version}`) => ({ title, summary: '', editorjs: blocks(title), version })
+
+async function mountAt(version: number) {
+  vi.mocked(get).mockResolvedValue({ results: [deck(version)] })
+  const view = render(<SlidesPane incoming={null} />)
+  await screen.findByText(`v${version}`)
+  editor.render.mockClear()
+  return view
+}
+
+describe('SlidesPane', () => {
+  beforeEach(() => {
+    localStorage.setItem('thread_id', 'thread-1')
+    editor.render.mockReset()
+    vi.mocked(post).mockResolvedValue({})
+  })
+
+  it('loads the latest deck for the thread', async () => {
+    await mountAt(3)
+    expect(get).toHaveBeenCalledWith(expect.stringContaining('thread_id=thread-1'))
+    expect(screen.getByPlaceholderText('Slide title')).toHaveProperty('value', 'Deck v3')
+  })
+
+  it('applies a newer streamed version', async () => {
+    const view = await mountAt(1)
+    view.rerender(<SlidesPane incoming={deck(2)} />)
+    await screen.findByText('v2')
+    expect(editor.render).toHaveBeenCalledWith(blocks('Deck v2'))
+    expect(screen.getByPlaceholderText('Slide title')).toHaveProperty('value', 'Deck v2')
+  })
+
+  it('ignores stale and duplicate versions', async () => {
+    const view = await mountAt(5)
+    view.rerender(<SlidesPane incoming={deck(4)} />)
+    view.rerender(<SlidesPane incoming={deck(5, 'Same version')} />)
+    await act(async () => {})
+    expect(editor.render).not.toHaveBeenCalled()
+    expect(screen.getByText('v5')).toBeTruthy()
+  })
+
+  it('queues updates while the user is typing, then applies on request', async () => {
+    const view = await mountAt(1)
+    fireEvent.change(screen.getByPlaceholderText('Slide title'), { target: { value: 'Mine' } })
+    view.rerender(<SlidesPane incoming={deck(2)} />)
+
+    await screen.findByText('AI update ready')
+    expect(editor.render).not.toHaveBeenCalled()
+    expect(screen.getByPlaceholderText('Slide title')).toHaveProperty('value', 'Mine')
+
+    fireEvent.click(screen.getByText('Apply'))
+    await screen.findByText('v2')
+    expect(editor.render).toHaveBeenCalledWith(blocks('Deck v2'))
+    expect(screen.queryByText('AI update ready')).toBeNull()
+  })
+
+  it('keeps the user edit when a queued update is discarded', async () => {
+    const view = await mountAt(1)
+    fireEvent.change(screen.getByPlaceholderText('Slide title'), { target: { value: 'Mine' } })
+    view.rerender(<SlidesPane incoming={deck(2)} />)
+    fireEvent.click(await screen.findByText('Discard'))
+    await waitFor(() => expect(screen.queryByText('AI update ready')).toBeNull())
+    expect(editor.render).not.toHaveBeenCalled()
+    expect(screen.getByPlaceholderText('Slide title')).toHaveProperty('value', 'Mine')
+    expect(screen.getByText('v1')).toBeTruthy()
+  })
+
+  it('shows a version picked in search until going back to the latest', async () => {
+    const view = await mountAt(4)
+    vi.mocked(get).mockImplementation(async (path: string) => ({ results: [path.includes('version=2') ? deck(2) : deck(4)] }))
+    view.rerender(<SlidesPane incoming={null} focus={{ version: 2, nonce: 1 }} />)
+    await screen.findByText('Viewing an older version')
+    await waitFor(() => expect(editor.render).toHaveBeenCalledWith(blocks('Deck v2')))
+    expect(screen.getByText('v2')).toBeTruthy()
+
+    // live updates wait while an old version is open
+    view.rerender(<SlidesPane incoming={deck(5)} focus={{ version: 2, nonce: 1 }} />)
+    await screen.findByText('AI update ready')
+
+    fireEvent.click(screen.getByText('Back to latest'))
+    await waitFor(() => expect(editor.render).toHaveBeenLastCalledWith(blocks('Deck v4')))
+    expect(screen.queryByText('Viewing an older version')).toBeNull()
+    expect(post).not.toHaveBeenCalled()
+  })
+
+  it('restores a viewed version as the newest one', async () => {
+    const view = await mountAt(4)
+    vi.mocked(get).mockResolvedValue({ results: [deck(2)] })
+    view.rerender(<SlidesPane incoming={null} focus={{ version: 2, nonce: 1 }} />)
+    fireEvent.click(await screen.findByText('Restore'))
+    await waitFor(() => expect(post).toHaveBeenCalledWith('/api/slides/', expect.objectContaining({ title: 'Deck v2', version: 4 })))
+  })
+})
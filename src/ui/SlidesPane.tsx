@@ -8,6 +8,7 @@ import Paragraph from '@editorjs/paragraph'
 import { useDebounce } from '../hooks/useDebounce'
 import { get, post } from '../lib/http'
 import { getThreadId } from '../lib/session'
+import type { SlidesDeck } from '../lib/transcript'
 
 type Slides = {
   id?: number
@@ -20,12 +21,18 @@ type Slides = {
   updated_at?: string
 }
 
+/** A search hit: show this saved version until the user restores it or goes back to the latest */
+export type SlideFocus = { version: number; nonce: number }
+
 type Props = {
   className?: string
   /** Live WS chunk (entire slides payload or partial) */
   incoming?: any | null
   /** Show “Streaming…” badge */
   streaming?: boolean
+  focus?: SlideFocus | null
+  /** Filled with a getter for the deck on screen, null while it's empty (chat transcript export) */
+  deckRef?: React.MutableRefObject<() => SlidesDeck | null>
 }
 
 /* ---------------- utilities ---------------- */
@@ -42,6 +49,17 @@ function stableHash(obj: any): string {
 }
 const nowFmt = () => new Date().toLocaleTimeString()
 
+/** Newest deck the filter matches (DRF page, plain list or a single object) */
+async function fetchDeck(params: Record<string, string>): Promise<Slides | null> {
+  const res = await get<any>(`/api/slides/?${new URLSearchParams(params).toString()}`)
+  if (!res) return null
+  if (Array.isArray(res?.results)) return res.results[0] || null
+  if (Array.isArray(res)) return res[0] || null
+  if (res?.editorjs) return res as Slides
+  return null
+}
+const EMPTY_DECK: Slides = { title: '', summary: '', editorjs: { blocks: [] } }
+
 /** Returns true if the EditorJS data has any meaningful user content */
 function editorHasContent(data?: OutputData | null): boolean {
   if (!data || !Array.isArray((data as any).blocks)) return false
@@ -70,7 +88,7 @@ function editorHasContent(data?: OutputData | null): boolean {
   return false
 }
 
-export default function SlidesPane({ className = '', incoming, streaming = false }: Props) {
+export default function SlidesPane({ className = '', incoming, streaming = false, focus, deckRef }: Props) {
   const holderId = React.useMemo(
     () => `slides-editor-${(crypto as any)?.randomUUID?.() ?? Math.random().toString(36).slice(2)}`,
     []
@@ -86,6 +104,9 @@ export default function SlidesPane({ className = '', incoming, streaming = false
   // versioning / conflict awareness
   const versionRef = React.useRef<number>(0)
   const lastSavedHashRef = React.useRef<string>('')
+  // an older version opened from search: not autosaved, live updates wait in the queue
+  const [viewing, setViewing] = React.useState<number | null>(null)
+  const viewingRef = React.useRef<number | null>(null)
 
   // user activity (avoid clobbering caret while typing)
   const lastEditTsRef = React.useRef<number>(0)
@@ -105,6 +126,21 @@ export default function SlidesPane({ className = '', incoming, streaming = false
   })
   const readyRef = React.useRef(false) // becomes true after initial fetch/attempt completes
 
+  const showDeck = React.useCallback(async (deck: Slides) => {
+    setTitle(deck.title || '')
+    setSummary(deck.summary || '')
+    silenceAutosaveRef.current = true
+    try {
+      await ej.current?.isReady
+      await ej.current?.render(deck.editorjs)
+      setEjData(deck.editorjs)
+    } finally {
+      setTimeout(() => {
+        silenceAutosaveRef.current = false
+      }, 0)
+    }
+  }, [])
+
   // ------------- init -------------
   React.useEffect(() => {
     let mounted = true
@@ -144,30 +180,11 @@ export default function SlidesPane({ className = '', incoming, streaming = false
         return
       }
       try {
-        const qs = new URLSearchParams({ thread_id, ordering: '-updated_at' }).toString()
-        const res = await get<any>(`/api/slides/?${qs}`)
-        const pickLatest = (r: any): Slides | null => {
-          if (!r) return null
-          if (Array.isArray(r?.results)) return r.results[0] || null
-          if (Array.isArray(r)) return r[0] || null
-          if (r?.editorjs) return r as Slides
-          return null
-        }
-        const latest = pickLatest(res)
+        const latest = await fetchDeck({ thread_id, ordering: '-updated_at' })
         if (mounted && latest?.editorjs) {
           versionRef.current = Number(latest.version || 0)
-          setTitle(latest.title || '')
-          setSummary(latest.summary || '')
-          silenceAutosaveRef.current = true
-          try {
-            await ej.current?.isReady
-            await ej.current?.render(latest.editorjs)
-            setEjData(latest.editorjs)
-          } finally {
-            setTimeout(() => {
-              silenceAutosaveRef.current = false
-            }, 0)
-          }
+          // a version opened from search before this resolved stays on screen
+          if (viewingRef.current == null) await showDeck(latest)
           const hash = stableHash({ t: latest.title || '', s: latest.summary || '', e: latest.editorjs })
           lastSavedHashRef.current = hash
           setSavedAt(nowFmt())
@@ -204,8 +221,8 @@ export default function SlidesPane({ className = '', incoming, streaming = false
     // Ignore stale versions
     if ((next.version ?? 0) <= (versionRef.current ?? 0)) return
 
-    // If user is actively editing, queue the update instead of applying
-    if (userActive()) {
+    // If user is actively editing (or looking at an older version), queue the update instead of applying
+    if (userActive() || viewingRef.current != null) {
       setQueuedAI(next)
       return
     }
@@ -231,11 +248,42 @@ export default function SlidesPane({ className = '', incoming, streaming = false
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [incoming])
 
+  // ------------- saved version from search -------------
+  const backToLatest = React.useCallback(async () => {
+    viewingRef.current = null
+    setViewing(null)
+    const thread_id = getThreadId()
+    if (!thread_id) return
+    const latest = await fetchDeck({ thread_id, ordering: '-updated_at' }).catch(() => null)
+    if (viewingRef.current != null) return
+    const deck = latest?.editorjs ? latest : EMPTY_DECK
+    versionRef.current = Number(deck.version || versionRef.current)
+    lastSavedHashRef.current = stableHash({ t: deck.title || '', s: deck.summary || '', e: deck.editorjs })
+    await showDeck(deck)
+  }, [showDeck])
+
+  React.useEffect(() => {
+    const thread_id = getThreadId()
+    if (!focus || !thread_id) return
+    let live = true
+    viewingRef.current = focus.version
+    setViewing(focus.version)
+    ;(async () => {
+      const deck = await fetchDeck({ thread_id, version: String(focus.version) }).catch(() => null)
+      if (!live) return
+      if (deck?.editorjs && Number(deck.version) === focus.version) await showDeck(deck)
+      else void backToLatest() // gone since the search ran
+    })()
+    return () => { live = false }
+  }, [focus, showDeck, backToLatest])
+
   // ------------- apply / discard queued AI -------------
   const applyQueued = React.useCallback(async () => {
     const q = queuedAI
     if (!q) return
     setQueuedAI(null)
+    viewingRef.current = null
+    setViewing(null)
     setApplying(true)
     silenceAutosaveRef.current = true
     try {
@@ -259,7 +307,7 @@ export default function SlidesPane({ className = '', incoming, streaming = false
 
   // ------------- debounced autosave -------------
   const doSave = React.useCallback(async () => {
-    if (!readyRef.current || silenceAutosaveRef.current) return
+    if (!readyRef.current || silenceAutosaveRef.current || viewingRef.current != null) return
     const thread_id = getThreadId()
     if (!thread_id) return
 
@@ -297,6 +345,21 @@ export default function SlidesPane({ className = '', incoming, streaming = false
     void doSave()
   }, [title, summary, ejData])
 
+  React.useEffect(() => {
+    if (!deckRef) return
+    deckRef.current = () => !title.trim() && !summary.trim() && !editorHasContent(ejData)
+      ? null
+      : { title, summary, version: viewingRef.current ?? versionRef.current, editorjs: ejData }
+    return () => { deckRef.current = () => null }
+  }, [deckRef, title, summary, ejData])
+
+  /** Saves what's on screen (the old version, plus any edits) as the newest version */
+  const restoreViewed = React.useCallback(() => {
+    viewingRef.current = null
+    setViewing(null)
+    void doSave()
+  }, [doSave])
+
   const Sep = () => <span className="text-slate-300">•</span>
 
   return (
@@ -342,9 +405,31 @@ export default function SlidesPane({ className = '', incoming, streaming = false
             </span>
           </>
         )}
+        {viewing != null && (
+          <>
+            <Sep />
+            <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 text-amber-800 px-2 py-[2px]">
+              Viewing an older version
+              {viewing < versionRef.current && (
+                <button
+                  onClick={restoreViewed}
+                  className="ml-1 rounded bg-amber-600 text-white px-1.5 py-[1px] hover:bg-amber-700"
+                >
+                  Restore
+                </button>
+              )}
+              <button
+                onClick={() => void backToLatest()}
+                className="rounded border border-amber-300 px-1.5 py-[1px] hover:bg-amber-50"
+              >
+                Back to latest
+              </button>
+            </span>
+          </>
+        )}
         <Sep />
         <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-[2px] text-[11px] text-slate-600 ring-1 ring-slate-200">
-          v{versionRef.current}
+          v{viewing ?? versionRef.current}
         </span>
         <Sep />
         {saving ? (
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import ThreadSidebar from './ThreadSidebar'
+import { del, get, patch } from '../lib/http'
+
+vi.mock('../lib/http', () => ({ get: vi.fn(), post: vi.fn(), patch: vi.fn(), del: vi.fn() }))
+
+const rows = [
+  { thread_id: 't-2', title: 'Quarterly plan', last_message: 'Here is the outline.', created_at: '2024-01-02T10:00:00Z', updated_at: '2024-01-02T10:05:00Z' },
+  { thread_id: 't-1', title: '', last_message: 'Hello there', created_at: '2024-01-01T09:00:00Z', updated_at: '2024-01-01T09:01:00Z' },
+  { title: 'no id' },
+]
+
+function open(currentId = 't-2') {
+  const props = { currentId, onOpen: vi.fn(), onNew: vi.fn(), onDeleted: vi.fn(), onClose: vi.fn() }
+  render(<ThreadSidebar {...props} />)
+  return props
+}
+
+describe('ThreadSidebar', () => {
+  beforeEach(() => {
+    vi.mocked(get).mockResolvedValue({ count: 3, next: null, previous: null, results: rows })
+    vi.mocked(patch).mockReset().mockResolvedValue({})
+    vi.mocked(del).mockReset().mockResolvedValue(undefined)
+  })
+
+  it("lists the bot's threads newest first and opens another one", async () => {
+    const props = open()
+    await screen.findByText('Quarterly plan')
+    expect(vi.mocked(get).mock.calls[0][0]).toMatch(/^\/api\/sessions\/\?.*ordering=-updated_at/)
+    expect(screen.getAllByRole('listitem')).toHaveLength(2)
+    // untitled: labelled by its last message
+    expect(screen.getAllByText('Hello there')).toHaveLength(2)
+
+    const current = screen.getByText('Quarterly plan').closest('button')!
+    expect(current.getAttribute('aria-current')).toBe('true')
+    fireEvent.click(current)
+    expect(props.onOpen).not.toHaveBeenCalled()
+    fireEvent.click(screen.getAllByText('Hello there')[0].closest('button')!)
+    expect(props.onOpen).toHaveBeenCalledWith('t-1')
+  })
+
+  it('renames inline on Enter and keeps the old title on Esc', async () => {
+    open()
+    fireEvent.click(await screen.findByLabelText('Rename Quarterly plan'))
+    fireEvent.keyDown(screen.getByLabelText('Conversation title'), { key: 'Escape' })
+    expect(screen.queryByLabelText('Conversation title')).toBeNull()
+    expect(patch).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByLabelText('Rename Quarterly plan'))
+    const input = screen.getByLabelText('Conversation title')
+    fireEvent.change(input, { target: { value: '  Q3 plan ' } })
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(screen.getByText('Q3 plan')).toBeTruthy()
+    expect(patch).toHaveBeenCalledExactlyOnceWith('/api/sessions/t-2/', { title: 'Q3 plan' })
+  })
+
+  it('deletes a thread after confirming', async () => {
+    const props = open()
+    fireEvent.click(await screen.findByLabelText('Delete Quarterly plan'))
+    fireEvent.click(screen.getByText('Keep'))
+    expect(del).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByLabelText('Delete Quarterly plan'))
+    fireEvent.click(screen.getByText('Delete'))
+    await waitFor(() => expect(props.onDeleted).toHaveBeenCalledWith('t-2'))
+    expect(del).toHaveBeenCalledWith('/api/sessions/t-2/')
+    expect(screen.queryByText('Quarterly plan')).toBeNull()
+  })
+
+  it('loads older threads from the next page on demand', async () => {
+    const older = [
+      // moved to page 2 by an update elsewhere after page 1 was fetched
+      rows[1],
+      { thread_id: 't-0', title: 'Kickoff', last_message: '', created_at: '2023-12-01T09:00:00Z', updated_at: '2023-12-01T09:00:00Z' },
+    ]
+    vi.mocked(get).mockReset()
+      .mockResolvedValueOnce({ count: 3, next: 'https://api.example.com/api/sessions/?bot_id=b&page=2', results: rows.slice(0, 2) })
+      .mockResolvedValueOnce({ count: 3, next: null, results: older })
+    open()
+    await screen.findByText('Quarterly plan')
+    expect(screen.queryByText('Kickoff')).toBeNull()
+
+    fireEvent.click(screen.getByText('Load older conversations'))
+    await screen.findByText('Kickoff')
+    expect(vi.mocked(get).mock.calls[1][0]).toBe('/api/sessions/?bot_id=b&page=2')
+    expect(screen.getAllByLabelText(/^Rename /)).toHaveLength(3)
+    expect(screen.queryByText('Load older conversations')).toBeNull()
+  })
+
+  it('offers a retry when the list does not load', async () => {
+    vi.mocked(get).mockRejectedValueOnce(new Error('500'))
+    open()
+    await screen.findByText("Couldn't load conversations")
+    fireEvent.click(screen.getByText('Retry'))
+    await screen.findByText('Quarterly plan')
+  })
+})
@@ -0,0 +1,218 @@
+// components/ThreadSidebar.tsx
+// Drawer listing this bot's past conversations (GET /api/sessions/), newest first.
+// - Picking one switches the app to it without a reload: App remounts ChatPane/SlidesPane on
+//   the new thread, which reopens the socket and loads its history and slides
+// - Rename is inline (Enter saves, Esc cancels); delete asks once, inline
+// The list is fetched whenever the drawer opens, so it picks up threads changed elsewhere.
+// Older pages load on demand from the button at the bottom of the list.
+import React from 'react'
+import { FiEdit2, FiPlus, FiTrash2, FiX } from 'react-icons/fi'
+import { deleteThread, listThreads, renameThread, threadLabel } from '../lib/session'
+import type { ThreadSummary } from '../lib/session'
+
+type Props = {
+  currentId: string
+  onOpen: (thread_id: string) => void
+  onNew: () => void
+  /** After a delete; the parent moves off the thread if it was the open one */
+  onDeleted: (thread_id: string) => void
+  onClose: () => void
+}
+
+/** Time for today's threads, date for older ones */
+function shortDate(iso: string) {
+  const d = new Date(iso)
+  if (Number.isNaN(d.getTime())) return ''
+  return d.toDateString() === new Date().toDateString()
+    ? d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : d.toLocaleDateString()
+}
+
+export default function ThreadSidebar({ currentId, onOpen, onNew, onDeleted, onClose }: Props) {
+  const [threads, setThreads] = React.useState<ThreadSummary[] | null>(null)
+  // the request for the next (older) page; null once the list is complete
+  const [next, setNext] = React.useState<string | null>(null)
+  const [loadingMore, setLoadingMore] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [editing, setEditing] = React.useState<{ id: string; title: string } | null>(null)
+  const [confirmId, setConfirmId] = React.useState<string | null>(null)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+  // Enter/Esc end the edit before the input's blur does; blur must not save a second time
+  const editDone = React.useRef(false)
+
+  const load = React.useCallback(async () => {
+    setError(null)
+    try {
+      const page = await listThreads()
+      setThreads(page.threads)
+      setNext(page.next)
+    } catch {
+      setError("Couldn't load conversations")
+    }
+  }, [])
+  React.useEffect(() => { void load() }, [load])
+
+  async function loadMore() {
+    if (!next || loadingMore) return
+    setLoadingMore(true)
+    setError(null)
+    try {
+      const page = await listThreads(next)
+      // a thread updated since the first page moved up; it must not show twice
+      setThreads(ts => {
+        const seen = new Set((ts ?? []).map(t => t.thread_id))
+        return [...(ts ?? []), ...page.threads.filter(t => !seen.has(t.thread_id))]
+      })
+      setNext(page.next)
+    } catch {
+      setError("Couldn't load older conversations")
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  function startEdit(t: ThreadSummary) {
+    editDone.current = false
+    setEditing({ id: t.thread_id, title: t.title })
+  }
+
+  async function saveTitle() {
+    if (!editing || editDone.current) return
+    editDone.current = true
+    const { id, title } = editing
+    setEditing(null)
+    const prev = threads
+    setThreads(ts => ts && ts.map(t => t.thread_id === id ? { ...t, title: title.trim() } : t))
+    try {
+      await renameThread(id, title.trim())
+    } catch {
+      setThreads(prev)
+      setError('Rename failed')
+    }
+  }
+
+  async function remove(id: string) {
+    setConfirmId(null)
+    setBusyId(id)
+    try {
+      await deleteThread(id)
+      setThreads(ts => ts && ts.filter(t => t.thread_id !== id))
+      onDeleted(id)
+    } catch {
+      setError('Delete failed')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  function onEditKey(e: React.KeyboardEvent<HTMLInputElement>) {
+    e.stopPropagation()
+    if (e.key === 'Enter') { e.preventDefault(); void saveTitle() }
+    if (e.key === 'Escape') { e.preventDefault(); editDone.current = true; setEditing(null) }
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 flex bg-black/30" onClick={onClose}>
+      <aside
+        aria-label="Conversations"
+        onClick={(e) => e.stopPropagation()}
+        className="flex h-full w-80 max-w-[85vw] flex-col bg-white shadow-2xl"
+      >
+        <div className="flex items-center justify-between border-b border-slate-200 px-3 py-2">
+          <div className="text-sm font-semibold text-slate-800">Conversations</div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onNew}
+              className="inline-flex items-center gap-1 rounded-lg bg-blue-600 px-2 py-1 text-xs text-white hover:bg-blue-700"
+            >
+              <FiPlus /> New
+            </button>
+            <button onClick={onClose} aria-label="Close conversations" className="rounded-lg p-1.5 text-slate-600 hover:bg-slate-100">
+              <FiX />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div role="status" className="flex items-center justify-between gap-2 bg-rose-50 px-3 py-1.5 text-xs text-rose-700">
+            {error}
+            <button onClick={() => void load()} className="underline">Retry</button>
+          </div>
+        )}
+
+        <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+          {threads === null && !error && <li className="px-2 py-1 text-xs text-slate-500">Loading…</li>}
+          {threads?.length === 0 && <li className="px-2 py-1 text-xs text-slate-500">No conversations yet</li>}
+          {threads?.map(t => {
+            const current = t.thread_id === currentId
+            const isEditing = editing?.id === t.thread_id
+            return (
+              <li
+                key={t.thread_id}
+                className={`group rounded-lg px-2 py-1.5 text-xs ${current ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-slate-50'} ${busyId === t.thread_id ? 'opacity-50' : ''}`}
+              >
+                {isEditing ? (
+                  <input
+                    autoFocus
+                    aria-label="Conversation title"
+                    value={editing.title}
+                    onChange={(e) => setEditing({ id: t.thread_id, title: e.target.value })}
+                    onKeyDown={onEditKey}
+                    onBlur={() => void saveTitle()}
+                    className="w-full rounded border border-blue-300 px-1 py-0.5 text-xs focus:outline-none focus:ring-1 focus:ring-blue-400"
+                  />
+                ) : (
+                  <div className="flex items-start gap-1">
+                    <button
+                      onClick={() => { if (!current) onOpen(t.thread_id) }}
+                      aria-current={current ? 'true' : undefined}
+                      className="min-w-0 flex-1 text-left"
+                    >
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className="truncate font-medium text-slate-800">{threadLabel(t)}</span>
+                        <span className="shrink-0 text-[10px] text-slate-400">{shortDate(t.updated_at)}</span>
+                      </div>
+                      {t.last_message && <div className="truncate text-slate-500">{t.last_message}</div>}
+                    </button>
+                    <button
+                      onClick={() => startEdit(t)}
+                      aria-label={`Rename ${threadLabel(t)}`}
+                      className="rounded p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-700"
+                    >
+                      <FiEdit2 />
+                    </button>
+                    <button
+                      onClick={() => setConfirmId(t.thread_id)}
+                      aria-label={`Delete ${threadLabel(t)}`}
+                      className="rounded p-1 text-slate-400 hover:bg-rose-50 hover:text-rose-700"
+                    >
+                      <FiTrash2 />
+                    </button>
+                  </div>
+                )}
+                {confirmId === t.thread_id && (
+                  <div className="mt-1 flex items-center gap-2 text-[11px] text-rose-700">
+                    Delete this conversation and its slides?
+                    <button onClick={() => void remove(t.thread_id)} className="rounded bg-rose-600 px-1.5 py-0.5 text-white hover:bg-rose-700">Delete</button>
+                    <button onClick={() => setConfirmId(null)} className="rounded border border-slate-300 px-1.5 py-0.5 text-slate-600 hover:bg-slate-50">Keep</button>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+          {threads && next && (
+            <li className="px-2 py-1">
+              <button
+                onClick={() => void loadMore()}
+                disabled={loadingMore}
+                className="w-full rounded-lg py-1 text-xs text-slate-600 hover:bg-slate-100 disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading…' : 'Load older conversations'}
+              </button>
+            </li>
+          )}
+        </ul>
+      </aside>
+    </div>
+  )
+}
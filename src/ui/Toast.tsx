@@ -0,0 +1,30 @@
+// components/Toast.tsx
+// A short notice above the input row (e.g. a recording that was not sent). It dismisses itself;
+// the parent holds the message and clears it in `onDone`. A new `id` restarts the timer, so the
+// same text shown twice in a row still stays up for the full time.
+import React from 'react'
+
+export type ToastMsg = { id: number; text: string }
+
+type Props = {
+  toast: ToastMsg | null
+  onDone: () => void
+  ms?: number
+}
+
+export default function Toast({ toast, onDone, ms = 3500 }: Props) {
+  React.useEffect(() => {
+    if (!toast) return
+    const t = window.setTimeout(onDone, ms)
+    return () => clearTimeout(t)
+  }, [toast, onDone, ms])
+
+  if (!toast) return null
+  return (
+    <div className="flex justify-center">
+      <div role="status" className="rounded-full bg-slate-800/90 px-3 py-1 text-xs text-white shadow">
+        {toast.text}
+      </div>
+    </div>
+  )
+}
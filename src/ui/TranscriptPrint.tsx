@@ -0,0 +1,40 @@
+// components/TranscriptPrint.tsx
+// The PDF export: the transcript laid out for paper, portalled into <body>. index.css hides it
+// on screen and, while printing, hides everything else; the browser's "Save as PDF" does the rest.
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkBreaks from 'remark-breaks'
+import { createPortal } from 'react-dom'
+import { blocksToMarkdown, emotionBadge, formatTs, speaker } from '../lib/transcript'
+import type { Transcript } from '../lib/transcript'
+
+export default function TranscriptPrint({ transcript: t }: { transcript: Transcript }) {
+  return createPortal(
+    <article className="transcript-print">
+      <h1>Conversation transcript</h1>
+      <p className="transcript-meta">
+        Thread {t.thread_id || '—'} · bot {t.bot_id || '—'} · exported {formatTs(t.exported_at)}
+      </p>
+      {t.messages.map((m, i) => (
+        <section key={i} className={`transcript-msg transcript-${m.role}`}>
+          <header>
+            <strong>{speaker(m)}</strong>
+            {!!m.ts && <span> · {formatTs(m.ts)}</span>}
+            {m.role === 'assistant' && !!m.emotion && <span className="transcript-badge">{emotionBadge(m.emotion)}</span>}
+          </header>
+          <ReactMarkdown remarkPlugins={[remarkGfm, remarkBreaks]}>{m.text}</ReactMarkdown>
+        </section>
+      ))}
+      {!t.messages.length && <p><em>No messages.</em></p>}
+      {t.slides && (
+        <section className="transcript-appendix">
+          <h2>Appendix: slides (v{t.slides.version})</h2>
+          <h3>{t.slides.title || 'Untitled Deck'}</h3>
+          {!!t.slides.summary && <p><em>{t.slides.summary}</em></p>}
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>{blocksToMarkdown(t.slides.editorjs)}</ReactMarkdown>
+        </section>
+      )}
+    </article>,
+    document.body,
+  )
+}
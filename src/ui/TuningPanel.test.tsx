@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import TuningPanel from './TuningPanel'
+import { DEFAULT_TUNING } from '../lib/visemeTuning'
+
+function mount(over: Partial<React.ComponentProps<typeof TuningPanel>> = {}) {
+  const props = {
+    value: DEFAULT_TUNING,
+    onChange: vi.fn<(t: typeof DEFAULT_TUNING) => void>(),
+    onSave: vi.fn(async () => {}),
+    onLoad: vi.fn(async () => {}),
+    onTestMouth: vi.fn(),
+    ...over,
+  }
+  render(<TuningPanel {...props} />)
+  fireEvent.click(screen.getByRole('button', { name: /lip-sync tuning/i }))
+  return props
+}
+
+describe('TuningPanel', () => {
+  it('starts collapsed', () => {
+    render(<TuningPanel value={DEFAULT_TUNING} onChange={vi.fn()} onSave={vi.fn()} onLoad={vi.fn()} onTestMouth={vi.fn()} />)
+    expect(screen.getByRole('button', { name: /lip-sync tuning/i }).getAttribute('aria-expanded')).toBe('false')
+    expect(screen.queryByLabelText('Jaw gain')).toBeNull()
+  })
+
+  it('emits scalar and per-channel changes', () => {
+    const p = mount()
+    fireEvent.change(screen.getByLabelText('Jaw gain'), { target: { value: '1.4' } })
+    expect(p.onChange).toHaveBeenLastCalledWith(expect.objectContaining({ jawGain: 1.4 }))
+    fireEvent.change(screen.getByLabelText('mouthPucker'), { target: { value: '0.5' } })
+    const t = vi.mocked(p.onChange).mock.lastCall![0]
+    expect(t.channelGain[3]).toBe(0.5)
+    expect(t.channelGain.filter(g => g !== 1)).toHaveLength(1)
+  })
+
+  it('resets to defaults and fires Test Mouth', () => {
+    const p = mount({ value: { ...DEFAULT_TUNING, gain: 2 } })
+    fireEvent.click(screen.getByRole('button', { name: 'Reset' }))
+    expect(p.onChange).toHaveBeenCalledWith(DEFAULT_TUNING)
+    fireEvent.click(screen.getByRole('button', { name: 'Test Mouth' }))
+    expect(p.onTestMouth).toHaveBeenCalledOnce()
+  })
+
+  it('reports preset save/load results', async () => {
+    mount({ onLoad: vi.fn(async () => { throw new Error('No preset saved for this agent') }) })
+    fireEvent.click(screen.getByRole('button', { name: 'Save preset' }))
+    expect((await screen.findByRole('status')).textContent).toBe('Preset saved')
+    fireEvent.click(screen.getByRole('button', { name: 'Load preset' }))
+    expect((await screen.findByRole('status')).textContent).toBe('No preset saved for this agent')
+  })
+})
@@ -0,0 +1,114 @@
+// components/TuningPanel.tsx
+// Collapsible lip-sync tuning (port of test.html's gain/smoothing/jaw/Test Mouth controls,
+// plus the scheduler's spring constants and per-channel gains). Controlled: App owns the
+// value, applies it live and persists presets on the agent.
+import React from 'react'
+import { ARKIT15 } from '../lib/morphProfile'
+import { CHANNEL_GAIN_RANGE, DEFAULT_TUNING, TUNING_RANGES } from '../lib/visemeTuning'
+import type { TuningScalar, VisemeTuning } from '../lib/visemeTuning'
+
+type Props = {
+  value: VisemeTuning
+  onChange: (t: VisemeTuning) => void
+  /** Store the current values as this agent's preset */
+  onSave: () => Promise<void>
+  /** Replace the current values with the agent's stored preset */
+  onLoad: () => Promise<void>
+  onTestMouth: () => void
+  className?: string
+}
+
+const OUTPUT: TuningScalar[] = ['gain', 'jawGain', 'smoothing']
+const SPRING: TuningScalar[] = ['zeta', 'freqBase', 'freqJaw', 'exaggeration', 'crossfadeS']
+
+export function Slider({ label, value, min, max, step, onChange, suffix = '' }: {
+  label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void; suffix?: string
+}) {
+  const digits = step >= 1 ? 0 : step < 0.01 ? 3 : 2
+  return (
+    <label className="block">
+      <div className="flex items-center justify-between text-[11px] text-slate-600">
+        <span className="truncate">{label}</span>
+        <span className="font-mono">{value.toFixed(digits)}{suffix}</span>
+      </div>
+      <input
+        type="range" aria-label={label} className="w-full"
+        min={min} max={max} step={step} value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </label>
+  )
+}
+
+export default function TuningPanel({ value, onChange, onSave, onLoad, onTestMouth, className = '' }: Props) {
+  const [open, setOpen] = React.useState(false)
+  const [busy, setBusy] = React.useState(false)
+  const [status, setStatus] = React.useState<string | null>(null)
+
+  const set = (k: TuningScalar, v: number) => onChange({ ...value, [k]: v })
+  const setChannel = (i: number, v: number) => {
+    const channelGain = value.channelGain.slice()
+    channelGain[i] = v
+    onChange({ ...value, channelGain })
+  }
+
+  async function run(what: 'save' | 'load') {
+    setBusy(true)
+    setStatus(null)
+    try {
+      await (what === 'save' ? onSave() : onLoad())
+      setStatus(what === 'save' ? 'Preset saved' : 'Preset loaded')
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : `Could not ${what} preset`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const scalar = (k: TuningScalar) => {
+    const r = TUNING_RANGES[k]
+    return <Slider key={k} label={r.label} value={value[k]} min={r.min} max={r.max} step={r.step}
+      suffix={k === 'gain' || k === 'jawGain' ? '×' : ''} onChange={(v) => set(k, v)} />
+  }
+
+  return (
+    <div className={`rounded-lg bg-white/95 shadow ring-1 ring-black/10 text-xs ${className}`}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+        className="w-full flex items-center justify-between gap-2 px-2 py-1 font-medium text-slate-700"
+      >
+        <span>Lip-sync tuning</span>
+        <span aria-hidden>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="max-h-[60vh] overflow-auto border-t border-slate-200 px-2 py-2 space-y-3">
+          <div className="space-y-1">{OUTPUT.map(scalar)}</div>
+
+          <div className="space-y-1">
+            <div className="text-[11px] font-semibold text-slate-500">Spring</div>
+            {SPRING.map(scalar)}
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-[11px] font-semibold text-slate-500">Channel gain</div>
+            {ARKIT15.map((c, i) => (
+              <Slider key={c} label={c} value={value.channelGain[i]} suffix="×"
+                min={CHANNEL_GAIN_RANGE.min} max={CHANNEL_GAIN_RANGE.max} step={CHANNEL_GAIN_RANGE.step}
+                onChange={(v) => setChannel(i, v)} />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-1.5">
+            <button onClick={onTestMouth} className="rounded bg-slate-800 px-2 py-1 text-white hover:bg-slate-900">Test Mouth</button>
+            <button onClick={() => onChange(DEFAULT_TUNING)} className="rounded border border-slate-300 px-2 py-1 hover:bg-slate-50">Reset</button>
+            <button disabled={busy} onClick={() => run('load')} className="rounded border border-slate-300 px-2 py-1 hover:bg-slate-50 disabled:opacity-50">Load preset</button>
+            <button disabled={busy} onClick={() => run('save')} className="rounded bg-emerald-600 px-2 py-1 text-white hover:bg-emerald-700 disabled:opacity-50">Save preset</button>
+          </div>
+          {status && <div role="status" className="text-[11px] text-slate-500">{status}</div>}
+        </div>
+      )}
+    </div>
+  )
+}
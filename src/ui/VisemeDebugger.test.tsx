@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import VisemeDebugger from './VisemeDebugger'
+import { createVisemeRecorder } from '../lib/visemeDebug'
+
+vi.mock('../lib/visemeEstimator', () => ({ decodeAudioPayload: vi.fn(async () => { throw new Error('no decoder') }) }))
+
+function recordChunk(rec: ReturnType<typeof createVisemeRecorder>, id: number, jaw: number[]) {
+  const frames = jaw.map(v => { const r = new Float32Array(15); r[0] = v; return r })
+  const times = Float32Array.from(jaw, (_, i) => i / (jaw.length - 1))
+  act(() => rec.tap.chunk({ id, msg: { chunk_index: id - 1 }, source: 'server', frames, timesRaw: times, times, duration: 1 }))
+}
+
+describe('VisemeDebugger', () => {
+  beforeEach(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null)
+  })
+
+  it('says so when nothing has been recorded', () => {
+    render(<VisemeDebugger recorder={createVisemeRecorder()} onFrame={vi.fn()} onClose={vi.fn()} />)
+    expect(screen.getByText(/no audio_response chunks recorded/i)).toBeTruthy()
+  })
+
+  it('follows the latest chunk and steps it frame by frame on the avatar', () => {
+    const rec = createVisemeRecorder()
+    const onFrame = vi.fn()
+    render(<VisemeDebugger recorder={rec} onFrame={onFrame} onClose={vi.fn()} />)
+    recordChunk(rec, 1, [0, 0.2])
+    recordChunk(rec, 2, [0, 1])
+    expect(screen.getByTestId('timeline-info').textContent).toMatch(/^chunk 1 · server · 2 frames/)
+
+    fireEvent.click(screen.getByRole('button', { name: /frame ▶/ }))
+    fireEvent.click(screen.getByRole('button', { name: /frame ▶/ }))
+    expect(screen.getByTestId('timeline-info').textContent).toContain('t=0.033s')
+    const f = onFrame.mock.lastCall![0] as number[]
+    expect(f[0]).toBeGreaterThan(0)
+    expect(f[0]).toBeLessThan(0.1)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Live' }))
+    expect(onFrame).toHaveBeenLastCalledWith(null)
+  })
+
+  it('scrubs an older chunk with the arrow keys and releases the avatar on unmount', () => {
+    const rec = createVisemeRecorder()
+    recordChunk(rec, 1, [1, 1])
+    recordChunk(rec, 2, [0, 0])
+    const onFrame = vi.fn()
+    const view = render(<VisemeDebugger recorder={rec} onFrame={onFrame} onClose={vi.fn()} />)
+    fireEvent.change(screen.getByLabelText('Chunk'), { target: { value: '1' } })
+    fireEvent.keyDown(screen.getByTestId('timeline-info'), { key: 'ArrowRight' })
+    expect((onFrame.mock.lastCall![0] as number[])[0]).toBeCloseTo(1)
+    view.unmount()
+    expect(onFrame).toHaveBeenLastCalledWith(null)
+  })
+})
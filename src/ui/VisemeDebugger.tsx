@@ -0,0 +1,272 @@
+// components/VisemeDebugger.tsx
+// Timeline debugger for lip-sync: pick a recorded audio_response chunk, see its waveform,
+// the server frames, the re-sampled Catmull–Rom target and the spring output per ARKit-15
+// channel, then scrub / step / replay it on the avatar (App routes `onFrame` ahead of the scheduler).
+import React from 'react'
+import { ARKIT15 } from '../lib/morphProfile'
+import { frameAt, targetAt, waveformPeaks } from '../lib/visemeDebug'
+import type { RecordedChunk, VisemeRecorder } from '../lib/visemeDebug'
+import { decodeAudioPayload } from '../lib/visemeEstimator'
+import { payloadUrl, releasePayloadUrl } from '../lib/bytes'
+
+type Props = {
+  recorder: VisemeRecorder
+  /** Frame to show on the avatar while scrubbing; null hands the avatar back to live playback */
+  onFrame: (f: number[] | null) => void
+  onClose: () => void
+  className?: string
+}
+
+const LABEL_W = 112
+const WAVE_H = 44
+const ROW_H = 18
+const STEP_S = 1 / 60
+const COLORS = { raw: '#94a3b8', target: '#2563eb', out: '#ea580c', cursor: '#e11d48', rawTick: '#d97706' }
+
+function drawTimeline(
+  cv: HTMLCanvasElement,
+  c: RecordedChunk,
+  peaks: Array<[number, number]> | null,
+  t: number,
+) {
+  const ctx = cv.getContext('2d')
+  if (!ctx) return
+  const dpr = window.devicePixelRatio || 1
+  const w = cv.clientWidth || 600
+  const h = WAVE_H + ARKIT15.length * ROW_H
+  if (cv.width !== Math.round(w * dpr) || cv.height !== Math.round(h * dpr)) {
+    cv.width = Math.round(w * dpr); cv.height = Math.round(h * dpr)
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+  ctx.clearRect(0, 0, w, h)
+  ctx.font = '10px ui-monospace, monospace'
+
+  const plotW = Math.max(1, w - LABEL_W)
+  const dur = Math.max(1e-3, c.duration)
+  const xOf = (s: number) => LABEL_W + (s / dur) * plotW
+
+  // waveform + timeline ticks (raw server times above, scaled times below)
+  ctx.fillStyle = '#f1f5f9'
+  ctx.fillRect(LABEL_W, 0, plotW, WAVE_H)
+  ctx.fillStyle = '#475569'
+  ctx.fillText('audio', 4, WAVE_H / 2 + 3)
+  if (peaks) {
+    const mid = WAVE_H / 2
+    ctx.strokeStyle = '#64748b'
+    ctx.beginPath()
+    peaks.forEach(([lo, hi], x) => {
+      const px = LABEL_W + (x / peaks.length) * plotW
+      ctx.moveTo(px, mid - hi * mid * 0.9)
+      ctx.lineTo(px, mid - lo * mid * 0.9)
+    })
+    ctx.stroke()
+  }
+  ctx.strokeStyle = COLORS.rawTick
+  ctx.beginPath()
+  for (const s of c.timesRaw) { const x = xOf(s); ctx.moveTo(x, 0); ctx.lineTo(x, 5) }
+  ctx.stroke()
+  ctx.strokeStyle = COLORS.raw
+  ctx.beginPath()
+  for (const s of c.times) { const x = xOf(s); ctx.moveTo(x, WAVE_H - 5); ctx.lineTo(x, WAVE_H) }
+  ctx.stroke()
+
+  // target re-sampled per pixel column
+  const cols = Math.min(plotW, 800)
+  const target = Array.from({ length: cols }, (_, i) => targetAt(c, (i / (cols - 1)) * dur))
+  const samples = [...c.samples].sort((a, b) => a.t - b.t)
+
+  ARKIT15.forEach((name, k) => {
+    const y0 = WAVE_H + k * ROW_H
+    const yOf = (v: number) => y0 + ROW_H - 2 - v * (ROW_H - 4)
+    ctx.fillStyle = k % 2 ? '#ffffff' : '#f8fafc'
+    ctx.fillRect(0, y0, w, ROW_H)
+    ctx.fillStyle = '#475569'
+    ctx.fillText(name, 4, y0 + ROW_H / 2 + 3)
+
+    // server frames: dots at their (scaled) times
+    ctx.fillStyle = COLORS.raw
+    c.frames.forEach((f, i) => {
+      const s = c.times[i]
+      if (s != null) ctx.fillRect(xOf(s) - 1, yOf(f[k] || 0) - 1, 2, 2)
+    })
+    const line = (pts: Array<[number, number]>, color: string) => {
+      if (pts.length < 2) return
+      ctx.strokeStyle = color
+      ctx.beginPath()
+      pts.forEach(([x, v], i) => (i ? ctx.lineTo(x, yOf(v)) : ctx.moveTo(x, yOf(v))))
+      ctx.stroke()
+    }
+    line(target.map((f, i) => [LABEL_W + (i / (cols - 1)) * plotW, f[k]]), COLORS.target)
+    line(samples.map(s => [xOf(s.t), s.out[k]]), COLORS.out)
+  })
+
+  // cursor
+  ctx.strokeStyle = COLORS.cursor
+  ctx.beginPath()
+  ctx.moveTo(xOf(t), 0)
+  ctx.lineTo(xOf(t), h)
+  ctx.stroke()
+}
+
+export default function VisemeDebugger({ recorder, onFrame, onClose, className = '' }: Props) {
+  const version = React.useSyncExternalStore(recorder.subscribe, recorder.version)
+  const chunks = recorder.chunks()
+  const [pickedId, setPickedId] = React.useState<number | null>(null) // null = follow the latest
+  const chunk = chunks.find(c => c.id === pickedId) ?? chunks[chunks.length - 1] ?? null
+
+  const [t, setT] = React.useState(0)
+  const [scrubbing, setScrubbing] = React.useState(false)
+  const [playing, setPlaying] = React.useState(false)
+  const [peaks, setPeaks] = React.useState<Array<[number, number]> | null>(null)
+  const canvasRef = React.useRef<HTMLCanvasElement>(null)
+  const player = React.useRef<{ audio: HTMLAudioElement | null; url: string | null; raf: number } | null>(null)
+
+  const stopPlayback = React.useCallback(() => {
+    const p = player.current
+    if (!p) return
+    cancelAnimationFrame(p.raf)
+    try { p.audio?.pause() } catch { /* already stopped */ }
+    if (p.url) releasePayloadUrl(p.url)
+    player.current = null
+    setPlaying(false)
+  }, [])
+
+  const goLive = React.useCallback(() => {
+    stopPlayback()
+    setScrubbing(false)
+    onFrame(null)
+  }, [onFrame, stopPlayback])
+
+  // hand the avatar back when the overlay goes away
+  React.useEffect(() => () => { stopPlayback(); onFrame(null) }, [onFrame, stopPlayback])
+
+  // scrubbed frame → avatar
+  React.useEffect(() => {
+    if (scrubbing && chunk) onFrame(frameAt(chunk, t))
+  }, [scrubbing, chunk, t, onFrame])
+
+  // waveform for the selected chunk
+  React.useEffect(() => {
+    setPeaks(null)
+    if (!chunk?.audio) return
+    let cancelled = false
+    decodeAudioPayload(chunk.audio)
+      .then(({ pcm }) => { if (!cancelled) setPeaks(waveformPeaks(pcm, 800)) })
+      .catch(() => { /* no waveform; the rest still plots */ })
+    return () => { cancelled = true }
+  }, [chunk?.id, chunk?.audio])
+
+  // redraw; while following live playback, samples keep arriving, so poll
+  React.useEffect(() => {
+    if (!chunk || !canvasRef.current) return
+    const cv = canvasRef.current
+    drawTimeline(cv, chunk, peaks, t)
+    if (scrubbing) return
+    const id = window.setInterval(() => drawTimeline(cv, chunk, peaks, t), 250)
+    return () => window.clearInterval(id)
+  }, [chunk, peaks, t, scrubbing, version])
+
+  function scrubTo(s: number) {
+    if (!chunk) return
+    stopPlayback()
+    setScrubbing(true)
+    setT(Math.max(0, Math.min(chunk.duration, s)))
+  }
+
+  function onPointer(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!chunk || (e.type === 'pointermove' && e.buttons !== 1)) return
+    const r = e.currentTarget.getBoundingClientRect()
+    const plotW = Math.max(1, r.width - LABEL_W)
+    scrubTo(((e.clientX - r.left - LABEL_W) / plotW) * chunk.duration)
+  }
+
+  function play() {
+    if (!chunk) return
+    stopPlayback()
+    setScrubbing(true)
+    const from = t >= chunk.duration - STEP_S ? 0 : t
+    const url = chunk.audio ? payloadUrl(chunk.audio, chunk.audioFormat) : null
+    const audio = url ? new Audio(url) : null
+    const t0 = performance.now() / 1000 - from
+    const p = { audio, url, raf: 0 }
+    player.current = p
+    setPlaying(true)
+    if (audio) {
+      audio.currentTime = from
+      void audio.play().catch(() => {})
+    }
+    const step = () => {
+      if (player.current !== p) return
+      const now = audio && !audio.paused ? audio.currentTime : performance.now() / 1000 - t0
+      setT(Math.min(chunk.duration, now))
+      if (now >= chunk.duration || audio?.ended) { stopPlayback(); return }
+      p.raf = requestAnimationFrame(step)
+    }
+    p.raf = requestAnimationFrame(step)
+  }
+
+  function onKey(e: React.KeyboardEvent) {
+    if (e.key === 'ArrowLeft') { e.preventDefault(); scrubTo(t - STEP_S) }
+    if (e.key === 'ArrowRight') { e.preventDefault(); scrubTo(t + STEP_S) }
+    if (e.key === ' ') { e.preventDefault(); if (playing) stopPlayback(); else play() }
+  }
+
+  const rawTail = chunk?.timesRaw[chunk.timesRaw.length - 1] || 0
+  const frameIdx = chunk ? chunk.times.findIndex(s => s >= t) : -1
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={onKey}
+      className={`rounded-xl bg-white shadow-2xl ring-1 ring-black/10 text-xs outline-none ${className}`}
+    >
+      <div className="flex flex-wrap items-center gap-2 border-b border-slate-200 px-3 py-2">
+        <div className="font-semibold text-slate-700">Viseme timeline</div>
+        <select
+          aria-label="Chunk"
+          className="rounded border border-slate-300 px-1 py-0.5"
+          value={pickedId ?? ''}
+          onChange={(e) => { goLive(); setPickedId(e.target.value ? Number(e.target.value) : null); setT(0) }}
+        >
+          <option value="">Latest</option>
+          {chunks.map(c => (
+            <option key={c.id} value={c.id}>{c.label} · {c.source} · {c.duration.toFixed(2)}s</option>
+          ))}
+        </select>
+        <button disabled={!chunk} onClick={() => scrubTo(t - STEP_S)} className="rounded border px-2 py-0.5 disabled:opacity-50" title="Previous frame (←)">◀ frame</button>
+        <button disabled={!chunk} onClick={() => (playing ? stopPlayback() : play())} className="rounded border px-2 py-0.5 disabled:opacity-50" title="Replay (space)">{playing ? 'Pause' : 'Replay'}</button>
+        <button disabled={!chunk} onClick={() => scrubTo(t + STEP_S)} className="rounded border px-2 py-0.5 disabled:opacity-50" title="Next frame (→)">frame ▶</button>
+        <button disabled={!scrubbing} onClick={goLive} className="rounded border px-2 py-0.5 disabled:opacity-50">Live</button>
+        <button onClick={() => { goLive(); setPickedId(null); recorder.clear() }} className="rounded border px-2 py-0.5">Clear</button>
+        <div className="ml-auto flex items-center gap-3 text-[11px] text-slate-500">
+          <span><span style={{ color: COLORS.raw }}>●</span> frames</span>
+          <span><span style={{ color: COLORS.target }}>━</span> target</span>
+          <span><span style={{ color: COLORS.out }}>━</span> spring</span>
+          <span><span style={{ color: COLORS.rawTick }}>┃</span> raw times</span>
+        </div>
+        <button onClick={onClose} aria-label="Close timeline" className="rounded px-2 py-0.5 text-slate-500 hover:bg-slate-100">✕</button>
+      </div>
+
+      {chunk ? (
+        <div className="px-3 py-2 space-y-1">
+          <div className="font-mono text-[11px] text-slate-600" data-testid="timeline-info">
+            {chunk.label} · {chunk.source} · {chunk.frames.length} frames · raw {rawTail.toFixed(3)}s → {chunk.duration.toFixed(3)}s
+            {rawTail > 0 && ` (×${(chunk.duration / rawTail).toFixed(3)})`} · {chunk.samples.length} ticks
+            {' '}· t={t.toFixed(3)}s{frameIdx >= 0 && ` · frame ${frameIdx}`}{scrubbing ? ' · scrubbing' : ''}
+          </div>
+          <div className="max-h-[50vh] overflow-auto">
+            <canvas
+              ref={canvasRef}
+              className="block w-full cursor-col-resize"
+              style={{ height: WAVE_H + ARKIT15.length * ROW_H }}
+              onPointerDown={onPointer}
+              onPointerMove={onPointer}
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="px-3 py-6 text-center text-slate-500">No audio_response chunks recorded yet.</div>
+      )}
+    </div>
+  )
+}